@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { dirname } from 'path';
+import { FACTOR_UNIT_ERROR, isFactorUnit } from './factorUnits.js';
+
+// File-based emission factor library, kept beside the upload store until it
+// gets its own table. Every edit keeps the replaced values as a revision, and
+// factors are retired rather than deleted, so earlier vintages stay traceable
+// and historic figures keep the factor that produced them.
+
+export const EMISSION_FACTOR_STANDARDS = ['CEA', 'IPCC', 'DEFRA', 'Other'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Returns the cleaned factor fields, or an error message for the first invalid one
+export function validateEmissionFactor(input) {
+    const body = input || {};
+    const source = String(body.source ?? '').trim();
+    const value = Number(body.value);
+    const year = Number(body.year);
+    const unit = String(body.unit ?? '').trim();
+    const effectiveTo = body.effectiveTo ? String(body.effectiveTo) : null;
+
+    if (!source) return { error: 'source is required' };
+    if (!EMISSION_FACTOR_STANDARDS.includes(body.standard)) {
+        return { error: `standard must be one of ${EMISSION_FACTOR_STANDARDS.join(', ')}` };
+    }
+    if (body.value === '' || body.value == null || !Number.isFinite(value)) return { error: 'value must be a number' };
+    if (!isFactorUnit(unit)) return { error: FACTOR_UNIT_ERROR };
+    if (!Number.isInteger(year)) return { error: 'year must be a whole number' };
+    if (!DATE_PATTERN.test(String(body.effectiveFrom ?? ''))) return { error: 'effectiveFrom must be a YYYY-MM-DD date' };
+    if (effectiveTo && (!DATE_PATTERN.test(effectiveTo) || effectiveTo < body.effectiveFrom)) {
+        return { error: 'effectiveTo must be a YYYY-MM-DD date on or after effectiveFrom' };
+    }
+
+    return {
+        factor: {
+            source,
+            region: String(body.region ?? '').trim(),
+            year,
+            standard: body.standard,
+            vintage: String(body.vintage ?? '').trim(),
+            value,
+            unit,
+            effectiveFrom: body.effectiveFrom,
+            effectiveTo,
+        },
+    };
+}
+
+export function createEmissionFactorStore(filePath) {
+    // Serialises writes so concurrent edits cannot clobber the file
+    let queue = Promise.resolve();
+    const enqueue = task => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+
+    async function readFactors() {
+        try {
+            return JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    async function writeFactors(factors) {
+        await fs.mkdir(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(factors, null, 2));
+        await fs.rename(tmpPath, filePath);
+    }
+
+    async function listFactors() {
+        const factors = await readFactors();
+        return factors.sort((a, b) =>
+            a.source.localeCompare(b.source) || b.effectiveFrom.localeCompare(a.effectiveFrom));
+    }
+
+    function createFactor(fields) {
+        return enqueue(async () => {
+            const factor = { id: randomUUID(), ...fields, updatedAt: new Date().toISOString(), retiredAt: null, revisions: [] };
+            await writeFactors([...(await readFactors()), factor]);
+            return factor;
+        });
+    }
+
+    function updateFactor(id, fields) {
+        return enqueue(async () => {
+            const factors = await readFactors();
+            const existing = factors.find(f => f.id === id);
+            if (!existing) return null;
+            const { revisions, id: _id, ...previous } = existing;
+            const updated = { ...existing, ...fields, updatedAt: new Date().toISOString(), revisions: [previous, ...revisions] };
+            await writeFactors(factors.map(f => (f === existing ? updated : f)));
+            return updated;
+        });
+    }
+
+    // Ends the factor's effective dates today, keeping it for the periods it already covered
+    function retireFactor(id) {
+        return enqueue(async () => {
+            const factors = await readFactors();
+            const existing = factors.find(f => f.id === id);
+            if (!existing) return null;
+            if (existing.retiredAt) return existing;
+            const now = new Date().toISOString();
+            const today = now.slice(0, 10);
+            const { revisions, id: _id, retiredAt: _retiredAt, ...previous } = existing;
+            const retired = {
+                ...existing,
+                effectiveTo: existing.effectiveTo && existing.effectiveTo < today ? existing.effectiveTo : today,
+                updatedAt: now,
+                retiredAt: now,
+                revisions: [previous, ...revisions],
+            };
+            await writeFactors(factors.map(f => (f === existing ? retired : f)));
+            return retired;
+        });
+    }
+
+    return { listFactors, createFactor, updateFactor, retireFactor };
+}
@@ -0,0 +1,46 @@
+// Units an emission factor can be stated in, read the way the client reads them
+// (parseFactorUnit in src/lib/emissionFactors.ts): "<emissions unit>/<activity unit>",
+// e.g. "tCO2e/kWh" or "kgCO2e/L". Kept in step with UNITS in src/lib/units.ts.
+
+const EMISSIONS_UNITS = [
+    { id: 'tCO2e', aliases: ['tco2e', 'tco2', 'tco₂e', 'tonnes co2e'] },
+    { id: 'kgCO2e', aliases: ['kgco2e', 'kgco2', 'kgco₂e', 'kg co2e'] },
+];
+
+// Concentration units are left out: their "/" would split the factor unit in three
+const ACTIVITY_UNITS = [
+    { id: 'm3', aliases: ['m3', 'm³', 'cum', 'cubic metre', 'cubic meter', 'cubic metres', 'cubic meters'] },
+    { id: 'KL', aliases: ['kl', 'kilolitre', 'kiloliter', 'kilolitres', 'kiloliters'] },
+    { id: 'L', aliases: ['l', 'ltr', 'ltrs', 'litre', 'liter', 'litres', 'liters'] },
+    { id: 'ML', aliases: ['megalitre', 'megaliter', 'megalitres', 'megaliters'] },
+    { id: 'SCM', aliases: ['scm', 'sm3', 'standard cubic metre', 'standard cubic meter'] },
+    { id: 'kg', aliases: ['kg', 'kgs', 'kilogram', 'kilograms'] },
+    { id: 'g', aliases: ['g', 'gm', 'gram', 'grams'] },
+    { id: 'quintal', aliases: ['quintal', 'quintals', 'qtl'] },
+    { id: 'MT', aliases: ['mt', 't', 'tonne', 'tonnes', 'ton', 'tons', 'metric tonne', 'metric ton'] },
+    { id: 'GJ', aliases: ['gj', 'gigajoule', 'gigajoules'] },
+    { id: 'MJ', aliases: ['mj', 'megajoule', 'megajoules'] },
+    { id: 'TJ', aliases: ['tj', 'terajoule', 'terajoules'] },
+    { id: 'kWh', aliases: ['kwh', 'kilowatt hour', 'kilowatt hours'] },
+    { id: 'MWh', aliases: ['mwh', 'megawatt hour', 'megawatt hours'] },
+    { id: 'GWh', aliases: ['gwh', 'gigawatt hour', 'gigawatt hours'] },
+    { id: 'kcal', aliases: ['kcal', 'kilocalorie', 'kilocalories'] },
+    { id: 'MMBtu', aliases: ['mmbtu'] },
+    { id: 'toe', aliases: ['toe', 'tonne of oil equivalent', 'tonnes of oil equivalent'] },
+    ...EMISSIONS_UNITS,
+];
+
+// Ids match case-sensitively so "ML" (megalitre) is not read as millilitres
+const findUnit = (units, text) => {
+    const key = text.replace(/\s+/g, ' ').replace(/\.$/, '').trim();
+    if (!key) return null;
+    return units.find(u => u.id === key) ?? units.find(u => u.aliases.includes(key.toLowerCase())) ?? null;
+};
+
+export function isFactorUnit(unit) {
+    const [numerator, denominator, ...rest] = String(unit ?? '').split('/');
+    if (denominator === undefined || rest.length > 0) return false;
+    return Boolean(findUnit(EMISSIONS_UNITS, numerator) && findUnit(ACTIVITY_UNITS, denominator));
+}
+
+export const FACTOR_UNIT_ERROR = 'unit must be an emissions unit per activity unit, e.g. tCO2e/kWh, kgCO2e/kWh or tCO2e/L';
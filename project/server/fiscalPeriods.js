@@ -0,0 +1,25 @@
+// Indian financial year periods (April–March). Months are matched on their
+// first three letters so "Apr" and "April" both count.
+
+export const FISCAL_QUARTERS = {
+    Q1: ['Apr', 'May', 'Jun'],
+    Q2: ['Jul', 'Aug', 'Sep'],
+    Q3: ['Oct', 'Nov', 'Dec'],
+    Q4: ['Jan', 'Feb', 'Mar'],
+};
+
+export const FISCAL_HALVES = {
+    H1: [...FISCAL_QUARTERS.Q1, ...FISCAL_QUARTERS.Q2],
+    H2: [...FISCAL_QUARTERS.Q3, ...FISCAL_QUARTERS.Q4],
+};
+
+// Short month names for the selected quarter/half, or null when neither narrows the months
+export function fiscalPeriodMonths(filters = {}) {
+    let months = null;
+    const narrow = list => {
+        months = months ? months.filter(m => list.includes(m)) : list;
+    };
+    if (filters.quarter && FISCAL_QUARTERS[filters.quarter]) narrow(FISCAL_QUARTERS[filters.quarter]);
+    if (filters.half && FISCAL_HALVES[filters.half]) narrow(FISCAL_HALVES[filters.half]);
+    return months;
+}
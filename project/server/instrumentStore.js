@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { dirname } from 'path';
+
+// File-based register of contractual instruments (RECs, PPAs, green tariffs)
+// used for market-based Scope 2. Kept beside the emission factor library until
+// it gets its own table.
+
+export const INSTRUMENT_TYPES = ['REC', 'PPA', 'Green Tariff'];
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+// Returns the cleaned instrument fields, or an error message for the first invalid one
+export function validateInstrument(input) {
+    const body = input || {};
+    const plant = String(body.plant ?? '').trim();
+    const quantity = Number(body.quantity);
+    const emissionFactor = body.emissionFactor === '' || body.emissionFactor == null ? 0 : Number(body.emissionFactor);
+
+    if (!INSTRUMENT_TYPES.includes(body.type)) return { error: `type must be one of ${INSTRUMENT_TYPES.join(', ')}` };
+    if (!plant) return { error: 'plant is required' };
+    if (!MONTH_PATTERN.test(String(body.periodFrom ?? ''))) return { error: 'periodFrom must be a YYYY-MM month' };
+    if (!MONTH_PATTERN.test(String(body.periodTo ?? '')) || body.periodTo < body.periodFrom) {
+        return { error: 'periodTo must be a YYYY-MM month on or after periodFrom' };
+    }
+    if (!Number.isFinite(quantity) || quantity <= 0) return { error: 'quantity must be a positive number of kWh' };
+    if (!Number.isFinite(emissionFactor) || emissionFactor < 0) return { error: 'emissionFactor must be zero or more' };
+
+    return {
+        instrument: {
+            type: body.type,
+            plant,
+            periodFrom: body.periodFrom,
+            periodTo: body.periodTo,
+            quantity,
+            emissionFactor,
+            supplier: String(body.supplier ?? '').trim(),
+            reference: String(body.reference ?? '').trim(),
+        },
+    };
+}
+
+export function createInstrumentStore(filePath) {
+    // Serialises writes so concurrent edits cannot clobber the file
+    let queue = Promise.resolve();
+    const enqueue = task => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+
+    async function readInstruments() {
+        try {
+            return JSON.parse(await fs.readFile(filePath, 'utf8'));
+        } catch (error) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    async function writeInstruments(instruments) {
+        await fs.mkdir(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(instruments, null, 2));
+        await fs.rename(tmpPath, filePath);
+    }
+
+    async function listInstruments(filters = {}) {
+        const instruments = await readInstruments();
+        return instruments
+            .filter(i => !filters.plant || filters.plant === 'All' || i.plant === filters.plant)
+            .sort((a, b) => a.periodFrom.localeCompare(b.periodFrom) || a.plant.localeCompare(b.plant));
+    }
+
+    function createInstrument(fields) {
+        return enqueue(async () => {
+            const instrument = { id: randomUUID(), ...fields, createdAt: new Date().toISOString() };
+            await writeInstruments([...(await readInstruments()), instrument]);
+            return instrument;
+        });
+    }
+
+    function deleteInstrument(id) {
+        return enqueue(async () => {
+            const instruments = await readInstruments();
+            if (!instruments.some(i => i.id === id)) return false;
+            await writeInstruments(instruments.filter(i => i.id !== id));
+            return true;
+        });
+    }
+
+    return { listInstruments, createInstrument, deleteInstrument };
+}
@@ -4,6 +4,11 @@ import sql from 'mssql';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { createUploadStore, UPLOAD_MODULES } from './uploadStore.js';
+import { createEmissionFactorStore, validateEmissionFactor } from './emissionFactorStore.js';
+import { createInstrumentStore, validateInstrument } from './instrumentStore.js';
+import { createStructuralChangeStore, validateBaseYearPolicy, validateStructuralChange } from './structuralChangeStore.js';
+import { fiscalPeriodMonths } from './fiscalPeriods.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -16,7 +21,20 @@ const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Uploaded Excel datasets are posted as parsed JSON, so allow large bodies
+app.use(express.json({ limit: '20mb' }));
+
+// Excel uploads are kept outside SQL Server until they have their own tables
+const uploadStore = createUploadStore(process.env.UPLOAD_STORE_DIR || join(__dirname, 'data', 'uploads'));
+const emissionFactorStore = createEmissionFactorStore(
+    process.env.EMISSION_FACTOR_STORE || join(__dirname, 'data', 'emission-factors.json')
+);
+const instrumentStore = createInstrumentStore(
+    process.env.INSTRUMENT_STORE || join(__dirname, 'data', 'contractual-instruments.json')
+);
+const structuralChangeStore = createStructuralChangeStore(
+    process.env.STRUCTURAL_CHANGE_STORE || join(__dirname, 'data', 'structural-changes.json')
+);
 
 // Database configuration
 const dbConfig = {
@@ -44,29 +62,38 @@ async function initializeDB() {
     }
 }
 
-// Helper function to build WHERE clause
-function buildWhereClause(filters) {
-    let whereClause = 'WHERE 1=1';
-    
-    if (filters) {
-        if (filters.year && filters.year !== 'All') {
-            whereClause += ` AND [FinancialYear] = '${filters.year}'`;
-        }
-        if (filters.month && filters.month !== 'All') {
-            whereClause += ` AND [Month1] = '${filters.month}'`;
-        }
-        if (filters.businessCode && filters.businessCode !== 'All') {
-            whereClause += ` AND [Dim1] = '${filters.businessCode}'`;
-        }
-        if (filters.plant && filters.plant !== 'All') {
-            whereClause += ` AND [Dim2] = '${filters.plant}'`;
-        }
-        if (filters.department && filters.department !== 'All') {
-            whereClause += ` AND [Dim3] = '${filters.department}'`;
+// Filter columns by query parameter. The filter dropdowns list each column's
+// values narrowed by the other selected filters (so plants follow the chosen
+// business code), with their record counts.
+const FILTER_OPTION_COLUMNS = {
+    years: { param: 'year', column: 'FinancialYear' },
+    months: { param: 'month', column: 'Month1' },
+    businessCodes: { param: 'businessCode', column: 'Dim1' },
+    plants: { param: 'plant', column: 'Dim2' },
+    departments: { param: 'department', column: 'Dim3' },
+};
+
+// Filter conditions with every value bound as a parameter on `request`, for
+// every route's WHERE clause; column names come only from FILTER_OPTION_COLUMNS,
+// never from the query string
+function bindFilterConditions(request, filters) {
+    const conditions = ['1=1'];
+    Object.values(FILTER_OPTION_COLUMNS).forEach(({ param, column }) => {
+        const value = filters[param];
+        if (typeof value === 'string' && value && value !== 'All') {
+            request.input(param, sql.NVarChar, value);
+            conditions.push(`[${column}] = @${param}`);
         }
+    });
+    const periodMonths = fiscalPeriodMonths(filters);
+    if (periodMonths) {
+        const names = periodMonths.map((month, idx) => {
+            request.input(`periodMonth${idx}`, sql.NVarChar, month);
+            return `@periodMonth${idx}`;
+        });
+        conditions.push(`LEFT(LTRIM([Month1]), 3) IN (${names.length ? names.join(', ') : "''"})`);
     }
-    
-    return whereClause;
+    return conditions.join(' AND ');
 }
 
 // Helper function to parse numeric values
@@ -87,7 +114,7 @@ function parseNumeric(val) {
 app.get('/api/attribute-details', async (req, res) => {
     try {
         const filters = req.query;
-        const whereClause = buildWhereClause(filters);
+        const request = pool.request();
         
         const query = `
             SELECT 
@@ -109,11 +136,11 @@ app.get('/api/attribute-details', async (req, res) => {
                 [Value] as value,
                 [ConvStandards] as cfStd
             FROM [dbo].[AttributeDetail]
-            ${whereClause}
+            WHERE ${bindFilterConditions(request, filters)}
             ORDER BY [AttributeId]
         `;
         
-        const result = await pool.request().query(query);
+        const result = await request.query(query);
         const processedData = result.recordset.map(row => ({
             ...row,
             quantity: parseNumeric(row.quantity),
@@ -345,17 +372,13 @@ Object.keys(ESG_MODULES).forEach(module => {
     app.get(`/api/${module}`, async (req, res) => {
         try {
             const filters = req.query;
-            const whereClause = buildWhereClause(filters);
             const moduleConfig = ESG_MODULES[module];
+            const request = pool.request();
             
-            // Add additional WHERE clause from the module config  
-            const additionalWhere = whereClause === 'WHERE 1=1' ? 
-                whereClause.replace('WHERE 1=1', 'WHERE 1=1') :
-                whereClause;
-            
-            const query = moduleConfig.query + ` AND 1=1 ${additionalWhere.replace('WHERE 1=1', '')} ORDER BY [AttributeId]`;
+            // The module query ends with its own WHERE; the filters are added to it
+            const query = `${moduleConfig.query} AND ${bindFilterConditions(request, filters)} ORDER BY [AttributeId]`;
             
-            const result = await pool.request().query(query);
+            const result = await request.query(query);
             
             // Process numeric fields
             const processedData = result.recordset.map(row => ({
@@ -380,7 +403,8 @@ app.get('/api/esg-data/:dataType', async (req, res) => {
     try {
         const { dataType } = req.params;
         const filters = req.query;
-        const whereClause = buildWhereClause(filters);
+        const request = pool.request();
+        request.input('dataType', sql.NVarChar, `%${dataType}%`);
         
         // Try to find data in AttributeDetail table filtered by attribute type
         const query = `
@@ -401,12 +425,12 @@ app.get('/api/esg-data/:dataType', async (req, res) => {
                 [Value] as value,
                 [ConvStandards] as cfStd
             FROM [dbo].[AttributeDetail]
-            ${whereClause}
-            AND ([Attribute] LIKE '%${dataType}%' OR [Parameter] LIKE '%${dataType}%' OR [SubCategory] LIKE '%${dataType}%')
+            WHERE ${bindFilterConditions(request, filters)}
+            AND ([Attribute] LIKE @dataType OR [Parameter] LIKE @dataType OR [SubCategory] LIKE @dataType)
             ORDER BY [AttributeId]
         `;
         
-        const result = await pool.request().query(query);
+        const result = await request.query(query);
         res.json(result.recordset);
     } catch (error) {
         console.error(`ESG data API error for ${req.params.dataType}:`, error);
@@ -414,6 +438,223 @@ app.get('/api/esg-data/:dataType', async (req, res) => {
     }
 });
 
+app.get('/api/filter-options', async (req, res) => {
+    try {
+        const entries = await Promise.all(Object.entries(FILTER_OPTION_COLUMNS).map(async ([key, { param, column }]) => {
+            const { [param]: _ignored, ...otherFilters } = req.query;
+            const request = pool.request();
+            const query = `
+                SELECT 
+                    LTRIM(RTRIM([${column}])) as value,
+                    COUNT(*) as count
+                FROM [dbo].[AttributeDetail]
+                WHERE ${bindFilterConditions(request, otherFilters)}
+                AND [${column}] IS NOT NULL AND LTRIM(RTRIM([${column}])) <> ''
+                GROUP BY LTRIM(RTRIM([${column}]))
+                ORDER BY value
+            `;
+            const result = await request.query(query);
+            return [key, result.recordset.map(row => ({ value: String(row.value), count: Number(row.count) }))];
+        }));
+        res.json(Object.fromEntries(entries));
+    } catch (error) {
+        console.error('Filter options API error:', error);
+        res.status(500).json({ error: 'Failed to fetch filter options' });
+    }
+});
+
+// Uploaded Excel datasets (Scope 3, Fugitive, Diversity, Inclusion, Fairness, Openness)
+const checkUploadModule = (req, res) => {
+    if (UPLOAD_MODULES.includes(req.params.module)) return true;
+    res.status(404).json({ error: `Unknown upload module: ${req.params.module}` });
+    return false;
+};
+
+app.post('/api/uploads/:module', async (req, res) => {
+    if (!checkUploadModule(req, res)) return;
+    const { fileName, uploadedBy, records } = req.body || {};
+    if (!Array.isArray(records) || records.length === 0) {
+        return res.status(400).json({ error: 'records must be a non-empty array' });
+    }
+    if (!fileName || !uploadedBy) {
+        return res.status(400).json({ error: 'fileName and uploadedBy are required' });
+    }
+    try {
+        const dataset = await uploadStore.saveDataset(req.params.module, {
+            fileName: String(fileName),
+            uploadedBy: String(uploadedBy),
+            records,
+        });
+        res.status(201).json(dataset);
+    } catch (error) {
+        console.error(`Upload save error for ${req.params.module}:`, error);
+        res.status(500).json({ error: 'Failed to save uploaded dataset' });
+    }
+});
+
+app.get('/api/uploads/:module/datasets', async (req, res) => {
+    if (!checkUploadModule(req, res)) return;
+    try {
+        res.json(await uploadStore.listDatasets(req.params.module));
+    } catch (error) {
+        console.error(`Upload list error for ${req.params.module}:`, error);
+        res.status(500).json({ error: 'Failed to list uploaded datasets' });
+    }
+});
+
+app.get('/api/uploads/:module/records', async (req, res) => {
+    if (!checkUploadModule(req, res)) return;
+    try {
+        res.json(await uploadStore.getRecords(req.params.module, req.query));
+    } catch (error) {
+        console.error(`Upload records error for ${req.params.module}:`, error);
+        res.status(500).json({ error: 'Failed to fetch uploaded records' });
+    }
+});
+
+app.delete('/api/uploads/:module/datasets/:id', async (req, res) => {
+    if (!checkUploadModule(req, res)) return;
+    try {
+        const deleted = await uploadStore.deleteDataset(req.params.module, req.params.id);
+        if (!deleted) return res.status(404).json({ error: 'Dataset not found' });
+        res.status(204).end();
+    } catch (error) {
+        console.error(`Upload delete error for ${req.params.module}:`, error);
+        res.status(500).json({ error: 'Failed to delete uploaded dataset' });
+    }
+});
+
+// Emission factor library (CEA, IPCC, DEFRA factors with effective dates)
+app.get('/api/emission-factors', async (req, res) => {
+    try {
+        res.json(await emissionFactorStore.listFactors());
+    } catch (error) {
+        console.error('Emission factor list error:', error);
+        res.status(500).json({ error: 'Failed to list emission factors' });
+    }
+});
+
+app.post('/api/emission-factors', async (req, res) => {
+    const { factor, error } = validateEmissionFactor(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+        res.status(201).json(await emissionFactorStore.createFactor(factor));
+    } catch (err) {
+        console.error('Emission factor save error:', err);
+        res.status(500).json({ error: 'Failed to save emission factor' });
+    }
+});
+
+app.put('/api/emission-factors/:id', async (req, res) => {
+    const { factor, error } = validateEmissionFactor(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+        const updated = await emissionFactorStore.updateFactor(req.params.id, factor);
+        if (!updated) return res.status(404).json({ error: 'Emission factor not found' });
+        res.json(updated);
+    } catch (err) {
+        console.error('Emission factor update error:', err);
+        res.status(500).json({ error: 'Failed to update emission factor' });
+    }
+});
+
+app.post('/api/emission-factors/:id/retire', async (req, res) => {
+    try {
+        const retired = await emissionFactorStore.retireFactor(req.params.id);
+        if (!retired) return res.status(404).json({ error: 'Emission factor not found' });
+        res.json(retired);
+    } catch (error) {
+        console.error('Emission factor retire error:', error);
+        res.status(500).json({ error: 'Failed to retire emission factor' });
+    }
+});
+
+// Contractual instruments for market-based Scope 2 (RECs, PPAs, green tariffs)
+app.get('/api/contractual-instruments', async (req, res) => {
+    try {
+        res.json(await instrumentStore.listInstruments(req.query));
+    } catch (error) {
+        console.error('Contractual instrument list error:', error);
+        res.status(500).json({ error: 'Failed to list contractual instruments' });
+    }
+});
+
+app.post('/api/contractual-instruments', async (req, res) => {
+    const { instrument, error } = validateInstrument(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+        res.status(201).json(await instrumentStore.createInstrument(instrument));
+    } catch (err) {
+        console.error('Contractual instrument save error:', err);
+        res.status(500).json({ error: 'Failed to save contractual instrument' });
+    }
+});
+
+app.delete('/api/contractual-instruments/:id', async (req, res) => {
+    try {
+        const deleted = await instrumentStore.deleteInstrument(req.params.id);
+        if (!deleted) return res.status(404).json({ error: 'Contractual instrument not found' });
+        res.status(204).end();
+    } catch (error) {
+        console.error('Contractual instrument delete error:', error);
+        res.status(500).json({ error: 'Failed to delete contractual instrument' });
+    }
+});
+
+// Structural changes and the significance policy behind base-year recalculation
+app.get('/api/structural-changes', async (req, res) => {
+    try {
+        res.json(await structuralChangeStore.listChanges());
+    } catch (error) {
+        console.error('Structural change list error:', error);
+        res.status(500).json({ error: 'Failed to list structural changes' });
+    }
+});
+
+app.post('/api/structural-changes', async (req, res) => {
+    const { change, error } = validateStructuralChange(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+        res.status(201).json(await structuralChangeStore.createChange(change));
+    } catch (err) {
+        console.error('Structural change save error:', err);
+        res.status(500).json({ error: 'Failed to save structural change' });
+    }
+});
+
+app.post('/api/structural-changes/:id/withdraw', async (req, res) => {
+    const withdrawnBy = String(req.body?.withdrawnBy ?? '').trim();
+    if (!withdrawnBy) return res.status(400).json({ error: 'withdrawnBy is required' });
+    try {
+        const withdrawn = await structuralChangeStore.withdrawChange(req.params.id, withdrawnBy);
+        if (!withdrawn) return res.status(404).json({ error: 'Structural change not found' });
+        res.json(withdrawn);
+    } catch (error) {
+        console.error('Structural change withdraw error:', error);
+        res.status(500).json({ error: 'Failed to withdraw structural change' });
+    }
+});
+
+app.get('/api/base-year-policy', async (req, res) => {
+    try {
+        res.json(await structuralChangeStore.getPolicy());
+    } catch (error) {
+        console.error('Base-year policy read error:', error);
+        res.status(500).json({ error: 'Failed to read base-year policy' });
+    }
+});
+
+app.put('/api/base-year-policy', async (req, res) => {
+    const { policy, error } = validateBaseYearPolicy(req.body);
+    if (error) return res.status(400).json({ error });
+    try {
+        res.json(await structuralChangeStore.updatePolicy(policy));
+    } catch (err) {
+        console.error('Base-year policy update error:', err);
+        res.status(500).json({ error: 'Failed to update base-year policy' });
+    }
+});
+
 // Health check endpoint
 app.get('/api/health', async (req, res) => {
     try {
@@ -436,6 +677,19 @@ async function startServer() {
             console.log(`   GET /api/${module} - ${module} data`);
         });
         console.log(`   GET /api/esg-data/:dataType - Generic ESG data`);
+        console.log(`   GET /api/filter-options - Distinct filter values with record counts`);
+        console.log(`   POST /api/uploads/:module - Save an uploaded Excel dataset`);
+        console.log(`   GET /api/uploads/:module/datasets - Uploaded dataset history`);
+        console.log(`   GET /api/uploads/:module/records - Records from uploaded datasets`);
+        console.log(`   DELETE /api/uploads/:module/datasets/:id - Remove an uploaded dataset`);
+        console.log(`   GET|POST /api/emission-factors - Emission factor library`);
+        console.log(`   PUT /api/emission-factors/:id - Revise an emission factor`);
+        console.log(`   POST /api/emission-factors/:id/retire - Retire an emission factor`);
+        console.log(`   GET|POST /api/contractual-instruments - RECs, PPAs and green tariffs`);
+        console.log(`   DELETE /api/contractual-instruments/:id - Remove a contractual instrument`);
+        console.log(`   GET|POST /api/structural-changes - Acquisitions, divestments and methodology changes`);
+        console.log(`   POST /api/structural-changes/:id/withdraw - Withdraw a structural change`);
+        console.log(`   GET|PUT /api/base-year-policy - Base year and significance threshold`);
     });
 }
 
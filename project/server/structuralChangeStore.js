@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { dirname } from 'path';
+
+// File-based register of structural changes (acquisitions, divestments,
+// methodology changes) and the base-year recalculation policy. Changes are
+// withdrawn rather than deleted and policy edits keep the replaced values, so
+// every restatement can be traced back.
+
+export const STRUCTURAL_CHANGE_TYPES = ['Acquisition', 'Divestment', 'Methodology Change'];
+
+const DEFAULT_POLICY = { baseYear: '', significanceThreshold: 5, updatedAt: null, updatedBy: '', revisions: [] };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Returns the cleaned change fields, or an error message for the first invalid one
+export function validateStructuralChange(input) {
+    const body = input || {};
+    const plant = String(body.plant ?? '').trim();
+    const recordedBy = String(body.recordedBy ?? '').trim();
+    const isMethodology = body.type === 'Methodology Change';
+    const adjustmentPercent = isMethodology ? Number(body.adjustmentPercent) : 0;
+
+    if (!STRUCTURAL_CHANGE_TYPES.includes(body.type)) {
+        return { error: `type must be one of ${STRUCTURAL_CHANGE_TYPES.join(', ')}` };
+    }
+    if (!DATE_PATTERN.test(String(body.effectiveDate ?? ''))) return { error: 'effectiveDate must be a YYYY-MM-DD date' };
+    if (!isMethodology && !plant) return { error: 'plant is required for acquisitions and divestments' };
+    if (isMethodology && (!Number.isFinite(adjustmentPercent) || adjustmentPercent === 0 || adjustmentPercent <= -100)) {
+        return { error: 'adjustmentPercent must be a non-zero change in the base-year value, above -100' };
+    }
+    if (!recordedBy) return { error: 'recordedBy is required' };
+
+    return {
+        change: {
+            type: body.type,
+            plant: isMethodology ? '' : plant,
+            // Module the change applies to; empty for all modules
+            moduleId: String(body.moduleId ?? '').trim(),
+            effectiveDate: body.effectiveDate,
+            adjustmentPercent,
+            description: String(body.description ?? '').trim(),
+            recordedBy,
+        },
+    };
+}
+
+// Returns the cleaned policy fields, or an error message for the first invalid one
+export function validateBaseYearPolicy(input) {
+    const body = input || {};
+    const threshold = Number(body.significanceThreshold);
+    if (body.significanceThreshold === '' || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+        return { error: 'significanceThreshold must be a percentage between 0 and 100' };
+    }
+    return {
+        policy: {
+            baseYear: String(body.baseYear ?? '').trim(),
+            significanceThreshold: threshold,
+            updatedBy: String(body.updatedBy ?? '').trim(),
+        },
+    };
+}
+
+export function createStructuralChangeStore(filePath) {
+    // Serialises writes so concurrent edits cannot clobber the file
+    let queue = Promise.resolve();
+    const enqueue = task => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+
+    async function readStore() {
+        try {
+            const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+            return { changes: stored.changes ?? [], policy: { ...DEFAULT_POLICY, ...stored.policy } };
+        } catch (error) {
+            if (error.code === 'ENOENT') return { changes: [], policy: DEFAULT_POLICY };
+            throw error;
+        }
+    }
+
+    async function writeStore(store) {
+        await fs.mkdir(dirname(filePath), { recursive: true });
+        const tmpPath = `${filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(store, null, 2));
+        await fs.rename(tmpPath, filePath);
+    }
+
+    async function listChanges() {
+        const { changes } = await readStore();
+        return changes.sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate) || a.recordedAt.localeCompare(b.recordedAt));
+    }
+
+    function createChange(fields) {
+        return enqueue(async () => {
+            const store = await readStore();
+            const change = { id: randomUUID(), ...fields, recordedAt: new Date().toISOString(), withdrawnAt: null, withdrawnBy: '' };
+            await writeStore({ ...store, changes: [...store.changes, change] });
+            return change;
+        });
+    }
+
+    // Withdrawn changes stop affecting restatements but stay in the register
+    function withdrawChange(id, withdrawnBy) {
+        return enqueue(async () => {
+            const store = await readStore();
+            const existing = store.changes.find(c => c.id === id);
+            if (!existing) return null;
+            if (existing.withdrawnAt) return existing;
+            const withdrawn = { ...existing, withdrawnAt: new Date().toISOString(), withdrawnBy };
+            await writeStore({ ...store, changes: store.changes.map(c => (c === existing ? withdrawn : c)) });
+            return withdrawn;
+        });
+    }
+
+    async function getPolicy() {
+        return (await readStore()).policy;
+    }
+
+    function updatePolicy(fields) {
+        return enqueue(async () => {
+            const store = await readStore();
+            const { revisions, ...previous } = store.policy;
+            const policy = {
+                ...fields,
+                updatedAt: new Date().toISOString(),
+                revisions: previous.updatedAt ? [previous, ...revisions] : revisions,
+            };
+            await writeStore({ ...store, policy });
+            return policy;
+        });
+    }
+
+    return { listChanges, createChange, withdrawChange, getPolicy, updatePolicy };
+}
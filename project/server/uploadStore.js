@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { join } from 'path';
+import { fiscalPeriodMonths } from './fiscalPeriods.js';
+
+// File-based stand-in for upload storage in development: one JSON file per
+// dataset plus an index of dataset metadata. Swap for a table when the
+// uploads move into SQL Server.
+
+export const UPLOAD_MODULES = ['scope3', 'fugitive', 'diversity', 'inclusion', 'fairness', 'openness'];
+
+// Filter parameter -> record fields that may hold it (DB-style and Dim-style uploads)
+const FILTER_FIELDS = {
+    year: ['financialYear'],
+    month: ['month'],
+    businessCode: ['businessCode', 'dim1'],
+    plant: ['plant', 'dim2'],
+    department: ['department', 'dim3'],
+};
+
+const fieldValue = (record, fields) => {
+    const field = fields.find(f => record[f] !== undefined && record[f] !== null && record[f] !== '');
+    return field ? String(record[field]).trim() : '';
+};
+
+// A newer upload for the same period and plant replaces the older rows for it
+const coverageKey = record => [
+    fieldValue(record, FILTER_FIELDS.year),
+    fieldValue(record, FILTER_FIELDS.month),
+    fieldValue(record, FILTER_FIELDS.businessCode),
+    fieldValue(record, FILTER_FIELDS.plant),
+].join('|').toLowerCase();
+
+export function createUploadStore(baseDir) {
+    const indexPath = join(baseDir, 'index.json');
+    const datasetPath = id => join(baseDir, `${id}.json`);
+
+    // Serialises writes so concurrent uploads cannot clobber the index
+    let queue = Promise.resolve();
+    const enqueue = task => {
+        const run = queue.then(task);
+        queue = run.catch(() => {});
+        return run;
+    };
+
+    async function readIndex() {
+        try {
+            return JSON.parse(await fs.readFile(indexPath, 'utf8'));
+        } catch (error) {
+            if (error.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    async function writeJson(path, data) {
+        await fs.mkdir(baseDir, { recursive: true });
+        const tmpPath = `${path}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(data));
+        await fs.rename(tmpPath, path);
+    }
+
+    async function listDatasets(module) {
+        const index = await readIndex();
+        return index
+            .filter(entry => entry.module === module)
+            .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    }
+
+    function saveDataset(module, { fileName, uploadedBy, records }) {
+        return enqueue(async () => {
+            const meta = {
+                id: randomUUID(),
+                module,
+                fileName,
+                uploadedBy,
+                uploadedAt: new Date().toISOString(),
+                recordCount: records.length,
+            };
+            await writeJson(datasetPath(meta.id), { ...meta, records });
+            await writeJson(indexPath, [...(await readIndex()), meta]);
+            return meta;
+        });
+    }
+
+    function deleteDataset(module, id) {
+        return enqueue(async () => {
+            const index = await readIndex();
+            const entry = index.find(e => e.id === id && e.module === module);
+            if (!entry) return false;
+            await writeJson(indexPath, index.filter(e => e !== entry));
+            await fs.rm(datasetPath(id), { force: true });
+            return true;
+        });
+    }
+
+    // Records from every dataset of a module, newest upload first wins per period/plant
+    async function getRecords(module, filters = {}) {
+        const datasets = await listDatasets(module);
+        const covered = new Set();
+        const records = [];
+
+        for (const meta of datasets) {
+            let dataset;
+            try {
+                dataset = JSON.parse(await fs.readFile(datasetPath(meta.id), 'utf8'));
+            } catch (error) {
+                console.error(`Upload store: unable to read dataset ${meta.id}:`, error);
+                continue;
+            }
+            const keys = new Set();
+            dataset.records.forEach(record => {
+                const key = coverageKey(record);
+                keys.add(key);
+                if (!covered.has(key)) {
+                    records.push({ ...record, datasetId: meta.id, uploadedBy: meta.uploadedBy, uploadedAt: meta.uploadedAt });
+                }
+            });
+            keys.forEach(key => covered.add(key));
+        }
+
+        const periodMonths = fiscalPeriodMonths(filters)?.map(m => m.toLowerCase());
+        return records.filter(record =>
+            Object.entries(FILTER_FIELDS).every(([param, fields]) => {
+                const wanted = filters[param];
+                return !wanted || wanted === 'All' || fieldValue(record, fields) === wanted;
+            }) &&
+            (!periodMonths || periodMonths.includes(fieldValue(record, FILTER_FIELDS.month).slice(0, 3).toLowerCase()))
+        );
+    }
+
+    return { listDatasets, saveDataset, deleteDataset, getRecords };
+}
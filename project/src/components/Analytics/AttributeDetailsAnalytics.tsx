@@ -3,13 +3,15 @@ import { Database, TrendingUp, Clock, Download, RefreshCw } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import * as XLSX from 'xlsx';
 import { getAttributeDetailsData, FilterOptions } from '../../services/apiService';
+import { AttributeDetailRecord } from '../../services/esgRecords';
+import TargetTracker from './TargetTracker';
 
 interface Props {
   filters?: FilterOptions;
 }
 
 const AttributeDetailsAnalytics: React.FC<Props> = ({ filters }) => {
-  const [data, setData] = useState<any[]>([]);
+  const [data, setData] = useState<AttributeDetailRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [activeTab, setActiveTab] = useState<'overview'|'attribute'|'parameter'|'subCategory'|'type'>('overview');
@@ -39,7 +41,7 @@ const AttributeDetailsAnalytics: React.FC<Props> = ({ filters }) => {
     loadDataFromDatabase();
   }, [filters]);
 
-  const aggregateByCategory = (catKey: string) => {
+  const aggregateByCategory = (catKey: 'attribute' | 'parameter' | 'subCategory' | 'type') => {
     const map = new Map<string, {
       category: string,
       totalQuantity: number,
@@ -196,6 +198,10 @@ const AttributeDetailsAnalytics: React.FC<Props> = ({ filters }) => {
                 </>
               )}
             </div>
+
+            <div className="mt-6">
+              <TargetTracker moduleId="attribute" records={data} />
+            </div>
           </>
         )}
       </div>
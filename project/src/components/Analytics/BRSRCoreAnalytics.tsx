@@ -0,0 +1,411 @@
+import { useState, useCallback, useMemo, useEffect, Fragment } from 'react';
+import { Database, FileText, RefreshCw, Clock, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { FilterOptions } from '../../services/apiService';
+import { findPreviousFinancialYear, loadBrsrData } from '../../services/brsrData';
+import {
+  BRSR_INPUTS,
+  BRSR_STATUS_LABELS,
+  BrsrInputKey,
+  BrsrInputs,
+  BrsrKpiResult,
+  BrsrSourceData,
+  BrsrStatus,
+  computeBrsrCore,
+  downloadBrsrWorkbook,
+  EMPTY_BRSR_DATA,
+  formatBrsrValue,
+  loadBrsrInputs,
+  saveBrsrInputs,
+  scope3ByBrsrId,
+  SHARED_BRSR_INPUTS,
+} from '@/lib/brsrCore';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+const statusStyles: Record<BrsrStatus, string> = {
+  reported: 'bg-green-100 text-green-700',
+  'input-required': 'bg-yellow-100 text-yellow-700',
+  'no-data': 'bg-red-100 text-red-700',
+};
+
+type InputDraft = Record<BrsrInputKey, string> & { outputUnit: string };
+
+const toDraft = (inputs: BrsrInputs): InputDraft => ({
+  ...(Object.fromEntries(BRSR_INPUTS.map(i => [i.key, inputs.figures[i.key]?.toString() ?? ''])) as Record<BrsrInputKey, string>),
+  outputUnit: inputs.outputUnit,
+});
+
+const fromDraft = (draft: InputDraft): BrsrInputs => {
+  const figures: BrsrInputs['figures'] = {};
+  BRSR_INPUTS.forEach(({ key }) => {
+    const value = Number(draft[key].replace(/,/g, ''));
+    if (draft[key].trim() !== '' && Number.isFinite(value)) figures[key] = value;
+  });
+  return { figures, outputUnit: draft.outputUnit.trim() };
+};
+
+const BRSRCoreAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const [sourceData, setSourceData] = useState<BrsrSourceData>(EMPTY_BRSR_DATA);
+  const [previous, setPrevious] = useState<{ label: string; data: BrsrSourceData } | null>(null);
+  const [failedSources, setFailedSources] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+
+  const financialYear = filters?.year && filters.year !== 'All' ? filters.year : 'All';
+  const [inputs, setInputs] = useState<BrsrInputs>(() => loadBrsrInputs(financialYear));
+  const [draft, setDraft] = useState<InputDraft>(() => toDraft(inputs));
+
+  // Entered figures belong to the selected financial year
+  useEffect(() => {
+    const stored = loadBrsrInputs(financialYear);
+    setInputs(stored);
+    setDraft(toDraft(stored));
+  }, [financialYear]);
+
+  useEffect(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const loadDataFromAPI = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+
+    try {
+      const current = await loadBrsrData(filters);
+      setSourceData(current.data);
+      setFailedSources(current.failed);
+
+      // BRSR reports the previous financial year alongside the current one
+      const previousYear = financialYear !== 'All' ? await findPreviousFinancialYear(financialYear, filters).catch(() => null) : null;
+      if (previousYear) {
+        const prior = await loadBrsrData({ ...filters, year: previousYear });
+        setPrevious({ label: previousYear, data: prior.data });
+      } else {
+        setPrevious(null);
+      }
+      setLoadStatus(current.failed.length === Object.keys(current.data).length ? 'error' : 'success');
+    } catch (error) {
+      console.error('BRSR Core data API error:', error);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefreshData = useCallback(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const results = useMemo(() => computeBrsrCore(sourceData, inputs), [sourceData, inputs]);
+
+  const previousResults = useMemo(
+    () => (previous ? computeBrsrCore(previous.data, loadBrsrInputs(previous.label)) : null),
+    [previous]
+  );
+
+  const previousByCode = useMemo(
+    () => new Map(previousResults?.map(r => [r.code, r]) ?? []),
+    [previousResults]
+  );
+
+  const attributes = useMemo(() => {
+    const grouped = new Map<string, BrsrKpiResult[]>();
+    results.forEach(result => grouped.set(result.attribute, [...(grouped.get(result.attribute) ?? []), result]));
+    return Array.from(grouped.entries());
+  }, [results]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Record<BrsrStatus, number> = { reported: 0, 'input-required': 0, 'no-data': 0 };
+    results.forEach(r => counts[r.status]++);
+    return counts;
+  }, [results]);
+
+  const scope3Lines = useMemo(() => scope3ByBrsrId(sourceData.scope3), [sourceData.scope3]);
+
+  const missing = results.filter(r => r.status !== 'reported');
+
+  const handleSaveInputs = () => {
+    const next = fromDraft(draft);
+    saveBrsrInputs(financialYear, next);
+    const saved = loadBrsrInputs(financialYear);
+    setInputs(saved);
+    setDraft(toDraft(saved));
+  };
+
+  const handleExport = () => {
+    downloadBrsrWorkbook(
+      { label: financialYear === 'All' ? 'All Years' : financialYear, results },
+      previous && previousResults ? { label: previous.label, results: previousResults } : null,
+      inputs,
+      sourceData.scope3,
+      filters
+    );
+  };
+
+  const recordCount = Object.values(sourceData).reduce((sum, records) => sum + records.length, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <FileText className="w-8 h-8 mr-3 text-green-600" />
+          BRSR Core Disclosures
+        </h1>
+        <button
+          onClick={handleExport}
+          disabled={loadStatus !== 'success'}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-green-600 text-white font-medium hover:bg-green-700 disabled:opacity-50"
+        >
+          Export BRSR Core
+        </button>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              BRSR Source Data
+            </div>
+            <button
+              onClick={handleRefreshData}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50 space-y-1">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading BRSR source data...</p>}
+            {loadStatus === 'success' && (
+              <p className="text-green-600">
+                ✅ Loaded {recordCount} records for FY {financialYear === 'All' ? '(all years)' : financialYear}
+                {previous && ` and FY ${previous.label} for comparison`}
+              </p>
+            )}
+            {loadStatus === 'success' && failedSources.length > 0 && (
+              <p className="text-yellow-700">⚠️ Unavailable: {failedSources.join(', ')}. Their indicators are flagged as missing.</p>
+            )}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error connecting to database. Please check connection settings.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {loadStatus === 'success' && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-green-600">{statusCounts.reported} / {results.length}</p>
+                <p className="text-sm text-gray-600">Indicators reported</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-yellow-600">{statusCounts['input-required']}</p>
+                <p className="text-sm text-gray-600">Need an entered figure</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <p className="text-2xl font-bold text-red-600">{statusCounts['no-data']}</p>
+                <p className="text-sm text-gray-600">No source data</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="disclosures" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="disclosures">Disclosures</TabsTrigger>
+              <TabsTrigger value="missing">Missing Indicators ({missing.length})</TabsTrigger>
+              <TabsTrigger value="inputs">Reporting Inputs</TabsTrigger>
+              <TabsTrigger value="scope3">Scope 3 by BRSR ID</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="disclosures">
+              <Card>
+                <CardHeader>
+                  <CardTitle>BRSR Core - Annexure I</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">S. No.</TableHead>
+                        <TableHead>Parameter</TableHead>
+                        <TableHead>Unit</TableHead>
+                        <TableHead className="text-right">{financialYear === 'All' ? 'All Years' : `FY ${financialYear}`}</TableHead>
+                        {previous && <TableHead className="text-right">FY {previous.label}</TableHead>}
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {attributes.map(([attribute, kpis], idx) => (
+                        <Fragment key={attribute}>
+                          <TableRow className="bg-gray-50">
+                            <TableCell className="font-semibold">{idx + 1}</TableCell>
+                            <TableCell colSpan={previous ? 5 : 4} className="font-semibold">{attribute}</TableCell>
+                          </TableRow>
+                          {kpis.map(kpi => (
+                            <TableRow key={kpi.code}>
+                              <TableCell className="text-gray-500">{kpi.code}</TableCell>
+                              <TableCell>
+                                {kpi.parameter}
+                                {kpi.note && <span className="block text-xs text-gray-500">{kpi.note}</span>}
+                              </TableCell>
+                              <TableCell className="text-gray-600">{kpi.unit}</TableCell>
+                              <TableCell className="text-right font-medium">{formatBrsrValue(kpi.value) || '—'}</TableCell>
+                              {previous && (
+                                <TableCell className="text-right text-gray-600">{formatBrsrValue(previousByCode.get(kpi.code)?.value ?? null) || '—'}</TableCell>
+                              )}
+                              <TableCell>
+                                <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[kpi.status]}`}>
+                                  {BRSR_STATUS_LABELS[kpi.status]}
+                                </span>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="missing">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <AlertTriangle className="w-5 h-5 mr-2 text-yellow-600" />
+                    Missing Indicators
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {missing.length === 0 ? (
+                    <p className="flex items-center text-green-600"><CheckCircle2 className="w-5 h-5 mr-2" />Every BRSR Core indicator is reported.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-20">S. No.</TableHead>
+                          <TableHead>Parameter</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>What is needed</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {missing.map(kpi => (
+                          <TableRow key={kpi.code}>
+                            <TableCell className="text-gray-500">{kpi.code}</TableCell>
+                            <TableCell>{kpi.parameter}</TableCell>
+                            <TableCell>
+                              <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[kpi.status]}`}>
+                                {BRSR_STATUS_LABELS[kpi.status]}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-sm text-gray-600">
+                              {kpi.missingInputs.length > 0
+                                ? `Enter: ${kpi.missingInputs.join(', ')}`
+                                : `No ${kpi.attribute.toLowerCase()} records for the selected filters`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="inputs">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reporting Inputs for {financialYear === 'All' ? 'All Years' : `FY ${financialYear}`}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Turnover, purchases, workforce and safety figures are not held in AttributeDetail or the uploads.
+                    They are saved in this browser per financial year and used for the intensity ratios. Revenue, PPP
+                    revenue and physical output are the intensity denominators entered per business code under Intensity
+                    in the environmental modules, summed for the year.
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {BRSR_INPUTS.map(input => (
+                      <div key={input.key} className="space-y-1">
+                        <Label htmlFor={`brsr-${input.key}`}>{input.label} ({input.unit})</Label>
+                        <Input
+                          id={`brsr-${input.key}`}
+                          inputMode="decimal"
+                          disabled={input.key in SHARED_BRSR_INPUTS}
+                          placeholder={input.key in SHARED_BRSR_INPUTS ? 'Set as an intensity denominator' : undefined}
+                          value={draft[input.key]}
+                          onChange={e => setDraft(prev => ({ ...prev, [input.key]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                    <div className="space-y-1">
+                      <Label htmlFor="brsr-outputUnit">Physical output unit</Label>
+                      <Input
+                        id="brsr-outputUnit"
+                        placeholder="e.g. MT of product"
+                        value={draft.outputUnit}
+                        onChange={e => setDraft(prev => ({ ...prev, outputUnit: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <Button onClick={handleSaveInputs} className="bg-green-600 hover:bg-green-700">Save figures</Button>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="scope3">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Scope 3 Uploads by BRSR ID</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {scope3Lines.length === 0 ? (
+                    <p className="text-sm text-gray-500">No Scope 3 uploads for the selected filters.</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>BRSR ID</TableHead>
+                          <TableHead className="text-right">Records</TableHead>
+                          <TableHead className="text-right">Total Quantity</TableHead>
+                          <TableHead className="text-right">Total Value</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {scope3Lines.map(line => (
+                          <TableRow key={line.brsrId}>
+                            <TableCell>{line.brsrId}</TableCell>
+                            <TableCell className="text-right">{line.records}</TableCell>
+                            <TableCell className="text-right">{formatBrsrValue(line.totalQuantity)}</TableCell>
+                            <TableCell className="text-right">{formatBrsrValue(line.totalValue)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BRSRCoreAnalytics;
@@ -0,0 +1,541 @@
+import { useState, useEffect, useMemo, useRef, Fragment } from 'react';
+import { Database, History, RefreshCw, Clock, Plus, Ban, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  getBaseYearPolicy,
+  getStructuralChanges,
+  saveBaseYearPolicy,
+  saveStructuralChange,
+  withdrawStructuralChange,
+} from '../../services/apiService';
+import { BaseYearPolicy, StructuralChange, StructuralChangeInput } from '../../services/esgRecords';
+import { REPORT_SOURCES } from '../../services/reportSources';
+import {
+  DEFAULT_SIGNIFICANCE_THRESHOLD,
+  downloadRestatementWorkbook,
+  RESTATEMENT_STATUS_LABELS,
+  restateBaseline,
+  RestatementAuditRow,
+  RestatementStatus,
+  significanceThreshold,
+  STRUCTURAL_CHANGE_TYPES,
+  StructuralChangeType,
+} from '@/lib/baseYearRecalculation';
+import { compareFiscalYears, fiscalYearStart } from '@/lib/fiscalCalendar';
+import { loadTargets, recordPlant, recordYear, targetMetricsFor } from '@/lib/targets';
+import { readUploaderName, writeUploaderName } from '@/hooks/use-excel-upload';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+type ChangeForm = Omit<StructuralChangeInput, 'adjustmentPercent' | 'recordedBy'> & { adjustmentPercent: string };
+
+const EMPTY_CHANGE: ChangeForm = {
+  type: 'Acquisition',
+  plant: '',
+  moduleId: '',
+  effectiveDate: '',
+  adjustmentPercent: '',
+  description: '',
+};
+
+// Select items cannot be empty strings, so "every module" has its own value
+const ALL_MODULES = 'all';
+
+const statusStyles: Record<RestatementStatus, string> = {
+  restated: 'bg-amber-100 text-amber-700',
+  'below-threshold': 'bg-gray-100 text-gray-600',
+  unchanged: 'bg-green-100 text-green-700',
+};
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+const moduleName = (id: string) => REPORT_SOURCES.find(s => s.id === id)?.name ?? id;
+
+// Structural change register, significance policy and the audit trail of restated baselines
+const BaseYearRecalculation = () => {
+  const [changes, setChanges] = useState<StructuralChange[]>([]);
+  const [policy, setPolicy] = useState<BaseYearPolicy | null>(null);
+  const [records, setRecords] = useState<Record<string, unknown[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [inventoryModule, setInventoryModule] = useState('ghg');
+  const [userName, setUserName] = useState(readUploaderName);
+  const [changeForm, setChangeForm] = useState<ChangeForm>(EMPTY_CHANGE);
+  const [policyForm, setPolicyForm] = useState({ baseYear: '', significanceThreshold: String(DEFAULT_SIGNIFICANCE_THRESHOLD) });
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  // Modules whose records were requested, so each loads once however often the list changes
+  const requestedModules = useRef(new Set<string>());
+
+  const targets = useMemo(loadTargets, []);
+  // The inventory module plus every module with a target; baselines need all years, so dashboard filters do not apply
+  const moduleIds = useMemo(
+    () => Array.from(new Set([inventoryModule, ...targets.map(t => t.moduleId)])).filter(id => REPORT_SOURCES.some(s => s.id === id)),
+    [inventoryModule, targets]
+  );
+
+  useEffect(() => {
+    loadRegister();
+  }, []);
+
+  useEffect(() => {
+    const ids = moduleIds.filter(id => !requestedModules.current.has(id));
+    ids.forEach(id => requestedModules.current.add(id));
+    if (ids.length) loadModules(ids);
+  }, [moduleIds]);
+
+  const loadRegister = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+    try {
+      const [loadedChanges, loadedPolicy] = await Promise.all([getStructuralChanges(), getBaseYearPolicy()]);
+      setChanges(loadedChanges);
+      setPolicy(loadedPolicy);
+      setPolicyForm({ baseYear: loadedPolicy.baseYear, significanceThreshold: String(loadedPolicy.significanceThreshold) });
+      setLoadStatus('success');
+    } catch (err) {
+      console.error('Structural change API error:', err);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadModules = async (ids: string[]) => {
+    const loaded = await Promise.all(ids.map(async id => {
+      try {
+        return [id, await REPORT_SOURCES.find(s => s.id === id)!.load()] as const;
+      } catch (err) {
+        console.error(`Base-year data error for ${id}:`, err);
+        return [id, []] as const;
+      }
+    }));
+    setRecords(current => ({ ...current, ...Object.fromEntries(loaded) }));
+  };
+
+  const handleRefresh = () => {
+    setRecords({});
+    requestedModules.current = new Set(moduleIds);
+    loadRegister();
+    loadModules(moduleIds);
+  };
+
+  const rememberName = (name: string) => {
+    setUserName(name);
+    writeUploaderName(name);
+  };
+
+  const handleAddChange = async () => {
+    setError(null);
+    try {
+      await saveStructuralChange({
+        ...changeForm,
+        adjustmentPercent: Number(changeForm.adjustmentPercent || 0),
+        recordedBy: userName.trim(),
+      });
+      setChangeForm(EMPTY_CHANGE);
+      await loadRegister();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save structural change');
+    }
+  };
+
+  const handleWithdraw = async (change: StructuralChange) => {
+    if (!userName.trim()) return setError('Enter your name before withdrawing a change.');
+    if (!window.confirm(`Withdraw the ${change.type.toLowerCase()}${change.plant ? ` of ${change.plant}` : ''} effective ${change.effectiveDate}? It stays in the register.`)) return;
+    try {
+      await withdrawStructuralChange(change.id, userName.trim());
+      await loadRegister();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to withdraw structural change');
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    setError(null);
+    if (policyForm.baseYear && fiscalYearStart(policyForm.baseYear) === null) {
+      return setError('Base year must be a financial year, e.g. 2021-22.');
+    }
+    try {
+      setPolicy(await saveBaseYearPolicy({
+        baseYear: policyForm.baseYear.trim(),
+        significanceThreshold: Number(policyForm.significanceThreshold),
+        updatedBy: userName.trim(),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save base-year policy');
+    }
+  };
+
+  const plants = useMemo(
+    () => Array.from(new Set(Object.values(records).flat().map(recordPlant).filter(Boolean))).sort(),
+    [records]
+  );
+  const years = useMemo(
+    () => Array.from(new Set(Object.values(records).flat().map(recordYear).filter(Boolean))).sort(compareFiscalYears),
+    [records]
+  );
+
+  // The inventory's base-year totals at company level, then every target baseline
+  const auditRows = useMemo<RestatementAuditRow[]>(() => {
+    const threshold = significanceThreshold(policy);
+    const rows: RestatementAuditRow[] = [];
+    const inventorySource = REPORT_SOURCES.find(s => s.id === inventoryModule);
+    const baseStart = fiscalYearStart(policy?.baseYear);
+    if (inventorySource && policy?.baseYear && baseStart !== null && records[inventoryModule]) {
+      const moduleRecords = records[inventoryModule];
+      const baseRows = moduleRecords.filter(r => fiscalYearStart(recordYear(r)) === baseStart);
+      targetMetricsFor(inventorySource).filter(m => m.additive).forEach(metric => {
+        const subject = {
+          moduleId: inventoryModule,
+          metric: metric.id,
+          scope: { type: 'company' as const, value: '' },
+          baselineYear: policy.baseYear,
+          baselineValue: metric.annual(baseRows, policy.baseYear) ?? 0,
+        };
+        rows.push({
+          label: `${inventorySource.name} base year`,
+          moduleName: inventorySource.name,
+          metric: metric.label,
+          scope: 'Company',
+          baselineYear: policy.baseYear,
+          restatement: restateBaseline(subject, inventorySource, moduleRecords, changes, threshold),
+        });
+      });
+    }
+    targets.forEach(target => {
+      const source = REPORT_SOURCES.find(s => s.id === target.moduleId);
+      if (!source || !records[target.moduleId]) return;
+      rows.push({
+        label: target.name,
+        moduleName: source.name,
+        metric: target.metric,
+        scope: target.scope.type === 'company' ? 'Company' : `${target.scope.type === 'plant' ? 'Plant' : 'Business code'} ${target.scope.value}`,
+        baselineYear: target.baselineYear,
+        restatement: restateBaseline(target, source, records[target.moduleId], changes, threshold),
+      });
+    });
+    return rows;
+  }, [policy, inventoryModule, records, targets, changes]);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <History className="w-8 h-8 mr-3 text-amber-600" />
+          Base-Year Recalculation
+        </h1>
+        <button
+          onClick={() => downloadRestatementWorkbook(auditRows, changes, policy)}
+          disabled={auditRows.length === 0 && changes.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-amber-600 text-white font-medium hover:bg-amber-700 disabled:opacity-50"
+        >
+          Export Audit Trail
+        </button>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              Structural Change Register
+            </div>
+            <button
+              onClick={handleRefresh}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading structural changes...</p>}
+            {loadStatus === 'success' && <p className="text-green-600">✅ Loaded {changes.length} structural changes</p>}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error loading structural changes. Check backend API.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+          <div className="mt-4 max-w-xs space-y-1">
+            <Label htmlFor="base-year-user">Your name</Label>
+            <Input id="base-year-user" value={userName} onChange={e => rememberName(e.target.value)} />
+          </div>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Significance Policy</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Baselines are restated once the structural changes since their base year, taken together, move them by at least the
+            threshold. Smaller changes are listed in the audit trail but the baseline stands.
+          </p>
+          <div className="flex items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="policy-base-year">Base year</Label>
+              <Input
+                id="policy-base-year"
+                list="base-year-options"
+                placeholder="2021-22"
+                value={policyForm.baseYear}
+                onChange={e => setPolicyForm({ ...policyForm, baseYear: e.target.value })}
+              />
+              <datalist id="base-year-options">
+                {years.map(y => <option key={y} value={y} />)}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="policy-threshold">Significance threshold (%)</Label>
+              <Input
+                id="policy-threshold"
+                type="number"
+                step="any"
+                value={policyForm.significanceThreshold}
+                onChange={e => setPolicyForm({ ...policyForm, significanceThreshold: e.target.value })}
+              />
+            </div>
+            <Button onClick={handleSavePolicy}>Save policy</Button>
+          </div>
+          {policy?.updatedAt && (
+            <p className="text-xs text-gray-500">
+              Last changed by {policy.updatedBy || 'unknown'} on {new Date(policy.updatedAt).toLocaleDateString()}
+              {policy.revisions.length > 0 &&
+                ` · previously ${policy.revisions.map(r => `${r.significanceThreshold}% from ${r.baseYear || 'no base year'}`).join(', ')}`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Structural Changes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>Change</Label>
+              <Select value={changeForm.type} onValueChange={value => setChangeForm({ ...changeForm, type: value as StructuralChangeType })}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STRUCTURAL_CHANGE_TYPES.map(t => <SelectItem key={t.id} value={t.id}>{t.id}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {changeForm.type === 'Methodology Change' ? (
+              <div className="space-y-1">
+                <Label htmlFor="change-adjustment">Base-year change (%)</Label>
+                <Input
+                  id="change-adjustment"
+                  className="h-9"
+                  type="number"
+                  step="any"
+                  placeholder="e.g. -3.5"
+                  value={changeForm.adjustmentPercent}
+                  onChange={e => setChangeForm({ ...changeForm, adjustmentPercent: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="change-plant">Plant</Label>
+                <Input
+                  id="change-plant"
+                  className="h-9"
+                  list="change-plants"
+                  value={changeForm.plant}
+                  onChange={e => setChangeForm({ ...changeForm, plant: e.target.value })}
+                />
+                <datalist id="change-plants">
+                  {plants.map(p => <option key={p} value={p} />)}
+                </datalist>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label>Module</Label>
+              <Select
+                value={changeForm.moduleId || ALL_MODULES}
+                onValueChange={value => setChangeForm({ ...changeForm, moduleId: value === ALL_MODULES ? '' : value })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_MODULES}>All modules</SelectItem>
+                  {REPORT_SOURCES.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="change-effective">Effective date</Label>
+              <Input
+                id="change-effective"
+                className="h-9"
+                type="date"
+                value={changeForm.effectiveDate}
+                onChange={e => setChangeForm({ ...changeForm, effectiveDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1 col-span-2 md:col-span-3">
+              <Label htmlFor="change-description">Description</Label>
+              <Input
+                id="change-description"
+                className="h-9"
+                value={changeForm.description}
+                onChange={e => setChangeForm({ ...changeForm, description: e.target.value })}
+              />
+            </div>
+            <Button size="sm" className="h-9" onClick={handleAddChange}>
+              <Plus className="w-4 h-4 mr-1" />Record change
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {STRUCTURAL_CHANGE_TYPES.find(t => t.id === changeForm.type)?.description}. An acquired plant with no base-year data
+            is estimated from its first reported year, annualised.
+          </p>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Change</TableHead>
+                <TableHead>Plant / Adjustment</TableHead>
+                <TableHead>Module</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Recorded</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-gray-500">No structural changes recorded. Baselines stand as entered.</TableCell>
+                </TableRow>
+              )}
+              {changes.map(change => (
+                <TableRow key={change.id} className={change.withdrawnAt ? 'text-gray-400 line-through' : undefined}>
+                  <TableCell className="font-medium">{change.type}</TableCell>
+                  <TableCell>{change.type === 'Methodology Change' ? `${change.adjustmentPercent > 0 ? '+' : ''}${change.adjustmentPercent}%` : change.plant}</TableCell>
+                  <TableCell>{change.moduleId ? moduleName(change.moduleId) : 'All modules'}</TableCell>
+                  <TableCell>{change.effectiveDate}</TableCell>
+                  <TableCell className="text-gray-600">{change.description}</TableCell>
+                  <TableCell className="text-xs text-gray-500">
+                    {change.recordedBy}, {new Date(change.recordedAt).toLocaleDateString()}
+                    {change.withdrawnAt && ` · withdrawn by ${change.withdrawnBy}, ${new Date(change.withdrawnAt).toLocaleDateString()}`}
+                  </TableCell>
+                  <TableCell>
+                    {!change.withdrawnAt && (
+                      <Button variant="ghost" size="sm" onClick={() => handleWithdraw(change)} aria-label="Withdraw change">
+                        <Ban className="w-4 h-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Audit Trail: Original vs Restated</span>
+            <Select value={inventoryModule} onValueChange={setInventoryModule}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_SOURCES.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600 mb-4">
+            Base-year totals of the selected module (once a base year is set in the policy) and the baseline of every reduction
+            target. Expand a row for the adjustment each structural change made.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Baseline</TableHead>
+                <TableHead>Metric</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Base year</TableHead>
+                <TableHead className="text-right">Original</TableHead>
+                <TableHead className="text-right">Restated</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditRows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-gray-500">
+                    Set a base year in the policy or add reduction targets to see their baselines here.
+                  </TableCell>
+                </TableRow>
+              )}
+              {auditRows.map(row => {
+                const key = `${row.label}-${row.metric}`;
+                const { restatement } = row;
+                return (
+                  <Fragment key={key}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={restatement.adjustments.length === 0}
+                          onClick={() => setExpanded(expanded === key ? null : key)}
+                          aria-label="Show adjustments"
+                        >
+                          {expanded === key ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell>{row.metric}</TableCell>
+                      <TableCell>{row.scope}</TableCell>
+                      <TableCell>{row.baselineYear}</TableCell>
+                      <TableCell className="text-right">{format(restatement.original)}</TableCell>
+                      <TableCell className="text-right">{format(restatement.restated)}</TableCell>
+                      <TableCell className="text-right">{restatement.significance.toFixed(1)}%</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[restatement.status]}`}>
+                          {RESTATEMENT_STATUS_LABELS[restatement.status]}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === key && restatement.adjustments.map(adjustment => (
+                      <TableRow key={adjustment.change.id} className="bg-gray-50 text-gray-600">
+                        <TableCell />
+                        <TableCell className="pl-8" colSpan={3}>
+                          {adjustment.change.type}{adjustment.change.plant && ` · ${adjustment.change.plant}`} · effective {adjustment.change.effectiveDate}
+                        </TableCell>
+                        <TableCell colSpan={2} className="text-xs">{adjustment.basis}</TableCell>
+                        <TableCell className="text-right">{adjustment.delta > 0 ? '+' : ''}{format(adjustment.delta)}</TableCell>
+                        <TableCell colSpan={2} />
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BaseYearRecalculation;
@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Columns, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ColumnMapping, IngestionSchema } from '@/lib/excelIngestion';
+import {
+  deleteMappingProfile, distinctColumnValues, loadMappingProfiles, MappingProfile, ProfileScopeType
+} from '@/lib/columnMapping';
+import { MappingDraft, ProfileToSave } from '@/hooks/use-excel-upload';
+
+interface ColumnMappingWizardProps<T> {
+  schema: IngestionSchema<T>;
+  draft: MappingDraft | null;
+  onApply: (mapping: ColumnMapping, profile?: ProfileToSave) => void;
+  onCancel: () => void;
+}
+
+// Radix Select does not allow an empty item value
+const NOT_MAPPED = '__not_mapped__';
+
+const SCOPE_LABELS: Record<ProfileScopeType, string> = {
+  plant: 'Plant',
+  businessCode: 'Business Code',
+};
+
+function MappingDialog<T>({ schema, draft, onApply, onCancel }: ColumnMappingWizardProps<T> & { draft: MappingDraft }) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => {
+    const initial: ColumnMapping = {};
+    Object.entries(draft.suggestions).forEach(([key, suggestion]) => {
+      if (suggestion) initial[key] = suggestion.header;
+    });
+    return initial;
+  });
+  const scopeTypes = (Object.keys(SCOPE_LABELS) as ProfileScopeType[]).filter(type => schema.scopeFields?.[type]);
+  const [saveProfile, setSaveProfile] = useState(scopeTypes.length > 0);
+  const [scopeType, setScopeType] = useState<ProfileScopeType>(scopeTypes[0] ?? 'plant');
+  const [scopeValue, setScopeValue] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles(schema.id));
+  const [profileError, setProfileError] = useState<string | null>(null);
+
+  const headers = useMemo(
+    () => Array.from(new Set(draft.headers.filter(header => header !== ''))),
+    [draft.headers]
+  );
+
+  // Values in the column currently mapped to the chosen scope field
+  const scopeKey = schema.scopeFields?.[scopeType];
+  const scopeOptions = useMemo(
+    () => (scopeKey && mapping[scopeKey] ? distinctColumnValues(draft.sheet.rows, draft.headerIndex, mapping[scopeKey]) : []),
+    [draft, scopeKey, mapping]
+  );
+  const effectiveScopeValue = scopeValue || scopeOptions[0] || '';
+
+  const missingRequired = schema.fields.filter(field => field.required && !mapping[field.key]);
+  const headerUse = new Map<string, number>();
+  Object.values(mapping).forEach(header => headerUse.set(header, (headerUse.get(header) || 0) + 1));
+  const duplicates = Array.from(headerUse.entries()).filter(([, count]) => count > 1).map(([header]) => header);
+  const canApply = missingRequired.length === 0 && duplicates.length === 0 && (!saveProfile || effectiveScopeValue.trim() !== '');
+
+  const setField = (key: string, header: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header === NOT_MAPPED) delete next[key];
+      else next[key] = header;
+      return next;
+    });
+  };
+
+  const handleDeleteProfile = (profile: MappingProfile) => {
+    if (window.confirm(`Delete the mapping profile "${profile.name}"? Future uploads for ${profile.scope.value} will need mapping again.`)) {
+      setProfileError(deleteMappingProfile(profile.id) ? null : `Profile "${profile.name}" was not deleted: this browser's storage is unavailable`);
+      setProfiles(loadMappingProfiles(schema.id));
+    }
+  };
+
+  const handleApply = () => {
+    if (!saveProfile) {
+      onApply(mapping);
+      return;
+    }
+    const value = effectiveScopeValue.trim();
+    onApply(mapping, {
+      name: profileName.trim() || `${value} – ${schema.name}`,
+      scope: { type: scopeType, value },
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns className="w-5 h-5 text-blue-600" />
+            Map columns – {schema.name}
+          </DialogTitle>
+          <DialogDescription>
+            Headers detected on row {draft.headerIndex + draft.sheet.firstRowNumber} of sheet "{draft.sheet.sheetName}".
+            Closest matches are pre-selected; fields marked * are required.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Expected field</TableHead>
+              <TableHead>Column in your file</TableHead>
+              <TableHead className="w-20 text-right">Match</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schema.fields.map(field => {
+              const selected = mapping[field.key];
+              const suggestion = draft.suggestions[field.key];
+              const isSuggested = suggestion && suggestion.header === selected;
+              return (
+                <TableRow key={field.key}>
+                  <TableCell className="font-medium">
+                    {field.header}
+                    {field.required && <span className="text-red-600"> *</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={selected ?? NOT_MAPPED} onValueChange={value => setField(field.key, value)}>
+                      <SelectTrigger className={`h-8 ${selected && duplicates.includes(selected) ? 'border-red-500' : ''}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>— Not mapped —</SelectItem>
+                        {headers.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-gray-500">
+                    {isSuggested ? `${Math.round(suggestion.score * 100)}%` : selected ? 'manual' : ''}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {(missingRequired.length > 0 || duplicates.length > 0) && (
+          <div className="flex items-start gap-2 text-sm text-red-600">
+            <AlertTriangle className="w-4 h-4 mt-0.5" />
+            <div>
+              {missingRequired.length > 0 && <p>Map the required fields: {missingRequired.map(f => f.header).join(', ')}</p>}
+              {duplicates.length > 0 && <p>Columns used more than once: {duplicates.join(', ')}</p>}
+            </div>
+          </div>
+        )}
+
+        {scopeTypes.length > 0 && (
+          <div className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox id="save-mapping-profile" checked={saveProfile} onCheckedChange={checked => setSaveProfile(checked === true)} />
+              <Label htmlFor="save-mapping-profile">Save as a mapping profile and apply it automatically to future uploads</Label>
+            </div>
+            {saveProfile && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>Profile for</Label>
+                  <Select value={scopeType} onValueChange={value => { setScopeType(value as ProfileScopeType); setScopeValue(''); }}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scopeTypes.map(type => (
+                        <SelectItem key={type} value={type}>{SCOPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="mapping-scope-value">{SCOPE_LABELS[scopeType]}</Label>
+                  <Input
+                    id="mapping-scope-value"
+                    className="h-8"
+                    list="mapping-scope-options"
+                    value={effectiveScopeValue}
+                    onChange={e => setScopeValue(e.target.value)}
+                  />
+                  <datalist id="mapping-scope-options">
+                    {scopeOptions.map(option => <option key={option} value={option} />)}
+                  </datalist>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="mapping-profile-name">Profile name</Label>
+                  <Input
+                    id="mapping-profile-name"
+                    className="h-8"
+                    placeholder={effectiveScopeValue ? `${effectiveScopeValue} – ${schema.name}` : ''}
+                    value={profileName}
+                    onChange={e => setProfileName(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {profiles.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold">Saved mapping profiles</h3>
+            <div className="rounded border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Profile</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Saved at</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {profiles.map(profile => (
+                    <TableRow key={profile.id}>
+                      <TableCell className="font-medium">{profile.name}</TableCell>
+                      <TableCell>{SCOPE_LABELS[profile.scope.type]} {profile.scope.value}</TableCell>
+                      <TableCell>{new Date(profile.updatedAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => handleDeleteProfile(profile)} title="Delete profile">
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {profileError && <p className="text-sm text-red-600">{profileError}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!canApply}>Apply mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Lets the user line up non-standard sheet headers with the module's expected fields
+function ColumnMappingWizard<T>(props: ColumnMappingWizardProps<T>) {
+  return props.draft ? <MappingDialog {...props} draft={props.draft} /> : null;
+}
+
+export default ColumnMappingWizard;
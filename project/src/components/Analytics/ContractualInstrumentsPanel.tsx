@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { INSTRUMENT_TYPES, InstrumentType, InstrumentUsage } from '@/lib/marketBasedScope2';
+import { ContractualInstrument, ContractualInstrumentInput } from '@/services/esgRecords';
+
+interface ContractualInstrumentsPanelProps {
+  instruments: ContractualInstrument[];
+  usage: InstrumentUsage[];
+  plants: string[];
+  onAdd: (instrument: ContractualInstrumentInput) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+type InstrumentForm = Omit<ContractualInstrumentInput, 'quantity' | 'emissionFactor'> & { quantity: string; emissionFactor: string };
+
+const EMPTY_FORM: InstrumentForm = {
+  type: 'REC',
+  plant: '',
+  periodFrom: '',
+  periodTo: '',
+  quantity: '',
+  emissionFactor: '0',
+  supplier: '',
+  reference: '',
+};
+
+const TEXT_FIELDS: { key: keyof InstrumentForm; label: string; type: string; placeholder?: string }[] = [
+  { key: 'periodFrom', label: 'From month', type: 'month' },
+  { key: 'periodTo', label: 'To month', type: 'month' },
+  { key: 'quantity', label: 'kWh covered', type: 'number' },
+  { key: 'emissionFactor', label: 'Factor (tCO₂e/kWh)', type: 'number', placeholder: '0 for renewables' },
+  { key: 'supplier', label: 'Supplier / Registry', type: 'text' },
+  { key: 'reference', label: 'Certificate / Contract ref', type: 'text' },
+];
+
+// Register of RECs, PPAs and green tariffs per plant and period, with the volume applied under the current filters
+const ContractualInstrumentsPanel: React.FC<ContractualInstrumentsPanelProps> = ({ instruments, usage, plants, onAdd, onDelete }) => {
+  const [form, setForm] = useState<InstrumentForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  const appliedKWh = (id: string) => usage.find(u => u.instrument.id === id)?.kWh ?? 0;
+
+  const handleAdd = async () => {
+    setError(null);
+    try {
+      await onAdd({ ...form, quantity: Number(form.quantity), emissionFactor: Number(form.emissionFactor || 0) });
+      setForm({ ...EMPTY_FORM, type: form.type, plant: form.plant });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save instrument');
+    }
+  };
+
+  const handleDelete = (instrument: ContractualInstrument) => {
+    if (window.confirm(`Remove the ${instrument.type} for ${instrument.plant} (${instrument.periodFrom} to ${instrument.periodTo})?`)) {
+      onDelete(instrument.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+        <div className="space-y-1">
+          <Label>Instrument</Label>
+          <Select value={form.type} onValueChange={value => setForm({ ...form, type: value as InstrumentType })}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INSTRUMENT_TYPES.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="instrument-plant">Plant</Label>
+          <Input
+            id="instrument-plant"
+            className="h-9"
+            list="instrument-plants"
+            value={form.plant}
+            onChange={e => setForm({ ...form, plant: e.target.value })}
+          />
+          <datalist id="instrument-plants">
+            {plants.map(p => <option key={p} value={p} />)}
+          </datalist>
+        </div>
+        {TEXT_FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`instrument-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`instrument-${field.key}`}
+              className="h-9"
+              type={field.type}
+              step={field.type === 'number' ? 'any' : undefined}
+              placeholder={field.placeholder}
+              value={form[field.key]}
+              onChange={e => setForm({ ...form, [field.key]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-3">
+        <Button size="sm" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-1" />Register instrument
+        </Button>
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600">
+            <AlertTriangle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Instrument</TableHead>
+            <TableHead>Plant</TableHead>
+            <TableHead>Period</TableHead>
+            <TableHead className="text-right">kWh covered</TableHead>
+            <TableHead className="text-right">Factor</TableHead>
+            <TableHead className="text-right">Applied (kWh)</TableHead>
+            <TableHead>Supplier / Ref</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {instruments.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={8} className="text-center text-gray-500">
+                No instruments registered. Market-based emissions use the residual mix for all consumption.
+              </TableCell>
+            </TableRow>
+          )}
+          {instruments.map(instrument => (
+            <TableRow key={instrument.id}>
+              <TableCell className="font-medium">{instrument.type}</TableCell>
+              <TableCell>{instrument.plant}</TableCell>
+              <TableCell>{instrument.periodFrom} → {instrument.periodTo}</TableCell>
+              <TableCell className="text-right">{instrument.quantity.toLocaleString()}</TableCell>
+              <TableCell className="text-right">{instrument.emissionFactor}</TableCell>
+              <TableCell className="text-right">{appliedKWh(instrument.id).toLocaleString(undefined, { maximumFractionDigits: 0 })}</TableCell>
+              <TableCell className="text-gray-600">{[instrument.supplier, instrument.reference].filter(Boolean).join(' · ')}</TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(instrument)} aria-label="Remove instrument">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default ContractualInstrumentsPanel;
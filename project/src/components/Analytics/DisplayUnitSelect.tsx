@@ -0,0 +1,27 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DisplayUnitView } from '@/hooks/use-display-unit';
+
+type DisplayUnitSelectProps = Pick<DisplayUnitView, 'unit' | 'setUnit' | 'options' | 'refused'>;
+
+// Unit a module's figures are shown in, limited to units of the module's dimension
+const DisplayUnitSelect: React.FC<DisplayUnitSelectProps> = ({ unit, setUnit, options, refused }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-sm text-gray-600">Unit</span>
+    <Select value={unit ?? undefined} onValueChange={setUnit}>
+      <SelectTrigger className="h-8 w-28">
+        <SelectValue placeholder="As entered" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(u => <SelectItem key={u.id} value={u.id}>{u.label}</SelectItem>)}
+      </SelectContent>
+    </Select>
+    {refused.length > 0 && (
+      <span className="text-xs text-amber-700">
+        {refused.map(r => `${r.records} rows in ${r.unit}`).join(', ')} not convertible; left out of totals
+      </span>
+    )}
+  </div>
+);
+
+export default DisplayUnitSelect;
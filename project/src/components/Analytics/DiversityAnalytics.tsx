@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react';
+import { useMemo } from 'react';
 import {
   Upload,
   FileSpreadsheet,
@@ -21,116 +21,24 @@ import {
   LineChart,
   Line,
 } from 'recharts';
-import * as XLSX from 'xlsx';
-
-const fieldMapping = {
-  'Sr.No.': 'srNo',
-  'Sr No': 'srNoAlt',
-  'Objective Code': 'objectiveCode',
-  'Financial Year': 'financialYear',
-  'Month': 'month',
-  'Attribute': 'attribute',
-  'Dim1': 'dim1',
-  'Dim2': 'dim2',
-  'Emission Source': 'emissionSource',
-  'Start Date': 'startDate',
-  'End Date': 'endDate',
-  'Wages Paid To Females': 'wagesFemales',
-  'Wages Paid To Male': 'wagesMales',
-  'Total Complaints': 'totalComplaints',
-  'Complaints By Female Employee': 'complaintsByFemale',
-  'Complaints on POSH upheld': 'poshUpheld',
-  'Actual Compliance Ind': 'complianceInd',
-};
-
-const numericFields = [
-  'wagesFemales',
-  'wagesMales',
-  'totalComplaints',
-  'complaintsByFemale',
-  'poshUpheld',
-];
-
-const parseNumeric = (val: any) => {
-  if (val == null || val === '') return 0;
-  if (typeof val === 'number') return val;
-  const cleaned = val.toString().replace(/[,₹$€£¥]/g, '').trim();
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
-};
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import TargetTracker from './TargetTracker';
+import PayEquityPanel from './PayEquityPanel';
+import PoshCasesPanel from './PoshCasesPanel';
+import { FilterOptions } from '../../services/apiService';
+import { DIVERSITY_SCHEMA } from '@/lib/ingestionSchemas';
 
 const colors = ['#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6'];
 
-const DiversityDataAnalytics = () => {
-  const [data, setData] = useState<Record<string, any>[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
-
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target?.files?.[0];
-    if (!file) return;
-    setIsLoading(true);
-    setUploadStatus('idle');
-    const reader = new FileReader();
-    reader.onload = e => {
-      try {
-        const result = e.target?.result;
-        if (!result) throw new Error('Empty file content');
-        const workbook = XLSX.read(result as any, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[];
-        if (rows.length < 2) throw new Error('Excel must contain headers and rows');
-
-        // Detect header row dynamically
-        let headerRowIndex = -1;
-        let headers: string[] = [];
-        for (let i = 0; i < Math.min(10, rows.length); i++) {
-          const row = rows[i] as any[];
-          if (Array.isArray(row)) {
-            if (Object.keys(fieldMapping).every(h => row.includes(h as any))) {
-              headerRowIndex = i;
-              headers = row as string[];
-              break;
-            }
-          }
-        }
-        if (headerRowIndex === -1) throw new Error('Header row not found with required fields');
-
-        const dataRows = rows.slice(headerRowIndex + 1) as any[];
-
-        const processed = dataRows
-          .filter(
-            (row: any) =>
-              Array.isArray(row) && row.some((cell: any) => cell !== null && cell !== undefined && cell !== '')
-          )
-          .map((row: any[]) => {
-            let mapped: Record<string, any> = {};
-            headers.forEach((header: string, idx: number) => {
-              const key = (fieldMapping as any)[header];
-              if (!key) return;
-              const value = row[idx];
-              if (numericFields.includes(key)) {
-                mapped[key] = parseNumeric(value);
-              } else {
-                mapped[key] = value ? value.toString().trim() : '';
-              }
-            });
-            return mapped;
-          });
-
-        if (!processed.length) throw new Error('No valid data found');
-
-        setData(processed);
-        setUploadStatus('success');
-        setIsLoading(false);
-      } catch (error) {
-        setUploadStatus('error');
-        setIsLoading(false);
-      }
-    };
-    reader.readAsBinaryString(file);
-  }, []);
+const DiversityDataAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(DIVERSITY_SCHEMA, filters);
 
   const analytics = useMemo(() => {
     if (data.length === 0)
@@ -256,16 +164,43 @@ const DiversityDataAnalytics = () => {
           {uploadStatus === 'success' && (
             <div className="mt-4 flex items-center gap-2 text-green-600">
               <CheckCircle className="w-5 h-5" />
-              <span>Successfully loaded {data.length} diversity records</span>
+              <span>Successfully loaded {data.length} diversity records{issues.length > 0 && ` (accepted with ${issues.length} warnings)`}</span>
             </div>
           )}
 
           {uploadStatus === 'error' && (
             <div className="mt-4 flex items-center gap-2 text-red-600">
               <AlertTriangle className="w-5 h-5" />
-              <span>Error importing file. Please check the format and try again.</span>
+              <span>Error importing file: {errorMessage}</span>
             </div>
           )}
+          <UploadValidationReport
+            moduleName="Diversity"
+            status={uploadStatus}
+            fileName={fileName}
+            issues={issues}
+            pendingCount={pendingCount}
+            onAccept={acceptUpload}
+            onReject={rejectUpload}
+            onMapColumns={openMappingWizard}
+            appliedProfileName={appliedProfile?.name}
+            unsavedProfileName={unsavedProfileName}
+          />
+          <ColumnMappingWizard
+            schema={DIVERSITY_SCHEMA}
+            draft={mappingDraft}
+            onApply={applyColumnMapping}
+            onCancel={closeMappingWizard}
+          />
+          <UploadedDatasetsPanel
+            datasets={datasets}
+            storeStatus={storeStatus}
+            saveError={saveError}
+            uploaderName={uploaderName}
+            onUploaderNameChange={setUploaderName}
+            onDelete={deleteDataset}
+            onRefresh={reloadSavedRecords}
+          />
         </div>
 
         {data.length > 0 && (
@@ -329,6 +264,16 @@ const DiversityDataAnalytics = () => {
               </ResponsiveContainer>
             </div>
 
+            {/* Pay Equity */}
+            <div className="mb-8 bg-white p-6 rounded-lg shadow border border-gray-200">
+              <h3 className="text-xl font-semibold mb-4">Gender Pay Equity (BRSR Principle 5)</h3>
+              <PayEquityPanel records={data} />
+            </div>
+
+            <div className="mb-8">
+              <TargetTracker moduleId="diversity" records={data} />
+            </div>
+
             {/* Complaints Breakdown */}
             <div className="mb-8">
               <h3 className="text-xl font-semibold mb-4">Complaints Breakdown by Dimension 1</h3>
@@ -357,6 +302,12 @@ const DiversityDataAnalytics = () => {
                 </LineChart>
               </ResponsiveContainer>
             </div>
+
+            {/* POSH Cases */}
+            <div className="mb-8 bg-white p-6 rounded-lg shadow border border-gray-200">
+              <h3 className="text-xl font-semibold mb-4">POSH Complaints and Resolution</h3>
+              <PoshCasesPanel records={data} />
+            </div>
           </>
         )}
       </div>
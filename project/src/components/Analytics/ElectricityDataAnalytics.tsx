@@ -8,19 +8,44 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { getElectricityData, FilterOptions } from '../../services/apiService';
+import { alignYearOverYear, fiscalMonthName, sortByFiscalMonth } from '@/lib/fiscalCalendar';
+import { applyEmissionFactors, summarizeFactorUsage } from '@/lib/emissionFactors';
+import { computeMarketBased, summarizeInstrumentUsage } from '@/lib/marketBasedScope2';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import YearOverYearChart from './YearOverYearChart';
+import ContractualInstrumentsPanel from './ContractualInstrumentsPanel';
+import EmissionFactorUsageTable from './EmissionFactorUsageTable';
+import TargetTracker from './TargetTracker';
+import IntensityToggle from './IntensityToggle';
+import DisplayUnitSelect from './DisplayUnitSelect';
+import { useIntensity } from '@/hooks/use-intensity';
+import { useDisplayUnit } from '@/hooks/use-display-unit';
+import { restateRecords } from '@/lib/units';
+import {
+  getElectricityData, getEmissionFactors, getContractualInstruments, saveContractualInstrument, deleteContractualInstrument,
+  FilterOptions
+} from '../../services/apiService';
+import { ContractualInstrument, ContractualInstrumentInput, ElectricityRecord, EmissionFactor } from '../../services/esgRecords';
 
 /**
  * ElectricityDataAnalytics
  * - Fetches Scope 2 electricity data (from your ESG DB)
- * - Computes total consumption, emissions, and averages
+ * - Computes total consumption, emissions (from the emission factor library), and averages
+ * - Reports Scope 2 both location-based and market-based (RECs, PPAs, green tariffs)
  * - Shows dynamic charts for plants, departments, and time trends
  */
 
 const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
-  const [data, setData] = useState<any[]>([]);
+  const [data, setData] = useState<ElectricityRecord[]>([]);
+  const [factors, setFactors] = useState<EmissionFactor[]>([]);
+  const [instruments, setInstruments] = useState<ContractualInstrument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const displayUnit = useDisplayUnit('electricity', data);
+  // Emission factors are per kWh, so rows are restated in kWh and only consumption is shown in the display unit
+  // Rows in a unit that is not energy cannot be restated; they are counted beside the unit picker
+  const { records: kwhData, refused: kwhRefused } = useMemo(() => restateRecords(data, 'quantity', 'kWh'), [data]);
+  const intensity = useIntensity(kwhData);
 
   // Fetch data when component mounts or filters change
   useEffect(() => {
@@ -31,8 +56,22 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
     setIsLoading(true);
     setLoadStatus('idle');
     try {
-      const dbData = await getElectricityData(filters);
+      // Without the factor library, rows fall back to their own ConvFactor;
+      // without the instrument register, market-based uses the residual mix throughout
+      const [dbData, library, register] = await Promise.all([
+        getElectricityData(filters),
+        getEmissionFactors().catch(error => {
+          console.error('Emission factor loading error:', error);
+          return [];
+        }),
+        getContractualInstruments(filters).catch(error => {
+          console.error('Contractual instrument loading error:', error);
+          return [];
+        }),
+      ]);
       setData(dbData || []);
+      setFactors(library);
+      setInstruments(register);
       setLoadStatus('success');
     } catch (error) {
       console.error('Database loading error:', error);
@@ -46,15 +85,31 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
     loadDataFromDatabase();
   }, [filters]);
 
+  const handleAddInstrument = async (instrument: ContractualInstrumentInput) => {
+    await saveContractualInstrument(instrument);
+    setInstruments(await getContractualInstruments(filters));
+  };
+
+  const handleDeleteInstrument = async (id: string) => {
+    try {
+      await deleteContractualInstrument(id);
+      setInstruments(await getContractualInstruments(filters));
+    } catch (error) {
+      console.error('Contractual instrument delete error:', error);
+    }
+  };
+
   /**
    * 🔍 Compute analytics from the API data
    */
   const analytics = useMemo(() => {
-    if (data.length === 0)
+    if (intensity.records.length === 0)
       return {
         totals: {
           totalQuantity: 0,
           totalCO2: 0,
+          marketCO2: 0,
+          coveredQuantity: 0,
           avgQuantity: 0,
           avgCO2: 0
         },
@@ -64,25 +119,29 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
           subCategory: [],
           type: []
         },
-        byMonth: []
+        byMonth: [],
+        yearOverYear: { rows: [], years: [] },
+        factorUsage: [],
+        scope2: { byPlant: [], periods: [], instrumentUsage: [] }
       };
 
-    // Compute derived values (CO2 = quantity * convFactor)
-    const enrichedData = data.map((d) => ({
-      ...d,
-      co2Emissions: (d.quantity || 0) * (d.convFactor || 0),
-    }));
+    // CO2 = quantity * library factor for the row's source, region and month
+    const enrichedData = applyEmissionFactors(intensity.records, factors);
+    const marketBased = computeMarketBased(enrichedData, instruments, factors);
+    const { toDisplay } = displayUnit;
 
     // Totals
     const totals = {
-      totalQuantity: enrichedData.reduce((a, v) => a + (v.quantity || 0), 0),
-      totalCO2: enrichedData.reduce((a, v) => a + (v.co2Emissions || 0), 0),
-      avgQuantity: enrichedData.reduce((a, v) => a + (v.quantity || 0), 0) / enrichedData.length,
+      totalQuantity: toDisplay(intensity.divideTotal(enrichedData.reduce((a, v) => a + (v.quantity || 0), 0))),
+      totalCO2: intensity.divideTotal(enrichedData.reduce((a, v) => a + (v.co2Emissions || 0), 0)),
+      marketCO2: intensity.divideTotal(marketBased.periods.reduce((a, p) => a + p.market, 0)),
+      coveredQuantity: toDisplay(intensity.divideTotal(marketBased.periods.reduce((a, p) => a + p.covered, 0))),
+      avgQuantity: toDisplay(enrichedData.reduce((a, v) => a + (v.quantity || 0), 0) / enrichedData.length),
       avgCO2: enrichedData.reduce((a, v) => a + (v.co2Emissions || 0), 0) / enrichedData.length,
     };
 
     // Helper to group data
-    const aggregateBy = (key: string) => {
+    const aggregateBy = (key: 'plant' | 'department' | 'subCategory' | 'type') => {
       const map = new Map();
       enrichedData.forEach((d) => {
         const k = d[key] || 'Unknown';
@@ -90,26 +149,29 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
           map.set(k, { category: k, totalQuantity: 0, totalCO2: 0, count: 0 });
         }
         const agg = map.get(k);
-        agg.totalQuantity += d.quantity || 0;
+        agg.totalQuantity += toDisplay(d.quantity || 0);
         agg.totalCO2 += d.co2Emissions || 0;
         agg.count++;
       });
-      return Array.from(map.values());
+      return intensity.divide(Array.from(map.values()), agg => agg.category, d => d[key] || 'Unknown', ['totalQuantity', 'totalCO2']);
     };
 
-    // Monthly trend (if month data exists)
+    // Monthly trend (if month data exists), April → March
     const byMonth = (() => {
       const map = new Map();
       enrichedData.forEach((d) => {
-        const m = d.month || 'N/A';
+        const m = d.month ? fiscalMonthName(d.month) : 'N/A';
         if (!map.has(m)) {
           map.set(m, { month: m, totalQuantity: 0, totalCO2: 0 });
         }
         const agg = map.get(m);
-        agg.totalQuantity += d.quantity || 0;
+        agg.totalQuantity += toDisplay(d.quantity || 0);
         agg.totalCO2 += d.co2Emissions || 0;
       });
-      return Array.from(map.values());
+      return sortByFiscalMonth(
+        intensity.divide(Array.from(map.values()), agg => agg.month, d => (d.month ? fiscalMonthName(d.month) : 'N/A'), ['totalQuantity', 'totalCO2']),
+        m => m.month
+      );
     })();
 
     return {
@@ -121,8 +183,34 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
         type: aggregateBy('type'),
       },
       byMonth,
+      yearOverYear: intensity.divideYearOverYear(
+        alignYearOverYear(enrichedData, d => d.financialYear, d => d.month, d => toDisplay(d.quantity || 0)),
+        d => d.financialYear,
+        d => d.month
+      ),
+      factorUsage: summarizeFactorUsage(enrichedData),
+      scope2: {
+        byPlant: (() => {
+          const map = new Map<string, { plant: string; location: number; market: number }>();
+          marketBased.periods.forEach((p) => {
+            const agg = map.get(p.plant) ?? { plant: p.plant, location: 0, market: 0 };
+            agg.location += p.location;
+            agg.market += p.market;
+            map.set(p.plant, agg);
+          });
+          return intensity.divide(Array.from(map.values()), agg => agg.plant, d => (d.plant ?? '').trim() || 'Unknown', ['location', 'market']);
+        })(),
+        periods: marketBased.periods,
+        instrumentUsage: summarizeInstrumentUsage(marketBased.allocations),
+      },
     };
-  }, [data]);
+  }, [intensity, displayUnit, factors, instruments]);
+
+  // Targets are absolute, so they track every record whatever the view
+  const targetRecords = useMemo(
+    () => computeMarketBased(applyEmissionFactors(kwhData, factors), instruments, factors).records,
+    [kwhData, factors, instruments]
+  );
 
   return (
     <div className="p-6 space-y-6">
@@ -166,14 +254,22 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
       </Card>
 
       {/* Analytics Section */}
+      {data.length > 0 && (
+        <div className="flex items-center justify-end gap-3">
+          <DisplayUnitSelect {...displayUnit} refused={kwhRefused} />
+          <IntensityToggle {...intensity} />
+        </div>
+      )}
       {data.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="plant">Plant</TabsTrigger>
             <TabsTrigger value="department">Department</TabsTrigger>
             <TabsTrigger value="subCategory">SubCategory</TabsTrigger>
             <TabsTrigger value="monthly">Monthly Trend</TabsTrigger>
+            <TabsTrigger value="factors">Factor Provenance</TabsTrigger>
+            <TabsTrigger value="dual">Location vs Market</TabsTrigger>
           </TabsList>
 
           {/* Overview */}
@@ -183,24 +279,30 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                 <CardTitle>Key Electricity Metrics</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
                     <p className="text-2xl font-bold text-blue-600">
                       {analytics.totals.totalQuantity.toFixed(2)}
                     </p>
-                    <p className="text-sm text-gray-600">Total Quantity (kWh)</p>
+                    <p className="text-sm text-gray-600">Total Quantity ({displayUnit.label}{intensity.per})</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <p className="text-2xl font-bold text-green-600">
                       {analytics.totals.totalCO2.toFixed(2)}
                     </p>
-                    <p className="text-sm text-gray-600">Total CO₂ Emissions (tCO₂e)</p>
+                    <p className="text-sm text-gray-600">Location-based CO₂ (tCO₂e{intensity.per})</p>
+                  </div>
+                  <div className="text-center p-4 bg-teal-50 rounded-lg">
+                    <p className="text-2xl font-bold text-teal-600">
+                      {analytics.totals.marketCO2.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-gray-600">Market-based CO₂ (tCO₂e{intensity.per})</p>
                   </div>
                   <div className="text-center p-4 bg-purple-50 rounded-lg">
                     <p className="text-2xl font-bold text-purple-600">
                       {analytics.totals.avgQuantity.toFixed(2)}
                     </p>
-                    <p className="text-sm text-gray-600">Average Quantity (kWh)</p>
+                    <p className="text-sm text-gray-600">Average Quantity ({displayUnit.label})</p>
                   </div>
                   <div className="text-center p-4 bg-yellow-50 rounded-lg">
                     <p className="text-2xl font-bold text-yellow-600">
@@ -228,8 +330,8 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                       <YAxis />
                       <Tooltip />
                       <Legend />
-                      <Bar dataKey="totalQuantity" fill="#3B82F6" name="Quantity (kWh)" />
-                      <Bar dataKey="totalCO2" fill="#10B981" name="CO₂ (tCO₂e)" />
+                      <Bar dataKey="totalQuantity" fill="#3B82F6" name={`Quantity (${displayUnit.label}${intensity.per})`} />
+                      <Bar dataKey="totalCO2" fill="#10B981" name={`CO₂ (tCO₂e${intensity.per})`} />
                     </BarChart>
                   </ResponsiveContainer>
                 </CardContent>
@@ -251,12 +353,106 @@ const ElectricityDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Line type="monotone" dataKey="totalQuantity" stroke="#3B82F6" name="Quantity (kWh)" />
-                    <Line type="monotone" dataKey="totalCO2" stroke="#10B981" name="CO₂ (tCO₂e)" />
+                    <Line type="monotone" dataKey="totalQuantity" stroke="#3B82F6" name={`Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Line type="monotone" dataKey="totalCO2" stroke="#10B981" name={`CO₂ (tCO₂e${intensity.per})`} />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <YearOverYearChart title="Electricity Consumption – Year over Year (Fiscal Months)" series={analytics.yearOverYear} unit={`${displayUnit.label}${intensity.per}`} />
+            </div>
+            <div className="mt-6">
+              <TargetTracker moduleId="electricity" records={targetRecords} />
+            </div>
+          </TabsContent>
+
+          {/* Which emission factor produced each figure */}
+          <TabsContent value="factors">
+            <EmissionFactorUsageTable usage={analytics.factorUsage} quantityUnit="kWh" />
+          </TabsContent>
+
+          {/* GHG Protocol dual reporting: location-based beside market-based */}
+          <TabsContent value="dual" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Scope 2 Dual Reporting</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="text-center p-4 bg-green-50 rounded-lg">
+                    <p className="text-2xl font-bold text-green-600">{analytics.totals.totalCO2.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Location-based (tCO₂e{intensity.per}) · grid average factors</p>
+                  </div>
+                  <div className="text-center p-4 bg-teal-50 rounded-lg">
+                    <p className="text-2xl font-bold text-teal-600">{analytics.totals.marketCO2.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Market-based (tCO₂e{intensity.per}) · instruments and residual mix</p>
+                  </div>
+                  <div className="text-center p-4 bg-blue-50 rounded-lg">
+                    <p className="text-2xl font-bold text-blue-600">
+                      {analytics.totals.totalQuantity ? ((analytics.totals.coveredQuantity / analytics.totals.totalQuantity) * 100).toFixed(1) : '0.0'}%
+                    </p>
+                    <p className="text-sm text-gray-600">Consumption covered by instruments</p>
+                  </div>
+                </div>
+                <ResponsiveContainer width="100%" height={350}>
+                  <BarChart data={analytics.scope2.byPlant}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="plant" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="location" fill="#10B981" name={`Location-based (tCO₂e${intensity.per})`} />
+                    <Bar dataKey="market" fill="#14B8A6" name={`Market-based (tCO₂e${intensity.per})`} />
+                  </BarChart>
+                </ResponsiveContainer>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Plant</TableHead>
+                      <TableHead className="text-right">Consumption (kWh)</TableHead>
+                      <TableHead className="text-right">Covered (kWh)</TableHead>
+                      <TableHead className="text-right">Location-based</TableHead>
+                      <TableHead className="text-right">Market-based</TableHead>
+                      <TableHead>Uncovered at</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.scope2.periods.map((p) => (
+                      <TableRow key={`${p.plant}|${p.period}`}>
+                        <TableCell>{p.period ?? 'N/A'}</TableCell>
+                        <TableCell>{p.plant}</TableCell>
+                        <TableCell className="text-right">{p.consumption.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{p.covered.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{p.location.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{p.market.toFixed(2)}</TableCell>
+                        <TableCell className="text-gray-600">{p.residualSource}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Contractual Instruments</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 mb-4">
+                  Each instrument's kWh is spread evenly over its months and applied to that plant's consumption, capped at what was
+                  consumed. Consumption not covered uses the "Residual Mix" factor from the emission factor library, or the grid
+                  factor when none is recorded.
+                </p>
+                <ContractualInstrumentsPanel
+                  instruments={instruments}
+                  usage={analytics.scope2.instrumentUsage}
+                  plants={analytics.scope2.byPlant.map((p) => p.plant)}
+                  onAdd={handleAddInstrument}
+                  onDelete={handleDeleteInstrument}
+                />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       )}
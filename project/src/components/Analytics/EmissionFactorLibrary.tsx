@@ -0,0 +1,315 @@
+import { useState, useEffect, Fragment } from 'react';
+import { Database, Library, RefreshCw, Clock, Plus, Pencil, Archive, History } from 'lucide-react';
+import { getEmissionFactors, retireEmissionFactor, saveEmissionFactor } from '../../services/apiService';
+import { EmissionFactor, EmissionFactorInput } from '../../services/esgRecords';
+import { downloadEmissionFactorWorkbook, EMISSION_FACTOR_STANDARDS, EmissionFactorStandard, factorUnitError } from '@/lib/emissionFactors';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+type FactorForm = Omit<EmissionFactorInput, 'value' | 'year' | 'effectiveTo'> & { value: string; year: string; effectiveTo: string };
+
+const EMPTY_FORM: FactorForm = {
+  source: '',
+  region: '',
+  year: String(new Date().getFullYear()),
+  standard: 'CEA',
+  vintage: '',
+  value: '',
+  unit: 'tCO2e/kWh',
+  effectiveFrom: '',
+  effectiveTo: '',
+};
+
+const toForm = (factor: EmissionFactor): FactorForm => ({
+  source: factor.source,
+  region: factor.region,
+  year: String(factor.year),
+  standard: factor.standard,
+  vintage: factor.vintage,
+  value: String(factor.value),
+  unit: factor.unit,
+  effectiveFrom: factor.effectiveFrom,
+  effectiveTo: factor.effectiveTo ?? '',
+});
+
+const FORM_FIELDS: { key: keyof FactorForm; label: string; type?: string; placeholder?: string }[] = [
+  { key: 'source', label: 'Fuel / Source', placeholder: 'e.g. Grid Electricity, Diesel' },
+  { key: 'region', label: 'Region', placeholder: 'Country, business code or plant' },
+  { key: 'year', label: 'Year', type: 'number' },
+  { key: 'vintage', label: 'Vintage', placeholder: 'e.g. CEA v19' },
+  { key: 'value', label: 'Factor', type: 'number' },
+  { key: 'unit', label: 'Unit', placeholder: 'e.g. tCO2e/kWh, kgCO2e/L' },
+  { key: 'effectiveFrom', label: 'Effective From', type: 'date' },
+  { key: 'effectiveTo', label: 'Effective To', type: 'date' },
+];
+
+const EmissionFactorLibrary = () => {
+  const [factors, setFactors] = useState<EmissionFactor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [standardFilter, setStandardFilter] = useState<EmissionFactorStandard | 'All'>('All');
+  const [editing, setEditing] = useState<{ id?: string; form: FactorForm } | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFactors();
+  }, []);
+
+  const loadFactors = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+    try {
+      setFactors(await getEmissionFactors());
+      setLoadStatus('success');
+    } catch (error) {
+      console.error('Emission factor API error:', error);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { form, id } = editing;
+    const unitError = factorUnitError(form.unit);
+    if (unitError) {
+      setSaveError(unitError);
+      return;
+    }
+    setSaveError(null);
+    try {
+      await saveEmissionFactor(
+        { ...form, value: Number(form.value), year: Number(form.year), effectiveTo: form.effectiveTo || null },
+        id
+      );
+      setEditing(null);
+      await loadFactors();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save emission factor');
+    }
+  };
+
+  const handleRetire = async (factor: EmissionFactor) => {
+    if (!window.confirm(`Retire the ${factor.source} factor (${factor.standard} ${factor.vintage || factor.year})? It stops applying after today but stays on the periods it already covers.`)) return;
+    try {
+      await retireEmissionFactor(factor.id);
+      await loadFactors();
+    } catch (error) {
+      console.error('Emission factor retire error:', error);
+    }
+  };
+
+  const visible = factors.filter(f => standardFilter === 'All' || f.standard === standardFilter);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <Library className="w-8 h-8 mr-3 text-emerald-600" />
+          Emission Factor Library
+        </h1>
+        <button
+          onClick={() => downloadEmissionFactorWorkbook(factors)}
+          disabled={factors.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-emerald-600 text-white font-medium hover:bg-emerald-700 disabled:opacity-50"
+        >
+          Export Library
+        </button>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              Emission Factors
+            </div>
+            <button
+              onClick={loadFactors}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading emission factors...</p>}
+            {loadStatus === 'success' && <p className="text-green-600">✅ Loaded {factors.length} emission factors</p>}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error loading emission factors. Check backend API.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Factors</span>
+            <div className="flex items-center gap-2">
+              <Select value={standardFilter} onValueChange={value => setStandardFilter(value as EmissionFactorStandard | 'All')}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="All">All standards</SelectItem>
+                  {EMISSION_FACTOR_STANDARDS.map(s => <SelectItem key={s.id} value={s.id}>{s.id}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={() => { setSaveError(null); setEditing({ form: EMPTY_FORM }); }}>
+                <Plus className="w-4 h-4 mr-1" />Add factor
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-600 mb-4">
+            A factor applies to rows whose Sub Category, Type or Parameter contains its fuel/source and whose month falls within
+            its effective dates. A factor for the row's plant beats one for its business code, which beats any other region.
+            Rows with no matching factor keep their own ConvFactor. The unit, e.g. kgCO2e/kWh, is converted to tCO₂e per unit of
+            the row's quantity, and a factor whose activity unit measures something else is not applied. Editing a factor keeps
+            the previous values in its history and recalculates every period it covers; retiring it ends its effective dates
+            today but keeps it for earlier periods.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Fuel / Source</TableHead>
+                <TableHead>Region</TableHead>
+                <TableHead>Standard</TableHead>
+                <TableHead>Vintage</TableHead>
+                <TableHead className="text-right">Factor</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-gray-500">No emission factors yet.</TableCell>
+                </TableRow>
+              )}
+              {visible.map(factor => (
+                <Fragment key={factor.id}>
+                  <TableRow className={factor.retiredAt ? 'text-gray-500' : undefined}>
+                    <TableCell className="font-medium">{factor.source}</TableCell>
+                    <TableCell>{factor.region || 'All regions'}</TableCell>
+                    <TableCell>{factor.standard}</TableCell>
+                    <TableCell>{factor.vintage || factor.year}</TableCell>
+                    <TableCell className="text-right">{factor.value}</TableCell>
+                    <TableCell className={factorUnitError(factor.unit) ? 'text-red-600' : 'text-gray-600'}>
+                      {factor.unit || 'no unit'}
+                    </TableCell>
+                    <TableCell>
+                      {factor.effectiveFrom} → {factor.effectiveTo ?? 'open'}
+                      {factor.retiredAt && <span className="block text-xs">Retired {new Date(factor.retiredAt).toLocaleDateString()}</span>}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={factor.revisions.length === 0}
+                          onClick={() => setHistoryFor(historyFor === factor.id ? null : factor.id)}
+                          aria-label="Revision history"
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={Boolean(factor.retiredAt)}
+                          onClick={() => { setSaveError(null); setEditing({ id: factor.id, form: toForm(factor) }); }}
+                          aria-label="Edit factor"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" disabled={Boolean(factor.retiredAt)} onClick={() => handleRetire(factor)} aria-label="Retire factor">
+                          <Archive className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {historyFor === factor.id && factor.revisions.map(revision => (
+                    <TableRow key={revision.updatedAt} className="bg-gray-50 text-gray-500">
+                      <TableCell className="pl-8">{revision.source}</TableCell>
+                      <TableCell>{revision.region || 'All regions'}</TableCell>
+                      <TableCell>{revision.standard}</TableCell>
+                      <TableCell>{revision.vintage || revision.year}</TableCell>
+                      <TableCell className="text-right">{revision.value}</TableCell>
+                      <TableCell>{revision.unit}</TableCell>
+                      <TableCell>{revision.effectiveFrom} → {revision.effectiveTo ?? 'open'}</TableCell>
+                      <TableCell className="text-xs">Replaced {new Date(revision.updatedAt).toLocaleDateString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editing?.id ? 'Revise Emission Factor' : 'Add Emission Factor'}</DialogTitle>
+            <DialogDescription>
+              {editing?.id
+                ? 'The current values are kept in the factor history. Emissions for every period the factor covers are recalculated.'
+                : 'Give the unit as emissions per activity unit, e.g. tCO2e/kWh; it is converted to the unit of each row\'s quantity.'}
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Standard</Label>
+                <Select
+                  value={editing.form.standard}
+                  onValueChange={value => setEditing({ ...editing, form: { ...editing.form, standard: value as EmissionFactorStandard } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMISSION_FACTOR_STANDARDS.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              {FORM_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`factor-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`factor-${field.key}`}
+                    type={field.type ?? 'text'}
+                    step={field.key === 'value' ? 'any' : undefined}
+                    placeholder={field.placeholder}
+                    value={editing.form[field.key]}
+                    onChange={e => setEditing({ ...editing, form: { ...editing.form, [field.key]: e.target.value } })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmissionFactorLibrary;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FactorUsage } from '@/lib/emissionFactors';
+
+interface EmissionFactorUsageTableProps {
+  usage: FactorUsage[];
+  // Unit of the rows' Quantity; the column is left out when the rows mix units
+  quantityUnit?: string;
+}
+
+// Which emission factor produced each figure, beside the figures as stored
+const EmissionFactorUsageTable: React.FC<EmissionFactorUsageTableProps> = ({ usage, quantityUnit }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Emission Factor Provenance</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Factor</TableHead>
+            <TableHead className="text-right">Value</TableHead>
+            <TableHead className="text-right">Records</TableHead>
+            {quantityUnit && <TableHead className="text-right">Quantity ({quantityUnit})</TableHead>}
+            <TableHead className="text-right">CO₂ (tCO₂e)</TableHead>
+            <TableHead className="text-right">As Stored</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {usage.map((entry) => (
+            <TableRow key={entry.factorId ?? 'record'}>
+              <TableCell className="font-medium">{entry.label}</TableCell>
+              <TableCell className="text-right">{entry.factorId ? entry.factor : 'Per row'}</TableCell>
+              <TableCell className="text-right">{entry.records}</TableCell>
+              {quantityUnit && <TableCell className="text-right">{entry.quantity.toFixed(2)}</TableCell>}
+              <TableCell className="text-right">{entry.emissions.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{entry.storedEmissions.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{(entry.emissions - entry.storedEmissions).toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+          {usage.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={quantityUnit ? 7 : 6} className="text-center text-gray-500">No emission records</TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </CardContent>
+  </Card>
+);
+
+export default EmissionFactorUsageTable;
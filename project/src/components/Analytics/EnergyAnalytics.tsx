@@ -8,12 +8,31 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
-import { getEnergyData, FilterOptions } from '../../services/apiService';
+import { Checkbox } from '@/components/ui/checkbox';
+import { getEnergyData, getElectricityData, getFossilFuelData, FilterOptions } from '../../services/apiService';
+import { ElectricityRecord, FossilFuelRecord } from '../../services/esgRecords';
+import TargetTracker from './TargetTracker';
+import IntensityToggle from './IntensityToggle';
+import DisplayUnitSelect from './DisplayUnitSelect';
+import EnergyMixPanel from './EnergyMixPanel';
+import EnergySourceRulesPanel from './EnergySourceRulesPanel';
+import { useIntensity } from '@/hooks/use-intensity';
+import { useDisplayUnit } from '@/hooks/use-display-unit';
+import {
+  computeEnergyMix, ENERGY_STREAMS, EnergySourceRule, EnergyStream, loadEnergySourceRules, saveEnergySourceRules
+} from '@/lib/energyMix';
 
 const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
   const [data, setData] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [electricity, setElectricity] = useState<ElectricityRecord[]>([]);
+  const [fuel, setFuel] = useState<FossilFuelRecord[]>([]);
+  const [sourceRules, setSourceRules] = useState<EnergySourceRule[]>(loadEnergySourceRules);
+  // Untick the Energy sheet when it already carries the merged electricity and fuel figures
+  const [includedStreams, setIncludedStreams] = useState<Record<EnergyStream, boolean>>({ energy: true, electricity: true, fuel: true });
+  const displayUnit = useDisplayUnit('energy', data);
+  const intensity = useIntensity(displayUnit.records);
 
   useEffect(() => {
     loadDataFromDatabase();
@@ -23,23 +42,42 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
     setIsLoading(true);
     setLoadStatus('idle');
     try {
-      const dbData = await getEnergyData(filters);
+      // Without electricity or fuel data the energy mix falls back to the Energy sheet alone
+      const [dbData, electricityData, fuelData] = await Promise.all([
+        getEnergyData(filters),
+        getElectricityData(filters).catch(error => {
+          console.error('Electricity data loading error:', error);
+          return [];
+        }),
+        getFossilFuelData(filters).catch(error => {
+          console.error('Fossil fuel data loading error:', error);
+          return [];
+        }),
+      ]);
 
       // Normalize data for analytics
-      const formatted = dbData.map((item: any) => ({
+      const formatted = dbData.map(item => ({
+        attributeId: item.attributeId,
         plant: item.plant || 'Unknown',
         department: item.department || 'Unknown',
         businessCode: item.businessCode || '',
+        financialYear: item.financialYear || '',
         attribute: item.attribute || '',
         parameter: item.parameter || '',
+        subCategory: item.subCategory || '',
         type: item.type || 'Unknown',
         month: item.month || 'Unknown',
         quantity: item.quantity || 0,
         convFactor: item.convFactor || 0,
         value: item.value || item.quantity * item.convFactor || 0,
+        unit: item.unit,
+        normalizedQuantity: item.normalizedQuantity,
+        normalizedUnit: item.normalizedUnit,
       }));
 
       setData(formatted);
+      setElectricity(electricityData);
+      setFuel(fuelData);
       setLoadStatus('success');
     } catch (err) {
       console.error('Error loading energy data:', err);
@@ -55,7 +93,8 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
 
   // Compute analytics
   const analytics = useMemo(() => {
-    if (data.length === 0)
+    const records = intensity.records;
+    if (records.length === 0)
       return {
         totals: {
           totalEnergy: 0,
@@ -71,17 +110,17 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
         byParameter: [],
       };
 
-    const totalEnergy = data.reduce((a, v) => a + (v.value || 0), 0);
+    const totalEnergy = records.reduce((a, v) => a + (v.value || 0), 0);
 
     const aggregate = (key: string) => {
       const map = new Map();
-      data.forEach(d => {
+      records.forEach(d => {
         const k = d[key] || 'Unknown';
         if (!map.has(k))
           map.set(k, { category: k, total: 0 });
         map.get(k).total += d.value || 0;
       });
-      return Array.from(map.values());
+      return intensity.divide(Array.from(map.values()), agg => agg.category, d => d[key] || 'Unknown', ['total']);
     };
 
     const byPlant = aggregate('plant');
@@ -91,22 +130,22 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
 
     const byMonth = (() => {
       const map = new Map();
-      data.forEach(d => {
+      records.forEach(d => {
         const m = d.month || 'Unknown';
         if (!map.has(m))
           map.set(m, { month: m, total: 0 });
         map.get(m).total += d.value || 0;
       });
-      return Array.from(map.values());
+      return intensity.divide(Array.from(map.values()), agg => agg.month, d => d.month || 'Unknown', ['total']);
     })();
 
     return {
       totals: {
-        totalEnergy,
-        avgEnergy: totalEnergy / data.length,
-        plantCount: new Set(data.map(d => d.plant)).size,
-        deptCount: new Set(data.map(d => d.department)).size,
-        typeCount: new Set(data.map(d => d.type)).size,
+        totalEnergy: intensity.divideTotal(totalEnergy),
+        avgEnergy: totalEnergy / records.length,
+        plantCount: new Set(records.map(d => d.plant)).size,
+        deptCount: new Set(records.map(d => d.department)).size,
+        typeCount: new Set(records.map(d => d.type)).size,
       },
       byPlant,
       byDepartment,
@@ -114,7 +153,18 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
       byMonth,
       byParameter,
     };
-  }, [data]);
+  }, [intensity]);
+
+  const energyMix = useMemo(() => computeEnergyMix({
+    energy: includedStreams.energy ? data : [],
+    electricity: includedStreams.electricity ? electricity : [],
+    fuel: includedStreams.fuel ? fuel : [],
+  }, sourceRules), [data, electricity, fuel, includedStreams, sourceRules]);
+
+  const updateSourceRules = (rules: EnergySourceRule[]) => {
+    setSourceRules(rules);
+    saveEnergySourceRules(rules);
+  };
 
   // ✅ Helper to safely get analytics data arrays (fix for line 207)
   const getAnalyticsArray = useCallback((cat: string) => {
@@ -160,7 +210,9 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
               </p>
             )}
             {loadStatus === 'success' && (
-              <p className="text-green-600">✅ Loaded {data.length} records successfully.</p>
+              <p className="text-green-600">
+                ✅ Loaded {data.length} records successfully, with {electricity.length} electricity and {fuel.length} fossil fuel records for the energy mix.
+              </p>
             )}
             {loadStatus === 'error' && (
               <p className="text-red-600">❌ Failed to fetch data. Check API connection.</p>
@@ -169,15 +221,22 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
         </CardContent>
       </Card>
 
+      {data.length > 0 && (
+        <div className="flex items-center justify-end gap-3">
+          <DisplayUnitSelect {...displayUnit} />
+          <IntensityToggle {...intensity} />
+        </div>
+      )}
       {data.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="plant">Plant</TabsTrigger>
             <TabsTrigger value="department">Department</TabsTrigger>
             <TabsTrigger value="type">Type</TabsTrigger>
             <TabsTrigger value="parameter">Parameter</TabsTrigger>
             <TabsTrigger value="monthly">Monthly</TabsTrigger>
+            <TabsTrigger value="mix">Energy Mix</TabsTrigger>
           </TabsList>
 
           {/* Overview */}
@@ -185,10 +244,10 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
             <Card>
               <CardHeader><CardTitle>Key Energy Metrics</CardTitle></CardHeader>
               <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
                     <p className="text-2xl font-bold text-blue-600">{analytics.totals.totalEnergy.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Energy (GJ)</p>
+                    <p className="text-sm text-gray-600">Total Energy ({displayUnit.label}{intensity.per})</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <p className="text-2xl font-bold text-green-600">{analytics.totals.avgEnergy.toFixed(2)}</p>
@@ -206,6 +265,12 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                     <p className="text-2xl font-bold text-red-600">{analytics.totals.typeCount}</p>
                     <p className="text-sm text-gray-600">Energy Types</p>
                   </div>
+                  <div className="text-center p-4 bg-emerald-50 rounded-lg">
+                    <p className="text-2xl font-bold text-emerald-600">
+                      {energyMix.share === null ? '—' : `${energyMix.share.toFixed(1)}%`}
+                    </p>
+                    <p className="text-sm text-gray-600">Renewable Share</p>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -224,7 +289,7 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                       <YAxis />
                       <Tooltip />
                       <Legend />
-                      <Bar dataKey="total" fill="#3B82F6" name="Energy (GJ)" />
+                      <Bar dataKey="total" fill="#3B82F6" name={`Energy (${displayUnit.label}${intensity.per})`} />
                     </BarChart>
                   </ResponsiveContainer>
                 </CardContent>
@@ -269,11 +334,45 @@ const EnergyDataAnalytics = ({ filters }: { filters: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Line type="monotone" dataKey="total" stroke="#3B82F6" name="Energy (GJ)" />
+                    <Line type="monotone" dataKey="total" stroke="#3B82F6" name={`Energy (${displayUnit.label}${intensity.per})`} />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="energy" records={data} />
+            </div>
+          </TabsContent>
+
+          {/* Energy Mix */}
+          <TabsContent value="mix" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Energy Mix and Renewable Share</span>
+                  <span className="flex items-center gap-4 text-sm font-normal">
+                    {ENERGY_STREAMS.map(s => (
+                      <label key={s.id} className="flex items-center gap-2">
+                        <Checkbox
+                          checked={includedStreams[s.id]}
+                          onCheckedChange={checked => setIncludedStreams(prev => ({ ...prev, [s.id]: checked === true }))}
+                        />
+                        {s.label}
+                      </label>
+                    ))}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EnergyMixPanel mix={energyMix} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader><CardTitle>Energy Source Classification</CardTitle></CardHeader>
+              <CardContent>
+                <EnergySourceRulesPanel rules={sourceRules} unmatched={energyMix.unmatched} onChange={updateSourceRules} />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       )}
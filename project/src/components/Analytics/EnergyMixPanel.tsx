@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Bar, CartesianGrid, Cell, ComposedChart, Legend, Line, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ENERGY_STREAMS, EnergyMix, EnergyStream } from '@/lib/energyMix';
+
+interface EnergyMixPanelProps {
+  mix: EnergyMix;
+}
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const UNCONVERTED_REASONS: { stream: EnergyStream; reason: string }[] = [
+  { stream: 'electricity', reason: 'not in an energy unit' },
+  { stream: 'fuel', reason: 'with no calorific value in the source rules' },
+];
+
+const RENEWABLE_COLORS = ['#10B981', '#22C55E', '#84CC16', '#14B8A6', '#06B6D4'];
+const NON_RENEWABLE_COLORS = ['#64748B', '#F59E0B', '#EF4444', '#8B5CF6', '#A16207', '#475569'];
+
+// Combined GJ by stream and source, and the renewable share per fiscal year or month
+const EnergyMixPanel: React.FC<EnergyMixPanelProps> = ({ mix }) => {
+  const [period, setPeriod] = useState<'year' | 'month'>('year');
+  const trend = period === 'year' ? mix.byYear : mix.byMonth;
+  let renewableIndex = 0;
+  let nonRenewableIndex = 0;
+  const sourceColors = mix.bySource.map(s =>
+    s.renewable
+      ? RENEWABLE_COLORS[renewableIndex++ % RENEWABLE_COLORS.length]
+      : NON_RENEWABLE_COLORS[nonRenewableIndex++ % NON_RENEWABLE_COLORS.length]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="text-center p-4 bg-blue-50 rounded-lg">
+          <p className="text-2xl font-bold text-blue-600">{format(mix.total)}</p>
+          <p className="text-sm text-gray-600">Total Energy (GJ)</p>
+        </div>
+        <div className="text-center p-4 bg-green-50 rounded-lg">
+          <p className="text-2xl font-bold text-green-600">{mix.share === null ? '—' : `${mix.share.toFixed(1)}%`}</p>
+          <p className="text-sm text-gray-600">Renewable Share</p>
+        </div>
+        <div className="text-center p-4 bg-emerald-50 rounded-lg">
+          <p className="text-2xl font-bold text-emerald-600">{format(mix.renewable)}</p>
+          <p className="text-sm text-gray-600">Renewable (GJ)</p>
+        </div>
+        <div className="text-center p-4 bg-slate-50 rounded-lg">
+          <p className="text-2xl font-bold text-slate-600">{format(mix.nonRenewable)}</p>
+          <p className="text-sm text-gray-600">Non-renewable (GJ)</p>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        {ENERGY_STREAMS.map(s => `${s.label}: ${format(mix.byStream[s.id])} GJ`).join(' · ')}
+        {mix.overlapping > 0 && ` · ${mix.overlapping} rows of another attribute or already counted left out`}
+      </p>
+      {UNCONVERTED_REASONS.map(({ stream, reason }) => {
+        const rows = mix.unconverted.filter(u => u.stream === stream);
+        return rows.length > 0 && (
+          <p key={stream} className="text-sm text-amber-700">
+            Left out of the total, {reason}:{' '}
+            {rows.map(u => `${u.type} (${u.records} rows, quantity ${format(u.quantity)})`).join(', ')}.
+          </p>
+        );
+      })}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-semibold mb-2">Energy Mix by Source</h3>
+          <ResponsiveContainer width="100%" height={350}>
+            <PieChart>
+              <Pie data={mix.bySource} dataKey="gj" nameKey="source" outerRadius={120} label>
+                {mix.bySource.map((s, i) => <Cell key={s.source} fill={sourceColors[i]} />)}
+              </Pie>
+              <Tooltip formatter={(value: number) => `${format(value)} GJ`} />
+              <Legend />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Renewable Share by Fiscal Period</h3>
+            <Select value={period} onValueChange={value => setPeriod(value as 'year' | 'month')}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="year">Financial year</SelectItem>
+                <SelectItem value="month">Fiscal month</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <ResponsiveContainer width="100%" height={350}>
+            <ComposedChart data={trend}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="period" />
+              <YAxis yAxisId="left" />
+              <YAxis yAxisId="right" orientation="right" domain={[0, 100]} unit="%" />
+              <Tooltip formatter={(value: number, name: string) =>
+                name === 'Renewable share' ? `${value.toFixed(1)}%` : `${format(value)} GJ`} />
+              <Legend />
+              <Bar yAxisId="left" dataKey="renewable" stackId="energy" fill="#10B981" name="Renewable" />
+              <Bar yAxisId="left" dataKey="nonRenewable" stackId="energy" fill="#64748B" name="Non-renewable" />
+              <Line yAxisId="right" type="monotone" dataKey="share" stroke="#0F172A" strokeWidth={2} name="Renewable share" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnergyMixPanel;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EnergyMix, EnergySourceRule, resetEnergySourceRules } from '@/lib/energyMix';
+
+interface EnergySourceRulesPanelProps {
+  rules: EnergySourceRule[];
+  unmatched: EnergyMix['unmatched'];
+  onChange: (rules: EnergySourceRule[]) => void;
+}
+
+// Ordered keyword rules that name each row's energy source, mark it renewable and give fuels a calorific value
+const EnergySourceRulesPanel: React.FC<EnergySourceRulesPanelProps> = ({ rules, unmatched, onChange }) => {
+  const update = (id: string, changes: Partial<EnergySourceRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  // New rules go first so they take precedence over the generic defaults
+  const addRule = (pattern = '') =>
+    onChange([{ id: `rule-${Date.now()}`, pattern, source: pattern, renewable: false, gjPerUnit: 0 }, ...rules]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Rules are checked top to bottom; the first whose text appears in a row's Type, Sub Category or Parameter names its
+          source and whether it is renewable. Rows no rule matches count as non-renewable. Fossil fuel quantities are converted
+          with the rule's GJ per unit (litre, kg or SCM, as the fuel is recorded). Rules are saved in this browser.
+        </p>
+        <div className="flex gap-2 shrink-0 ml-4">
+          <Button variant="outline" size="sm" onClick={() => onChange(resetEnergySourceRules())}>Reset to defaults</Button>
+          <Button size="sm" onClick={() => addRule()}><Plus className="w-4 h-4 mr-1" />Add rule</Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-20" />
+            <TableHead>Text contains</TableHead>
+            <TableHead>Source</TableHead>
+            <TableHead>Renewable</TableHead>
+            <TableHead>GJ per unit of fuel</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((r, index) => (
+            <TableRow key={r.id}>
+              <TableCell>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === rules.length - 1} onClick={() => move(index, 1)} aria-label="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </TableCell>
+              <TableCell>
+                <Input className="h-8" value={r.pattern} onChange={e => update(r.id, { pattern: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input className="h-8" value={r.source} onChange={e => update(r.id, { source: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Checkbox checked={r.renewable} onCheckedChange={checked => update(r.id, { renewable: checked === true })} />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8 w-32"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={r.gjPerUnit || ''}
+                  onChange={e => update(r.id, { gjPerUnit: Number(e.target.value) || 0 })}
+                />
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => onChange(rules.filter(x => x.id !== r.id))} aria-label="Delete rule">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {unmatched.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-2">Unclassified Types</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Energy (GJ)</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unmatched.map(u => (
+                <TableRow key={u.type}>
+                  <TableCell>{u.type}</TableCell>
+                  <TableCell className="text-right">{u.records}</TableCell>
+                  <TableCell className="text-right">{u.gj.toLocaleString(undefined, { maximumFractionDigits: 2 })}</TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => addRule(u.type)}>Create rule</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnergySourceRulesPanel;
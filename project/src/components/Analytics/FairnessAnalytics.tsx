@@ -1,93 +1,22 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import { useMemo } from 'react';
 import { Upload, FileSpreadsheet, CreditCard, Shield, CheckCircle, AlertTriangle, Clock, Flag } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
-import * as XLSX from 'xlsx';
-
-const fieldMapping = {
-  'Sr.No.': 'srNo',
-  'Sr No': 'srNoAlt',
-  'Objective Code': 'objectiveCode',
-  'Financial Year': 'financialYear',
-  'Month': 'month',
-  'Dim1': 'dim1',
-  'Dim2': 'dim2',
-  'Attribute': 'attribute',
-  'Start Date': 'startDate',
-  'End Date': 'endDate',
-  'Accounts Payable': 'accountsPayable',
-  'Customer Data Breach%': 'customerDataBreachPct',
-  'Actual Compliance Ind': 'complianceInd'
-};
-
-const numericFields = ['accountsPayable', 'customerDataBreachPct'];
-
-const parseNumeric = (val:any) => {
-  if (val == null || val === '') return 0;
-  if (typeof val === 'number') return val;
-  const cleaned = val.toString().replace(/[,₹$%]/g, '').trim();
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
-};
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import TargetTracker from './TargetTracker';
+import { FilterOptions } from '../../services/apiService';
+import { FAIRNESS_SCHEMA } from '@/lib/ingestionSchemas';
 
 const colors = ['#3B82F6', '#EF4444', '#34D399', '#F59E0B'];
 
-const FairnessDataAnalytics = () => {
-  const [data, setData] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<'idle'|'success'|'error'>('idle');
-
-  const handleFileUpload = useCallback((e:React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    setIsLoading(true);
-    setUploadStatus('idle');
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const result = event.target?.result;
-        if (!result) throw new Error('Empty file content');
-        const workbook = XLSX.read(result, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown as any[];
-
-        if (rows.length < 6) throw new Error('File does not contain expected header and data rows');
-
-        const headerRow = rows[4] as unknown as any[];
-        const dataRows = rows.slice(5);
-
-        const colIndexMap: Record<string, number> = {};
-        headerRow.forEach((header: any, idx: number) => {
-          if (typeof header === 'string' && (fieldMapping as any)[header]) colIndexMap[(fieldMapping as any)[header]] = idx;
-        });
-
-        const processed = dataRows
-          .filter((row: any) => Array.isArray(row) && row.length > 0 && row.some((cell: any) => cell !== null && cell !== undefined && cell !== ''))
-          .map((row: any[]) => {
-            const mapped: Record<string, any> = {};
-            for (const [field, idx] of Object.entries(colIndexMap)) {
-              const val = row[idx];
-              mapped[field] = numericFields.includes(field) ? parseNumeric(val) : val != null ? val.toString().trim() : '';
-            }
-            return mapped;
-          });
-
-        if (processed.length === 0) throw new Error('No valid data rows found');
-
-        setData(processed);
-        setUploadStatus('success');
-        setIsLoading(false);
-      } catch (error) {
-        console.error(error);
-        setUploadStatus('error');
-        setIsLoading(false);
-      }
-    };
-
-    reader.readAsBinaryString(file);
-  }, []);
+const FairnessDataAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(FAIRNESS_SCHEMA, filters);
 
   const analytics = useMemo(() => {
     if (!data.length) return { overview: null, monthlyTrends: [], dimension1: [], dimension2: [], complianceRate: 0 };
@@ -106,7 +35,7 @@ const FairnessDataAnalytics = () => {
     data.forEach(d => {
       overview.totalAccountsPayable += d.accountsPayable;
       overview.totalDataBreachPct += d.customerDataBreachPct;
-      if (d.complianceInd.toUpperCase() === 'Y') overview.complianceCount++;
+      if (d.complianceInd?.toUpperCase() === 'Y') overview.complianceCount++;
 
       const monthKey = `${d.month || 'Unknown'} ${d.financialYear || 'Unknown'}`;
       if (!monthMap.has(monthKey)) monthMap.set(monthKey, { month: monthKey, accountsPayable: 0, totalDataBreachPct: 0, count: 0 });
@@ -151,8 +80,35 @@ const FairnessDataAnalytics = () => {
             </label>
           </div>
           {isLoading && <div className="mt-4 flex items-center text-indigo-600 gap-2"><Clock className="w-5 h-5 animate-spin" />Processing file...</div>}
-          {uploadStatus === 'success' && <div className="mt-4 flex items-center text-green-600 gap-2"><CheckCircle className="w-5 h-5" />Loaded {data.length} records.</div>}
-          {uploadStatus === 'error' && <div className="mt-4 flex items-center text-red-600 gap-2"><AlertTriangle className="w-5 h-5" />Failed to load file.</div>}
+          {uploadStatus === 'success' && <div className="mt-4 flex items-center text-green-600 gap-2"><CheckCircle className="w-5 h-5" />Loaded {data.length} records{issues.length > 0 && ` (accepted with ${issues.length} warnings)`}.</div>}
+          {uploadStatus === 'error' && <div className="mt-4 flex items-center text-red-600 gap-2"><AlertTriangle className="w-5 h-5" />Failed to load file: {errorMessage}</div>}
+          <UploadValidationReport
+            moduleName="Fairness"
+            status={uploadStatus}
+            fileName={fileName}
+            issues={issues}
+            pendingCount={pendingCount}
+            onAccept={acceptUpload}
+            onReject={rejectUpload}
+            onMapColumns={openMappingWizard}
+            appliedProfileName={appliedProfile?.name}
+            unsavedProfileName={unsavedProfileName}
+          />
+          <ColumnMappingWizard
+            schema={FAIRNESS_SCHEMA}
+            draft={mappingDraft}
+            onApply={applyColumnMapping}
+            onCancel={closeMappingWizard}
+          />
+          <UploadedDatasetsPanel
+            datasets={datasets}
+            storeStatus={storeStatus}
+            saveError={saveError}
+            uploaderName={uploaderName}
+            onUploaderNameChange={setUploaderName}
+            onDelete={deleteDataset}
+            onRefresh={reloadSavedRecords}
+          />
         </div>
 
         {data.length > 0 && analytics.overview && (
@@ -198,6 +154,10 @@ const FairnessDataAnalytics = () => {
               </ResponsiveContainer>
             </div>
 
+            <div className="mb-6">
+              <TargetTracker moduleId="fairness" records={data} />
+            </div>
+
             {/* Dimension 1 Breakdown */}
             <div className="mb-6">
               <h3 className="text-xl font-semibold mb-4">Dimension 1 Breakdown</h3>
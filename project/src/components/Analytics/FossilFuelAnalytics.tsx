@@ -23,34 +23,32 @@ import {
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { getFossilFuelData } from "../../services/apiService"; // ✅ API call method
+import { getEmissionFactors, getFossilFuelData } from "../../services/apiService"; // ✅ API call method
+import { EmissionFactor, FossilFuelRecord } from "../../services/esgRecords";
+import TargetTracker from "./TargetTracker";
+import EmissionFactorUsageTable from "./EmissionFactorUsageTable";
+import IntensityToggle from "./IntensityToggle";
+import DisplayUnitSelect from "./DisplayUnitSelect";
+import { useIntensity } from "@/hooks/use-intensity";
+import { useDisplayUnit } from "@/hooks/use-display-unit";
+import { unitLabel } from "@/lib/units";
+import { applyGhgEmissionFactors, emissionsOf, summarizeFactorUsage } from "@/lib/emissionFactors";
 
 // ---------------- CONFIG ---------------- //
 const COLORS = ["#10B981", "#3B82F6", "#F59E0B", "#EF4444", "#8B5CF6", "#14B8A6"];
 
-interface FossilFuelRecord {
-  srNo: string;
-  attributeId: number;
-  financialYear: string;
-  month: string;
-  businessCode: string;
-  plant: string;
-  department: string;
-  attribute: string;
-  parameter: string;
-  subCategory: string;
-  type: string;
-  quantity: number;
-  convFactor: number;
-  value: number;
-  cfStd: number;
-}
-
 const FossilFuelAnalytics: React.FC = () => {
   const [data, setData] = useState<FossilFuelRecord[]>([]);
+  const [factors, setFactors] = useState<EmissionFactor[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  // GHG rows take tCO2e from the library factor for their fuel, in the unit they were recorded in
+  const emissionData = useMemo(() => applyGhgEmissionFactors(data, factors), [data, factors]);
+  const displayUnit = useDisplayUnit("fossilfuel", emissionData);
+  const intensity = useIntensity(displayUnit.records);
+  // Litres, kg and SCM only add up once every row is restated in one unit
+  const summable = displayUnit.unit !== null;
 
   // ---------------- FETCH REAL-TIME DATA ---------------- //
   const fetchFossilFuelData = useCallback(async () => {
@@ -58,10 +56,18 @@ const FossilFuelAnalytics: React.FC = () => {
       setIsLoading(true);
       setError(null);
 
-      const response = await getFossilFuelData(); // fetch from API
+      // Without the factor library, rows keep their stored emissions
+      const [response, library] = await Promise.all([
+        getFossilFuelData(), // fetch from API
+        getEmissionFactors().catch((err) => {
+          console.error("Emission factor loading error:", err);
+          return [];
+        }),
+      ]);
       if (!response || response.length === 0) throw new Error("No data found from API.");
 
       setData(response);
+      setFactors(library);
       setLastUpdated(new Date());
     } catch (err: any) {
       console.error("API Fetch Error:", err);
@@ -77,8 +83,9 @@ const FossilFuelAnalytics: React.FC = () => {
 
   // ---------------- ANALYTICS COMPUTATION ---------------- //
   const analytics = useMemo(() => {
-    if (data.length === 0)
-      return { byType: [], byDepartment: [], byPlant: [], totals: { totalQty: 0, totalValue: 0, avgConv: 0 } };
+    const records = intensity.records;
+    if (records.length === 0)
+      return { byType: [], byDepartment: [], byPlant: [], totals: { totalQty: null, totalValue: 0, avgConv: 0 }, normalized: [], noUnit: 0, factorUsage: [] };
 
     const typeMap = new Map<string, any>();
     const deptMap = new Map<string, any>();
@@ -87,15 +94,23 @@ const FossilFuelAnalytics: React.FC = () => {
     let totalQty = 0;
     let totalValue = 0;
     let convSum = 0;
+    // Litres, kg and SCM cannot be summed together, so normalized quantities are kept per base unit
+    const normalizedMap = new Map<string, number>();
+    let noUnit = 0;
 
-    data.forEach((item) => {
+    records.forEach((item) => {
       const qty = item.quantity || 0;
-      const val = item.value || 0;
+      const val = emissionsOf(item) || 0;
       const conv = item.convFactor || 0;
 
       totalQty += qty;
       totalValue += val;
       convSum += conv;
+      if (item.normalizedUnit && item.normalizedQuantity !== null) {
+        normalizedMap.set(item.normalizedUnit, (normalizedMap.get(item.normalizedUnit) ?? 0) + item.normalizedQuantity);
+      } else {
+        noUnit++;
+      }
 
       // --- Type Aggregation ---
       const t = item.type || "Unknown";
@@ -118,25 +133,28 @@ const FossilFuelAnalytics: React.FC = () => {
 
     const byType = Array.from(typeMap.values()).map((t) => ({
       type: t.type,
-      totalQty: t.totalQty,
+      totalQty: summable ? t.totalQty : null,
       totalValue: t.totalValue,
-      avgConvFactor: t.totalQty > 0 ? t.avgConv / data.length : 0,
+      avgConvFactor: t.totalQty > 0 ? t.avgConv / records.length : 0,
     }));
 
-    const byDepartment = Array.from(deptMap.values());
-    const byPlant = Array.from(plantMap.values());
+    const byDepartment = intensity.divide(Array.from(deptMap.values()), d => d.department, item => item.department || "Unknown", ["totalValue"]);
+    const byPlant = intensity.divide(Array.from(plantMap.values()), p => p.plant, item => item.plant || "Unknown", ["totalQty"]);
 
     return {
-      byType,
+      byType: intensity.divide(byType, t => t.type, item => item.type || "Unknown", ["totalQty", "totalValue"]),
       byDepartment,
       byPlant,
       totals: {
-        totalQty,
-        totalValue,
-        avgConv: data.length > 0 ? convSum / data.length : 0,
+        totalQty: summable ? intensity.divideTotal(totalQty) : null,
+        totalValue: intensity.divideTotal(totalValue),
+        avgConv: records.length > 0 ? convSum / records.length : 0,
       },
+      normalized: Array.from(normalizedMap.entries()).map(([unit, quantity]) => ({ unit, quantity: intensity.divideTotal(quantity) })),
+      noUnit,
+      factorUsage: summarizeFactorUsage(records),
     };
-  }, [data]);
+  }, [intensity, summable]);
 
   // ---------------- UI ---------------- //
   return (
@@ -176,13 +194,20 @@ const FossilFuelAnalytics: React.FC = () => {
       </Card>
 
       {/* Overview */}
+      {data.length > 0 && (
+        <div className="flex justify-end items-center gap-3">
+          <DisplayUnitSelect {...displayUnit} />
+          <IntensityToggle {...intensity} />
+        </div>
+      )}
       {data.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid grid-cols-4 w-full">
+          <TabsList className="grid grid-cols-5 w-full">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="type">By Type</TabsTrigger>
             <TabsTrigger value="department">By Department</TabsTrigger>
             <TabsTrigger value="plant">By Plant</TabsTrigger>
+            <TabsTrigger value="factors">Factor Provenance</TabsTrigger>
           </TabsList>
 
           {/* ---- OVERVIEW ---- */}
@@ -194,24 +219,38 @@ const FossilFuelAnalytics: React.FC = () => {
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
-                    <p className="text-2xl font-bold text-blue-600">{data.length}</p>
+                    <p className="text-2xl font-bold text-blue-600">{intensity.records.length}</p>
                     <p className="text-sm text-gray-600">Records</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
-                    <p className="text-2xl font-bold text-green-600">{analytics.totals.totalQty.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Quantity</p>
+                    <p className="text-2xl font-bold text-green-600">
+                      {analytics.totals.totalQty === null ? "—" : analytics.totals.totalQty.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {summable ? `Total Quantity (${displayUnit.label}${intensity.per})` : "Total Quantity: pick a unit to total"}
+                    </p>
                   </div>
                   <div className="text-center p-4 bg-yellow-50 rounded-lg">
                     <p className="text-2xl font-bold text-yellow-600">{analytics.totals.totalValue.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Value</p>
+                    <p className="text-sm text-gray-600">Total Value{intensity.per}</p>
                   </div>
                   <div className="text-center p-4 bg-purple-50 rounded-lg">
                     <p className="text-2xl font-bold text-purple-600">{analytics.totals.avgConv.toFixed(2)}</p>
                     <p className="text-sm text-gray-600">Avg Conversion Factor</p>
                   </div>
                 </div>
+                <p className="text-sm text-gray-500 mt-4">
+                  Quantity by unit{intensity.per}:{' '}
+                  {analytics.normalized.length > 0
+                    ? analytics.normalized.map(n => `${n.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unitLabel(n.unit)}`).join(' · ')
+                    : '—'}
+                  {analytics.noUnit > 0 && ` · ${analytics.noUnit} rows name no unit; add it to the fuel type, e.g. "Diesel (Litres)"`}
+                </p>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="fossilfuel" records={emissionData} />
+            </div>
           </TabsContent>
 
           {/* ---- BY TYPE ---- */}
@@ -231,8 +270,10 @@ const FossilFuelAnalytics: React.FC = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQty" fill="#10B981" name="Total Quantity" />
-                    <Bar dataKey="totalValue" fill="#F59E0B" name="Total Value" />
+                    {summable && (
+                      <Bar dataKey="totalQty" fill="#10B981" name={`Total Quantity (${displayUnit.label}${intensity.per})`} />
+                    )}
+                    <Bar dataKey="totalValue" fill="#F59E0B" name={`Total Value${intensity.per}`} />
                     <Bar dataKey="avgConvFactor" fill="#3B82F6" name="Avg Conv Factor" />
                   </BarChart>
                 </ResponsiveContainer>
@@ -257,7 +298,7 @@ const FossilFuelAnalytics: React.FC = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalValue" fill="#14B8A6" />
+                    <Bar dataKey="totalValue" fill="#14B8A6" name={`Total Value${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -270,31 +311,43 @@ const FossilFuelAnalytics: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center">
                   <PieChartIcon className="w-5 h-5 mr-2 text-purple-600" />
-                  Plant-Wise Quantity Distribution
+                  Plant-Wise Quantity Distribution{summable && ` (${displayUnit.label}${intensity.per})`}
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <ResponsiveContainer width="100%" height={350}>
-                  <RechartsPieChart>
-                    <Pie
-                      data={analytics.byPlant}
-                      dataKey="totalQty"
-                      nameKey="plant"
-                      cx="50%"
-                      cy="50%"
-                      outerRadius={120}
-                    >
-                      {analytics.byPlant.map((_, idx) => (
-                        <Cell key={idx} fill={COLORS[idx % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip />
-                    <Legend />
-                  </RechartsPieChart>
-                </ResponsiveContainer>
+                {!summable && (
+                  <p className="text-center text-sm text-gray-500 py-16">
+                    Plants record fuel in litres, kg and SCM; pick a unit to compare their quantities.
+                  </p>
+                )}
+                {summable && (
+                  <ResponsiveContainer width="100%" height={350}>
+                    <RechartsPieChart>
+                      <Pie
+                        data={analytics.byPlant}
+                        dataKey="totalQty"
+                        nameKey="plant"
+                        cx="50%"
+                        cy="50%"
+                        outerRadius={120}
+                      >
+                        {analytics.byPlant.map((_, idx) => (
+                          <Cell key={idx} fill={COLORS[idx % COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip />
+                      <Legend />
+                    </RechartsPieChart>
+                  </ResponsiveContainer>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* ---- FACTOR PROVENANCE ---- */}
+          <TabsContent value="factors">
+            <EmissionFactorUsageTable usage={analytics.factorUsage} />
+          </TabsContent>
         </Tabs>
       )}
 
@@ -0,0 +1,412 @@
+import { useState, useCallback, useMemo, useEffect, Fragment } from 'react';
+import { Database, Layers, RefreshCw, Clock, Plus, Trash2, X, ChevronDown, ChevronRight } from 'lucide-react';
+import { getAttributeDetailsData, getEmissionFactors, FilterOptions } from '../../services/apiService';
+import { AttributeDetailRecord } from '../../services/esgRecords';
+import { applyGhgEmissionFactors, WithGhgEmissions } from '@/lib/emissionFactors';
+import {
+  basisValue,
+  COVERAGE_LABELS,
+  CoverageStatus,
+  describeDisclosure,
+  disclosureKey,
+  downloadFrameworkWorkbook,
+  emissionFactorLabel,
+  evaluateFramework,
+  findUnmapped,
+  FRAMEWORK_DISCLOSURES,
+  FRAMEWORKS,
+  FrameworkId,
+  FrameworkMappingRule,
+  loadMappingRules,
+  resetMappingRules,
+  saveMappingRules,
+  UnmappedCombination,
+  WASTE_ROUTES,
+  WasteRoute,
+} from '@/lib/frameworkMapping';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+const coverageStyles: Record<CoverageStatus, string> = {
+  covered: 'bg-green-100 text-green-700',
+  partial: 'bg-yellow-100 text-yellow-700',
+  'no-data': 'bg-red-100 text-red-700',
+  'not-mapped': 'bg-gray-100 text-gray-600',
+};
+
+// Source rows shown under an expanded disclosure; the export carries all of them
+const PREVIEW_ROWS = 50;
+
+const FrameworkAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const [data, setData] = useState<WithGhgEmissions<AttributeDetailRecord>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [rules, setRules] = useState<FrameworkMappingRule[]>(loadMappingRules);
+  const [activeTab, setActiveTab] = useState<string>('GRI');
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const loadDataFromAPI = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+
+    try {
+      // GHG rows are valued with the emission factor library; without it they keep their stored emissions
+      const [apiData, factors] = await Promise.all([
+        getAttributeDetailsData(filters),
+        getEmissionFactors().catch(error => {
+          console.error('Emission factor loading error:', error);
+          return [];
+        }),
+      ]);
+      setData(applyGhgEmissionFactors(apiData, factors));
+      setLoadStatus('success');
+    } catch (error) {
+      console.error('Framework view API error:', error);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefreshData = useCallback(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  // Rule edits take effect and are saved immediately
+  const updateRules = (next: FrameworkMappingRule[]) => {
+    setRules(next);
+    saveMappingRules(next);
+  };
+
+  const updateRule = (id: string, changes: Partial<FrameworkMappingRule>) =>
+    updateRules(rules.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const addRule = (combo?: UnmappedCombination) => {
+    updateRules([
+      ...rules,
+      {
+        id: `rule-${Date.now()}`,
+        attribute: combo?.attribute ?? '',
+        parameter: combo?.parameter ?? '',
+        subCategory: combo?.subCategory ?? '',
+        disclosures: [],
+      },
+    ]);
+    setActiveTab('rules');
+  };
+
+  const results = useMemo(
+    () => Object.fromEntries(FRAMEWORKS.map(f => [f.id, evaluateFramework(f.id, data, rules)])),
+    [data, rules]
+  );
+
+  const unmapped = useMemo(() => findUnmapped(data, rules), [data, rules]);
+
+  const attributeOptions = useMemo(
+    () => Array.from(new Set(data.map(r => r.attribute?.trim()).filter(Boolean) as string[])).sort(),
+    [data]
+  );
+
+  const activeFramework = FRAMEWORKS.find(f => f.id === activeTab)?.id;
+
+  const handleExport = () => {
+    if (activeFramework) downloadFrameworkWorkbook(activeFramework, results[activeFramework], filters);
+  };
+
+  const renderFramework = (framework: FrameworkId) => (
+    <TabsContent key={framework} value={framework}>
+      <Card>
+        <CardHeader>
+          <CardTitle>{FRAMEWORKS.find(f => f.id === framework)?.name} Disclosures</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Disclosure</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead>Coverage</TableHead>
+                <TableHead className="text-right">Source Records</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results[framework].map(result => {
+                const key = disclosureKey(result);
+                const isOpen = expanded === key;
+                return (
+                  <Fragment key={key}>
+                    <TableRow
+                      className={result.records.length ? 'cursor-pointer' : undefined}
+                      onClick={() => result.records.length && setExpanded(isOpen ? null : key)}
+                    >
+                      <TableCell>
+                        {result.records.length > 0 && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                      </TableCell>
+                      <TableCell className="font-medium">{result.code}</TableCell>
+                      <TableCell>{result.title}</TableCell>
+                      <TableCell className="text-right">
+                        {result.records.length ? result.value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '—'}
+                      </TableCell>
+                      <TableCell className="text-gray-600">{result.unit}</TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${coverageStyles[result.coverage]}`}>
+                          {COVERAGE_LABELS[result.coverage]}
+                        </span>
+                        {result.coverage === 'partial' && (
+                          <span className="block text-xs text-gray-500 mt-1">{result.plantsReporting} of {result.plantsTotal} plants</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{result.records.length}</TableCell>
+                    </TableRow>
+                    {isOpen && (
+                      <TableRow>
+                        <TableCell colSpan={7} className="bg-gray-50">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>FY</TableHead>
+                                <TableHead>Month</TableHead>
+                                <TableHead>Plant</TableHead>
+                                <TableHead>Attribute</TableHead>
+                                <TableHead>Parameter</TableHead>
+                                <TableHead>Sub Category</TableHead>
+                                <TableHead className="text-right">Quantity</TableHead>
+                                <TableHead className="text-right">Counted As</TableHead>
+                                <TableHead>Emission Factor</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {result.records.slice(0, PREVIEW_ROWS).map(record => (
+                                <TableRow key={`${record.attributeId}-${record.srNo}`}>
+                                  <TableCell>{record.financialYear}</TableCell>
+                                  <TableCell>{record.month}</TableCell>
+                                  <TableCell>{record.plant}</TableCell>
+                                  <TableCell>{record.attribute}</TableCell>
+                                  <TableCell>{record.parameter}</TableCell>
+                                  <TableCell>{record.subCategory}</TableCell>
+                                  <TableCell className="text-right">{record.quantity.toLocaleString()}</TableCell>
+                                  <TableCell className="text-right">{basisValue(record, result.basis).toLocaleString(undefined, { maximumFractionDigits: 2 })}</TableCell>
+                                  <TableCell className="text-xs text-gray-600">{emissionFactorLabel(record)}</TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                          {result.records.length > PREVIEW_ROWS && (
+                            <p className="text-xs text-gray-500 mt-2">
+                              Showing {PREVIEW_ROWS} of {result.records.length} records. Export the framework for the full list.
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </TabsContent>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <Layers className="w-8 h-8 mr-3 text-indigo-600" />
+          Framework View
+        </h1>
+        <button
+          onClick={handleExport}
+          disabled={!activeFramework || data.length === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Export {activeFramework ?? 'Framework'}
+        </button>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              AttributeDetail Data from Database
+            </div>
+            <button
+              onClick={handleRefreshData}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading AttributeDetail data from database...</p>}
+            {loadStatus === 'success' && <p className="text-green-600">✅ Successfully loaded {data.length} AttributeDetail records</p>}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error connecting to database. Please check connection settings.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+        <TabsList className="grid w-full grid-cols-5">
+          {FRAMEWORKS.map(f => <TabsTrigger key={f.id} value={f.id}>{f.name}</TabsTrigger>)}
+          <TabsTrigger value="rules">Mapping Rules ({rules.length})</TabsTrigger>
+          <TabsTrigger value="unmapped">Unmapped ({unmapped.length})</TabsTrigger>
+        </TabsList>
+
+        {FRAMEWORKS.map(f => renderFramework(f.id))}
+
+        <TabsContent value="rules">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>Mapping Rules</span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => updateRules(resetMappingRules())}>Reset to defaults</Button>
+                  <Button size="sm" onClick={() => addRule()}><Plus className="w-4 h-4 mr-1" />Add rule</Button>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 mb-4">
+                A rule links AttributeDetail rows to disclosures. Attribute must match exactly; Parameter and Sub Category
+                match when the row contains the text. Waste route keeps rows recovered or disposed of on the waste hierarchy,
+                as BRSR Core 4.d and 4.e count them. Leave a field empty to match any value. Rules are saved in this browser.
+              </p>
+              <datalist id="framework-attributes">
+                {attributeOptions.map(a => <option key={a} value={a} />)}
+              </datalist>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-44">Attribute</TableHead>
+                    <TableHead className="w-36">Parameter contains</TableHead>
+                    <TableHead className="w-36">Sub Category contains</TableHead>
+                    <TableHead className="w-40">Waste route</TableHead>
+                    <TableHead>Disclosures</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell>
+                        <Input list="framework-attributes" value={r.attribute} placeholder="Any" onChange={e => updateRule(r.id, { attribute: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={r.parameter} placeholder="Any" onChange={e => updateRule(r.id, { parameter: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={r.subCategory} placeholder="Any" onChange={e => updateRule(r.id, { subCategory: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={r.wasteRoute ?? 'any'}
+                          onValueChange={value => updateRule(r.id, { wasteRoute: value === 'any' ? undefined : (value as WasteRoute) })}
+                        >
+                          <SelectTrigger className="h-9 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Any</SelectItem>
+                            {WASTE_ROUTES.map(route => (
+                              <SelectItem key={route.id} value={route.id}>{route.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {r.disclosures.map(key => (
+                            <span key={key} className="inline-flex items-center gap-1 px-2 py-1 rounded bg-indigo-50 text-indigo-700 text-xs">
+                              {describeDisclosure(key)}
+                              <button onClick={() => updateRule(r.id, { disclosures: r.disclosures.filter(d => d !== key) })} aria-label="Remove disclosure">
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                        <Select value="" onValueChange={key => updateRule(r.id, { disclosures: [...r.disclosures, key] })}>
+                          <SelectTrigger className="h-8 w-56 text-xs">
+                            <SelectValue placeholder="Link a disclosure..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {FRAMEWORK_DISCLOSURES.filter(d => !r.disclosures.includes(disclosureKey(d))).map(d => (
+                              <SelectItem key={disclosureKey(d)} value={disclosureKey(d)}>{describeDisclosure(disclosureKey(d))}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => updateRules(rules.filter(x => x.id !== r.id))} aria-label="Delete rule">
+                          <Trash2 className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="unmapped">
+          <Card>
+            <CardHeader>
+              <CardTitle>Unmapped Combinations</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {unmapped.length === 0 ? (
+                <p className="text-sm text-gray-500">Every Attribute / Parameter / Sub Category combination is linked to a disclosure.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Attribute</TableHead>
+                      <TableHead>Parameter</TableHead>
+                      <TableHead>Sub Category</TableHead>
+                      <TableHead className="text-right">Records</TableHead>
+                      <TableHead className="w-32" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unmapped.map(combo => (
+                      <TableRow key={`${combo.attribute}|${combo.parameter}|${combo.subCategory}`}>
+                        <TableCell>{combo.attribute || '—'}</TableCell>
+                        <TableCell>{combo.parameter || '—'}</TableCell>
+                        <TableCell>{combo.subCategory || '—'}</TableCell>
+                        <TableCell className="text-right">{combo.records}</TableCell>
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => addRule(combo)}>Create rule</Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default FrameworkAnalytics;
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Upload, FileSpreadsheet, TrendingUp, Clock } from 'lucide-react';
 import {
   ResponsiveContainer,
@@ -12,121 +12,61 @@ import {
   LineChart,
   Line
 } from 'recharts';
-import * as XLSX from 'xlsx';
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import TargetTracker from './TargetTracker';
+import IntensityToggle from './IntensityToggle';
+import EmissionFactorUsageTable from './EmissionFactorUsageTable';
+import { FilterOptions, getEmissionFactors } from '../../services/apiService';
+import { EmissionFactor } from '../../services/esgRecords';
+import { FUGITIVE_SCHEMA } from '@/lib/ingestionSchemas';
+import { fiscalMonthName, sortByFiscalPeriod } from '@/lib/fiscalCalendar';
+import { applyEmissionFactors, storedEmissions, summarizeFactorUsage } from '@/lib/emissionFactors';
+import { useIntensity } from '@/hooks/use-intensity';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 interface FugitiveAnalyticsProps {
-  filters?: any;
+  filters?: FilterOptions;
 }
 
-const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
-  const [data, setData] = useState<any[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = ({ filters }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(FUGITIVE_SCHEMA, filters);
+  const [factors, setFactors] = useState<EmissionFactor[]>([]);
+  // tCO2e from the library factor for each refrigerant, or the row's stored Value / Quantity x ConvFactor
+  const emissionData = useMemo(() => applyEmissionFactors(data, factors, storedEmissions), [data, factors]);
+  const intensity = useIntensity(emissionData);
 
-  const fieldMapping: Record<string, string> = {
-    "Sr.No.": "srNo",
-    "Attribute Id": "attributeId",
-    "Sr No": "srNoAlt",
-    "Financial Year": "financialYear",
-    "Month": "month",
-    "Business Code": "businessCode",
-    "Plant": "plant",
-    "Department": "department",
-    "Objective Code": "objectiveCode",
-    "Attribute": "attribute",
-    "Parameter": "parameter",
-    "Sub Category": "subCategory",
-    "Type": "type",
-    "Quantity": "quantity",
-    "Conv Factor": "convFactor",
-    "Value": "value",
-    "RIntensity": "rIntensity",
-    "PPPIntensity": "pppIntensity",
-    "Conv Standards": "convStandards",
-    "Doc Status": "docStatus",
-    "Pending With": "pendingWith",
-  };
-
-  const parseNumeric = (val: any): number => {
-    if (val === null || val === undefined || val === '') return 0;
-    if (typeof val === 'number') return val;
-    if (typeof val === 'string') {
-      const cleanVal = val.replace(/[,₹$€£¥]/g, '').trim();
-      const parsed = parseFloat(cleanVal);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    return 0;
-  };
-
-  // File Upload
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    setIsLoading(true);
-    setUploadStatus('idle');
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const fileData = e.target?.result;
-        const workbook = XLSX.read(fileData, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
-
-        if (jsonData.length < 6) throw new Error("Excel must contain header and data rows");
-
-        const headers = jsonData[4]; // Row 5 = headers
-        const dataRows = jsonData.slice(5); // From row 6 onwards
-
-        const processedData = dataRows
-          .filter(row => row && row.some(cell => cell !== null && cell !== undefined && cell !== ''))
-          .map(row => {
-            const mappedRow: any = {};
-            headers.forEach((header: string, idx: number) => {
-              if (header && fieldMapping[header]) {
-                const key = fieldMapping[header];
-                const val = row[idx];
-                const numericFields = ["quantity", "convFactor", "value", "rIntensity", "pppIntensity"];
-                mappedRow[key] = numericFields.includes(key)
-                  ? parseNumeric(val)
-                  : (val ? val.toString().trim() : '');
-              }
-            });
-            return mappedRow;
-          });
-
-        if (processedData.length === 0) throw new Error("No valid data found");
-
-        setData(processedData);
-        setUploadStatus('success');
-      } catch (error) {
-        console.error("Excel processing error:", error);
-        setUploadStatus('error');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    reader.readAsBinaryString(file);
+  // Without the factor library, rows keep their stored emissions
+  useEffect(() => {
+    getEmissionFactors()
+      .then(setFactors)
+      .catch(error => console.error('Emission factor loading error:', error));
   }, []);
 
   // Analytics
   const analytics = useMemo(() => {
-    if (data.length === 0)
+    const records = intensity.records;
+    if (records.length === 0)
       return {
         byType: [],
         byAttribute: [],
         byParameter: [],
         bySubCategory: [],
-        monthlyTrends: []
+        monthlyTrends: [],
+        overview: { totalQuantity: 0, totalValue: 0 },
+        factorUsage: []
       };
 
-    const aggregate = (key: string) => {
+    const aggregate = (key: 'type' | 'attribute' | 'parameter' | 'subCategory') => {
       const map = new Map<string, any>();
-      data.forEach(d => {
+      records.forEach(d => {
         const cat = d[key] || "Unknown";
         if (!map.has(cat)) {
           map.set(cat, {
@@ -141,13 +81,13 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
         }
         const agg = map.get(cat);
         agg.totalQuantity += d.quantity || 0;
-        agg.totalValue += d.value || 0;
+        agg.totalValue += d.co2Emissions;
         agg.convFactorSum += d.convFactor || 0;
         agg.rIntensitySum += d.rIntensity || 0;
         agg.pppIntensitySum += d.pppIntensity || 0;
         agg.count++;
       });
-      return [...map.values()].map(v => ({
+      const rows = [...map.values()].map(v => ({
         category: v.category,
         totalQuantity: v.totalQuantity,
         totalValue: v.totalValue,
@@ -155,11 +95,12 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
         avgRIntensity: v.count ? v.rIntensitySum / v.count : 0,
         avgPPPIntensity: v.count ? v.pppIntensitySum / v.count : 0,
       }));
+      return intensity.divide(rows, v => v.category, d => d[key] || "Unknown", ['totalQuantity', 'totalValue']);
     };
 
     // Monthly Trends
     const monthlyMap = new Map<string, any>();
-    data.forEach(d => {
+    records.forEach(d => {
       const key = `${d.month || 'Unknown'} ${d.financialYear || 'Unknown'} ${d.type || 'Unknown'}`;
       if (!monthlyMap.has(key)) {
         monthlyMap.set(key, {
@@ -173,7 +114,7 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
       }
       const agg = monthlyMap.get(key);
       agg.totalQuantity += d.quantity || 0;
-      agg.totalValue += d.value || 0;
+      agg.totalValue += d.co2Emissions;
     });
 
     return {
@@ -181,7 +122,48 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
       byAttribute: aggregate("attribute"),
       byParameter: aggregate("parameter"),
       bySubCategory: aggregate("subCategory"),
-      monthlyTrends: [...monthlyMap.values()]
+      monthlyTrends: intensity.divide(
+        [...monthlyMap.values()],
+        v => v.monthYearType,
+        d => `${d.month || 'Unknown'} ${d.financialYear || 'Unknown'} ${d.type || 'Unknown'}`,
+        ['totalQuantity', 'totalValue']
+      ),
+      overview: {
+        totalQuantity: intensity.divideTotal(records.reduce((a, v) => a + (v.quantity || 0), 0)),
+        totalValue: intensity.divideTotal(records.reduce((a, v) => a + v.co2Emissions, 0))
+      },
+      factorUsage: summarizeFactorUsage(records)
+    };
+  }, [intensity]);
+
+  // RIntensity and PPPIntensity as reported in the upload, averaged per fiscal month and type;
+  // they are intensities already, so the absolute / intensity toggle leaves them alone
+  const reportedIntensity = useMemo(() => {
+    const average = (keyOf: (d: typeof data[number]) => string) => {
+      const map = new Map<string, { category: string; month: string | null; year: string | null; rIntensitySum: number; pppIntensitySum: number; count: number }>();
+      data.forEach(d => {
+        const key = keyOf(d);
+        if (!map.has(key)) {
+          map.set(key, { category: key, month: d.month, year: d.financialYear, rIntensitySum: 0, pppIntensitySum: 0, count: 0 });
+        }
+        const agg = map.get(key)!;
+        agg.rIntensitySum += d.rIntensity || 0;
+        agg.pppIntensitySum += d.pppIntensity || 0;
+        agg.count++;
+      });
+      return [...map.values()].map(v => ({
+        ...v,
+        avgRIntensity: v.count ? v.rIntensitySum / v.count : 0,
+        avgPPPIntensity: v.count ? v.pppIntensitySum / v.count : 0,
+      }));
+    };
+    return {
+      monthly: sortByFiscalPeriod(
+        average(d => `${fiscalMonthName(d.month).slice(0, 3) || 'Unknown'} ${d.financialYear || 'Unknown'}`),
+        v => v.year,
+        v => v.month
+      ),
+      byType: average(d => d.type || 'Unknown'),
     };
   }, [data]);
 
@@ -215,22 +197,56 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
               </p>
             )}
             {uploadStatus === "success" && (
-              <p className="mt-4 text-green-600">Loaded {data.length} records successfully</p>
+              <p className="mt-4 text-green-600">Loaded {data.length} records successfully{issues.length > 0 && ` (accepted with ${issues.length} warnings)`}</p>
             )}
-            {uploadStatus === "error" && <p className="mt-4 text-red-600">Error reading Excel. Check format.</p>}
+            {uploadStatus === "error" && <p className="mt-4 text-red-600">Error reading Excel: {errorMessage}</p>}
+            <UploadValidationReport
+              moduleName="Fugitive"
+              status={uploadStatus}
+              fileName={fileName}
+              issues={issues}
+              pendingCount={pendingCount}
+              onAccept={acceptUpload}
+              onReject={rejectUpload}
+              onMapColumns={openMappingWizard}
+              appliedProfileName={appliedProfile?.name}
+              unsavedProfileName={unsavedProfileName}
+            />
+            <ColumnMappingWizard
+              schema={FUGITIVE_SCHEMA}
+              draft={mappingDraft}
+              onApply={applyColumnMapping}
+              onCancel={closeMappingWizard}
+            />
+            <UploadedDatasetsPanel
+              datasets={datasets}
+              storeStatus={storeStatus}
+              saveError={saveError}
+              uploaderName={uploaderName}
+              onUploaderNameChange={setUploaderName}
+              onDelete={deleteDataset}
+              onRefresh={reloadSavedRecords}
+            />
           </div>
         </CardContent>
       </Card>
 
       {/* Analytics Section */}
+      {data.length > 0 && (
+        <div className="flex justify-end">
+          <IntensityToggle {...intensity} />
+        </div>
+      )}
       {data.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="type">Type</TabsTrigger>
             <TabsTrigger value="monthly">Monthly</TabsTrigger>
             <TabsTrigger value="attribute">Attribute</TabsTrigger>
             <TabsTrigger value="parameter">Parameter</TabsTrigger>
+            <TabsTrigger value="intensity">Reported Intensity</TabsTrigger>
+            <TabsTrigger value="factors">Factor Provenance</TabsTrigger>
           </TabsList>
 
           {/* Overview */}
@@ -240,9 +256,9 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
                   {[
-                    { label: 'Total Records', value: data.length, color: 'blue' },
-                    { label: 'Total Quantity', value: data.reduce((a, v) => a + (v.quantity || 0), 0).toFixed(2), color: 'green' },
-                    { label: 'Total Value', value: data.reduce((a, v) => a + (v.value || 0), 0).toFixed(2), color: 'yellow' },
+                    { label: 'Total Records', value: intensity.records.length, color: 'blue' },
+                    { label: `Total Quantity${intensity.per}`, value: analytics.overview.totalQuantity.toFixed(2), color: 'green' },
+                    { label: `Total Value${intensity.per}`, value: analytics.overview.totalValue.toFixed(2), color: 'yellow' },
                     { label: 'Avg Conv Factor', value: (data.reduce((a, v) => a + (v.convFactor || 0), 0) / data.length).toFixed(3), color: 'purple' },
                     { label: 'Avg RIntensity', value: (data.reduce((a, v) => a + (v.rIntensity || 0), 0) / data.length).toFixed(3), color: 'red' },
                     { label: 'Avg PPPIntensity', value: (data.reduce((a, v) => a + (v.pppIntensity || 0), 0) / data.length).toFixed(3), color: 'indigo' },
@@ -269,8 +285,8 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill="#10B981" name="Quantity" />
-                    <Bar dataKey="totalValue" fill="#EF4444" name="Value" />
+                    <Bar dataKey="totalQuantity" fill="#10B981" name={`Quantity${intensity.per}`} />
+                    <Bar dataKey="totalValue" fill="#EF4444" name={`Value${intensity.per}`} />
                     <Bar dataKey="avgConvFactor" fill="#3B82F6" name="Avg Conv Factor" />
                   </BarChart>
                 </ResponsiveContainer>
@@ -290,12 +306,51 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Line type="monotone" dataKey="totalQuantity" stroke="#10B981" name="Quantity" />
-                    <Line type="monotone" dataKey="totalValue" stroke="#EF4444" name="Value" />
+                    <Line type="monotone" dataKey="totalQuantity" stroke="#10B981" name={`Quantity${intensity.per}`} />
+                    <Line type="monotone" dataKey="totalValue" stroke="#EF4444" name={`Value${intensity.per}`} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="fugitive" records={emissionData} />
+            </div>
+          </TabsContent>
+
+          {/* Reported RIntensity / PPPIntensity */}
+          <TabsContent value="intensity" className="space-y-6">
+            <Card>
+              <CardHeader><CardTitle>Reported Intensity by Fiscal Month</CardTitle></CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={350}>
+                  <LineChart data={reportedIntensity.monthly}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="category" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="avgRIntensity" stroke="#EF4444" name="Avg RIntensity (revenue)" />
+                    <Line type="monotone" dataKey="avgPPPIntensity" stroke="#6366F1" name="Avg PPPIntensity (PPP revenue)" />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader><CardTitle>Reported Intensity by Type</CardTitle></CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={350}>
+                  <BarChart data={reportedIntensity.byType}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="category" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="avgRIntensity" fill="#EF4444" name="Avg RIntensity (revenue)" />
+                    <Bar dataKey="avgPPPIntensity" fill="#6366F1" name="Avg PPPIntensity (PPP revenue)" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Attribute + Parameter */}
@@ -313,8 +368,8 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
                       <YAxis />
                       <Tooltip />
                       <Legend />
-                      <Bar dataKey="totalQuantity" fill="#10B981" name="Quantity" />
-                      <Bar dataKey="totalValue" fill="#EF4444" name="Value" />
+                      <Bar dataKey="totalQuantity" fill="#10B981" name={`Quantity${intensity.per}`} />
+                      <Bar dataKey="totalValue" fill="#EF4444" name={`Value${intensity.per}`} />
                       <Bar dataKey="avgConvFactor" fill="#3B82F6" name="Avg Conv Factor" />
                     </BarChart>
                   </ResponsiveContainer>
@@ -322,6 +377,11 @@ const FugitiveAnalytics: React.FC<FugitiveAnalyticsProps> = () => {
               </Card>
             </TabsContent>
           ))}
+
+          {/* Which emission factor produced each figure */}
+          <TabsContent value="factors">
+            <EmissionFactorUsageTable usage={analytics.factorUsage} />
+          </TabsContent>
         </Tabs>
       )}
 
@@ -0,0 +1,386 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { Database, TrendingUp, Cloud, RefreshCw, Clock } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+  BarChart, Bar, PieChart as RechartsPieChart, Pie, Cell
+} from 'recharts';
+import * as XLSX from 'xlsx';
+import { getGHGData, getEmissionFactors, FilterOptions } from '../../services/apiService';
+import { EmissionFactor, GHGRecord } from '../../services/esgRecords';
+import TargetTracker from './TargetTracker';
+import EmissionFactorUsageTable from './EmissionFactorUsageTable';
+import IntensityToggle from './IntensityToggle';
+import { classifyScope, GHGScope } from '@/lib/ghgScopes';
+import { applyEmissionFactors, storedEmissions, summarizeFactorUsage } from '@/lib/emissionFactors';
+import { useIntensity } from '@/hooks/use-intensity';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+type ScopeTotals = Record<GHGScope, number> & { total: number };
+
+const emptyScopeTotals = (): ScopeTotals => ({
+  'Scope 1': 0,
+  'Scope 2': 0,
+  'Scope 3': 0,
+  'Unclassified': 0,
+  total: 0
+});
+
+const SCOPE_FIELDS: (GHGScope | 'total')[] = ['Scope 1', 'Scope 2', 'Scope 3', 'Unclassified', 'total'];
+
+const scopeColors: Record<GHGScope, string> = {
+  'Scope 1': '#EF4444',
+  'Scope 2': '#F59E0B',
+  'Scope 3': '#3B82F6',
+  'Unclassified': '#9CA3AF'
+};
+
+const GHGAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const [ghgData, setGhgData] = useState<GHGRecord[]>([]);
+  const [factors, setFactors] = useState<EmissionFactor[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  // tCO2e from the library factor for each row, or the row's stored Value / Quantity x ConvFactor
+  const emissionRecords = useMemo(() => applyEmissionFactors(ghgData, factors, storedEmissions), [ghgData, factors]);
+  const intensity = useIntensity(emissionRecords);
+
+  // Load data from API when component mounts or filters change
+  useEffect(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const loadDataFromAPI = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+
+    try {
+      // Without the factor library, rows keep their stored emissions
+      const [apiData, library] = await Promise.all([
+        getGHGData(filters),
+        getEmissionFactors().catch(error => {
+          console.error('Emission factor loading error:', error);
+          return [];
+        }),
+      ]);
+      setGhgData(apiData);
+      setFactors(library);
+      setLoadStatus('success');
+    } catch (error) {
+      console.error('GHG data API error:', error);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefreshData = useCallback(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const analytics = useMemo(() => {
+    const enriched = intensity.records.map(item => ({
+      ...item,
+      scope: classifyScope(item),
+      emissions: item.co2Emissions
+    }));
+
+    const groupByScope = (key: 'plant' | 'department' | 'month' | 'financialYear', label: string) => {
+      const map = new Map<string, ScopeTotals & Record<string, string | number>>();
+      enriched.forEach(item => {
+        const groupKey = item[key] || 'Unknown';
+        if (!map.has(groupKey)) {
+          map.set(groupKey, { [label]: groupKey, ...emptyScopeTotals() });
+        }
+        const group = map.get(groupKey)!;
+        group[item.scope as GHGScope] += item.emissions;
+        group.total += item.emissions;
+      });
+      return intensity.divide(Array.from(map.values()), group => String(group[label]), item => item[key] || 'Unknown', SCOPE_FIELDS);
+    };
+
+    const totals = emptyScopeTotals();
+    enriched.forEach(item => {
+      totals[item.scope as GHGScope] += item.emissions;
+      totals.total += item.emissions;
+    });
+    SCOPE_FIELDS.forEach(field => {
+      totals[field] = intensity.divideTotal(totals[field]);
+    });
+
+    const byScope = (Object.keys(scopeColors) as GHGScope[])
+      .map(scope => ({ scope, emissions: totals[scope] }))
+      .filter(s => s.emissions !== 0);
+
+    return {
+      totals,
+      byScope,
+      byPlant: groupByScope('plant', 'plant'),
+      byDepartment: groupByScope('department', 'department'),
+      monthlyTrend: groupByScope('month', 'month'),
+      byFinancialYear: groupByScope('financialYear', 'financialYear'),
+      factorUsage: summarizeFactorUsage(enriched),
+      overview: {
+        totalEmissions: totals.total,
+        scope1: totals['Scope 1'],
+        scope2: totals['Scope 2'],
+        scope3: totals['Scope 3'],
+        unclassified: totals['Unclassified'],
+        records: enriched.length
+      }
+    };
+  }, [intensity]);
+
+  const scopeShare = (value: number) =>
+    analytics.totals.total > 0 ? `${((value / analytics.totals.total) * 100).toFixed(1)}%` : '0.0%';
+
+  const handleExport = () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([analytics.overview]), 'Overview');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byScope), 'By Scope');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byPlant), 'By Plant');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byDepartment), 'By Department');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.monthlyTrend), 'Monthly Trend');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byFinancialYear), 'By Financial Year');
+    XLSX.writeFile(wb, 'GHG_Emissions_Report.xlsx');
+  };
+
+  const renderScopeBars = () => (
+    (['Scope 1', 'Scope 2', 'Scope 3', 'Unclassified'] as GHGScope[])
+      .filter(scope => analytics.totals[scope] !== 0)
+      .map(scope => (
+        <Bar key={scope} dataKey={scope} stackId="scope" fill={scopeColors[scope]} name={`${scope} (tCO₂e${intensity.per})`} />
+      ))
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <Cloud className="w-8 h-8 mr-3 text-slate-600" />
+          GHG Emissions Analytics
+        </h1>
+        <div className="flex items-center gap-3">
+          <IntensityToggle {...intensity} />
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-slate-700 text-white font-medium hover:bg-slate-800"
+          >
+            Export Report
+          </button>
+        </div>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              GHG Data from Database
+            </div>
+            <button
+              onClick={handleRefreshData}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading GHG data from database...</p>}
+            {loadStatus === 'success' && <p className="text-green-600">✅ Successfully loaded {ghgData.length} GHG records</p>}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error connecting to database. Please check connection settings.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {ghgData.length === 0 && loadStatus === 'idle' && !isLoading && (
+        <Card>
+          <CardContent className="p-6 text-center text-blue-700">
+            <TrendingUp className="mx-auto w-12 h-12 mb-4" />
+            <p>Connect to database to see GHG analytics.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {ghgData.length > 0 && (
+        <Tabs defaultValue="overview" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-7">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="scope">Scope</TabsTrigger>
+            <TabsTrigger value="plant">Plant</TabsTrigger>
+            <TabsTrigger value="department">Department</TabsTrigger>
+            <TabsTrigger value="monthly">Monthly</TabsTrigger>
+            <TabsTrigger value="yearly">Financial Year</TabsTrigger>
+            <TabsTrigger value="factors">Factor Provenance</TabsTrigger>
+          </TabsList>
+
+          {/* Overview */}
+          <TabsContent value="overview">
+            <Card>
+              <CardHeader>
+                <CardTitle>GHG Emissions Overview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="text-center p-4 bg-slate-50 rounded-lg">
+                    <p className="text-2xl font-bold text-slate-700">{analytics.overview.totalEmissions.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Total Emissions (tCO₂e{intensity.per})</p>
+                  </div>
+                  <div className="text-center p-4 bg-red-50 rounded-lg">
+                    <p className="text-2xl font-bold text-red-600">{analytics.overview.scope1.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Scope 1 (tCO₂e{intensity.per}) · {scopeShare(analytics.overview.scope1)}</p>
+                  </div>
+                  <div className="text-center p-4 bg-yellow-50 rounded-lg">
+                    <p className="text-2xl font-bold text-yellow-600">{analytics.overview.scope2.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Scope 2 (tCO₂e{intensity.per}) · {scopeShare(analytics.overview.scope2)}</p>
+                  </div>
+                  <div className="text-center p-4 bg-blue-50 rounded-lg">
+                    <p className="text-2xl font-bold text-blue-600">{analytics.overview.scope3.toFixed(2)}</p>
+                    <p className="text-sm text-gray-600">Scope 3 (tCO₂e{intensity.per}) · {scopeShare(analytics.overview.scope3)}</p>
+                  </div>
+                </div>
+                {analytics.overview.unclassified !== 0 && (
+                  <p className="mt-4 text-sm text-gray-500">
+                    {analytics.overview.unclassified.toFixed(2)} tCO₂e{intensity.per} could not be assigned to a scope from its Parameter, SubCategory or Type.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Scope Split */}
+          <TabsContent value="scope">
+            <Card>
+              <CardHeader>
+                <CardTitle>Emissions by Scope</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <RechartsPieChart>
+                    <Pie
+                      data={analytics.byScope}
+                      dataKey="emissions"
+                      nameKey="scope"
+                      cx="50%"
+                      cy="50%"
+                      outerRadius={120}
+                      label
+                    >
+                      {analytics.byScope.map(entry => (
+                        <Cell key={entry.scope} fill={scopeColors[entry.scope]} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                    <Legend />
+                  </RechartsPieChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Plant Split */}
+          <TabsContent value="plant">
+            <Card>
+              <CardHeader>
+                <CardTitle>Emissions by Plant</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={analytics.byPlant}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="plant" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {renderScopeBars()}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Department Split */}
+          <TabsContent value="department">
+            <Card>
+              <CardHeader>
+                <CardTitle>Emissions by Department</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={analytics.byDepartment}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="department" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {renderScopeBars()}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Monthly Trend */}
+          <TabsContent value="monthly">
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly Emissions Trend</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <LineChart data={analytics.monthlyTrend}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="total" stroke="#334155" name={`Total (tCO₂e${intensity.per})`} strokeWidth={2} />
+                    <Line type="monotone" dataKey="Scope 1" stroke={scopeColors['Scope 1']} name="Scope 1" />
+                    <Line type="monotone" dataKey="Scope 2" stroke={scopeColors['Scope 2']} name="Scope 2" />
+                    <Line type="monotone" dataKey="Scope 3" stroke={scopeColors['Scope 3']} name="Scope 3" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Financial Year Split */}
+          <TabsContent value="yearly">
+            <Card>
+              <CardHeader>
+                <CardTitle>Emissions by Financial Year</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={analytics.byFinancialYear}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="financialYear" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    {renderScopeBars()}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="ghg" records={emissionRecords} />
+            </div>
+          </TabsContent>
+
+          {/* Which emission factor produced each figure */}
+          <TabsContent value="factors">
+            <EmissionFactorUsageTable usage={analytics.factorUsage} />
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default GHGAnalytics;
@@ -1,95 +1,23 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useMemo } from 'react';
 import { Upload, FileSpreadsheet, Home, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import * as XLSX from 'xlsx';
-
-const fieldMapping: Record<string,string> = {
-  'Sr.No.': 'srNo',
-  'Asset Compliance Id': 'assetComplianceId',
-  'Remark Serial No': 'remarkSerialNo',
-  'Attribute': 'attribute',
-  'Objective Code': 'objectiveCode',
-  'Financial Year': 'financialYear',
-  'Month': 'month',
-  'Dim1': 'dim1',
-  'Dim2': 'dim2',
-  'Dim3': 'dim3',
-  'Actual Date': 'actualDate',
-  'Due Date': 'dueDate',
-  'Rural': 'rural',
-  'Semi Urban': 'semiUrban',
-  'Urban': 'urban',
-  'Metropolitan': 'metropolitan',
-  'MSMEPurchase': 'msmePurchase',
-  'Directlyfrom India': 'directlyFromIndia',
-  'Doc Status': 'docStatus',
-  'Pending With': 'pendingWith'
-};
-
-const numericFields = ['rural','semiUrban','urban','metropolitan','msmePurchase','directlyFromIndia'];
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import TargetTracker from './TargetTracker';
+import { FilterOptions } from '../../services/apiService';
+import { INCLUSION_SCHEMA } from '@/lib/ingestionSchemas';
+
+const numericFields = ['rural','semiUrban','urban','metropolitan','msmePurchase','directlyFromIndia'] as const;
 const colors = ['#10B981','#3B82F6','#F59E0B','#EF4444','#8B5F6','#06B4D6'];
 
-const parseNumeric = (val:any) => {
-  if(val==null||val==='') return 0;
-  if(typeof val==='number') return val;
-  const parsed = parseFloat(String(val).replace(/[,₹$€£]/g,'').trim());
-  return isNaN(parsed)?0:parsed;
-};
-
-const InclusionAnalytics:React.FC = () => {
-  const [data,setData] = useState<any[]>([]);
-  const [uploadStatus,setUploadStatus] = useState<'idle'|'success'|'error'>('idle');
-  const [isLoading,setIsLoading] = useState(false);
-
-  const handleUpload = useCallback((event:React.ChangeEvent<HTMLInputElement>)=>{
-    const file = event.target.files?.[0];
-    if(!file) return;
-
-    setIsLoading(true);
-    setUploadStatus('idle');
-
-    const reader = new FileReader();
-    reader.onload = (e)=>{
-      try{
-        const dataRaw = e.target?.result;
-        if(!dataRaw) throw new Error('Empty file content');
-
-        const workbook = XLSX.read(dataRaw,{type:'binary'});
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rawRows: any[][] = XLSX.utils.sheet_to_json(worksheet,{header:1});
-
-        const headerRow = rawRows[4];
-        const dataRows = rawRows.slice(5);
-
-        const colIndexMap: Record<string,number> = {};
-        headerRow.forEach((h:string,idx:number)=>{
-          if(fieldMapping[h]) colIndexMap[fieldMapping[h]]=idx;
-        });
-
-        const parsed = dataRows
-          .filter(r=>Array.isArray(r)&&r.some(c=>c!=null&&c!==''))
-          .map(row=>{
-            const obj: Record<string,any> = {};
-            for(const [key,idx] of Object.entries(colIndexMap)){
-              obj[key] = numericFields.includes(key)? parseNumeric(row[idx]) : row[idx]!=null?String(row[idx]).trim():'';
-            }
-            obj.monthYear = obj.month + ' ' + obj.financialYear;
-            return obj;
-          });
-
-        if(!parsed.length) throw new Error('No data found');
-        setData(parsed);
-        setUploadStatus('success');
-      }catch(err){
-        console.error(err);
-        setUploadStatus('error');
-      }finally{
-        setIsLoading(false);
-      }
-    };
-    reader.readAsBinaryString(file);
-  },[]);
+const InclusionAnalytics:React.FC<{ filters?: FilterOptions }> = ({ filters }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload: handleUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(INCLUSION_SCHEMA, filters);
 
   const analytics = useMemo(()=>{
     if(!data.length) return { overviewTotals:null, monthlyTrends:[], dimensionBreakdown:[] };
@@ -101,13 +29,14 @@ const InclusionAnalytics:React.FC = () => {
 
     const monthlyMap = new Map<string,any>();
     data.forEach(d=>{
-      if(!monthlyMap.has(d.monthYear)) monthlyMap.set(d.monthYear,{monthYear:d.monthYear, ...numericFields.reduce((a,f)=>({...a,[f]:0}),{})});
-      const m = monthlyMap.get(d.monthYear);
+      const monthYear = d.month + ' ' + d.financialYear;
+      if(!monthlyMap.has(monthYear)) monthlyMap.set(monthYear,{monthYear, ...numericFields.reduce((a,f)=>({...a,[f]:0}),{})});
+      const m = monthlyMap.get(monthYear);
       numericFields.forEach(f=>m[f]+=d[f]||0);
     });
     const monthlyTrends = Array.from(monthlyMap.values());
 
-    const dimensionBreakdown = ['dim1','dim2','dim3'].map(dim=>{
+    const dimensionBreakdown = (['dim1','dim2','dim3'] as const).map(dim=>{
       const map = new Map<string,number>();
       data.forEach(d=>{
         const key = d[dim]||'Unknown';
@@ -138,8 +67,35 @@ const InclusionAnalytics:React.FC = () => {
             </label>
           </div>
           {isLoading && <div className="mt-4 flex items-center gap-2 text-indigo-600"><Clock className="w-5 h-5 animate-spin"/> Processing...</div>}
-          {uploadStatus==='success' && <div className="mt-4 flex items-center gap-2 text-green-600"><CheckCircle className="w-5 h-5"/> Loaded {data.length} records</div>}
-          {uploadStatus==='error' && <div className="mt-4 flex items-center gap-2 text-red-600"><AlertTriangle className="w-5 h-5"/> Failed to load file</div>}
+          {uploadStatus==='success' && <div className="mt-4 flex items-center gap-2 text-green-600"><CheckCircle className="w-5 h-5"/> Loaded {data.length} records{issues.length>0 && ` (accepted with ${issues.length} warnings)`}</div>}
+          {uploadStatus==='error' && <div className="mt-4 flex items-center gap-2 text-red-600"><AlertTriangle className="w-5 h-5"/> Failed to load file: {errorMessage}</div>}
+          <UploadValidationReport
+            moduleName="Inclusion"
+            status={uploadStatus}
+            fileName={fileName}
+            issues={issues}
+            pendingCount={pendingCount}
+            onAccept={acceptUpload}
+            onReject={rejectUpload}
+            onMapColumns={openMappingWizard}
+            appliedProfileName={appliedProfile?.name}
+            unsavedProfileName={unsavedProfileName}
+          />
+          <ColumnMappingWizard
+            schema={INCLUSION_SCHEMA}
+            draft={mappingDraft}
+            onApply={applyColumnMapping}
+            onCancel={closeMappingWizard}
+          />
+          <UploadedDatasetsPanel
+            datasets={datasets}
+            storeStatus={storeStatus}
+            saveError={saveError}
+            uploaderName={uploaderName}
+            onUploaderNameChange={setUploaderName}
+            onDelete={deleteDataset}
+            onRefresh={reloadSavedRecords}
+          />
         </div>
 
         {data.length>0 && analytics.overviewTotals && (
@@ -170,6 +126,10 @@ const InclusionAnalytics:React.FC = () => {
               </ResponsiveContainer>
             </div>
 
+            <div className="mb-8">
+              <TargetTracker moduleId="inclusion" records={data} />
+            </div>
+
             {analytics.dimensionBreakdown.map(({dimension,data},i)=>(
               <div key={dimension} className="mb-8">
                 <h3 className="text-xl font-semibold mb-4">Participation by {dimension.toUpperCase()}</h3>
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Ratio } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DenominatorEntry, INTENSITY_DENOMINATORS, IntensityDenominator } from '@/lib/denominators';
+import { IntensityView } from '@/hooks/use-intensity';
+
+type IntensityToggleProps = Pick<IntensityView<unknown>, 'basis' | 'setBasis' | 'entries' | 'updateEntries' | 'periods' | 'excluded'>;
+
+type DraftFigures = Record<string, Partial<Record<IntensityDenominator, string>>>;
+
+const periodKey = (p: { businessCode: string; financialYear: string }) => `${p.businessCode}|${p.financialYear}`;
+
+// Absolute / intensity switch for a module, with the denominators per business code and financial year
+const IntensityToggle: React.FC<IntensityToggleProps> = ({ basis, setBasis, entries, updateEntries, periods, excluded }) => {
+  const [draft, setDraft] = useState<DraftFigures | null>(null);
+  const denominator = basis === 'absolute' ? INTENSITY_DENOMINATORS[0].id : basis;
+
+  // Periods in the data first, then any saved for periods outside the current filters
+  const rows = [...periods, ...entries.filter(e => !periods.some(p => periodKey(p) === periodKey(e)))];
+
+  const openEditor = () => {
+    const figures: DraftFigures = {};
+    rows.forEach(p => {
+      const entry = entries.find(e => periodKey(e) === periodKey(p));
+      figures[periodKey(p)] = Object.fromEntries(
+        INTENSITY_DENOMINATORS.map(d => [d.id, entry?.figures[d.id] === undefined ? '' : String(entry.figures[d.id])])
+      );
+    });
+    setDraft(figures);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const next: DenominatorEntry[] = rows
+      .map(p => ({
+        businessCode: p.businessCode,
+        financialYear: p.financialYear,
+        figures: Object.fromEntries(
+          INTENSITY_DENOMINATORS
+            .map(d => [d.id, Number(draft[periodKey(p)]?.[d.id])] as const)
+            .filter(([id, value]) => draft[periodKey(p)]?.[id] !== '' && Number.isFinite(value) && value > 0)
+        ),
+      }))
+      .filter(e => Object.keys(e.figures).length > 0);
+    updateEntries(next);
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex rounded-md border border-gray-200 p-0.5">
+        <Button size="sm" variant={basis === 'absolute' ? 'default' : 'ghost'} className="h-8" onClick={() => setBasis('absolute')}>
+          Absolute
+        </Button>
+        <Button size="sm" variant={basis === 'absolute' ? 'ghost' : 'default'} className="h-8" onClick={() => setBasis(denominator)}>
+          Intensity
+        </Button>
+      </div>
+      {basis !== 'absolute' && (
+        <Select value={basis} onValueChange={value => setBasis(value as IntensityDenominator)}>
+          <SelectTrigger className="h-9 w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INTENSITY_DENOMINATORS.map(d => <SelectItem key={d.id} value={d.id}>{d.label} ({d.unit})</SelectItem>)}
+          </SelectContent>
+        </Select>
+      )}
+      <Button variant="outline" size="sm" className="h-9" onClick={openEditor}>
+        <Ratio className="w-4 h-4 mr-1" />Denominators
+      </Button>
+      {basis !== 'absolute' && excluded > 0 && (
+        <span className="text-xs text-amber-700">
+          {excluded} records left out: no {INTENSITY_DENOMINATORS.find(d => d.id === basis)?.label.toLowerCase()} figure for their business code and year
+        </span>
+      )}
+
+      <Dialog open={draft !== null} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Intensity Denominators</DialogTitle>
+            <DialogDescription>
+              Annual figures per business code and financial year, shared by every module. Monthly views use a twelfth of the
+              year for each month. Leave a figure blank where it is not known; those periods are left out of that intensity.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="max-h-[60vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Business code</TableHead>
+                    <TableHead>Financial year</TableHead>
+                    {INTENSITY_DENOMINATORS.map(d => (
+                      <TableHead key={d.id}>{d.label}<span className="block text-xs font-normal">{d.unit}</span></TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={INTENSITY_DENOMINATORS.length + 2} className="text-center text-gray-500">
+                        No business codes in the current data.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {rows.map(p => (
+                    <TableRow key={periodKey(p)}>
+                      <TableCell className="font-medium">{p.businessCode}</TableCell>
+                      <TableCell>{p.financialYear}</TableCell>
+                      {INTENSITY_DENOMINATORS.map(d => (
+                        <TableCell key={d.id}>
+                          <Input
+                            className="h-8 w-28"
+                            type="number"
+                            step="any"
+                            value={draft[periodKey(p)]?.[d.id] ?? ''}
+                            onChange={e => setDraft({ ...draft, [periodKey(p)]: { ...draft[periodKey(p)], [d.id]: e.target.value } })}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save denominators</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default IntensityToggle;
@@ -0,0 +1,472 @@
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import { Database, TrendingUp, CloudFog, RefreshCw, Clock } from 'lucide-react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
+  BarChart, Bar, ReferenceLine
+} from 'recharts';
+import * as XLSX from 'xlsx';
+import { getNonGHGData, FilterOptions } from '../../services/apiService';
+import { NonGHGRecord } from '../../services/esgRecords';
+import TargetTracker from './TargetTracker';
+import IntensityToggle from './IntensityToggle';
+import RegulatoryLimitsPanel from './RegulatoryLimitsPanel';
+import { useIntensity } from '@/hooks/use-intensity';
+import {
+  findLimit, loadRegulatoryLimits, readingInLimitUnit, RegulatoryLimit, saveRegulatoryLimits
+} from '@/lib/airEmissionLimits';
+import { recordUnit, unitLabel } from '@/lib/units';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const NonGHGAnalytics = ({ filters }: { filters?: FilterOptions }) => {
+  const [nonGhgData, setNonGhgData] = useState<NonGHGRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [selectedParameter, setSelectedParameter] = useState<string>('');
+  const [limits, setLimits] = useState<RegulatoryLimit[]>(loadRegulatoryLimits);
+  const intensity = useIntensity(nonGhgData);
+
+  // Load data from API when component mounts or filters change
+  useEffect(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const loadDataFromAPI = async () => {
+    setIsLoading(true);
+    setLoadStatus('idle');
+
+    try {
+      const apiData = await getNonGHGData(filters);
+      setNonGhgData(apiData);
+      setLoadStatus('success');
+    } catch (error) {
+      console.error('Non-GHG data API error:', error);
+      setLoadStatus('error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRefreshData = useCallback(() => {
+    loadDataFromAPI();
+  }, [filters]);
+
+  const updateLimits = (next: RegulatoryLimit[]) => {
+    setLimits(next);
+    saveRegulatoryLimits(next);
+  };
+
+  const analytics = useMemo(() => {
+    const records = intensity.records;
+    if (records.length === 0) {
+      return {
+        byParameter: [],
+        byPlant: [],
+        monthlyTrend: [],
+        parameters: [] as string[],
+        uncompared: [],
+        totalsByUnit: [],
+        overview: { readings: 0, parameterCount: 0, plantCount: 0, exceedances: 0 }
+      };
+    }
+
+    // Each reading against its limit: above it, within it, or not comparable (null) when not a concentration
+    const compare = (item: NonGHGRecord) => {
+      const limit = findLimit(item.parameter || 'Unknown', limits);
+      const reading = limit ? readingInLimitUnit(item, limit) : null;
+      return { limit, compared: reading !== null, exceeds: limit !== null && reading !== null && reading > limit.limit };
+    };
+
+    // Group by Parameter (pollutant)
+    const parameterMap = new Map();
+    const uncomparedMap = new Map<string, { parameter: string; unit: string; records: number }>();
+    records.forEach(item => {
+      const param = item.parameter || 'Unknown';
+      const { limit, compared, exceeds } = compare(item);
+      if (!parameterMap.has(param)) {
+        parameterMap.set(param, {
+          parameter: param,
+          sum: 0,
+          maxQuantity: 0,
+          count: 0,
+          exceedances: 0,
+          notCompared: 0,
+          inLimitUnit: 0,
+          limit: limit ? limit.limit : null,
+          limitUnit: limit ? unitLabel(limit.unit) : ''
+        });
+      }
+      const group = parameterMap.get(param);
+      const quantity = item.quantity || 0;
+      const unit = recordUnit(item, 'nonghg')?.id ?? 'no unit';
+      group.sum += quantity;
+      group.maxQuantity = Math.max(group.maxQuantity, quantity);
+      group.count += 1;
+      if (exceeds) group.exceedances += 1;
+      if (limit && unit === limit.unit) group.inLimitUnit += 1;
+      if (limit && !compared) {
+        group.notCompared += 1;
+        const key = `${param}|${unit}`;
+        const entry = uncomparedMap.get(key) ?? { parameter: param, unit, records: 0 };
+        entry.records += 1;
+        uncomparedMap.set(key, entry);
+      }
+    });
+    // Average and maximum are as measured, so the limit is only charted beside them when every reading is in its unit
+    const byParameter = Array.from(parameterMap.values()).map(({ inLimitUnit, sum, ...group }) => ({
+      ...group,
+      avgQuantity: group.count > 0 ? sum / group.count : 0,
+      chartLimit: group.limit !== null && inLimitUnit === group.count ? group.limit : null
+    }));
+
+    // Quantities only add up for one pollutant in one unit, so totals are kept per Parameter and unit
+    const unitKey = (item: NonGHGRecord) => `${item.parameter || 'Unknown'}|${recordUnit(item, 'nonghg')?.id ?? ''}`;
+    const totalsMap = new Map<string, { key: string; parameter: string; unit: string; readings: number; totalQuantity: number }>();
+    records.forEach(item => {
+      const key = unitKey(item);
+      const unit = recordUnit(item, 'nonghg');
+      const entry = totalsMap.get(key) ?? {
+        key, parameter: item.parameter || 'Unknown', unit: unit ? unitLabel(unit.id) : 'no unit', readings: 0, totalQuantity: 0
+      };
+      entry.readings += 1;
+      entry.totalQuantity += item.quantity || 0;
+      totalsMap.set(key, entry);
+    });
+
+    // Group by Plant: readings and exceedances, as pollutants in different units cannot be summed
+    const plantMap = new Map();
+    records.forEach(item => {
+      const plant = item.plant || 'Unknown';
+      if (!plantMap.has(plant)) {
+        plantMap.set(plant, { plant: plant, count: 0, exceedances: 0 });
+      }
+      const group = plantMap.get(plant);
+      group.count += 1;
+      if (compare(item).exceeds) group.exceedances += 1;
+    });
+
+    // Monthly trend, one average column per parameter
+    const monthlyMap = new Map();
+    records.forEach(item => {
+      const month = item.month || 'Unknown';
+      const param = item.parameter || 'Unknown';
+      if (!monthlyMap.has(month)) {
+        monthlyMap.set(month, { month: month, sums: {}, counts: {} });
+      }
+      const group = monthlyMap.get(month);
+      group.sums[param] = (group.sums[param] || 0) + (item.quantity || 0);
+      group.counts[param] = (group.counts[param] || 0) + 1;
+    });
+    const monthlyTrend = Array.from(monthlyMap.values()).map(group => {
+      const row: Record<string, string | number> = { month: group.month };
+      Object.keys(group.sums).forEach(param => {
+        row[param] = group.sums[param] / group.counts[param];
+      });
+      return row;
+    });
+
+    return {
+      byParameter,
+      byPlant: Array.from(plantMap.values()),
+      monthlyTrend,
+      parameters: byParameter.map(p => p.parameter as string),
+      uncompared: Array.from(uncomparedMap.values()),
+      // Readings are compared with limits as measured; only the per-unit totals become intensities
+      totalsByUnit: intensity.divide(Array.from(totalsMap.values()), entry => entry.key, unitKey, ['totalQuantity']),
+      overview: {
+        readings: records.length,
+        parameterCount: byParameter.length,
+        plantCount: plantMap.size,
+        exceedances: byParameter.reduce((sum, p) => sum + p.exceedances, 0)
+      }
+    };
+  }, [intensity, limits]);
+
+  const activeParameter = analytics.parameters.includes(selectedParameter)
+    ? selectedParameter
+    : analytics.parameters[0] || '';
+  const activeLimit = findLimit(activeParameter, limits);
+  const activeChartLimit = analytics.byParameter.find(p => p.parameter === activeParameter)?.chartLimit ?? null;
+
+  const colors = ['#64748B', '#0EA5E9', '#F59E0B', '#EF4444', '#8B5CF6'];
+
+  const handleExport = () => {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet([analytics.overview]), 'Overview');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byParameter), 'By Parameter');
+    XLSX.utils.book_append_sheet(
+      wb,
+      XLSX.utils.json_to_sheet(analytics.totalsByUnit.map(({ parameter, unit, readings, totalQuantity }) => ({ parameter, unit, readings, totalQuantity }))),
+      'Totals by Unit'
+    );
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byPlant), 'By Plant');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.monthlyTrend), 'Monthly Trend');
+    XLSX.writeFile(wb, 'Non_GHG_Emissions_Report.xlsx');
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold flex items-center">
+          <CloudFog className="w-8 h-8 mr-3 text-slate-600" />
+          Non-GHG Air Emissions Analytics
+        </h1>
+        <div className="flex items-center gap-3">
+          <IntensityToggle {...intensity} />
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-slate-700 text-white font-medium hover:bg-slate-800"
+          >
+            Export Report
+          </button>
+        </div>
+      </div>
+
+      {/* Database Connection Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" />
+              Non-GHG Data from Database
+            </div>
+            <button
+              onClick={handleRefreshData}
+              disabled={isLoading}
+              className="flex items-center gap-2 px-3 py-2 rounded bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="p-4 rounded bg-gray-50">
+            {isLoading && <p className="flex items-center text-blue-600"><Clock className="w-5 h-5 animate-spin mr-2" />Loading non-GHG data from database...</p>}
+            {loadStatus === 'success' && <p className="text-green-600">✅ Successfully loaded {nonGhgData.length} non-GHG records</p>}
+            {loadStatus === 'error' && <p className="text-red-600">❌ Error connecting to database. Please check connection settings.</p>}
+            {loadStatus === 'idle' && !isLoading && <p className="text-gray-600">🔄 Ready to load data...</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {nonGhgData.length === 0 && loadStatus === 'idle' && !isLoading && (
+        <Card>
+          <CardContent className="p-6 text-center text-blue-700">
+            <TrendingUp className="mx-auto w-12 h-12 mb-4" />
+            <p>Connect to database to see non-GHG emission analytics.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {nonGhgData.length > 0 && (
+        <Tabs defaultValue="overview" className="space-y-4">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="parameter">Parameter</TabsTrigger>
+            <TabsTrigger value="plant">Plant</TabsTrigger>
+            <TabsTrigger value="monthly">Monthly</TabsTrigger>
+            <TabsTrigger value="limits">Limits</TabsTrigger>
+          </TabsList>
+
+          {/* Overview */}
+          <TabsContent value="overview">
+            <Card>
+              <CardHeader>
+                <CardTitle>Air Emissions Overview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="text-center p-4 bg-slate-50 rounded-lg">
+                    <p className="text-2xl font-bold text-slate-700">{analytics.overview.readings}</p>
+                    <p className="text-sm text-gray-600">Readings</p>
+                  </div>
+                  <div className="text-center p-4 bg-blue-50 rounded-lg">
+                    <p className="text-2xl font-bold text-blue-600">{analytics.overview.parameterCount}</p>
+                    <p className="text-sm text-gray-600">Pollutant Parameters</p>
+                  </div>
+                  <div className="text-center p-4 bg-green-50 rounded-lg">
+                    <p className="text-2xl font-bold text-green-600">{analytics.overview.plantCount}</p>
+                    <p className="text-sm text-gray-600">Plants Reporting</p>
+                  </div>
+                  <div className="text-center p-4 bg-red-50 rounded-lg">
+                    <p className="text-2xl font-bold text-red-600">{analytics.overview.exceedances}</p>
+                    <p className="text-sm text-gray-600">Readings Above Limit</p>
+                  </div>
+                </div>
+
+                <div className="mt-6 overflow-x-auto">
+                  <table className="w-full border border-gray-200 text-sm">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="p-2 border border-gray-200 text-left">Parameter</th>
+                        <th className="p-2 border border-gray-200 text-right">Average</th>
+                        <th className="p-2 border border-gray-200 text-right">Maximum</th>
+                        <th className="p-2 border border-gray-200 text-right">Regulatory Limit</th>
+                        <th className="p-2 border border-gray-200 text-right">Exceedances</th>
+                        <th className="p-2 border border-gray-200 text-right">Not Compared</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.byParameter.map(row => (
+                        <tr key={row.parameter} className="hover:bg-gray-50">
+                          <td className="p-2 border border-gray-200">{row.parameter}</td>
+                          <td className="p-2 border border-gray-200 text-right">{row.avgQuantity.toFixed(2)}</td>
+                          <td className="p-2 border border-gray-200 text-right">{row.maxQuantity.toFixed(2)}</td>
+                          <td className="p-2 border border-gray-200 text-right">
+                            {row.limit !== null ? `${row.limit} ${row.limitUnit}` : '—'}
+                          </td>
+                          <td className={`p-2 border border-gray-200 text-right ${row.exceedances > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                            {row.exceedances}
+                          </td>
+                          <td className="p-2 border border-gray-200 text-right">{row.limit !== null ? row.notCompared : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="mt-6 overflow-x-auto">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Totals by Parameter and Unit</h3>
+                  <table className="w-full border border-gray-200 text-sm">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="p-2 border border-gray-200 text-left">Parameter</th>
+                        <th className="p-2 border border-gray-200 text-left">Unit</th>
+                        <th className="p-2 border border-gray-200 text-right">Readings</th>
+                        <th className="p-2 border border-gray-200 text-right">Total Quantity{intensity.per}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.totalsByUnit.map(row => (
+                        <tr key={row.key} className="hover:bg-gray-50">
+                          <td className="p-2 border border-gray-200">{row.parameter}</td>
+                          <td className="p-2 border border-gray-200">{row.unit}</td>
+                          <td className="p-2 border border-gray-200 text-right">{row.readings}</td>
+                          <td className="p-2 border border-gray-200 text-right">{row.totalQuantity.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Parameter Analysis */}
+          <TabsContent value="parameter">
+            <Card>
+              <CardHeader>
+                <CardTitle>Average vs Maximum Reading by Parameter</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={analytics.byParameter}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="parameter" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="avgQuantity" fill={colors[0]} name="Average" />
+                    <Bar dataKey="maxQuantity" fill={colors[1]} name="Maximum" />
+                    <Bar dataKey="chartLimit" fill={colors[3]} name="Regulatory Limit" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Plant Analysis */}
+          <TabsContent value="plant">
+            <Card>
+              <CardHeader>
+                <CardTitle>Readings by Plant</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <BarChart data={analytics.byPlant}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="plant" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="count" fill={colors[0]} name="Readings" />
+                    <Bar dataKey="exceedances" fill={colors[3]} name="Readings Above Limit" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Monthly Trend */}
+          <TabsContent value="monthly">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span>Monthly Trend vs Regulatory Limit</span>
+                  <Select value={activeParameter} onValueChange={setSelectedParameter}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue placeholder="Parameter" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {analytics.parameters.map(param => (
+                        <SelectItem key={param} value={param}>{param}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={400}>
+                  <LineChart data={analytics.monthlyTrend}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey={activeParameter} stroke={colors[1]} name={`${activeParameter} (avg)`} connectNulls />
+                    {activeLimit && activeChartLimit !== null && (
+                      <ReferenceLine
+                        y={activeChartLimit}
+                        stroke={colors[3]}
+                        strokeDasharray="6 4"
+                        label={{ value: `${activeLimit.pollutant} limit ${activeLimit.limit} ${unitLabel(activeLimit.unit)}`, position: 'insideTopRight', fill: colors[3] }}
+                      />
+                    )}
+                  </LineChart>
+                </ResponsiveContainer>
+                {!activeLimit && (
+                  <p className="mt-2 text-sm text-gray-500">No regulatory limit is configured for this parameter.</p>
+                )}
+                {activeLimit && activeChartLimit === null && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    Not every reading of this parameter is stated in {unitLabel(activeLimit.unit)}, so the limit line is not
+                    drawn; readings in a concentration unit are still compared with it.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="nonghg" records={nonGhgData} />
+            </div>
+          </TabsContent>
+
+          {/* Regulatory Limits */}
+          <TabsContent value="limits">
+            <Card>
+              <CardHeader>
+                <CardTitle>Regulatory Limits</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RegulatoryLimitsPanel limits={limits} uncompared={analytics.uncompared} onChange={updateLimits} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default NonGHGAnalytics;
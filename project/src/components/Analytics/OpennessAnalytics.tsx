@@ -1,105 +1,22 @@
-import React, { useState, useCallback } from 'react';
-import * as XLSX from 'xlsx';
+import React from 'react';
 import {
   BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer
 } from 'recharts';
 import { Upload } from 'lucide-react';
-
-// Field mapping
-const fieldMapping: Record<string, string> = {
-  "Sr.No.": "srNo",
-  "Sr No": "srNoAlt",
-  "Objective Code": "objectiveCode",
-  "Financial Year": "financialYear",
-  "Month": "month",
-  "Dim1": "dim1",
-  "Dim2": "dim2",
-  "Attribute": "attribute",
-  "Emission Source": "emissionSource",
-  "Start Date": "startDate",
-  "End Date": "endDate",
-  "No of Trading Houses": "noTradingHouses",
-  "% of Total Purchases": "percentTotalPurchases",
-  "Top 10 % to TH": "top10PercentTH",
-  "No of Dealers": "noDealers",
-  "% of Total Salers": "percentTotalSalers",
-  "Top 10 % to TH Sales": "top10PercentTHSales",
-  "RPT Purchases": "rptPurchases",
-  "RPT Sales": "rptSales",
-  "RPT L & A": "rptLA",
-  "RPT Investments": "rptInvestments",
-  "Actual Compliance Ind": "actualCompliance"
-};
-
-const numericFields = [
-  "noTradingHouses", "percentTotalPurchases", "top10PercentTH", "noDealers",
-  "percentTotalSalers", "top10PercentTHSales", "rptPurchases", "rptSales",
-  "rptLA", "rptInvestments"
-];
-
-const parseNumeric = (val: any) => {
-  if (val == null || val === '') return 0;
-  if (typeof val === 'number') return val;
-  const parsed = parseFloat(String(val).replace(/[,₹$%]/g, '').trim());
-  return isNaN(parsed) ? 0 : parsed;
-};
-
-const OpennessAnalytics: React.FC = () => {
-  const [data, setData] = useState<any[]>([]);
-  const [uploadStatus, setUploadStatus] = useState<'idle'|'success'|'error'>('idle');
-  const [isLoading, setIsLoading] = useState(false);
-
-  const handleUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    setIsLoading(true);
-    setUploadStatus('idle');
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const dataRaw = e.target?.result;
-        if (!dataRaw) throw new Error('Empty file content');
-
-        const workbook = XLSX.read(dataRaw, { type: 'binary' });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rawRows: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-        // Header row at index 4
-        const headerRow = rawRows[4];
-        const dataRows = rawRows.slice(5);
-
-        // Map columns
-        const colIndexMap: Record<string, number> = {};
-        headerRow.forEach((h: string, idx: number) => {
-          if (fieldMapping[h]) colIndexMap[fieldMapping[h]] = idx;
-        });
-
-        const parsed = dataRows
-          .filter(r => Array.isArray(r) && r.some(c => c != null && c !== ''))
-          .map(row => {
-            const rowObj: Record<string, any> = {};
-            for (const [key, idx] of Object.entries(colIndexMap)) {
-              rowObj[key] = numericFields.includes(key) ? parseNumeric(row[idx]) : row[idx] != null ? String(row[idx]).trim() : '';
-            }
-            rowObj.monthYear = rowObj.month + ' ' + rowObj.financialYear;
-            return rowObj;
-          });
-
-        if (!parsed.length) throw new Error('No data found');
-        setData(parsed);
-        setUploadStatus('success');
-      } catch (err) {
-        console.error(err);
-        setUploadStatus('error');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    reader.readAsBinaryString(file);
-  }, []);
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import TargetTracker from './TargetTracker';
+import { FilterOptions } from '../../services/apiService';
+import { OPENNESS_SCHEMA } from '@/lib/ingestionSchemas';
+
+const OpennessAnalytics: React.FC<{ filters?: FilterOptions }> = ({ filters }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload: handleUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(OPENNESS_SCHEMA, filters);
 
   // KPI Aggregates
   const totalPurchases = data.reduce((acc, d) => acc + d.rptPurchases, 0);
@@ -111,10 +28,11 @@ const OpennessAnalytics: React.FC = () => {
   // Monthly trends
   const monthlyMap = new Map<string, any>();
   data.forEach(d => {
-    if (!monthlyMap.has(d.monthYear)) {
-      monthlyMap.set(d.monthYear, { monthYear: d.monthYear, rptPurchases: 0, rptSales: 0 });
+    const monthYear = d.month + ' ' + d.financialYear;
+    if (!monthlyMap.has(monthYear)) {
+      monthlyMap.set(monthYear, { monthYear, rptPurchases: 0, rptSales: 0 });
     }
-    const m = monthlyMap.get(d.monthYear);
+    const m = monthlyMap.get(monthYear);
     m.rptPurchases += d.rptPurchases;
     m.rptSales += d.rptSales;
   });
@@ -135,9 +53,9 @@ const OpennessAnalytics: React.FC = () => {
   // Dim1 Breakdown
   const dim1Map = new Map<string, number>();
   data.forEach(d => {
-    const val = parseNumeric(d.rptPurchases);
-    if (!dim1Map.has(d.dim1)) dim1Map.set(d.dim1, 0);
-    dim1Map.set(d.dim1, dim1Map.get(d.dim1)! + val);
+    const dim1 = d.dim1 || 'Unknown';
+    if (!dim1Map.has(dim1)) dim1Map.set(dim1, 0);
+    dim1Map.set(dim1, dim1Map.get(dim1)! + d.rptPurchases);
   });
   const dim1Breakdown = Array.from(dim1Map.entries())
     .map(([category, value]) => ({ category, value }))
@@ -147,9 +65,9 @@ const OpennessAnalytics: React.FC = () => {
   // Dim2 Breakdown
   const dim2Map = new Map<string, number>();
   data.forEach(d => {
-    const val = parseNumeric(d.rptSales);
-    if (!dim2Map.has(d.dim2)) dim2Map.set(d.dim2, 0);
-    dim2Map.set(d.dim2, dim2Map.get(d.dim2)! + val);
+    const dim2 = d.dim2 || 'Unknown';
+    if (!dim2Map.has(dim2)) dim2Map.set(dim2, 0);
+    dim2Map.set(dim2, dim2Map.get(dim2)! + d.rptSales);
   });
   const dim2Breakdown = Array.from(dim2Map.entries())
     .map(([category, value]) => ({ category, value }))
@@ -166,9 +84,36 @@ const OpennessAnalytics: React.FC = () => {
           <input type="file" accept=".xlsx,.xls" onChange={handleUpload} className="hidden" />
         </label>
         {isLoading && <span>Uploading...</span>}
-        {uploadStatus === 'success' && <span className="text-green-600">Upload successful!</span>}
-        {uploadStatus === 'error' && <span className="text-red-600">Upload failed.</span>}
+        {uploadStatus === 'success' && <span className="text-green-600">Upload successful!{issues.length > 0 && ` (accepted with ${issues.length} warnings)`}</span>}
+        {uploadStatus === 'error' && <span className="text-red-600">Upload failed: {errorMessage}</span>}
       </div>
+      <UploadValidationReport
+        moduleName="Openness"
+        status={uploadStatus}
+        fileName={fileName}
+        issues={issues}
+        pendingCount={pendingCount}
+        onAccept={acceptUpload}
+        onReject={rejectUpload}
+        onMapColumns={openMappingWizard}
+        appliedProfileName={appliedProfile?.name}
+        unsavedProfileName={unsavedProfileName}
+      />
+      <ColumnMappingWizard
+        schema={OPENNESS_SCHEMA}
+        draft={mappingDraft}
+        onApply={applyColumnMapping}
+        onCancel={closeMappingWizard}
+      />
+      <UploadedDatasetsPanel
+        datasets={datasets}
+        storeStatus={storeStatus}
+        saveError={saveError}
+        uploaderName={uploaderName}
+        onUploaderNameChange={setUploaderName}
+        onDelete={deleteDataset}
+        onRefresh={reloadSavedRecords}
+      />
 
       {data.length > 0 && (
         <>
@@ -222,6 +167,10 @@ const OpennessAnalytics: React.FC = () => {
             </ResponsiveContainer>
           </div>
 
+          <div className="mt-8">
+            <TargetTracker moduleId="openness" records={data} />
+          </div>
+
           {/* Dim1 Breakdown */}
           <div className="h-72 mt-8">
             <h3 className="font-semibold mb-2">Top Dim1 (Purchases)</h3>
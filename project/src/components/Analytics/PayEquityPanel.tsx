@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  PAY_EQUITY_VIEWS, PAY_GAP_METRIC, payEquityFor, PayEquityView, periodFinancialYear, summarizePayEquity
+} from '@/lib/payEquity';
+import { effectiveTargetValue, loadTargets, trajectoryValue } from '@/lib/targets';
+import { DiversityRecord } from '@/services/esgRecords';
+
+interface PayEquityPanelProps {
+  records: DiversityRecord[];
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+const ratio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Female-to-male wage ratio and unadjusted gap by Dim1, Dim2 and fiscal period, with the gap trend against its target
+const PayEquityPanel: React.FC<PayEquityPanelProps> = ({ records }) => {
+  const [view, setView] = useState<PayEquityView>('dim1');
+  const [trendView, setTrendView] = useState<'year' | 'month'>('year');
+
+  const overall = useMemo(() => summarizePayEquity(records), [records]);
+  const rows = useMemo(() => payEquityFor(records, view), [records, view]);
+
+  // The company-wide gap target from the Targets panel, read on each render so a new target shows straight away
+  const target = loadTargets().find(t => t.moduleId === 'diversity' && t.metric === PAY_GAP_METRIC && t.scope.type === 'company');
+  const trend = payEquityFor(records, trendView).map(row => ({
+    period: row.key,
+    gap: row.gap,
+    target: target ? trajectoryValue(target, periodFinancialYear(row.key, trendView)) : null,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="text-center p-4 bg-indigo-50 rounded-lg">
+          <p className="text-2xl font-bold text-indigo-600">{ratio(overall.ratio)}</p>
+          <p className="text-sm text-gray-600">Female-to-male wage ratio</p>
+        </div>
+        <div className="text-center p-4 bg-red-50 rounded-lg">
+          <p className="text-2xl font-bold text-red-600">{percent(overall.gap)}</p>
+          <p className="text-sm text-gray-600">Unadjusted pay gap</p>
+        </div>
+        <div className="text-center p-4 bg-green-50 rounded-lg">
+          <p className="text-2xl font-bold text-green-600">{percent(overall.femaleShare)}</p>
+          <p className="text-sm text-gray-600">Female share of gross wages</p>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-2xl font-bold text-gray-700">{target ? percent(effectiveTargetValue(target)) : '—'}</p>
+          <p className="text-sm text-gray-600">{target ? `Gap target for ${target.targetYear}` : 'No company-wide gap target set'}</p>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        The gap is (male − female) / male wages as entered; it reflects pay rather than headcount when rows carry comparable
+        figures, such as median remuneration per group. Set a target on "Unadjusted gender pay gap" in the Targets panel.
+      </p>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">Pay Gap Trend</h3>
+          <Select value={trendView} onValueChange={value => setTrendView(value as 'year' | 'month')}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="year">Financial year</SelectItem>
+              <SelectItem value="month">Fiscal month</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <ResponsiveContainer width="100%" height={300}>
+          <LineChart data={trend}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="period" />
+            <YAxis unit="%" />
+            <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#94A3B8" />
+            <Line type="monotone" dataKey="gap" stroke="#EF4444" strokeWidth={2} name="Unadjusted pay gap" connectNulls />
+            {target && <Line type="monotone" dataKey="target" stroke="#0F172A" strokeDasharray="5 5" name="Target trajectory" connectNulls />}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">Pay Equity by Group</h3>
+          <Select value={view} onValueChange={value => setView(value as PayEquityView)}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAY_EQUITY_VIEWS.map(v => <SelectItem key={v.id} value={v.id}>{v.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="key" />
+            <YAxis unit="%" />
+            <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+            <ReferenceLine y={0} stroke="#94A3B8" />
+            <Bar dataKey="gap" fill="#EF4444" name="Unadjusted pay gap" />
+          </BarChart>
+        </ResponsiveContainer>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{PAY_EQUITY_VIEWS.find(v => v.id === view)?.label}</TableHead>
+              <TableHead className="text-right">Wages to females</TableHead>
+              <TableHead className="text-right">Wages to males</TableHead>
+              <TableHead className="text-right">F:M ratio</TableHead>
+              <TableHead className="text-right">Gap</TableHead>
+              <TableHead className="text-right">Female share</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.key}</TableCell>
+                <TableCell className="text-right">{row.wagesFemales.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{row.wagesMales.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{ratio(row.ratio)}</TableCell>
+                <TableCell className="text-right">{percent(row.gap)}</TableCell>
+                <TableCell className="text-right">{percent(row.femaleShare)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default PayEquityPanel;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { loadBrsrInputs, saveBrsrInputs } from '@/lib/brsrCore';
+import {
+  perHundredWomen, POSH_INQUIRY_DAYS, POSH_PERIOD_VIEWS, poshByPeriod, poshCases, PoshCaseStatus, PoshPeriodView,
+  resolutionDistribution, summarizePosh
+} from '@/lib/poshCases';
+import { DiversityRecord } from '@/services/esgRecords';
+
+interface PoshCasesPanelProps {
+  records: DiversityRecord[];
+}
+
+const percent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+const signed = (value: number | null) => (value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`);
+
+const statusStyles: Record<PoshCaseStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-700',
+  resolved: 'bg-green-100 text-green-700',
+  future: 'bg-blue-100 text-blue-700',
+  undated: 'bg-gray-100 text-gray-600',
+};
+
+// POSH complaints: upheld rate, rate per 100 women, open vs resolved, time to resolve and change on the previous period
+const PoshCasesPanel: React.FC<PoshCasesPanelProps> = ({ records }) => {
+  const [view, setView] = useState<PoshPeriodView>('year');
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  const cases = useMemo(() => poshCases(records), [records]);
+  const summary = useMemo(() => summarizePosh(records), [records]);
+  const distribution = useMemo(() => resolutionDistribution(cases), [cases]);
+  const periods = useMemo(() => poshByPeriod(records, view), [records, view]);
+  const yearRows = useMemo(() => poshByPeriod(records, 'year'), [records]);
+
+  // Female headcount is the BRSR input behind KPI 6.c, read on each render so saved figures show straight away
+  const years = yearRows.map(row => ({ ...row, headcount: loadBrsrInputs(row.key).figures.femaleEmployees }));
+  const latest = years[years.length - 1];
+
+  const handleSaveHeadcounts = () => {
+    Object.entries(draft).forEach(([financialYear, text]) => {
+      const inputs = loadBrsrInputs(financialYear);
+      const value = parseFloat(text);
+      const figures = { ...inputs.figures };
+      if (isNaN(value)) delete figures.femaleEmployees;
+      else figures.femaleEmployees = value;
+      saveBrsrInputs(financialYear, { ...inputs, figures });
+    });
+    setDraft({});
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="text-center p-4 bg-red-50 rounded-lg">
+          <p className="text-2xl font-bold text-red-600">{percent(summary.upheldRate)}</p>
+          <p className="text-sm text-gray-600">Upheld rate ({summary.upheld} of {summary.complaints})</p>
+        </div>
+        <div className="text-center p-4 bg-indigo-50 rounded-lg">
+          <p className="text-2xl font-bold text-indigo-600">
+            {latest ? (perHundredWomen(latest.complaints, latest.headcount)?.toFixed(2) ?? '—') : '—'}
+          </p>
+          <p className="text-sm text-gray-600">Complaints per 100 female employees{latest && ` (${latest.key})`}</p>
+        </div>
+        <div className="text-center p-4 bg-yellow-50 rounded-lg">
+          <p className="text-2xl font-bold text-yellow-600">{summary.open} / {summary.resolved}</p>
+          <p className="text-sm text-gray-600">
+            Open / resolved complaints
+            {(summary.undated > 0 || summary.future > 0) &&
+              ` (${[summary.undated > 0 && `${summary.undated} undated`, summary.future > 0 && `${summary.future} dated after today`].filter(Boolean).join(', ')})`}
+          </p>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-2xl font-bold text-gray-700">
+            {summary.medianResolutionDays === null ? '—' : `${summary.medianResolutionDays} days`}
+          </p>
+          <p className="text-sm text-gray-600">Median time to resolve ({summary.overdue} beyond {POSH_INQUIRY_DAYS} days)</p>
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        A complaint is open from its Start Date until its End Date has passed; rows without a Start Date are counted as
+        undated, and rows starting after today as future so their dates can be checked. Cases are numbered by Start Date, and Sr. No., Attribute and Emission Source are not shown so that no
+        complainant can be identified.
+      </p>
+
+      <div>
+        <h3 className="font-semibold mb-2">Complaints per 100 Female Employees</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Financial year</TableHead>
+              <TableHead className="text-right">Complaints</TableHead>
+              <TableHead className="text-right">Female employees and workers</TableHead>
+              <TableHead className="text-right">Per 100</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {years.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.key}</TableCell>
+                <TableCell className="text-right">{row.complaints}</TableCell>
+                <TableCell className="text-right">
+                  <Input
+                    className="h-8 w-32 ml-auto text-right"
+                    inputMode="numeric"
+                    placeholder="Headcount"
+                    value={draft[row.key] ?? (row.headcount?.toString() ?? '')}
+                    onChange={e => setDraft(prev => ({ ...prev, [row.key]: e.target.value }))}
+                  />
+                </TableCell>
+                <TableCell className="text-right">{perHundredWomen(row.complaints, row.headcount)?.toFixed(2) ?? '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Button size="sm" className="mt-2" disabled={Object.keys(draft).length === 0} onClick={handleSaveHeadcounts}>
+          Save headcounts
+        </Button>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Resolution Time</h3>
+        <ResponsiveContainer width="100%" height={250}>
+          <BarChart data={distribution}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="complaints" fill="#8B5CF6" name="Resolved complaints" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold">Period-over-Period Change</h3>
+          <Select value={view} onValueChange={value => setView(value as PoshPeriodView)}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {POSH_PERIOD_VIEWS.map(v => <SelectItem key={v.id} value={v.id}>{v.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={periods}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="key" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="complaints" fill="#F59E0B" name="Complaints" />
+            <Bar dataKey="upheld" fill="#EF4444" name="Upheld" />
+          </BarChart>
+        </ResponsiveContainer>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{POSH_PERIOD_VIEWS.find(v => v.id === view)?.label}</TableHead>
+              <TableHead className="text-right">Complaints</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">Upheld</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead className="text-right">Upheld rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {periods.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.key}</TableCell>
+                <TableCell className="text-right">{row.complaints}</TableCell>
+                <TableCell className="text-right">{signed(row.complaintsChange)}</TableCell>
+                <TableCell className="text-right">{row.upheld}</TableCell>
+                <TableCell className="text-right">{signed(row.upheldChange)}</TableCell>
+                <TableCell className="text-right">{percent(row.upheldRate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Cases</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Case</TableHead>
+              <TableHead>Dim1</TableHead>
+              <TableHead>Period</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Days</TableHead>
+              <TableHead className="text-right">Complaints</TableHead>
+              <TableHead className="text-right">Upheld</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {cases.map(c => (
+              <TableRow key={c.ref}>
+                <TableCell className="font-medium">{c.ref}</TableCell>
+                <TableCell>{c.dim1}</TableCell>
+                <TableCell>{c.month} {c.financialYear}</TableCell>
+                <TableCell>
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${statusStyles[c.status]}`}>{c.status}</span>
+                </TableCell>
+                <TableCell className={`text-right ${c.days !== null && c.days > POSH_INQUIRY_DAYS ? 'text-red-600' : ''}`}>
+                  {c.days ?? '—'}
+                </TableCell>
+                <TableCell className="text-right">{c.complaints}</TableCell>
+                <TableCell className="text-right">{c.upheld}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default PoshCasesPanel;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RegulatoryLimit, resetRegulatoryLimits } from '@/lib/airEmissionLimits';
+import { unitLabel, unitsOf } from '@/lib/units';
+
+interface RegulatoryLimitsPanelProps {
+  limits: RegulatoryLimit[];
+  // Readings a limit applies to that are not stated in a concentration unit
+  uncompared: { parameter: string; unit: string; records: number }[];
+  onChange: (limits: RegulatoryLimit[]) => void;
+}
+
+// Ordered keyword rules that give each pollutant parameter its regulatory limit
+const RegulatoryLimitsPanel: React.FC<RegulatoryLimitsPanelProps> = ({ limits, uncompared, onChange }) => {
+  const update = (id: string, changes: Partial<RegulatoryLimit>) =>
+    onChange(limits.map(l => (l.id === id ? { ...l, ...changes } : l)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...limits];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  // New limits go first so they take precedence over the generic defaults
+  const addLimit = () =>
+    onChange([{ id: `limit-${Date.now()}`, pattern: '', pollutant: '', limit: 0, unit: 'mg/Nm3' }, ...limits]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Limits are checked top to bottom; the first whose text appears as a whole word in a reading's Parameter applies to
+          it, so "co" matches "CO" but not "Cobalt" or "CO2". Readings are
+          compared in the limit's unit only when their Parameter, Sub Category or Type names a concentration unit, e.g.
+          "NOx (mg/Nm3)". Limits are saved in this browser.
+        </p>
+        <div className="flex gap-2 shrink-0 ml-4">
+          <Button variant="outline" size="sm" onClick={() => onChange(resetRegulatoryLimits())}>Reset to defaults</Button>
+          <Button size="sm" onClick={addLimit}><Plus className="w-4 h-4 mr-1" />Add limit</Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-20" />
+            <TableHead>Parameter word</TableHead>
+            <TableHead>Pollutant</TableHead>
+            <TableHead>Limit</TableHead>
+            <TableHead>Unit</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {limits.map((l, index) => (
+            <TableRow key={l.id}>
+              <TableCell>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === limits.length - 1} onClick={() => move(index, 1)} aria-label="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </TableCell>
+              <TableCell>
+                <Input className="h-8" value={l.pattern} onChange={e => update(l.id, { pattern: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input className="h-8" value={l.pollutant} onChange={e => update(l.id, { pollutant: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8 w-28"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={l.limit || ''}
+                  onChange={e => update(l.id, { limit: Number(e.target.value) || 0 })}
+                />
+              </TableCell>
+              <TableCell>
+                <Select value={l.unit} onValueChange={unit => update(l.id, { unit })}>
+                  <SelectTrigger className="h-8 w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitsOf('concentration').map(u => <SelectItem key={u.id} value={u.id}>{u.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => onChange(limits.filter(x => x.id !== l.id))} aria-label="Delete limit">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {uncompared.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-2">Readings Not Compared</h3>
+          <p className="text-sm text-gray-600 mb-2">
+            These readings have a limit but are not stated in a concentration unit, so they are not counted as above or
+            within it.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parameter</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Readings</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {uncompared.map(u => (
+                <TableRow key={`${u.parameter}|${u.unit}`}>
+                  <TableCell>{u.parameter}</TableCell>
+                  <TableCell>{unitLabel(u.unit)}</TableCell>
+                  <TableCell className="text-right">{u.records}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegulatoryLimitsPanel;
@@ -1,132 +1,63 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { Upload, FileSpreadsheet, TrendingUp, Clock } from 'lucide-react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
   LineChart, Line, AreaChart, Area, PieChart as RechartsPieChart, Pie, Cell 
 } from 'recharts';
-import * as XLSX from 'xlsx';
+import { useExcelUpload } from '@/hooks/use-excel-upload';
+import UploadValidationReport from './UploadValidationReport';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import UploadedDatasetsPanel from './UploadedDatasetsPanel';
+import Scope3CategoryRulesPanel from './Scope3CategoryRulesPanel';
+import TargetTracker from './TargetTracker';
+import IntensityToggle from './IntensityToggle';
+import { FilterOptions } from '../../services/apiService';
+import { SCOPE3_SCHEMA } from '@/lib/ingestionSchemas';
+import {
+  breakdownScope3, loadScope3Rules, saveScope3Rules, SCOPE3_METHODS, Scope3CategoryRule, Scope3Method
+} from '@/lib/scope3Categories';
+import { useIntensity } from '@/hooks/use-intensity';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 const COLORS = ["#10B981", "#3B82F6", "#F59E0B", "#EF4444", "#8B5CF6", "#06B6D4", "#84CC16"];
 
-const Scope3Analytics = () => {
-  const [data, setData] = useState<Record<string, any>[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState('idle');
-
-  // Field mapping from Excel columns
-  const fieldMapping = {
-    "Sr.No.": "srNo",
-    "BRSR ID": "brsrId",
-    "Financial Year": "financialYear",
-    "Business Code": "businessCode",
-    "Plant": "plant",
-    "Department": "department",
-    "Attribute": "attribute",
-    "Parameter": "parameter",
-    "Sub Category": "subCategory",
-    "Total Quantity": "totalQuantity",
-    "Total EFFuel": "totalEFFuel",
-    "Total Value": "totalValue",
-    "Doc Status": "docStatus",
-    "Pending With": "pendingWith"
-  };
+const METHOD_COLORS: Record<Scope3Method, string> = {
+  'supplier-specific': '#10B981',
+  'average-data': '#3B82F6',
+  'spend-based': '#F59E0B',
+};
 
-  const numericFields = ["totalQuantity", "totalEFFuel", "totalValue"];
-
-  // Numeric parse helper
-  const parseNumeric = (val: any) => {
-    if(val == null || val === '') return 0;
-    if(typeof val === 'number') return val;
-    if(typeof val === 'string'){
-      const cleaned = val.replace(/[,₹$€£¥]/g, '').trim();
-      const parsed = parseFloat(cleaned);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    return 0;
+const Scope3Analytics = ({ filters }: { filters?: FilterOptions }) => {
+  const {
+    records: data, isLoading, uploadStatus, issues, errorMessage, fileName, pendingCount, appliedProfile, unsavedProfileName, mappingDraft,
+    handleFileUpload, acceptUpload, rejectUpload, openMappingWizard, closeMappingWizard, applyColumnMapping,
+    datasets, storeStatus, saveError, uploaderName, setUploaderName, deleteDataset, reloadSavedRecords,
+  } = useExcelUpload(SCOPE3_SCHEMA, filters);
+  const [categoryRules, setCategoryRules] = useState<Scope3CategoryRule[]>(loadScope3Rules);
+  const intensity = useIntensity(data);
+
+  // Rule edits take effect and are saved immediately
+  const updateCategoryRules = (rules: Scope3CategoryRule[]) => {
+    setCategoryRules(rules);
+    saveScope3Rules(rules);
   };
 
-  // Excel file upload and parse
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target?.files?.[0];
-    if(!file) return;
-
-    setIsLoading(true);
-    setUploadStatus('idle');
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        if (!data) throw new Error('Empty file content');
-        const workbook = XLSX.read(data as any, {type: 'binary'});
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const rows = XLSX.utils.sheet_to_json(worksheet, {header: 1}) as any[];
-
-        if(rows.length < 2) throw new Error('Excel must contain header and data rows');
-
-        // Find header row
-        let headerIndex = -1;
-        let headers: string[] = [];
-        for(let i=0; i < Math.min(10, rows.length); i++){
-          const row = rows[i] as any[];
-          if(row && Array.isArray(row)){
-            const hasAllCols = Object.keys(fieldMapping).every(col => row.includes(col as any));
-            if(hasAllCols){
-              headerIndex = i;
-              headers = row as string[];
-              break;
-            }
-          }
-        }
-        if(headerIndex === -1) throw new Error('Header row not found with expected columns');
-
-        const dataRows = rows.slice(headerIndex + 1) as any[];
-
-        const processedData = dataRows
-          .filter((r: any) => r && Array.isArray(r) && r.some((cell: any) => cell !== null && cell !== undefined && cell !== ''))
-          .map((row: any[]) => {
-            const mapped: Record<string, any> = {};
-            headers.forEach((h, idx) => {
-              if(h && typeof h === 'string' && (fieldMapping as any)[h]){
-                const key = (fieldMapping as any)[h];
-                const val = row[idx];
-                if(numericFields.includes(key)){
-                  mapped[key] = parseNumeric(val);
-                } else {
-                  mapped[key] = val ? val.toString().trim() : '';
-                }
-              }
-            });
-            return mapped;
-          });
-
-        if(processedData.length === 0) throw new Error('No valid data found');
-
-        setData(processedData);
-        setUploadStatus('success');
-        setIsLoading(false);
-      } catch(error) {
-        console.error('Excel parse error:', error);
-        setUploadStatus('error');
-        setIsLoading(false);
-      }
-    };
-    reader.readAsBinaryString(file);
-  }, []);
+  const categories = useMemo(() => breakdownScope3(data, categoryRules), [data, categoryRules]);
+  const categoryTotal = categories.categories.reduce((sum, c) => sum + c.totalValue, 0) + categories.unclassifiedValue;
+  const share = (value: number) => (categoryTotal ? `${((value / categoryTotal) * 100).toFixed(1)}%` : '0.0%');
 
   // Advanced analytics
   const analytics = useMemo(() => {
-    if(data.length === 0) return { bySubCategory: [], totals: { totalQuantity: 0, totalEFFuel: 0, totalValue: 0 }, byYear: [], byDept: [], efficiency: [], topContributors: [] };
+    const records = intensity.records;
+    if(records.length === 0) return { bySubCategory: [], totals: { totalQuantity: 0, totalEFFuel: 0, totalValue: 0 }, byYear: [], byDept: [], efficiency: [], topContributors: [] };
 
     const mapSub = new Map();
     const mapYear = new Map();
     const mapDept = new Map();
     const totals = { totalQuantity: 0, totalEFFuel: 0, totalValue: 0 };
 
-    data.forEach(d => {
+    records.forEach(d => {
       const cat = d.subCategory || 'Unknown';
       const year = d.financialYear || 'NA';
       const dept = d.department || 'NA';
@@ -171,20 +102,27 @@ const Scope3Analytics = () => {
       effuelPerQuantity: s.totalQuantity > 0 ? s.totalEFFuel / s.totalQuantity : 0,
     }));
 
+    // Ratios above stay as they are; the sums become intensities
+    const sums = ['totalQuantity', 'totalEFFuel', 'totalValue'];
+    const bySubCategory = intensity.divide(Array.from(mapSub.values()), s => s.subCategory, d => d.subCategory || 'Unknown', sums);
+    (Object.keys(totals) as (keyof typeof totals)[]).forEach(key => {
+      totals[key] = intensity.divideTotal(totals[key]);
+    });
+
     // Top Contributors
-    const topContributors = Array.from(mapSub.values())
+    const topContributors = [...bySubCategory]
       .sort((a,b) => b.totalValue - a.totalValue)
       .slice(0, 5);
 
     return { 
-      bySubCategory: Array.from(mapSub.values()), 
-      byYear: Array.from(mapYear.values()), 
-      byDept: Array.from(mapDept.values()), 
+      bySubCategory,
+      byYear: intensity.divide(Array.from(mapYear.values()), y => y.financialYear, d => d.financialYear || 'NA', sums),
+      byDept: intensity.divide(Array.from(mapDept.values()), g => g.department, d => d.department || 'NA', sums),
       totals, 
       efficiency,
       topContributors
     };
-  }, [data]);
+  }, [intensity]);
 
   return (
     <div className="p-6 space-y-6">
@@ -205,17 +143,53 @@ const Scope3Analytics = () => {
             </label>
 
             {isLoading && <p className="mt-4 flex items-center justify-center text-green-600"><Clock className="w-5 h-5 animate-spin mr-2" />Processing...</p>}
-            {uploadStatus === 'success' && <p className="mt-4 text-green-600">Successfully loaded {data.length} records</p>}
-            {uploadStatus === 'error' && <p className="mt-4 text-red-600">Error loading file. Check format & try again.</p>}
+            {uploadStatus === 'success' && <p className="mt-4 text-green-600">Successfully loaded {data.length} records{issues.length > 0 && ` (accepted with ${issues.length} warnings)`}</p>}
+            {uploadStatus === 'error' && <p className="mt-4 text-red-600">Error loading file: {errorMessage}</p>}
+            <UploadValidationReport
+              moduleName="Scope 3"
+              status={uploadStatus}
+              fileName={fileName}
+              issues={issues}
+              pendingCount={pendingCount}
+              onAccept={acceptUpload}
+              onReject={rejectUpload}
+              onMapColumns={openMappingWizard}
+              appliedProfileName={appliedProfile?.name}
+              unsavedProfileName={unsavedProfileName}
+            />
+            <ColumnMappingWizard
+              schema={SCOPE3_SCHEMA}
+              draft={mappingDraft}
+              onApply={applyColumnMapping}
+              onCancel={closeMappingWizard}
+            />
+            <UploadedDatasetsPanel
+              datasets={datasets}
+              storeStatus={storeStatus}
+              saveError={saveError}
+              uploaderName={uploaderName}
+              onUploaderNameChange={setUploaderName}
+              onDelete={deleteDataset}
+              onRefresh={reloadSavedRecords}
+            />
           </div>
         </CardContent>
       </Card>
 
       {/* Analytics */}
+      {data.length > 0 && (
+        <div className="flex justify-end">
+          <IntensityToggle {...intensity} />
+        </div>
+      )}
       {data.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-5 h-auto">
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="category">GHG Category</TabsTrigger>
+            <TabsTrigger value="stream">Upstream / Downstream</TabsTrigger>
+            <TabsTrigger value="quality">Data Quality</TabsTrigger>
+            <TabsTrigger value="mapping">Category Mapping</TabsTrigger>
             <TabsTrigger value="subcategory">Sub Category</TabsTrigger>
             <TabsTrigger value="yearly">Yearly Trends</TabsTrigger>
             <TabsTrigger value="department">Department</TabsTrigger>
@@ -233,21 +207,154 @@ const Scope3Analytics = () => {
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
                     <p className="text-2xl font-bold text-blue-600">{analytics.totals.totalQuantity.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Quantity</p>
+                    <p className="text-sm text-gray-600">Total Quantity{intensity.per}</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <p className="text-2xl font-bold text-green-600">{analytics.totals.totalEFFuel.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total EFFuel</p>
+                    <p className="text-sm text-gray-600">Total EFFuel{intensity.per}</p>
                   </div>
                   <div className="text-center p-4 bg-yellow-50 rounded-lg">
                     <p className="text-2xl font-bold text-yellow-600">{analytics.totals.totalValue.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Value</p>
+                    <p className="text-sm text-gray-600">Total Value{intensity.per}</p>
                   </div>
                 </div>
               </CardContent>
             </Card>
           </TabsContent>
 
+          {/* GHG Protocol categories 1–15 */}
+          <TabsContent value="category">
+            <Card>
+              <CardHeader>
+                <CardTitle>By GHG Protocol Category</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={350}>
+                  <BarChart data={categories.categories.filter(c => c.records > 0)}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="id" tickFormatter={(id) => `Cat ${id}`} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(id) => categories.categories.find(c => c.id === id)?.name ?? id} />
+                    <Legend />
+                    <Bar dataKey="totalValue" fill="#10B981" name="Total Value" />
+                  </BarChart>
+                </ResponsiveContainer>
+                <div className="mt-6 overflow-x-auto">
+                  <table className="w-full border border-gray-200 text-sm">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="p-2 border border-gray-200 text-left">Category</th>
+                        <th className="p-2 border border-gray-200 text-left">Stream</th>
+                        <th className="p-2 border border-gray-200 text-right">Records</th>
+                        <th className="p-2 border border-gray-200 text-right">Total Value</th>
+                        <th className="p-2 border border-gray-200 text-right">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {categories.categories.map((c) => (
+                        <tr key={c.id} className={c.records ? 'hover:bg-gray-50' : 'text-gray-400'}>
+                          <td className="p-2 border border-gray-200">{c.id}. {c.name}</td>
+                          <td className="p-2 border border-gray-200 capitalize">{c.stream}</td>
+                          <td className="p-2 border border-gray-200 text-right">{c.records || 'Not reported'}</td>
+                          <td className="p-2 border border-gray-200 text-right">{c.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                          <td className="p-2 border border-gray-200 text-right">{share(c.totalValue)}</td>
+                        </tr>
+                      ))}
+                      {categories.unclassified.length > 0 && (
+                        <tr className="text-red-600">
+                          <td className="p-2 border border-gray-200" colSpan={2}>Unclassified – see Category Mapping</td>
+                          <td className="p-2 border border-gray-200 text-right">{categories.unclassified.reduce((sum, u) => sum + u.records, 0)}</td>
+                          <td className="p-2 border border-gray-200 text-right">{categories.unclassifiedValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                          <td className="p-2 border border-gray-200 text-right">{share(categories.unclassifiedValue)}</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Upstream (categories 1–8) vs downstream (9–15) */}
+          <TabsContent value="stream">
+            <Card>
+              <CardHeader>
+                <CardTitle>Upstream vs Downstream</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  {categories.byStream.map((s) => (
+                    <div key={s.stream} className={`text-center p-4 rounded-lg ${s.stream === 'upstream' ? 'bg-blue-50' : 'bg-purple-50'}`}>
+                      <p className={`text-2xl font-bold ${s.stream === 'upstream' ? 'text-blue-600' : 'text-purple-600'}`}>
+                        {s.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </p>
+                      <p className="text-sm text-gray-600 capitalize">{s.stream} (Cat {s.stream === 'upstream' ? '1–8' : '9–15'}) · {share(s.totalValue)}</p>
+                    </div>
+                  ))}
+                  <div className="text-center p-4 bg-gray-50 rounded-lg">
+                    <p className="text-2xl font-bold text-gray-600">{categories.unclassifiedValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</p>
+                    <p className="text-sm text-gray-600">Unclassified · {share(categories.unclassifiedValue)}</p>
+                  </div>
+                </div>
+                <ResponsiveContainer width="100%" height={300}>
+                  <RechartsPieChart>
+                    <Pie data={categories.byStream} dataKey="totalValue" nameKey="stream" cx="50%" cy="50%" outerRadius={110}>
+                      {categories.byStream.map((s) => (
+                        <Cell key={s.stream} fill={s.stream === 'upstream' ? '#3B82F6' : '#8B5CF6'} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                    <Legend />
+                  </RechartsPieChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Data-quality tiers from the calculation method */}
+          <TabsContent value="quality">
+            <Card>
+              <CardHeader>
+                <CardTitle>Data Quality Tiers</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  {categories.byMethod.map((m) => (
+                    <div key={m.method} className="text-center p-4 bg-gray-50 rounded-lg">
+                      <p className="text-2xl font-bold" style={{ color: METHOD_COLORS[m.method] }}>{share(m.totalValue)}</p>
+                      <p className="text-sm text-gray-600">Tier {m.tier} · {m.name} ({m.records} records)</p>
+                      <p className="text-xs text-gray-500 mt-1">{SCOPE3_METHODS.find((x) => x.id === m.method)?.description}</p>
+                    </div>
+                  ))}
+                </div>
+                <ResponsiveContainer width="100%" height={350}>
+                  <BarChart data={categories.categories.filter(c => c.records > 0).map(c => ({ id: c.id, name: c.name, ...c.byMethod }))}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="id" tickFormatter={(id) => `Cat ${id}`} />
+                    <YAxis />
+                    <Tooltip labelFormatter={(id) => categories.categories.find(c => c.id === id)?.name ?? id} />
+                    <Legend />
+                    {SCOPE3_METHODS.map((m) => (
+                      <Bar key={m.id} dataKey={m.id} stackId="method" fill={METHOD_COLORS[m.id]} name={m.name} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Editable category mapping */}
+          <TabsContent value="mapping">
+            <Card>
+              <CardHeader>
+                <CardTitle>Category Mapping</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Scope3CategoryRulesPanel rules={categoryRules} unclassified={categories.unclassified} onChange={updateCategoryRules} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* SubCategory Breakdown */}
           <TabsContent value="subcategory">
             <Card>
@@ -262,9 +369,9 @@ const Scope3Analytics = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill="#10B981" />
-                    <Bar dataKey="totalEFFuel" fill="#3B82F6" />
-                    <Bar dataKey="totalValue" fill="#EF4444" />
+                    <Bar dataKey="totalQuantity" fill="#10B981" name={`totalQuantity${intensity.per}`} />
+                    <Bar dataKey="totalEFFuel" fill="#3B82F6" name={`totalEFFuel${intensity.per}`} />
+                    <Bar dataKey="totalValue" fill="#EF4444" name={`totalValue${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -285,13 +392,16 @@ const Scope3Analytics = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Line type="monotone" dataKey="totalQuantity" stroke="#10B981" />
-                    <Line type="monotone" dataKey="totalEFFuel" stroke="#3B82F6" />
-                    <Line type="monotone" dataKey="totalValue" stroke="#EF4444" />
+                    <Line type="monotone" dataKey="totalQuantity" stroke="#10B981" name={`totalQuantity${intensity.per}`} />
+                    <Line type="monotone" dataKey="totalEFFuel" stroke="#3B82F6" name={`totalEFFuel${intensity.per}`} />
+                    <Line type="monotone" dataKey="totalValue" stroke="#EF4444" name={`totalValue${intensity.per}`} />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <TargetTracker moduleId="scope3" records={data} />
+            </div>
           </TabsContent>
 
           {/* Department Analytics */}
@@ -308,9 +418,9 @@ const Scope3Analytics = () => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill="#10B981" />
-                    <Bar dataKey="totalEFFuel" fill="#3B82F6" />
-                    <Bar dataKey="totalValue" fill="#EF4444" />
+                    <Bar dataKey="totalQuantity" fill="#10B981" name={`totalQuantity${intensity.per}`} />
+                    <Bar dataKey="totalEFFuel" fill="#3B82F6" name={`totalEFFuel${intensity.per}`} />
+                    <Bar dataKey="totalValue" fill="#EF4444" name={`totalValue${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -0,0 +1,146 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  resetScope3Rules,
+  SCOPE3_CATEGORIES,
+  SCOPE3_METHODS,
+  Scope3Breakdown,
+  Scope3CategoryRule,
+  Scope3Method,
+} from '@/lib/scope3Categories';
+
+interface Scope3CategoryRulesPanelProps {
+  rules: Scope3CategoryRule[];
+  unclassified: Scope3Breakdown['unclassified'];
+  onChange: (rules: Scope3CategoryRule[]) => void;
+}
+
+// Select items cannot be empty strings, so "detect from the row" has its own value
+const DETECT_METHOD = 'detect';
+
+// Ordered keyword rules that assign Scope 3 rows to GHG Protocol categories, plus the sub categories none of them match
+const Scope3CategoryRulesPanel: React.FC<Scope3CategoryRulesPanelProps> = ({ rules, unclassified, onChange }) => {
+  const update = (id: string, changes: Partial<Scope3CategoryRule>) =>
+    onChange(rules.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  // New rules go first so they take precedence over the generic defaults
+  const addRule = (pattern = '') =>
+    onChange([{ id: `rule-${Date.now()}`, pattern, category: 1, method: '' }, ...rules]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          A row's Sub Category is read first, then its Parameter, then its Attribute; in each, rules are checked top to bottom
+          and the first whose text appears sets the category. The method is detected from the row (spend in ₹, supplier or EPD factors, otherwise average-data) unless the
+          rule sets one. Rules are saved in this browser.
+        </p>
+        <div className="flex gap-2 shrink-0 ml-4">
+          <Button variant="outline" size="sm" onClick={() => onChange(resetScope3Rules())}>Reset to defaults</Button>
+          <Button size="sm" onClick={() => addRule()}><Plus className="w-4 h-4 mr-1" />Add rule</Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-20" />
+            <TableHead>Text contains</TableHead>
+            <TableHead>GHG Protocol category</TableHead>
+            <TableHead>Method</TableHead>
+            <TableHead className="w-10" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rules.map((r, index) => (
+            <TableRow key={r.id}>
+              <TableCell>
+                <div className="flex">
+                  <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" disabled={index === rules.length - 1} onClick={() => move(index, 1)} aria-label="Move down">
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                </div>
+              </TableCell>
+              <TableCell>
+                <Input className="h-8" value={r.pattern} onChange={e => update(r.id, { pattern: e.target.value })} />
+              </TableCell>
+              <TableCell>
+                <Select value={String(r.category)} onValueChange={value => update(r.id, { category: Number(value) })}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCOPE3_CATEGORIES.map(c => <SelectItem key={c.id} value={String(c.id)}>{c.id}. {c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={r.method || DETECT_METHOD}
+                  onValueChange={value => update(r.id, { method: value === DETECT_METHOD ? '' : (value as Scope3Method) })}
+                >
+                  <SelectTrigger className="h-8 w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DETECT_METHOD}>Detect from row</SelectItem>
+                    {SCOPE3_METHODS.map(m => <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                <Button variant="ghost" size="sm" onClick={() => onChange(rules.filter(x => x.id !== r.id))} aria-label="Delete rule">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {unclassified.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-2">Unclassified Sub Categories</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sub Category</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Total Value</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {unclassified.map(u => (
+                <TableRow key={u.subCategory}>
+                  <TableCell>{u.subCategory}</TableCell>
+                  <TableCell className="text-right">{u.records}</TableCell>
+                  <TableCell className="text-right">{u.totalValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}</TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => addRule(u.subCategory)}>Create rule</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Scope3CategoryRulesPanel;
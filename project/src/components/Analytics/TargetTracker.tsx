@@ -0,0 +1,321 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Target, Trash2 } from 'lucide-react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  effectiveTargetValue,
+  evaluateTarget,
+  inTargetScope,
+  loadTargets,
+  recordYear,
+  ReductionTarget,
+  saveTargets,
+  TARGET_STATUS_LABELS,
+  TARGET_TRAJECTORIES,
+  TargetDirection,
+  targetMetricsFor,
+  TargetScopeType,
+  TargetStatus,
+  TargetTrajectory,
+} from '@/lib/targets';
+import { fiscalYearStart } from '@/lib/fiscalCalendar';
+import { restateBaseline, restatedTarget, significanceThreshold } from '@/lib/baseYearRecalculation';
+import { REPORT_SOURCES } from '@/services/reportSources';
+import { getBaseYearPolicy, getStructuralChanges } from '@/services/apiService';
+import { BaseYearPolicy, StructuralChange } from '@/services/esgRecords';
+
+interface TargetTrackerProps {
+  // Module id as in ESGDashboard / REPORT_SOURCES
+  moduleId: string;
+  // The module's records, shaped like its report source loads them
+  records: unknown[];
+}
+
+const statusStyles: Record<TargetStatus, string> = {
+  'on-track': 'bg-green-100 text-green-700',
+  'off-track': 'bg-red-100 text-red-700',
+  'no-data': 'bg-gray-100 text-gray-600',
+};
+
+const SCOPE_TYPES: { id: TargetScopeType; name: string }[] = [
+  { id: 'company', name: 'Company' },
+  { id: 'businessCode', name: 'Business code' },
+  { id: 'plant', name: 'Plant' },
+];
+
+type TargetForm = Omit<ReductionTarget, 'id' | 'baselineValue' | 'targetValue'> & { baselineValue: string; targetValue: string };
+
+const format = (value: number | null) => (value === null ? '—' : value.toLocaleString(undefined, { maximumFractionDigits: 2 }));
+
+// Reduction targets for one module: the yearly actuals with each target's trajectory overlaid, and on/off-track status
+const TargetTracker: React.FC<TargetTrackerProps> = ({ moduleId, records }) => {
+  const source = REPORT_SOURCES.find(s => s.id === moduleId);
+  const metrics = useMemo(() => (source ? targetMetricsFor(source) : []), [source]);
+  const [targets, setTargets] = useState<ReductionTarget[]>(loadTargets);
+  const [form, setForm] = useState<TargetForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [changes, setChanges] = useState<StructuralChange[]>([]);
+  const [policy, setPolicy] = useState<BaseYearPolicy | null>(null);
+
+  // Without the register, targets are tracked against their baselines as entered
+  useEffect(() => {
+    getStructuralChanges().then(setChanges).catch(() => setChanges([]));
+    getBaseYearPolicy().then(setPolicy).catch(() => setPolicy(null));
+  }, []);
+
+  // Each target is evaluated against its baseline restated for structural changes
+  const progress = useMemo(() => {
+    if (!source) return [];
+    return targets
+      .filter(t => t.moduleId === moduleId)
+      .map(t => {
+        const restatement = restateBaseline(t, source, records, changes, significanceThreshold(policy));
+        return { ...evaluateTarget(restatedTarget(t, restatement), source, records), restatement };
+      });
+  }, [targets, source, moduleId, records, changes, policy]);
+
+  const years = useMemo(() => Array.from(new Set(records.map(recordYear).filter(Boolean))).sort(), [records]);
+  const scopeOptions = useMemo(() => {
+    const values = (keys: string[]) =>
+      Array.from(new Set(records.map(r => {
+        const row = r as Record<string, unknown>;
+        const key = keys.find(k => row[k]);
+        return key ? String(row[key]).trim() : '';
+      }).filter(Boolean))).sort();
+    return { plant: values(['plant', 'dim2']), businessCode: values(['businessCode', 'dim1']) };
+  }, [records]);
+
+  if (!source) return null;
+
+  const updateTargets = (next: ReductionTarget[]) => {
+    setTargets(next);
+    saveTargets(next);
+  };
+
+  const openForm = () => {
+    setFormError(null);
+    setForm({
+      name: '',
+      moduleId,
+      metric: metrics[0]?.id ?? '',
+      scope: { type: 'company', value: '' },
+      baselineYear: years[0] ?? '',
+      baselineValue: '',
+      targetYear: '',
+      targetValue: '',
+      trajectory: 'linear',
+      direction: 'decrease',
+    });
+  };
+
+  // Baseline from the module's own data for the chosen year and scope
+  const baselineFromData = () => {
+    if (!form) return;
+    const draft = { ...form, id: 'draft', baselineValue: 0, targetValue: 0 };
+    const metricDef = metrics.find(m => m.id === form.metric);
+    const rows = records.filter(r => recordYear(r) === form.baselineYear && inTargetScope(draft, r));
+    const value = metricDef && rows.length ? metricDef.annual(rows, form.baselineYear) : null;
+    if (value === null) setFormError(`No ${source.name} data for ${form.baselineYear || 'that year'} in this scope under the current filters.`);
+    else setForm({ ...form, baselineValue: String(Number(value.toFixed(4))) });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const baselineValue = Number(form.baselineValue);
+    const targetValue = form.trajectory === 'sbti-1.5' ? 0 : Number(form.targetValue);
+    if (!form.name.trim() || !form.metric) return setFormError('Name and metric are required.');
+    if (form.scope.type !== 'company' && !form.scope.value.trim()) return setFormError('Choose the business code or plant the target covers.');
+    const baseStart = fiscalYearStart(form.baselineYear);
+    const targetStart = fiscalYearStart(form.targetYear);
+    if (baseStart === null || targetStart === null || targetStart < baseStart) {
+      return setFormError('Baseline and target years must be financial years (e.g. 2022-23), target on or after baseline.');
+    }
+    if (form.baselineValue === '' || !Number.isFinite(baselineValue)) return setFormError('Baseline value must be a number.');
+    if (form.trajectory === 'linear' && (form.targetValue === '' || !Number.isFinite(targetValue))) {
+      return setFormError('Target value must be a number.');
+    }
+    if (form.trajectory === 'sbti-1.5' && form.direction === 'increase') {
+      return setFormError('The SBTi pathway is a reduction; use a linear trajectory for metrics that should increase.');
+    }
+    updateTargets([...targets, { ...form, id: `target-${Date.now()}`, baselineValue, targetValue }]);
+    setForm(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <Target className="w-6 h-6 mr-2 text-indigo-600" />
+            Targets
+          </div>
+          <Button size="sm" onClick={openForm}><Plus className="w-4 h-4 mr-1" />Add target</Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {progress.length === 0 && (
+          <p className="text-sm text-gray-500">No targets set for {source.name}. Add one to track progress against a baseline.</p>
+        )}
+        {progress.map(({ target, metric, points, status, latest, restatement }) => (
+          <div key={target.id} className="space-y-3">
+            <div className="flex items-start justify-between">
+              <div>
+                <p className="font-medium">
+                  {target.name}
+                  <span className={`ml-2 px-2 py-1 rounded text-xs font-medium ${statusStyles[status]}`}>{TARGET_STATUS_LABELS[status]}</span>
+                </p>
+                <p className="text-sm text-gray-600">
+                  {metric?.label ?? `${target.metric} (metric no longer available)`} ·{' '}
+                  {target.scope.type === 'company' ? 'Company' : `${target.scope.type === 'plant' ? 'Plant' : 'Business code'} ${target.scope.value}`} ·{' '}
+                  {format(target.baselineValue)} in {target.baselineYear} → {format(effectiveTargetValue(target))} by {target.targetYear} ·{' '}
+                  {TARGET_TRAJECTORIES.find(t => t.id === target.trajectory)?.name}
+                </p>
+                {restatement.status !== 'unchanged' && (
+                  <p className={`text-sm ${restatement.status === 'restated' ? 'text-amber-700' : 'text-gray-500'}`}>
+                    {restatement.status === 'restated'
+                      ? `Baseline restated from ${format(restatement.original)} for ${restatement.adjustments.length} structural change(s)`
+                      : `Structural changes move the baseline by ${restatement.significance.toFixed(1)}%, below the ${restatement.threshold}% threshold; not restated`}
+                  </p>
+                )}
+                {latest && (
+                  <p className="text-sm text-gray-600">
+                    {latest.financialYear}: {format(latest.projected)} {metric?.unit}
+                    {latest.projected !== latest.actual && ` (pro-rated from ${latest.months} months)`} against a trajectory of {format(latest.target)}
+                  </p>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => window.confirm(`Delete the target "${target.name}"?`) && updateTargets(targets.filter(t => t.id !== target.id))}
+                aria-label="Delete target"
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+            <ResponsiveContainer width="100%" height={260}>
+              <ComposedChart data={points}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="financialYear" />
+                <YAxis />
+                <Tooltip formatter={(value: number) => format(value)} />
+                <Legend />
+                <Bar dataKey="actual" fill="#3B82F6" name={`Actual${metric?.unit ? ` (${metric.unit})` : ''}`} />
+                <Line type="linear" dataKey="target" stroke="#EF4444" strokeDasharray="6 3" name="Target trajectory" connectNulls />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={open => !open && setForm(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>New {source.name} Target</DialogTitle>
+            <DialogDescription>
+              Years are financial years. A linear target runs straight from the baseline to the target value; the SBTi 1.5°C
+              pathway cuts 4.2% of the baseline every year.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="target-name">Name</Label>
+                <Input id="target-name" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Metric</Label>
+                <Select value={form.metric} onValueChange={value => setForm({ ...form, metric: value })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {metrics.map(m => <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Direction</Label>
+                <Select value={form.direction} onValueChange={value => setForm({ ...form, direction: value as TargetDirection })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="decrease">Reduce</SelectItem>
+                    <SelectItem value="increase">Increase</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Scope</Label>
+                <Select
+                  value={form.scope.type}
+                  onValueChange={value => setForm({ ...form, scope: { type: value as TargetScopeType, value: '' } })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SCOPE_TYPES.map(s => <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="target-scope-value">{form.scope.type === 'plant' ? 'Plant' : 'Business code'}</Label>
+                <Input
+                  id="target-scope-value"
+                  list="target-scope-values"
+                  disabled={form.scope.type === 'company'}
+                  value={form.scope.value}
+                  onChange={e => setForm({ ...form, scope: { ...form.scope, value: e.target.value } })}
+                />
+                <datalist id="target-scope-values">
+                  {(form.scope.type === 'plant' ? scopeOptions.plant : scopeOptions.businessCode).map(v => <option key={v} value={v} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="target-baseline-year">Baseline year</Label>
+                <Input id="target-baseline-year" list="target-years" placeholder="2022-23" value={form.baselineYear} onChange={e => setForm({ ...form, baselineYear: e.target.value })} />
+                <datalist id="target-years">
+                  {years.map(y => <option key={y} value={y} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="target-baseline-value">Baseline value</Label>
+                <div className="flex gap-2">
+                  <Input id="target-baseline-value" type="number" step="any" value={form.baselineValue} onChange={e => setForm({ ...form, baselineValue: e.target.value })} />
+                  <Button variant="outline" size="sm" className="h-10" onClick={baselineFromData}>From data</Button>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Trajectory</Label>
+                <Select value={form.trajectory} onValueChange={value => setForm({ ...form, trajectory: value as TargetTrajectory })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TARGET_TRAJECTORIES.map(t => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="target-year">Target year</Label>
+                <Input id="target-year" placeholder="2029-30" value={form.targetYear} onChange={e => setForm({ ...form, targetYear: e.target.value })} />
+              </div>
+              {form.trajectory === 'linear' && (
+                <div className="space-y-1">
+                  <Label htmlFor="target-value">Target value</Label>
+                  <Input id="target-value" type="number" step="any" value={form.targetValue} onChange={e => setForm({ ...form, targetValue: e.target.value })} />
+                </div>
+              )}
+            </div>
+          )}
+          {formError && <p className="text-sm text-red-600">{formError}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave}>Save target</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TargetTracker;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, Columns, Download, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { downloadIssueReport, IngestionIssue } from '@/lib/excelIngestion';
+import { UploadStatus } from '@/hooks/use-excel-upload';
+
+interface UploadValidationReportProps {
+  moduleName: string;
+  status: UploadStatus;
+  fileName: string | null;
+  issues: IngestionIssue[];
+  pendingCount: number;
+  onAccept: () => void;
+  onReject: () => void;
+  // Present once a sheet has been read, so its columns can be re-mapped
+  onMapColumns?: () => void;
+  appliedProfileName?: string | null;
+  // A profile the mapping was to be saved as, but this browser could not store
+  unsavedProfileName?: string | null;
+}
+
+const MAX_VISIBLE_ISSUES = 200;
+
+const formatValue = (value: unknown) => (value == null || value === '' ? '—' : String(value));
+
+// Row-by-row problems found in an uploaded sheet, with accept/reject while the upload is pending
+const UploadValidationReport: React.FC<UploadValidationReportProps> = ({
+  moduleName, status, fileName, issues, pendingCount, onAccept, onReject, onMapColumns, appliedProfileName, unsavedProfileName,
+}) => {
+  const profileNotice = status !== 'idle' && (appliedProfileName || unsavedProfileName) && (
+    <>
+      {appliedProfileName && (
+        <p className="mt-2 text-sm text-blue-700 flex items-center gap-2">
+          <Columns className="w-4 h-4" />
+          Columns mapped with profile "{appliedProfileName}"
+          {onMapColumns && <button onClick={onMapColumns} className="underline hover:text-blue-800">Edit mapping</button>}
+        </p>
+      )}
+      {unsavedProfileName && (
+        <p className="mt-2 text-sm text-amber-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          Columns mapped for this upload, but profile "{unsavedProfileName}" was not saved: this browser's storage is unavailable or full
+        </p>
+      )}
+    </>
+  );
+
+  if (issues.length === 0 || (status !== 'review' && status !== 'error')) return profileNotice || null;
+
+  const affectedRows = new Set(issues.filter(i => i.row !== null).map(i => i.row)).size;
+  const reasons = new Map<string, number>();
+  issues.forEach(issue => {
+    const reason = issue.reason.replace(/ \(.*\)$/, '');
+    reasons.set(reason, (reasons.get(reason) || 0) + 1);
+  });
+
+  const handleDownload = () => {
+    const baseName = (fileName || moduleName).replace(/\.[^.]+$/, '');
+    downloadIssueReport(issues, `${baseName}_Upload_Errors.xlsx`);
+  };
+
+  return (
+    <>
+      {profileNotice}
+      <div className={`mt-4 rounded-lg border p-4 text-left ${status === 'error' ? 'border-red-200 bg-red-50' : 'border-amber-200 bg-amber-50'}`}>
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+          <div>
+            <h3 className={`flex items-center gap-2 font-semibold ${status === 'error' ? 'text-red-700' : 'text-amber-800'}`}>
+              <AlertTriangle className="w-5 h-5" />
+              {status === 'error' ? 'Upload rejected' : 'Upload needs review'}
+              {fileName && <span className="font-normal text-gray-600">— {fileName}</span>}
+            </h3>
+            <p className="text-sm text-gray-700 mt-1">
+              {status === 'error'
+                ? `${issues.length} problem(s) prevent this file from being imported.`
+                : `${issues.length} issue(s) across ${affectedRows} of ${pendingCount} rows. Flagged cells will be imported as empty or 0 if you accept.`}
+            </p>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {Array.from(reasons.entries()).map(([reason, count]) => (
+                <span key={reason} className="px-2 py-0.5 rounded-full bg-white border text-xs text-gray-700">
+                  {reason}: {count}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {onMapColumns && (
+              <Button variant="outline" size="sm" onClick={onMapColumns}>
+                <Columns className="w-4 h-4 mr-2" />
+                Map columns
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              Download errors
+            </Button>
+            {status === 'review' && (
+              <>
+                <Button variant="outline" size="sm" onClick={onReject}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+                <Button size="sm" onClick={onAccept}>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  Accept with warnings
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto rounded border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, idx) => (
+                <TableRow key={idx}>
+                  <TableCell>{issue.row ?? '—'}</TableCell>
+                  <TableCell>{issue.column ?? '—'}</TableCell>
+                  <TableCell className="max-w-[200px] truncate">{formatValue(issue.value)}</TableCell>
+                  <TableCell className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>{issue.reason}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {issues.length > MAX_VISIBLE_ISSUES && (
+          <p className="text-xs text-gray-500 mt-2">
+            Showing the first {MAX_VISIBLE_ISSUES} of {issues.length} issues. Download the error list for the full report.
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default UploadValidationReport;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { AlertTriangle, Database, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { StoreStatus } from '@/hooks/use-excel-upload';
+import { UploadedDataset } from '@/services/esgRecords';
+
+interface UploadedDatasetsPanelProps {
+  datasets: UploadedDataset[];
+  storeStatus: StoreStatus;
+  saveError: string | null;
+  uploaderName: string;
+  onUploaderNameChange: (name: string) => void;
+  onDelete: (id: string) => void;
+  onRefresh: () => void;
+}
+
+const MAX_VISIBLE_DATASETS = 10;
+
+// Uploader name plus the history of datasets saved to the upload store for a module
+const UploadedDatasetsPanel: React.FC<UploadedDatasetsPanelProps> = ({
+  datasets, storeStatus, saveError, uploaderName, onUploaderNameChange, onDelete, onRefresh,
+}) => {
+  const handleDelete = (dataset: UploadedDataset) => {
+    if (window.confirm(`Remove "${dataset.fileName}" uploaded by ${dataset.uploadedBy}? Its records will no longer be shown to anyone.`)) {
+      onDelete(dataset.id);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3 text-left">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="uploader-name">Uploaded by</Label>
+          <Input
+            id="uploader-name"
+            className="h-8 w-56"
+            placeholder="Your name"
+            value={uploaderName}
+            onChange={e => onUploaderNameChange(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Database className="w-4 h-4" />
+          {storeStatus === 'loading' && 'Loading saved uploads...'}
+          {storeStatus === 'ready' && `${datasets.length} saved upload(s)`}
+          {storeStatus === 'offline' && 'Upload store unavailable – uploads are kept in this browser tab only'}
+          <Button variant="ghost" size="sm" onClick={onRefresh} disabled={storeStatus === 'loading'}>
+            <RefreshCw className={`w-4 h-4 ${storeStatus === 'loading' ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {saveError && (
+        <p className="flex items-center gap-2 text-sm text-red-600">
+          <AlertTriangle className="w-4 h-4" />
+          Not saved to the server: {saveError}
+        </p>
+      )}
+
+      {datasets.length > 0 && (
+        <div className="rounded border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Uploaded by</TableHead>
+                <TableHead>Uploaded at</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {datasets.slice(0, MAX_VISIBLE_DATASETS).map(dataset => (
+                <TableRow key={dataset.id}>
+                  <TableCell className="font-medium">{dataset.fileName}</TableCell>
+                  <TableCell>{dataset.uploadedBy}</TableCell>
+                  <TableCell>{new Date(dataset.uploadedAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{dataset.recordCount.toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(dataset)} title="Remove dataset">
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {datasets.length > MAX_VISIBLE_DATASETS && (
+            <p className="px-4 py-2 text-xs text-gray-500">Showing the latest {MAX_VISIBLE_DATASETS} of {datasets.length} uploads.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadedDatasetsPanel;
@@ -17,13 +17,29 @@ import {
 } from 'recharts';
 import * as XLSX from 'xlsx';
 import { getWasteData, FilterOptions } from '../../services/apiService';
+import { WasteRecord } from '../../services/esgRecords';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { alignYearOverYear, fiscalMonthName, sortByFiscalMonth, sortByFiscalPeriod } from '@/lib/fiscalCalendar';
+import {
+  summarizeWasteHierarchy, WASTE_HAZARDS, WASTE_TIERS, wasteHierarchyBy, WasteHierarchyRow, wasteMonthKey, wastePlantKey, WasteTier
+} from '@/lib/wasteHierarchy';
+import YearOverYearChart from './YearOverYearChart';
+import TargetTracker from './TargetTracker';
+import WasteHierarchyBreakdown from './WasteHierarchyBreakdown';
+import IntensityToggle from './IntensityToggle';
+import DisplayUnitSelect from './DisplayUnitSelect';
+import { useIntensity } from '@/hooks/use-intensity';
+import { useDisplayUnit } from '@/hooks/use-display-unit';
 
 const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
-  const [wasteData, setWasteData] = useState<any[]>([]);
+  const [wasteData, setWasteData] = useState<WasteRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const displayUnit = useDisplayUnit('waste', wasteData);
+  const intensity = useIntensity(displayUnit.records);
+  const [hierarchyView, setHierarchyView] = useState<'plant' | 'month'>('plant');
 
   // Load data from API when component mounts or filters change
   useEffect(() => {
@@ -51,7 +67,8 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
   }, [filters]);
 
   const analytics = useMemo(() => {
-    if (wasteData.length === 0) {
+    const records = intensity.records;
+    if (records.length === 0) {
       return {
         totalQuantity: 0,
         totalValue: 0,
@@ -59,16 +76,20 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
         bySubCategory: [],
         byPlant: [],
         monthlyTrend: [],
-        overview: { totalQuantity: 0, totalValue: 0, avgQuantity: 0, avgValue: 0 }
+        yearOverYear: { rows: [], years: [] },
+        overview: { totalQuantity: 0, totalValue: 0, avgQuantity: 0, avgValue: 0 },
+        hierarchy: summarizeWasteHierarchy([]),
+        hierarchyByPlant: [],
+        hierarchyByMonth: []
       };
     }
 
-    const totalQuantity = wasteData.reduce((sum, item) => sum + (item.quantity || 0), 0);
-    const totalValue = wasteData.reduce((sum, item) => sum + (item.value || 0), 0);
+    const totalQuantity = records.reduce((sum, item) => sum + (item.quantity || 0), 0);
+    const totalValue = records.reduce((sum, item) => sum + (item.value || 0), 0);
 
     // Group by Parameter (waste types)
     const parameterMap = new Map();
-    wasteData.forEach(item => {
+    records.forEach(item => {
       const param = item.parameter || 'Unknown';
       if (!parameterMap.has(param)) {
         parameterMap.set(param, { parameter: param, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -81,7 +102,7 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
     // Group by SubCategory (disposal methods)
     const subCategoryMap = new Map();
-    wasteData.forEach(item => {
+    records.forEach(item => {
       const subCat = item.subCategory || 'Unknown';
       if (!subCategoryMap.has(subCat)) {
         subCategoryMap.set(subCat, { subCategory: subCat, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -94,7 +115,7 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
     // Group by Plant
     const plantMap = new Map();
-    wasteData.forEach(item => {
+    records.forEach(item => {
       const plant = item.plant || 'Unknown';
       if (!plantMap.has(plant)) {
         plantMap.set(plant, { plant: plant, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -105,10 +126,10 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
       group.count += 1;
     });
 
-    // Monthly trend
+    // Monthly trend, April → March
     const monthlyMap = new Map();
-    wasteData.forEach(item => {
-      const month = item.month || 'Unknown';
+    records.forEach(item => {
+      const month = item.month ? fiscalMonthName(item.month) : 'Unknown';
       if (!monthlyMap.has(month)) {
         monthlyMap.set(month, { month: month, totalQuantity: 0, totalValue: 0 });
       }
@@ -117,21 +138,54 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
       group.totalValue += item.value || 0;
     });
 
+    const sums: ('totalQuantity' | 'totalValue')[] = ['totalQuantity', 'totalValue'];
+
+    // Waste hierarchy; rates are shares, so only the quantities become intensities
+    const hierarchy = summarizeWasteHierarchy(records);
+    const divideTiers = (tiers: Record<WasteTier, number>) =>
+      Object.fromEntries(WASTE_TIERS.map(t => [t.id, intensity.divideTotal(tiers[t.id])])) as Record<WasteTier, number>;
+    const hierarchyFields: (keyof WasteHierarchyRow)[] = [...WASTE_TIERS.map(t => t.id), 'total', 'hazardous', 'nonHazardous'];
+
     return {
-      totalQuantity,
-      totalValue,
-      byParameter: Array.from(parameterMap.values()),
-      bySubCategory: Array.from(subCategoryMap.values()),
-      byPlant: Array.from(plantMap.values()),
-      monthlyTrend: Array.from(monthlyMap.values()),
+      totalQuantity: intensity.divideTotal(totalQuantity),
+      totalValue: intensity.divideTotal(totalValue),
+      byParameter: intensity.divide(Array.from(parameterMap.values()), group => group.parameter, item => item.parameter || 'Unknown', sums),
+      bySubCategory: intensity.divide(Array.from(subCategoryMap.values()), group => group.subCategory, item => item.subCategory || 'Unknown', sums),
+      byPlant: intensity.divide(Array.from(plantMap.values()), group => group.plant, item => item.plant || 'Unknown', sums),
+      monthlyTrend: sortByFiscalMonth(
+        intensity.divide(Array.from(monthlyMap.values()), group => group.month, item => (item.month ? fiscalMonthName(item.month) : 'Unknown'), sums),
+        m => m.month
+      ),
+      yearOverYear: intensity.divideYearOverYear(
+        alignYearOverYear(records, item => item.financialYear, item => item.month, item => item.quantity || 0),
+        item => item.financialYear,
+        item => item.month
+      ),
       overview: {
-        totalQuantity,
-        totalValue,
-        avgQuantity: wasteData.length > 0 ? totalQuantity / wasteData.length : 0,
-        avgValue: wasteData.length > 0 ? totalValue / wasteData.length : 0
-      }
+        totalQuantity: intensity.divideTotal(totalQuantity),
+        totalValue: intensity.divideTotal(totalValue),
+        avgQuantity: records.length > 0 ? totalQuantity / records.length : 0,
+        avgValue: records.length > 0 ? totalValue / records.length : 0
+      },
+      hierarchy: {
+        ...hierarchy,
+        total: intensity.divideTotal(hierarchy.total),
+        byTier: divideTiers(hierarchy.byTier),
+        byHazard: { hazardous: divideTiers(hierarchy.byHazard.hazardous), nonHazardous: divideTiers(hierarchy.byHazard.nonHazardous) }
+      },
+      hierarchyByPlant: intensity.divide(wasteHierarchyBy(records, wastePlantKey), row => row.key, wastePlantKey, hierarchyFields),
+      // Grouped in fiscal order, financial year by financial year
+      hierarchyByMonth: intensity.divide(
+        wasteHierarchyBy(sortByFiscalPeriod(records, r => r.financialYear, r => r.month), wasteMonthKey),
+        row => row.key,
+        wasteMonthKey,
+        hierarchyFields
+      )
     };
-  }, [wasteData]);
+  }, [intensity]);
+
+  const hazardTotal = (tiers: Record<WasteTier, number>) => WASTE_TIERS.reduce((sum, t) => sum + tiers[t.id], 0);
+  const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(1)}%`);
 
   const colors = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6'];
 
@@ -142,6 +196,9 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.bySubCategory), 'By SubCategory');
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byPlant), 'By Plant');
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.monthlyTrend), 'Monthly Trend');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.yearOverYear.rows), 'Year over Year');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.hierarchyByPlant), 'Hierarchy by Plant');
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.hierarchyByMonth), 'Hierarchy by Month');
     XLSX.writeFile(wb, 'Waste_Analytics_Report.xlsx');
   };
 
@@ -152,12 +209,16 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
           <Trash2 className="w-8 h-8 mr-3 text-red-600" />
           Waste Management Analytics
         </h1>
-        <button
-          onClick={handleExport}
-          className="flex items-center gap-2 px-4 py-2 rounded bg-red-600 text-white font-medium hover:bg-red-700"
-        >
-          Export Report
-        </button>
+        <div className="flex items-center gap-3">
+          <DisplayUnitSelect {...displayUnit} />
+          <IntensityToggle {...intensity} />
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-red-600 text-white font-medium hover:bg-red-700"
+          >
+            Export Report
+          </button>
+        </div>
       </div>
 
       {/* Database Connection Status */}
@@ -214,12 +275,13 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
       {wasteData.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="parameter">Waste Types</TabsTrigger>
             <TabsTrigger value="subcategory">Disposal Methods</TabsTrigger>
             <TabsTrigger value="plant">Plant</TabsTrigger>
             <TabsTrigger value="monthly">Monthly</TabsTrigger>
+            <TabsTrigger value="hierarchy">Waste Hierarchy</TabsTrigger>
           </TabsList>
 
           {/* Overview */}
@@ -234,13 +296,13 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <p className="text-2xl font-bold text-red-600">
                       {analytics.overview.totalQuantity.toFixed(2)}
                     </p>
-                    <p className="text-sm text-gray-600">Total Quantity (MT)</p>
+                    <p className="text-sm text-gray-600">Total Quantity ({displayUnit.label}{intensity.per})</p>
                   </div>
                   <div className="text-center p-4 bg-orange-50 rounded-lg">
                     <p className="text-2xl font-bold text-orange-600">
                       {analytics.overview.totalValue.toFixed(2)}
                     </p>
-                    <p className="text-sm text-gray-600">Total Value</p>
+                    <p className="text-sm text-gray-600">Total Value{intensity.per}</p>
                   </div>
                   <div className="text-center p-4 bg-yellow-50 rounded-lg">
                     <p className="text-2xl font-bold text-yellow-600">
@@ -273,8 +335,8 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill={colors[0]} name="Total Quantity (MT)" />
-                    <Bar dataKey="totalValue" fill={colors[1]} name="Total Value" />
+                    <Bar dataKey="totalQuantity" fill={colors[0]} name={`Total Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Bar dataKey="totalValue" fill={colors[1]} name={`Total Value${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -295,8 +357,8 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill={colors[2]} name="Total Quantity (MT)" />
-                    <Bar dataKey="totalValue" fill={colors[3]} name="Total Value" />
+                    <Bar dataKey="totalQuantity" fill={colors[2]} name={`Total Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Bar dataKey="totalValue" fill={colors[3]} name={`Total Value${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -351,13 +413,94 @@ const WasteAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                       type="monotone"
                       dataKey="totalQuantity"
                       stroke={colors[0]}
-                      name="Quantity (MT)"
+                      name={`Quantity (${displayUnit.label}${intensity.per})`}
                     />
-                    <Line type="monotone" dataKey="totalValue" stroke={colors[1]} name="Value" />
+                    <Line type="monotone" dataKey="totalValue" stroke={colors[1]} name={`Value${intensity.per}`} />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <YearOverYearChart title="Waste Generation – Year over Year (Fiscal Months)" series={analytics.yearOverYear} unit={`${displayUnit.label}${intensity.per}`} />
+            </div>
+            <div className="mt-6">
+              <TargetTracker moduleId="waste" records={wasteData} />
+            </div>
+          </TabsContent>
+
+          {/* Waste hierarchy, diversion rate and hazardous split (BRSR Core Attribute 4) */}
+          <TabsContent value="hierarchy" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Waste Hierarchy</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <div className="text-center p-4 bg-green-50 rounded-lg">
+                    <p className="text-2xl font-bold text-green-600">{formatRate(analytics.hierarchy.diversionRate)}</p>
+                    <p className="text-sm text-gray-600">Diverted from landfill</p>
+                  </div>
+                  <div className="text-center p-4 bg-blue-50 rounded-lg">
+                    <p className="text-2xl font-bold text-blue-600">{formatRate(analytics.hierarchy.recoveryRate)}</p>
+                    <p className="text-sm text-gray-600">Recovered (reuse, recycling, other recovery)</p>
+                  </div>
+                  {WASTE_HAZARDS.map(h => (
+                    <div key={h.id} className={`text-center p-4 rounded-lg ${h.id === 'hazardous' ? 'bg-red-50' : 'bg-slate-50'}`}>
+                      <p className={`text-2xl font-bold ${h.id === 'hazardous' ? 'text-red-600' : 'text-slate-600'}`}>
+                        {hazardTotal(analytics.hierarchy.byHazard[h.id]).toFixed(2)}
+                      </p>
+                      <p className="text-sm text-gray-600">{h.label} ({displayUnit.label}{intensity.per})</p>
+                    </div>
+                  ))}
+                </div>
+                {analytics.hierarchy.byTier.unclassified !== 0 && (
+                  <p className="text-sm text-gray-500">
+                    {analytics.hierarchy.byTier.unclassified.toFixed(2)} {displayUnit.label}{intensity.per} has a disposal method that could not be
+                    placed on the hierarchy and counts as not diverted; name the route (reuse, recycling, co-processing, incineration,
+                    landfill) in the disposal method.
+                  </p>
+                )}
+                <ResponsiveContainer width="100%" height={350}>
+                  <BarChart
+                    data={WASTE_TIERS.map(t => ({
+                      tier: t.label,
+                      hazardous: analytics.hierarchy.byHazard.hazardous[t.id],
+                      nonHazardous: analytics.hierarchy.byHazard.nonHazardous[t.id]
+                    }))}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="tier" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="hazardous" stackId="hazard" fill="#DC2626" name={`Hazardous (${displayUnit.label}${intensity.per})`} />
+                    <Bar dataKey="nonHazardous" stackId="hazard" fill="#64748B" name={`Non-hazardous (${displayUnit.label}${intensity.per})`} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  Hierarchy by {hierarchyView === 'plant' ? 'Plant' : 'Fiscal Month'}
+                  <Select value={hierarchyView} onValueChange={value => setHierarchyView(value as 'plant' | 'month')}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="plant">Per plant</SelectItem>
+                      <SelectItem value="month">Per fiscal month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WasteHierarchyBreakdown
+                  rows={hierarchyView === 'plant' ? analytics.hierarchyByPlant : analytics.hierarchyByMonth}
+                  unit={`${displayUnit.label}${intensity.per}`}
+                />
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       )}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { WASTE_TIERS, WasteHierarchyRow } from '@/lib/wasteHierarchy';
+
+interface WasteHierarchyBreakdownProps {
+  rows: WasteHierarchyRow[];
+  unit: string;
+}
+
+// Hierarchy tiers stacked per plant or month, with the diversion rate, and the hazardous split
+const WasteHierarchyBreakdown: React.FC<WasteHierarchyBreakdownProps> = ({ rows, unit }) => (
+  <div className="space-y-6">
+    <div>
+      <h3 className="font-semibold mb-2">Waste Hierarchy and Diversion from Landfill</h3>
+      <ResponsiveContainer width="100%" height={380}>
+        <ComposedChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="key" />
+          <YAxis yAxisId="left" />
+          <YAxis yAxisId="right" orientation="right" domain={[0, 100]} unit="%" />
+          <Tooltip formatter={(value: number, name: string) =>
+            name === 'Diversion rate' ? `${value.toFixed(1)}%` : `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`} />
+          <Legend />
+          {WASTE_TIERS.filter(t => rows.some(r => r[t.id] !== 0)).map(t => (
+            <Bar key={t.id} yAxisId="left" dataKey={t.id} stackId="tier" fill={t.color} name={t.label} />
+          ))}
+          <Line yAxisId="right" type="monotone" dataKey="diversionRate" stroke="#0F172A" strokeWidth={2} name="Diversion rate" />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+    <div>
+      <h3 className="font-semibold mb-2">Hazardous vs Non-hazardous</h3>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="key" />
+          <YAxis />
+          <Tooltip formatter={(value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`} />
+          <Legend />
+          <Bar dataKey="hazardous" stackId="hazard" fill="#DC2626" name="Hazardous" />
+          <Bar dataKey="nonHazardous" stackId="hazard" fill="#64748B" name="Non-hazardous" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+export default WasteHierarchyBreakdown;
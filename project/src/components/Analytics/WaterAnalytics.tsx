@@ -1,15 +1,33 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
-import { Database, TrendingUp, Droplets, RefreshCw, Clock } from 'lucide-react';
+import { Database, TrendingUp, Droplets, RefreshCw, Clock, AlertTriangle } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart as RechartsPieChart, Pie, Cell } from 'recharts';
 import * as XLSX from 'xlsx';
 import { getWaterData, FilterOptions } from '../../services/apiService';
+import { WaterRecord } from '../../services/esgRecords';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { alignYearOverYear, fiscalMonthName, sortByFiscalMonth, sortByFiscalPeriod } from '@/lib/fiscalCalendar';
+import {
+  computeWaterBalance, isInStressedArea, loadWaterStressedPlants, saveWaterStressedPlants, scaleWaterBalance,
+  waterBalanceBy, waterMonthKey, waterPlantKey
+} from '@/lib/waterBalance';
+import YearOverYearChart from './YearOverYearChart';
+import TargetTracker from './TargetTracker';
+import WaterBalancePanel from './WaterBalancePanel';
+import IntensityToggle from './IntensityToggle';
+import DisplayUnitSelect from './DisplayUnitSelect';
+import { useIntensity } from '@/hooks/use-intensity';
+import { useDisplayUnit } from '@/hooks/use-display-unit';
 
 const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
-  const [waterData, setWaterData] = useState<any[]>([]);
+  const [waterData, setWaterData] = useState<WaterRecord[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadStatus, setLoadStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const displayUnit = useDisplayUnit('water', waterData);
+  const intensity = useIntensity(displayUnit.records);
+  const [stressedPlants, setStressedPlants] = useState<string[]>(loadWaterStressedPlants);
 
   // Load data from API when component mounts or filters change
   useEffect(() => {
@@ -36,8 +54,16 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
     loadDataFromAPI();
   }, [filters]);
 
+  // Tags take effect and are saved immediately
+  const toggleStressedPlant = (plant: string, stressed: boolean) => {
+    const next = stressed ? [...stressedPlants, plant] : stressedPlants.filter(p => p !== plant);
+    setStressedPlants(next);
+    saveWaterStressedPlants(next);
+  };
+
   const analytics = useMemo(() => {
-    if (waterData.length === 0) {
+    const records = intensity.records;
+    if (records.length === 0) {
       return {
         totalQuantity: 0,
         totalValue: 0,
@@ -45,16 +71,21 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
         bySubCategory: [],
         byPlant: [],
         monthlyTrend: [],
-        overview: { totalQuantity: 0, totalValue: 0, avgQuantity: 0, avgValue: 0 }
+        yearOverYear: { rows: [], years: [] },
+        overview: { totalQuantity: 0, totalValue: 0, avgQuantity: 0, avgValue: 0 },
+        balance: computeWaterBalance([]),
+        stressedBalance: computeWaterBalance([]),
+        balanceByPlant: [],
+        balanceByMonth: []
       };
     }
 
-    const totalQuantity = waterData.reduce((sum, item) => sum + (item.quantity || 0), 0);
-    const totalValue = waterData.reduce((sum, item) => sum + (item.value || 0), 0);
+    const totalQuantity = records.reduce((sum, item) => sum + (item.quantity || 0), 0);
+    const totalValue = records.reduce((sum, item) => sum + (item.value || 0), 0);
     
     // Group by Parameter
     const parameterMap = new Map();
-    waterData.forEach(item => {
+    records.forEach(item => {
       const param = item.parameter || 'Unknown';
       if (!parameterMap.has(param)) {
         parameterMap.set(param, { parameter: param, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -67,7 +98,7 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
     // Group by SubCategory
     const subCategoryMap = new Map();
-    waterData.forEach(item => {
+    records.forEach(item => {
       const subCat = item.subCategory || 'Unknown';
       if (!subCategoryMap.has(subCat)) {
         subCategoryMap.set(subCat, { subCategory: subCat, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -80,7 +111,7 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
     // Group by Plant
     const plantMap = new Map();
-    waterData.forEach(item => {
+    records.forEach(item => {
       const plant = item.plant || 'Unknown';
       if (!plantMap.has(plant)) {
         plantMap.set(plant, { plant: plant, totalQuantity: 0, totalValue: 0, count: 0 });
@@ -91,10 +122,10 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
       group.count += 1;
     });
 
-    // Monthly trend
+    // Monthly trend, April → March
     const monthlyMap = new Map();
-    waterData.forEach(item => {
-      const month = item.month || 'Unknown';
+    records.forEach(item => {
+      const month = item.month ? fiscalMonthName(item.month) : 'Unknown';
       if (!monthlyMap.has(month)) {
         monthlyMap.set(month, { month: month, totalQuantity: 0, totalValue: 0 });
       }
@@ -103,21 +134,49 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
       group.totalValue += item.value || 0;
     });
 
+    const sums: ('totalQuantity' | 'totalValue')[] = ['totalQuantity', 'totalValue'];
+    const flows: ('withdrawal' | 'discharge' | 'consumption' | 'recycled')[] = ['withdrawal', 'discharge', 'consumption', 'recycled'];
+
     return {
-      totalQuantity,
-      totalValue,
-      byParameter: Array.from(parameterMap.values()),
-      bySubCategory: Array.from(subCategoryMap.values()),
-      byPlant: Array.from(plantMap.values()),
-      monthlyTrend: Array.from(monthlyMap.values()),
+      totalQuantity: intensity.divideTotal(totalQuantity),
+      totalValue: intensity.divideTotal(totalValue),
+      byParameter: intensity.divide(Array.from(parameterMap.values()), group => group.parameter, item => item.parameter || 'Unknown', sums),
+      bySubCategory: intensity.divide(Array.from(subCategoryMap.values()), group => group.subCategory, item => item.subCategory || 'Unknown', sums),
+      byPlant: intensity.divide(Array.from(plantMap.values()), group => group.plant, item => item.plant || 'Unknown', sums),
+      monthlyTrend: sortByFiscalMonth(
+        intensity.divide(Array.from(monthlyMap.values()), group => group.month, item => (item.month ? fiscalMonthName(item.month) : 'Unknown'), sums),
+        m => m.month
+      ),
+      yearOverYear: intensity.divideYearOverYear(
+        alignYearOverYear(records, item => item.financialYear, item => item.month, item => item.quantity || 0),
+        item => item.financialYear,
+        item => item.month
+      ),
       overview: {
-        totalQuantity,
-        totalValue,
-        avgQuantity: waterData.length > 0 ? totalQuantity / waterData.length : 0,
-        avgValue: waterData.length > 0 ? totalValue / waterData.length : 0
-      }
+        totalQuantity: intensity.divideTotal(totalQuantity),
+        totalValue: intensity.divideTotal(totalValue),
+        avgQuantity: records.length > 0 ? totalQuantity / records.length : 0,
+        avgValue: records.length > 0 ? totalValue / records.length : 0
+      },
+      // Water balance (GRI 303-3/4/5), for all sites and for sites in water-stressed areas
+      balance: scaleWaterBalance(computeWaterBalance(records), intensity.divideTotal),
+      stressedBalance: scaleWaterBalance(
+        computeWaterBalance(records.filter(item => isInStressedArea(item, stressedPlants))),
+        intensity.divideTotal
+      ),
+      balanceByPlant: intensity.divide(waterBalanceBy(records, waterPlantKey), row => row.key, waterPlantKey, flows),
+      // Grouped in fiscal order, financial year by financial year
+      balanceByMonth: intensity.divide(
+        waterBalanceBy(sortByFiscalPeriod(records, r => r.financialYear, r => r.month), waterMonthKey),
+        row => row.key,
+        waterMonthKey,
+        flows
+      )
     };
-  }, [waterData]);
+  }, [intensity, stressedPlants]);
+
+  // Every plant in the data can be tagged, plus tagged plants outside the current filters
+  const taggablePlants = Array.from(new Set([...waterData.map(waterPlantKey), ...stressedPlants])).sort();
 
   const colors = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6'];
 
@@ -128,6 +187,15 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.bySubCategory), "By SubCategory");
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.byPlant), "By Plant");
     XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.monthlyTrend), "Monthly Trend");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.yearOverYear.rows), "Year over Year");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(analytics.balanceByPlant.map(row => ({
+      Plant: row.key,
+      'Water-stressed area': stressedPlants.includes(row.key) ? 'Yes' : 'No',
+      Withdrawal: row.withdrawal,
+      Discharge: row.discharge,
+      Consumption: row.consumption,
+      'Recycled / reused': row.recycled
+    }))), "Water Balance");
     XLSX.writeFile(wb, "Water_Analytics_Report.xlsx");
   };
 
@@ -138,12 +206,16 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
           <Droplets className="w-8 h-8 mr-3 text-blue-600" />
           Water Analytics
         </h1>
-        <button
-          onClick={handleExport}
-          className="flex items-center gap-2 px-4 py-2 rounded bg-blue-600 text-white font-medium hover:bg-blue-700"
-        >
-          Export Report
-        </button>
+        <div className="flex items-center gap-3">
+          <DisplayUnitSelect {...displayUnit} />
+          <IntensityToggle {...intensity} />
+          <button
+            onClick={handleExport}
+            className="flex items-center gap-2 px-4 py-2 rounded bg-blue-600 text-white font-medium hover:bg-blue-700"
+          >
+            Export Report
+          </button>
+        </div>
       </div>
 
       {/* Database Connection Status */}
@@ -185,12 +257,14 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
 
       {waterData.length > 0 && (
         <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="parameter">Parameter</TabsTrigger>
             <TabsTrigger value="subcategory">SubCategory</TabsTrigger>
             <TabsTrigger value="plant">Plant</TabsTrigger>
             <TabsTrigger value="monthly">Monthly</TabsTrigger>
+            <TabsTrigger value="balance">Water Balance</TabsTrigger>
+            <TabsTrigger value="stress">Water Stress</TabsTrigger>
           </TabsList>
 
           {/* Overview */}
@@ -203,11 +277,11 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                   <div className="text-center p-4 bg-blue-50 rounded-lg">
                     <p className="text-2xl font-bold text-blue-600">{analytics.overview.totalQuantity.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Quantity (KL)</p>
+                    <p className="text-sm text-gray-600">Total Quantity ({displayUnit.label}{intensity.per})</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <p className="text-2xl font-bold text-green-600">{analytics.overview.totalValue.toFixed(2)}</p>
-                    <p className="text-sm text-gray-600">Total Value</p>
+                    <p className="text-sm text-gray-600">Total Value{intensity.per}</p>
                   </div>
                   <div className="text-center p-4 bg-yellow-50 rounded-lg">
                     <p className="text-2xl font-bold text-yellow-600">{analytics.overview.avgQuantity.toFixed(2)}</p>
@@ -236,8 +310,8 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill={colors[0]} name="Total Quantity (KL)" />
-                    <Bar dataKey="totalValue" fill={colors[1]} name="Total Value" />
+                    <Bar dataKey="totalQuantity" fill={colors[0]} name={`Total Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Bar dataKey="totalValue" fill={colors[1]} name={`Total Value${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -258,8 +332,8 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Bar dataKey="totalQuantity" fill={colors[2]} name="Total Quantity (KL)" />
-                    <Bar dataKey="totalValue" fill={colors[3]} name="Total Value" />
+                    <Bar dataKey="totalQuantity" fill={colors[2]} name={`Total Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Bar dataKey="totalValue" fill={colors[3]} name={`Total Value${intensity.per}`} />
                   </BarChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -310,12 +384,118 @@ const WaterAnalytics = ({ filters }: { filters?: FilterOptions }) => {
                     <YAxis />
                     <Tooltip />
                     <Legend />
-                    <Line type="monotone" dataKey="totalQuantity" stroke={colors[0]} name="Quantity (KL)" />
-                    <Line type="monotone" dataKey="totalValue" stroke={colors[1]} name="Value" />
+                    <Line type="monotone" dataKey="totalQuantity" stroke={colors[0]} name={`Quantity (${displayUnit.label}${intensity.per})`} />
+                    <Line type="monotone" dataKey="totalValue" stroke={colors[1]} name={`Value${intensity.per}`} />
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+            <div className="mt-6">
+              <YearOverYearChart title="Water Usage – Year over Year (Fiscal Months)" series={analytics.yearOverYear} unit={`${displayUnit.label}${intensity.per}`} />
+            </div>
+            <div className="mt-6">
+              <TargetTracker moduleId="water" records={waterData} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="balance" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Water Balance</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WaterBalancePanel balance={analytics.balance} unit={`${displayUnit.label}${intensity.per}`} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Monthly Water Balance</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={350}>
+                  <LineChart data={analytics.balanceByMonth}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="key" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="withdrawal" stroke={colors[0]} name={`Withdrawal (${displayUnit.label}${intensity.per})`} />
+                    <Line type="monotone" dataKey="discharge" stroke={colors[2]} name={`Discharge (${displayUnit.label}${intensity.per})`} />
+                    <Line type="monotone" dataKey="consumption" stroke={colors[3]} name={`Consumption (${displayUnit.label}${intensity.per})`} />
+                    <Line type="monotone" dataKey="recycled" stroke={colors[1]} name={`Recycled / reused (${displayUnit.label}${intensity.per})`} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="stress" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <AlertTriangle className="w-5 h-5 mr-2 text-amber-600" />
+                  Plants in Water-Stressed Areas
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 mb-4">
+                  Tag the plants located in areas of high or extremely high baseline water stress (for example per the WRI Aqueduct
+                  tool or CGWB over-exploited blocks). Their withdrawal, discharge and consumption are reported separately below, as
+                  BRSR Principle 6 and GRI 303 require. Tags are saved in this browser.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-32">Water-stressed</TableHead>
+                      <TableHead>Plant</TableHead>
+                      <TableHead className="text-right">{`Withdrawal (${displayUnit.label}${intensity.per})`}</TableHead>
+                      <TableHead className="text-right">{`Discharge (${displayUnit.label}${intensity.per})`}</TableHead>
+                      <TableHead className="text-right">{`Consumption (${displayUnit.label}${intensity.per})`}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {taggablePlants.map(plant => {
+                      const row = analytics.balanceByPlant.find(b => b.key === plant);
+                      return (
+                        <TableRow key={plant}>
+                          <TableCell>
+                            <Checkbox
+                              checked={stressedPlants.includes(plant)}
+                              onCheckedChange={checked => toggleStressedPlant(plant, checked === true)}
+                              aria-label={`${plant} is in a water-stressed area`}
+                            />
+                          </TableCell>
+                          <TableCell className="font-medium">{plant}</TableCell>
+                          <TableCell className="text-right">{row ? row.withdrawal.toFixed(2) : '—'}</TableCell>
+                          <TableCell className="text-right">{row ? row.discharge.toFixed(2) : '—'}</TableCell>
+                          <TableCell className="text-right">{row ? row.consumption.toFixed(2) : '—'}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Water Balance in Water-Stressed Areas</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {stressedPlants.length === 0 ? (
+                  <p className="text-sm text-gray-500">Tag the plants in water-stressed areas above to report their water balance.</p>
+                ) : (
+                  <>
+                    {analytics.balance.withdrawal > 0 && (
+                      <p className="text-sm text-gray-600 mb-4">
+                        {((analytics.stressedBalance.withdrawal / analytics.balance.withdrawal) * 100).toFixed(1)}% of total
+                        withdrawal is from water-stressed areas.
+                      </p>
+                    )}
+                    <WaterBalancePanel balance={analytics.stressedBalance} unit={`${displayUnit.label}${intensity.per}`} />
+                  </>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       )}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DISCHARGE_DESTINATIONS, DischargeDestination, TREATMENT_LEVELS, WaterBalance, WITHDRAWAL_SOURCES } from '@/lib/waterBalance';
+
+interface WaterBalancePanelProps {
+  balance: WaterBalance;
+  unit: string;
+}
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Withdrawal by source, discharge by destination and treatment, and the consumption they leave
+const WaterBalancePanel: React.FC<WaterBalancePanelProps> = ({ balance, unit }) => {
+  const sources = WITHDRAWAL_SOURCES.map(s => ({ source: s.label, quantity: balance.bySource[s.id] }));
+  const destinations = DISCHARGE_DESTINATIONS.filter(d =>
+    TREATMENT_LEVELS.some(t => balance.byDestination[d.id][t.id] !== 0));
+  const destinationTotal = (id: DischargeDestination) =>
+    TREATMENT_LEVELS.reduce((sum, t) => sum + balance.byDestination[id][t.id], 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="text-center p-4 bg-blue-50 rounded-lg">
+          <p className="text-2xl font-bold text-blue-600">{format(balance.withdrawal)}</p>
+          <p className="text-sm text-gray-600">Withdrawal ({unit})</p>
+        </div>
+        <div className="text-center p-4 bg-amber-50 rounded-lg">
+          <p className="text-2xl font-bold text-amber-600">{format(balance.discharge)}</p>
+          <p className="text-sm text-gray-600">Discharge ({unit})</p>
+        </div>
+        <div className="text-center p-4 bg-red-50 rounded-lg">
+          <p className="text-2xl font-bold text-red-600">{format(balance.consumption)}</p>
+          <p className="text-sm text-gray-600">Consumption ({unit}) · withdrawal − discharge</p>
+        </div>
+        <div className="text-center p-4 bg-green-50 rounded-lg">
+          <p className="text-2xl font-bold text-green-600">{format(balance.recycled)}</p>
+          <p className="text-sm text-gray-600">
+            Recycled / reused ({unit})
+            {balance.withdrawal > 0 && ` · ${((balance.recycled / balance.withdrawal) * 100).toFixed(1)}% of withdrawal`}
+          </p>
+        </div>
+      </div>
+      {(balance.reportedConsumption !== 0 || balance.unclassified !== 0) && (
+        <p className="text-sm text-gray-500">
+          {balance.reportedConsumption !== 0 && `Rows recorded as consumption: ${format(balance.reportedConsumption)} ${unit}. `}
+          {balance.unclassified !== 0 &&
+            `${format(balance.unclassified)} ${unit} could not be placed in the balance; name the flow (withdrawal, discharge, recycled) or the source in Parameter, SubCategory or Type.`}
+        </p>
+      )}
+
+      <div>
+        <h3 className="font-semibold mb-2">Withdrawal by Source</h3>
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={sources}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="source" />
+            <YAxis />
+            <Tooltip formatter={(value: number) => `${format(value)} ${unit}`} />
+            <Bar dataKey="quantity" fill="#3B82F6" name={`Withdrawal (${unit})`} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Discharge by Destination and Treatment</h3>
+        {destinations.length === 0 ? (
+          <p className="text-sm text-gray-500">No discharge recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Destination</TableHead>
+                {TREATMENT_LEVELS.map(t => <TableHead key={t.id} className="text-right">{t.label}</TableHead>)}
+                <TableHead className="text-right">Total ({unit})</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {destinations.map(d => (
+                <TableRow key={d.id}>
+                  <TableCell className="font-medium">{d.label}</TableCell>
+                  {TREATMENT_LEVELS.map(t => (
+                    <TableCell key={t.id} className="text-right">{format(balance.byDestination[d.id][t.id])}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{format(destinationTotal(d.id))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WaterBalancePanel;
@@ -0,0 +1,49 @@
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { YearOverYearSeries } from '@/lib/fiscalCalendar';
+
+const YEAR_COLORS = ['#94A3B8', '#3B82F6', '#10B981', '#F59E0B', '#8B5CF6', '#EF4444'];
+
+interface YearOverYearChartProps {
+  title: string;
+  series: YearOverYearSeries;
+  unit: string;
+}
+
+// One line per financial year over April → March, so each month is compared with the same fiscal month
+const YearOverYearChart = ({ title, series, unit }: YearOverYearChartProps) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {series.years.length < 2 ? (
+        <p className="text-sm text-gray-500">
+          Year-over-year comparison needs data from at least two financial years for the selected filters.
+        </p>
+      ) : (
+        <ResponsiveContainer width="100%" height={350}>
+          <LineChart data={series.rows}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="month" />
+            <YAxis />
+            <Tooltip formatter={(value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`} />
+            <Legend />
+            {series.years.map((year, idx) => (
+              <Line
+                key={year}
+                type="monotone"
+                dataKey={year}
+                name={/^FY/i.test(year) ? year : `FY ${year}`}
+                stroke={YEAR_COLORS[Math.max(0, YEAR_COLORS.length - series.years.length + idx)]}
+                strokeWidth={idx === series.years.length - 1 ? 3 : 2}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export default YearOverYearChart;
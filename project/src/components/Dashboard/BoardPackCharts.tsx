@@ -0,0 +1,40 @@
+import { forwardRef } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { BoardPackModule } from '@/lib/boardPack';
+
+// Fixed size so the rasterised image has a known aspect ratio; no animation so the SVG is complete on first render
+const CHART_WIDTH = 760;
+const CHART_HEIGHT = 300;
+
+interface BoardPackChartsProps {
+  modules: BoardPackModule[];
+}
+
+// Off-screen Recharts rendering of every board-pack chart, captured by captureCharts()
+const BoardPackCharts = forwardRef<HTMLDivElement, BoardPackChartsProps>(({ modules }, ref) => (
+  <div ref={ref} aria-hidden className="fixed -left-[10000px] top-0 bg-white">
+    {modules.flatMap(module => module.charts).map(chart => (
+      <div key={chart.id} data-chart-id={chart.id}>
+        {chart.kind === 'bar' ? (
+          <BarChart width={CHART_WIDTH} height={CHART_HEIGHT} data={chart.data} margin={{ top: 10, right: 20, bottom: 10, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" interval={0} angle={-30} textAnchor="end" height={70} fontSize={11} />
+            <YAxis fontSize={11} />
+            <Bar dataKey="value" fill="#10B981" isAnimationActive={false} />
+          </BarChart>
+        ) : (
+          <LineChart width={CHART_WIDTH} height={CHART_HEIGHT} data={chart.data} margin={{ top: 10, right: 20, bottom: 10, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" fontSize={11} />
+            <YAxis fontSize={11} />
+            <Line type="monotone" dataKey="value" stroke="#3B82F6" strokeWidth={2} isAnimationActive={false} />
+          </LineChart>
+        )}
+      </div>
+    ))}
+  </div>
+));
+
+BoardPackCharts.displayName = 'BoardPackCharts';
+
+export default BoardPackCharts;
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { subscribeToValidationReports, ValidationReport } from '../../services/recordValidation';
+
+// Summarises which fields failed most often so schema drift is obvious at a glance
+const summariseFields = (report: ValidationReport) => {
+  const counts = new Map<string, number>();
+  report.malformedRows.forEach(row => {
+    new Set(row.issues.map(issue => issue.path)).forEach(path => {
+      counts.set(path, (counts.get(path) || 0) + 1);
+    });
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([path, count]) => `${path} (${count})`)
+    .join(', ');
+};
+
+const DataQualityBanner = () => {
+  const [reports, setReports] = useState<ValidationReport[]>([]);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => subscribeToValidationReports(setReports), []);
+
+  const failing = reports.filter(report => report.malformedRows.length > 0);
+  if (failing.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="rounded-none border-x-0 border-t-0 bg-red-50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle className="flex items-center justify-between">
+        <span>Some records were rejected because they did not match the expected schema</span>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-xs font-medium text-red-700 hover:text-red-800"
+        >
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          {expanded ? 'Hide details' : 'Show details'}
+        </button>
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="space-y-1">
+          {failing.map(report => (
+            <li key={report.endpoint}>
+              <b>{report.endpoint}</b>: {report.malformedRows.length} of {report.totalRows} rows dropped. Invalid fields: {summariseFields(report)}
+              {expanded && (
+                <ul className="ml-4 mt-1 list-disc text-xs">
+                  {report.malformedRows.slice(0, 5).map(row => (
+                    <li key={row.index}>
+                      Row {row.index + 1}: {row.issues.map(issue => `${issue.path} – ${issue.message}`).join('; ')}
+                    </li>
+                  ))}
+                  {report.malformedRows.length > 5 && <li>…and {report.malformedRows.length - 5} more</li>}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default DataQualityBanner;
@@ -1,7 +1,6 @@
 import { useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { 
   Droplets, 
@@ -14,7 +13,13 @@ import {
   Scale, 
   Eye, 
   Wind,
+  Cloud,
+  CloudFog,
   Building2,
+  FileText,
+  Layers,
+  Library,
+  History,
   Download,
   Menu,
   X
@@ -22,6 +27,8 @@ import {
 
 // Import all analytics modules
 import AttributeDetailsAnalytics from '../Analytics/AttributeDetailsAnalytics';
+import GHGAnalytics from '../Analytics/GHGAnalytics';
+import NonGHGAnalytics from '../Analytics/NonGHGAnalytics';
 import ElectricityDataAnalytics from '../Analytics/ElectricityDataAnalytics';
 import WaterAnalytics from '../Analytics/WaterAnalytics';
 import WasteAnalytics from '../Analytics/WasteAnalytics';
@@ -33,21 +40,33 @@ import DiversityAnalytics from '../Analytics/DiversityAnalytics';
 import InclusionAnalytics from '../Analytics/InclusionAnalytics';
 import FairnessAnalytics from '../Analytics/FairnessAnalytics';
 import OpennessAnalytics from '../Analytics/OpennessAnalytics';
+import BRSRCoreAnalytics from '../Analytics/BRSRCoreAnalytics';
+import FrameworkAnalytics from '../Analytics/FrameworkAnalytics';
+import EmissionFactorLibrary from '../Analytics/EmissionFactorLibrary';
+import BaseYearRecalculation from '../Analytics/BaseYearRecalculation';
+import DataQualityBanner from './DataQualityBanner';
+import FilterBar, { DashboardFilters } from './FilterBar';
+import ExportReportDialog from './ExportReportDialog';
 import PristineLogo from '../../../images/pristine-small-logo.png';
 
 const ESGDashboard = () => {
   const [activeModule, setActiveModule] = useState('attribute');
   const [sidebarOpen, setSidebarOpen] = useState(true);
-  const [filters, setFilters] = useState({
+  const [exportOpen, setExportOpen] = useState(false);
+  const [filters, setFilters] = useState<DashboardFilters>({
     year: 'All',
     month: 'All',
     businessCode: 'All',
     plant: 'All',
-    department: 'All'
+    department: 'All',
+    quarter: 'All',
+    half: 'All'
   });
 
   const modules = [
     { id: 'attribute', name: 'Attribute Details', icon: Building2, component: AttributeDetailsAnalytics },
+    { id: 'ghg', name: 'GHG Emissions', icon: Cloud, component: GHGAnalytics },
+    { id: 'nonghg', name: 'Non-GHG Emissions', icon: CloudFog, component: NonGHGAnalytics },
     { id: 'electricity', name: 'Electricity Data', icon: Zap, component: ElectricityDataAnalytics },
     { id: 'water', name: 'Water', icon: Droplets, component: WaterAnalytics },
     { id: 'waste', name: 'Waste', icon: Trash2, component: WasteAnalytics },
@@ -59,19 +78,14 @@ const ESGDashboard = () => {
     { id: 'inclusion', name: 'Inclusion', icon: Heart, component: InclusionAnalytics },
     { id: 'fairness', name: 'Fairness', icon: Scale, component: FairnessAnalytics },
     { id: 'openness', name: 'Openness', icon: Eye, component: OpennessAnalytics },
+    { id: 'brsr', name: 'BRSR Core', icon: FileText, component: BRSRCoreAnalytics },
+    { id: 'frameworks', name: 'Framework View', icon: Layers, component: FrameworkAnalytics },
+    { id: 'factors', name: 'Emission Factors', icon: Library, component: EmissionFactorLibrary },
+    { id: 'baseyear', name: 'Base-Year Recalculation', icon: History, component: BaseYearRecalculation },
   ];
 
   const currentModule = useMemo(() => modules.find(m => m.id === activeModule), [activeModule]);
 
-  const handleExport = () => {
-    // Export functionality would be implemented based on the active module
-    console.log(`Exporting ${currentModule?.name} data`);
-  };
-
-  const updateFilter = (key: string, value: string) => {
-    setFilters(prev => ({ ...prev, [key]: value }));
-  };
-
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
@@ -140,76 +154,9 @@ const ESGDashboard = () => {
             </div>
             
             <div className="flex items-center space-x-3">
-              <Select value={filters.year} onValueChange={(value) => updateFilter('year', value)}>
-                <SelectTrigger className="w-24">
-                  <SelectValue placeholder="Year" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="All">All</SelectItem>
-                  <SelectItem value="2024">2024</SelectItem>
-                  <SelectItem value="2023">2023</SelectItem>
-                  <SelectItem value="2022">2022</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select value={filters.month} onValueChange={(value) => updateFilter('month', value)}>
-                <SelectTrigger className="w-28">
-                  <SelectValue placeholder="Month" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="All">All</SelectItem>
-                  <SelectItem value="January">January</SelectItem>
-                  <SelectItem value="February">February</SelectItem>
-                  <SelectItem value="March">March</SelectItem>
-                  <SelectItem value="April">April</SelectItem>
-                  <SelectItem value="May">May</SelectItem>
-                  <SelectItem value="June">June</SelectItem>
-                  <SelectItem value="July">July</SelectItem>
-                  <SelectItem value="August">August</SelectItem>
-                  <SelectItem value="September">September</SelectItem>
-                  <SelectItem value="October">October</SelectItem>
-                  <SelectItem value="November">November</SelectItem>
-                  <SelectItem value="December">December</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select value={filters.businessCode} onValueChange={(value) => updateFilter('businessCode', value)}>
-                <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Business" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="All">All Codes</SelectItem>
-                  <SelectItem value="BC001">BC001</SelectItem>
-                  <SelectItem value="BC002">BC002</SelectItem>
-                  <SelectItem value="BC003">BC003</SelectItem>
-                </SelectContent>
-              </Select>
+              <FilterBar filters={filters} onFiltersChange={setFilters} />
 
-              <Select value={filters.plant} onValueChange={(value) => updateFilter('plant', value)}>
-                <SelectTrigger className="w-24">
-                  <SelectValue placeholder="Plant" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="All">All</SelectItem>
-                  <SelectItem value="Plant A">Plant A</SelectItem>
-                  <SelectItem value="Plant B">Plant B</SelectItem>
-                  <SelectItem value="Plant C">Plant C</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select value={filters.department} onValueChange={(value) => updateFilter('department', value)}>
-                <SelectTrigger className="w-32">
-                  <SelectValue placeholder="Department" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="All">All Depts</SelectItem>
-                  <SelectItem value="Manufacturing">Manufacturing</SelectItem>
-                  <SelectItem value="Operations">Operations</SelectItem>
-                  <SelectItem value="Quality">Quality</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Button onClick={handleExport} className="bg-green-600 hover:bg-green-700 transition-colors">
+              <Button onClick={() => setExportOpen(true)} className="bg-green-600 hover:bg-green-700 transition-colors">
                 <Download className="w-4 h-4 mr-2" />
                 Export Report
               </Button>
@@ -217,6 +164,10 @@ const ESGDashboard = () => {
           </div>
         </header>
 
+        <DataQualityBanner />
+
+        <ExportReportDialog open={exportOpen} filters={filters} onOpenChange={setExportOpen} />
+
         {/* Main Content Area */}
         <main className="flex-1 overflow-auto">
           {currentModule && <currentModule.component filters={filters} />}
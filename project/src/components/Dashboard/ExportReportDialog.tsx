@@ -0,0 +1,168 @@
+import { useRef, useState } from 'react';
+import { flushSync } from 'react-dom';
+import * as XLSX from 'xlsx';
+import { Clock, FileSpreadsheet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { buildReportWorkbook, describeFilters, ModuleReportData, reportFileName } from '@/lib/reportWorkbook';
+import { boardPackFileName, buildBoardPackPdf, BoardPackModule, captureCharts, summarizeModule } from '@/lib/boardPack';
+import BoardPackCharts from './BoardPackCharts';
+import { REPORT_SOURCES } from '../../services/reportSources';
+import { FilterOptions } from '../../services/apiService';
+
+interface ExportReportDialogProps {
+  open: boolean;
+  filters: FilterOptions;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ReportFormat = 'xlsx' | 'pdf';
+
+const ALL_MODULE_IDS = REPORT_SOURCES.map(s => s.id);
+
+const FORMAT_OPTIONS: { value: ReportFormat; label: string; description: string }[] = [
+  { value: 'xlsx', label: 'Excel workbook', description: 'Cover sheet, then a summary sheet and raw data for each module' },
+  { value: 'pdf', label: 'PDF board pack', description: 'Cover, filter summary, contents, then KPI cards and charts for each module' },
+];
+
+// Builds the consolidated Excel report or PDF board pack for the selected modules under the dashboard filters
+const ExportReportDialog = ({ open, filters, onOpenChange }: ExportReportDialogProps) => {
+  const [selected, setSelected] = useState<string[]>(ALL_MODULE_IDS);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [format, setFormat] = useState<ReportFormat>('xlsx');
+  const [boardPack, setBoardPack] = useState<BoardPackModule[]>([]);
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  const isExporting = progress !== null;
+
+  const toggleModule = (id: string, checked: boolean) =>
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(m => m !== id)));
+
+  const handleExport = async () => {
+    setError(null);
+    const sources = REPORT_SOURCES.filter(s => selected.includes(s.id));
+    const modules: ModuleReportData[] = [];
+
+    // One module at a time keeps the load on the API and database predictable
+    for (const [idx, source] of sources.entries()) {
+      setProgress(`Loading ${source.name} (${idx + 1} of ${sources.length})...`);
+      try {
+        modules.push({ source, records: await source.load(filters) });
+      } catch (err) {
+        console.error(`Export Report: unable to load ${source.name}:`, err);
+        modules.push({ source, records: [], error: err instanceof Error ? err.message : 'Unable to load data' });
+      }
+    }
+
+    const generatedAt = new Date();
+    try {
+      if (format === 'pdf') {
+        setProgress('Rendering charts...');
+        const summaries = modules.map(summarizeModule);
+        // Commit the off-screen charts now so their SVGs can be captured
+        flushSync(() => setBoardPack(summaries));
+        const images = chartsRef.current ? await captureCharts(chartsRef.current) : {};
+        setProgress('Building PDF...');
+        buildBoardPackPdf(summaries, images, filters, generatedAt).save(boardPackFileName(generatedAt));
+      } else {
+        setProgress('Building workbook...');
+        XLSX.writeFile(buildReportWorkbook(modules, filters, generatedAt), reportFileName(generatedAt));
+      }
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Export Report: unable to build report:', err);
+      setError(format === 'pdf' ? 'Unable to build the PDF board pack.' : 'Unable to build the report workbook.');
+    } finally {
+      setBoardPack([]);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={next => !isExporting && onOpenChange(next)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-green-600" />
+              Export Report
+            </DialogTitle>
+            <DialogDescription>
+              One report for the selected modules under the current dashboard filters.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <RadioGroup value={format} onValueChange={value => setFormat(value as ReportFormat)} disabled={isExporting}>
+              {FORMAT_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem id={`export-format-${option.value}`} value={option.value} className="mt-0.5" />
+                  <Label htmlFor={`export-format-${option.value}`} className="font-normal">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Applied Filters</h3>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                {describeFilters(filters).map(([label, value]) => (
+                  <div key={label} className="flex justify-between border-b border-gray-100 py-1">
+                    <span className="text-gray-500">{label}</span>
+                    <span className="font-medium">{value}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold">Modules ({selected.length} of {ALL_MODULE_IDS.length})</h3>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" disabled={isExporting} onClick={() => setSelected(ALL_MODULE_IDS)}>Select all</Button>
+                  <Button variant="ghost" size="sm" disabled={isExporting} onClick={() => setSelected([])}>Clear</Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {REPORT_SOURCES.map(source => (
+                  <div key={source.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-${source.id}`}
+                      checked={selected.includes(source.id)}
+                      disabled={isExporting}
+                      onCheckedChange={checked => toggleModule(source.id, checked === true)}
+                    />
+                    <Label htmlFor={`export-${source.id}`} className="font-normal">{source.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {progress && <p className="flex items-center text-sm text-blue-600"><Clock className="w-4 h-4 animate-spin mr-2" />{progress}</p>}
+            {error && <p className="text-sm text-red-600">❌ {error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" disabled={isExporting} onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || selected.length === 0}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {isExporting ? 'Exporting...' : format === 'pdf' ? 'Export PDF' : 'Export Workbook'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      {boardPack.length > 0 && <BoardPackCharts ref={chartsRef} modules={boardPack} />}
+    </>
+  );
+};
+
+export default ExportReportDialog;
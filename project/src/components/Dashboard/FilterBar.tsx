@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getFilterOptions, FilterOptions } from '../../services/apiService';
+import { AvailableFilters, FilterOptionCount } from '../../services/esgRecords';
+import { compareFiscalMonths, compareFiscalYears, FISCAL_HALVES, FISCAL_QUARTERS } from '@/lib/fiscalCalendar';
+
+export type DashboardFilters = Required<FilterOptions>;
+
+type FilterKey = keyof DashboardFilters;
+
+// Changing a filter clears the ones below it, since their values may no longer exist
+const DEPENDENT_FILTERS: Partial<Record<FilterKey, FilterKey[]>> = {
+  businessCode: ['plant', 'department'],
+  plant: ['department'],
+  quarter: ['half', 'month'],
+  half: ['quarter', 'month'],
+};
+
+// Fixed fiscal periods, shown alongside the data-driven lists
+const PERIOD_CONTROLS: { key: FilterKey; allLabel: string; width: string; periods: Record<string, string[]> }[] = [
+  { key: 'quarter', allLabel: 'All Quarters', width: 'w-32', periods: FISCAL_QUARTERS },
+  { key: 'half', allLabel: 'Full Year', width: 'w-28', periods: FISCAL_HALVES },
+];
+
+const periodLabel = (period: string, months: string[]) =>
+  `${period} (${months[0].slice(0, 3)}–${months[months.length - 1].slice(0, 3)})`;
+
+const FILTER_CONTROLS: { key: FilterKey; optionsKey: keyof AvailableFilters; allLabel: string; placeholder: string; width: string }[] = [
+  { key: 'year', optionsKey: 'years', allLabel: 'All Years', placeholder: 'Year', width: 'w-32' },
+  { key: 'month', optionsKey: 'months', allLabel: 'All Months', placeholder: 'Month', width: 'w-32' },
+  { key: 'businessCode', optionsKey: 'businessCodes', allLabel: 'All Codes', placeholder: 'Business', width: 'w-36' },
+  { key: 'plant', optionsKey: 'plants', allLabel: 'All Plants', placeholder: 'Plant', width: 'w-36' },
+  { key: 'department', optionsKey: 'departments', allLabel: 'All Depts', placeholder: 'Department', width: 'w-36' },
+];
+
+const EMPTY_OPTIONS: AvailableFilters = { years: [], months: [], businessCodes: [], plants: [], departments: [] };
+
+interface FilterBarProps {
+  filters: DashboardFilters;
+  onFiltersChange: (filters: DashboardFilters) => void;
+}
+
+// Header filter dropdowns populated from the values actually present in AttributeDetail
+const FilterBar = ({ filters, onFiltersChange }: FilterBarProps) => {
+  const [options, setOptions] = useState<AvailableFilters>(EMPTY_OPTIONS);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getFilterOptions(filters)
+      .then(result => {
+        if (cancelled) return;
+        setOptions({
+          ...result,
+          years: [...result.years].sort((a, b) => compareFiscalYears(a.value, b.value)),
+          months: [...result.months].sort((a, b) => compareFiscalMonths(a.value, b.value)),
+        });
+      })
+      .catch(error => console.error('Filter options API error:', error))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
+  const updateFilter = (key: FilterKey, value: string) => {
+    const next = { ...filters, [key]: value };
+    DEPENDENT_FILTERS[key]?.forEach(dependent => {
+      next[dependent] = 'All';
+    });
+    onFiltersChange(next);
+  };
+
+  // Keep the current selection listed even when the narrowed options no longer include it
+  const withSelected = (list: FilterOptionCount[], selected: string) =>
+    selected === 'All' || list.some(o => o.value === selected) ? list : [{ value: selected, count: 0 }, ...list];
+
+  const renderDataSelect = ({ key, optionsKey, allLabel, placeholder, width }: typeof FILTER_CONTROLS[number]) => (
+    <Select key={key} value={filters[key]} onValueChange={(value) => updateFilter(key, value)}>
+      <SelectTrigger className={width} disabled={isLoading && options[optionsKey].length === 0}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="All">{allLabel}</SelectItem>
+        {withSelected(options[optionsKey], filters[key]).map(option => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.value} <span className="text-gray-400">({option.count.toLocaleString()})</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderPeriodSelect = ({ key, allLabel, width, periods }: typeof PERIOD_CONTROLS[number]) => (
+    <Select key={key} value={filters[key]} onValueChange={(value) => updateFilter(key, value)}>
+      <SelectTrigger className={width}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="All">{allLabel}</SelectItem>
+        {Object.entries(periods).map(([period, months]) => (
+          <SelectItem key={period} value={period}>{periodLabel(period, months)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  // Year, then the fiscal periods within it, then month and location
+  return (
+    <>
+      {FILTER_CONTROLS.slice(0, 1).map(renderDataSelect)}
+      {PERIOD_CONTROLS.map(renderPeriodSelect)}
+      {FILTER_CONTROLS.slice(1).map(renderDataSelect)}
+    </>
+  );
+};
+
+export default FilterBar;
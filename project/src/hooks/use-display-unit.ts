@@ -0,0 +1,53 @@
+import * as React from 'react';
+import { NormalizedQuantity } from '@/services/esgRecords';
+import { convert, findUnit, loadDisplayUnits, MODULE_UNITS, restateRecords, saveDisplayUnit, UNITS, unitsOf } from '@/lib/units';
+
+/**
+ * Display unit for a module, saved per module in this browser. `records` has
+ * each row's measured field (Quantity, or Value for energy) restated in the
+ * display unit; rows whose unit is unknown or of another dimension cannot be
+ * restated and are left out, with their count in `refused`. `toDisplay` converts
+ * a figure already in the module's default unit. A module without a default
+ * unit (fossil fuel) shows rows as entered until a unit is picked, and offers
+ * the units of the dimensions its rows are measured in.
+ */
+export function useDisplayUnit<T extends NormalizedQuantity>(moduleId: string, allRecords: T[]) {
+  const config = MODULE_UNITS[moduleId];
+  const defaultUnit = findUnit(config.defaultUnit);
+  const [unit, setUnitState] = React.useState<string | null>(() => {
+    const saved = findUnit(loadDisplayUnits()[moduleId]);
+    return saved && (!defaultUnit || saved.dimension === defaultUnit.dimension) ? saved.id : defaultUnit?.id ?? null;
+  });
+
+  const setUnit = React.useCallback((next: string) => {
+    setUnitState(next);
+    saveDisplayUnit(moduleId, next);
+  }, [moduleId]);
+
+  const { records, refused } = React.useMemo(
+    () => (unit ? restateRecords(allRecords, config.field, unit) : { records: allRecords, refused: [] }),
+    [allRecords, config.field, unit]
+  );
+  const defaultId = defaultUnit?.id ?? null;
+  const toDisplay = React.useCallback(
+    (value: number) => (defaultId && unit ? convert(value, defaultId, unit) : value),
+    [defaultId, unit]
+  );
+  const dimension = defaultUnit?.dimension ?? null;
+  const dimensionsInData = React.useMemo(
+    () => new Set(allRecords.map(r => findUnit(r.normalizedUnit)?.dimension)),
+    [allRecords]
+  );
+
+  return React.useMemo(() => ({
+    unit,
+    setUnit,
+    label: unit ? findUnit(unit)?.label ?? unit : '',
+    options: dimension ? unitsOf(dimension) : UNITS.filter(u => dimensionsInData.has(u.dimension)),
+    records,
+    refused,
+    toDisplay,
+  }), [unit, setUnit, dimension, dimensionsInData, records, refused, toDisplay]);
+}
+
+export type DisplayUnitView = ReturnType<typeof useDisplayUnit>;
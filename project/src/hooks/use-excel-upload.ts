@@ -0,0 +1,257 @@
+import * as React from 'react';
+import {
+  ColumnMapping,
+  IngestionError,
+  IngestionIssue,
+  IngestionResult,
+  IngestionSchema,
+  ingestRows,
+  readSheetRows,
+  SheetRows,
+} from '@/lib/excelIngestion';
+import {
+  detectHeaderRow,
+  ingestWithProfiles,
+  loadMappingProfiles,
+  MappingProfile,
+  MappingSuggestion,
+  saveMappingProfile,
+  suggestMapping,
+} from '@/lib/columnMapping';
+import {
+  deleteUploadedDataset,
+  FilterOptions,
+  getUploadedDatasets,
+  getUploadedRecords,
+  saveUploadedDataset,
+} from '@/services/apiService';
+import { UploadedDataset } from '@/services/esgRecords';
+
+// 'review' holds a parsed file with issues until the user accepts or rejects it
+export type UploadStatus = 'idle' | 'review' | 'success' | 'error';
+
+export interface MappingDraft {
+  sheet: SheetRows;
+  headerIndex: number;
+  headers: string[];
+  suggestions: Record<string, MappingSuggestion | null>;
+}
+
+export type ProfileToSave = Pick<MappingProfile, 'name' | 'scope'>;
+
+// 'offline' means the upload store could not be reached; uploads still work locally
+export type StoreStatus = 'loading' | 'ready' | 'offline';
+
+const UPLOADER_STORAGE_KEY = 'esg.uploaderName';
+
+// The name is shared with the other registers that record who made a change
+export const readUploaderName = () => {
+  try {
+    return localStorage.getItem(UPLOADER_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+// Remembering the name is a convenience; a blocked or full storage must not fail the upload
+export const writeUploaderName = (name: string) => {
+  try {
+    localStorage.setItem(UPLOADER_STORAGE_KEY, name);
+  } catch (error) {
+    console.warn('Unable to save uploader name:', error);
+  }
+};
+
+/**
+ * Shared upload state for the Excel-driven analytics modules. Records are
+ * loaded from the upload store for the current filters; accepted uploads are
+ * saved there so every user sees them.
+ */
+export function useExcelUpload<T>(schema: IngestionSchema<T>, filters?: FilterOptions) {
+  const [records, setRecords] = React.useState<T[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [uploadStatus, setUploadStatus] = React.useState<UploadStatus>('idle');
+  const [issues, setIssues] = React.useState<IngestionIssue[]>([]);
+  const [errorMessage, setErrorMessage] = React.useState<string | null>(null);
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [pending, setPending] = React.useState<IngestionResult<T> | null>(null);
+  const [sheet, setSheet] = React.useState<SheetRows | null>(null);
+  const [appliedProfile, setAppliedProfile] = React.useState<MappingProfile | null>(null);
+  // Profile the user asked to save with a manual mapping that this browser could not store
+  const [unsavedProfileName, setUnsavedProfileName] = React.useState<string | null>(null);
+  const [mappingDraft, setMappingDraft] = React.useState<MappingDraft | null>(null);
+  const [datasets, setDatasets] = React.useState<UploadedDataset[]>([]);
+  const [storeStatus, setStoreStatus] = React.useState<StoreStatus>('loading');
+  const [saveError, setSaveError] = React.useState<string | null>(null);
+  const [uploaderName, setUploaderNameState] = React.useState(readUploaderName);
+
+  const setUploaderName = React.useCallback((name: string) => {
+    setUploaderNameState(name);
+    writeUploaderName(name);
+  }, []);
+
+  const loadSavedRecords = React.useCallback(async () => {
+    setStoreStatus('loading');
+    try {
+      const [saved, history] = await Promise.all([
+        getUploadedRecords(schema.id, schema.recordSchema, filters),
+        getUploadedDatasets(schema.id),
+      ]);
+      setRecords(saved);
+      setDatasets(history);
+      setStoreStatus('ready');
+    } catch (error) {
+      console.error(`${schema.name} upload store error:`, error);
+      setStoreStatus('offline');
+    }
+  }, [schema, filters]);
+
+  React.useEffect(() => {
+    loadSavedRecords();
+  }, [loadSavedRecords]);
+
+  // Shows the upload straight away, then stores it and reloads the merged view
+  const commitRecords = React.useCallback(async (result: IngestionResult<T>, sourceFile: string) => {
+    setRecords(result.records);
+    setUploadStatus('success');
+    setSaveError(null);
+    try {
+      await saveUploadedDataset(schema.id, {
+        fileName: sourceFile,
+        uploadedBy: uploaderName.trim() || 'Unknown',
+        records: result.records,
+      });
+      await loadSavedRecords();
+    } catch (error) {
+      console.error(`${schema.name} upload save error:`, error);
+      setSaveError(error instanceof Error ? error.message : 'Unable to save the upload');
+    }
+  }, [schema, uploaderName, loadSavedRecords]);
+
+  const deleteDataset = React.useCallback(async (id: string) => {
+    try {
+      await deleteUploadedDataset(schema.id, id);
+      await loadSavedRecords();
+    } catch (error) {
+      console.error(`${schema.name} dataset delete error:`, error);
+      setSaveError(error instanceof Error ? error.message : 'Unable to delete the dataset');
+    }
+  }, [schema, loadSavedRecords]);
+
+  const buildDraft = React.useCallback((source: SheetRows): MappingDraft => {
+    const { index, headers } = detectHeaderRow(source.rows, schema);
+    return { sheet: source, headerIndex: index, headers, suggestions: suggestMapping(schema, headers) };
+  }, [schema]);
+
+  const finishIngestion = React.useCallback((result: IngestionResult<T>, sourceFile: string) => {
+    setIssues(result.issues);
+    if (result.issues.length > 0) {
+      setPending(result);
+      setUploadStatus('review');
+    } else {
+      commitRecords(result, sourceFile);
+    }
+  }, [commitRecords]);
+
+  const failIngestion = React.useCallback((error: unknown) => {
+    console.error(`${schema.name} Excel processing error:`, error);
+    setIssues(error instanceof IngestionError ? error.issues : []);
+    setErrorMessage(error instanceof Error ? error.message : 'Unable to read the file');
+    setUploadStatus('error');
+  }, [schema]);
+
+  const handleFileUpload = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    event.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setUploadStatus('idle');
+    setErrorMessage(null);
+    setFileName(file.name);
+    setPending(null);
+    setAppliedProfile(null);
+    setUnsavedProfileName(null);
+    setMappingDraft(null);
+
+    let source: SheetRows | null = null;
+    try {
+      source = readSheetRows(await file.arrayBuffer());
+      setSheet(source);
+      const { result, profile } = ingestWithProfiles(source, schema, loadMappingProfiles(schema.id));
+      setAppliedProfile(profile);
+      finishIngestion(result, file.name);
+    } catch (error) {
+      failIngestion(error);
+      // Headers did not line up: let the user map them by hand
+      if (source && error instanceof IngestionError) setMappingDraft(buildDraft(source));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [schema, buildDraft, finishIngestion, failIngestion]);
+
+  const acceptUpload = React.useCallback(() => {
+    if (!pending) return;
+    setPending(null);
+    commitRecords(pending, fileName || `${schema.name}.xlsx`);
+  }, [pending, fileName, schema, commitRecords]);
+
+  // Keeps whatever was loaded before the rejected file
+  const rejectUpload = React.useCallback(() => {
+    setPending(null);
+    setIssues([]);
+    setFileName(null);
+    setSheet(null);
+    setAppliedProfile(null);
+    setUnsavedProfileName(null);
+    setUploadStatus('idle');
+  }, []);
+
+  const openMappingWizard = React.useCallback(() => {
+    if (sheet) setMappingDraft(buildDraft(sheet));
+  }, [sheet, buildDraft]);
+
+  const closeMappingWizard = React.useCallback(() => setMappingDraft(null), []);
+
+  const applyColumnMapping = React.useCallback((mapping: ColumnMapping, profileToSave?: ProfileToSave) => {
+    if (!sheet) return;
+    setMappingDraft(null);
+    setPending(null);
+    setErrorMessage(null);
+    const saved = profileToSave ? saveMappingProfile({ ...profileToSave, moduleId: schema.id, mapping }) : null;
+    setAppliedProfile(saved);
+    setUnsavedProfileName(profileToSave && !saved ? profileToSave.name : null);
+    try {
+      finishIngestion(ingestRows(sheet.rows, schema, sheet.sheetName, sheet.firstRowNumber, mapping), fileName || `${schema.name}.xlsx`);
+    } catch (error) {
+      failIngestion(error);
+    }
+  }, [sheet, schema, fileName, finishIngestion, failIngestion]);
+
+  return {
+    records,
+    isLoading,
+    uploadStatus,
+    issues,
+    errorMessage,
+    fileName,
+    pendingCount: pending?.records.length ?? 0,
+    appliedProfile,
+    unsavedProfileName,
+    mappingDraft,
+    handleFileUpload,
+    acceptUpload,
+    rejectUpload,
+    openMappingWizard: sheet ? openMappingWizard : undefined,
+    closeMappingWizard,
+    applyColumnMapping,
+    datasets,
+    storeStatus,
+    saveError,
+    uploaderName,
+    setUploaderName,
+    deleteDataset,
+    reloadSavedRecords: loadSavedRecords,
+  };
+}
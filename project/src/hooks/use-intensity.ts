@@ -0,0 +1,77 @@
+import * as React from 'react';
+import { denominatorLookup, denominatorOf, divideRows, divideYearOverYear, hasDenominator, IntensityBasis } from '@/lib/intensity';
+import { DenominatorEntry, INTENSITY_DENOMINATORS, loadDenominators, saveDenominators } from '@/lib/denominators';
+import { compareFiscalYears, YearOverYearSeries } from '@/lib/fiscalCalendar';
+import { recordBusinessCode, recordYear } from '@/lib/targets';
+
+/**
+ * Absolute / intensity view state for an environmental module. In intensity
+ * mode `records` keeps only the rows whose business code and financial year
+ * have the chosen denominator, so the numerators and denominators cover the
+ * same periods; `divide`, `divideYearOverYear` and `divideTotal` turn the
+ * module's aggregates into intensities.
+ */
+export function useIntensity<T>(allRecords: T[]) {
+  const [basis, setBasis] = React.useState<IntensityBasis>('absolute');
+  const [entries, setEntries] = React.useState<DenominatorEntry[]>(loadDenominators);
+
+  const lookup = React.useMemo(() => (basis === 'absolute' ? null : denominatorLookup(entries, basis)), [entries, basis]);
+  const records = React.useMemo(
+    () => (lookup ? allRecords.filter(r => hasDenominator(r, lookup)) : allRecords),
+    [allRecords, lookup]
+  );
+
+  // Business code / financial year pairs in the data, for entering their denominators
+  const periods = React.useMemo(() => {
+    const seen = new Map<string, { businessCode: string; financialYear: string }>();
+    allRecords.forEach(r => {
+      const businessCode = recordBusinessCode(r);
+      const financialYear = recordYear(r);
+      if (businessCode && financialYear) seen.set(`${businessCode}|${financialYear}`, { businessCode, financialYear });
+    });
+    return Array.from(seen.values()).sort((a, b) =>
+      a.businessCode.localeCompare(b.businessCode) || compareFiscalYears(a.financialYear, b.financialYear));
+  }, [allRecords]);
+
+  const divide = React.useCallback(
+    <R,>(rows: R[], rowKey: (row: R) => string, recordKey: (record: T) => string, fields: (keyof R)[]) =>
+      lookup ? divideRows(rows, records, rowKey, recordKey, fields, lookup) : rows,
+    [lookup, records]
+  );
+
+  const divideYearOverYearSeries = React.useCallback(
+    (series: YearOverYearSeries, getYear: (record: T) => string | null | undefined, getMonth: (record: T) => string | null | undefined) =>
+      lookup ? divideYearOverYear(series, records, getYear, getMonth, lookup) : series,
+    [lookup, records]
+  );
+
+  const denominator = React.useMemo(() => (lookup ? denominatorOf(records, lookup) : 1), [lookup, records]);
+  const divideTotal = React.useCallback((value: number) => (denominator ? value / denominator : 0), [denominator]);
+
+  const updateEntries = React.useCallback((next: DenominatorEntry[]) => {
+    setEntries(next);
+    saveDenominators(next);
+  }, []);
+
+  // Memoised so modules can depend on the whole view in their analytics
+  return React.useMemo(() => {
+    const definition = INTENSITY_DENOMINATORS.find(d => d.id === basis);
+    return {
+      basis,
+      setBasis,
+      isIntensity: basis !== 'absolute',
+      entries,
+      updateEntries,
+      periods,
+      records,
+      excluded: allRecords.length - records.length,
+      divide,
+      divideYearOverYear: divideYearOverYearSeries,
+      divideTotal,
+      // Appended to titles and units, e.g. "tCO₂e per ₹ crore revenue"
+      per: definition ? ` ${definition.per}` : '',
+    };
+  }, [basis, entries, updateEntries, periods, records, allRecords.length, divide, divideYearOverYearSeries, divideTotal]);
+}
+
+export type IntensityView<T> = ReturnType<typeof useIntensity<T>>;
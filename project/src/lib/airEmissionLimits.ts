@@ -0,0 +1,87 @@
+import { NonGHGRecord } from '../services/esgRecords';
+import { convert, findUnit, recordUnit, UnitDimensionError } from './units';
+
+// Regulatory stack emission limits for the Non-GHG module. Each reading is
+// matched to a limit by its Parameter and compared in the limit's unit; a
+// reading whose unit is not a concentration (tonnes emitted, or no unit named)
+// cannot be compared and is counted separately rather than against the limit.
+
+export interface RegulatoryLimit {
+  id: string;
+  // Case-insensitive word or words looked for in Parameter
+  pattern: string;
+  pollutant: string;
+  limit: number;
+  // A concentration unit id from the units registry
+  unit: string;
+}
+
+const limit = (id: string, pattern: string, pollutant: string, value: number): RegulatoryLimit =>
+  ({ id, pattern, pollutant, limit: value, unit: 'mg/Nm3' });
+
+// CPCB stack emission limits, checked in order with the named pollutants first.
+// "pm10" and "pm2.5" are listed as the whole word "pm" does not match them.
+export const DEFAULT_REGULATORY_LIMITS: RegulatoryLimit[] = [
+  limit('default-carbon-monoxide', 'carbon monoxide', 'CO', 150),
+  limit('default-nox', 'nox', 'NOx', 600),
+  limit('default-nitrogen-oxide', 'nitrogen oxide', 'NOx', 600),
+  limit('default-sox', 'sox', 'SOx', 600),
+  limit('default-so2', 'so2', 'SOx', 600),
+  limit('default-sulphur-dioxide', 'sulphur dioxide', 'SOx', 600),
+  limit('default-sulfur-dioxide', 'sulfur dioxide', 'SOx', 600),
+  limit('default-voc', 'voc', 'VOC', 20),
+  limit('default-volatile-organic', 'volatile organic', 'VOC', 20),
+  limit('default-particulate', 'particulate', 'PM', 150),
+  limit('default-pm', 'pm', 'PM', 150),
+  limit('default-pm10', 'pm10', 'PM', 150),
+  limit('default-pm25', 'pm2.5', 'PM', 150),
+  limit('default-co', 'co', 'CO', 150),
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, plural allowed: "co" matches "CO" but not "Cobalt" or "CO2", "pm" not "Sampling"
+export const limitMatchesParameter = (l: RegulatoryLimit, parameter: string) => {
+  const pattern = l.pattern.trim();
+  return pattern !== '' && new RegExp(`\\b${escapeRegExp(pattern)}s?\\b`, 'i').test(parameter);
+};
+
+export const findLimit = (parameter: string, limits: RegulatoryLimit[]) =>
+  limits.find(l => limitMatchesParameter(l, parameter)) ?? null;
+
+/**
+ * A reading's Quantity in the limit's unit, or null when it cannot be compared:
+ * the row names no unit, or its unit is not a concentration (or not the limit's dimension).
+ */
+export function readingInLimitUnit(record: NonGHGRecord, l: RegulatoryLimit): number | null {
+  const unit = recordUnit(record, 'nonghg');
+  if (!unit || !findUnit(l.unit)) return null;
+  try {
+    return convert(record.quantity || 0, unit.id, l.unit);
+  } catch (error) {
+    if (error instanceof UnitDimensionError) return null;
+    throw error;
+  }
+}
+
+const LIMITS_STORAGE_KEY = 'esg.regulatoryLimits';
+
+// Saved limits replace the defaults entirely, so deleted defaults stay deleted
+export function loadRegulatoryLimits(): RegulatoryLimit[] {
+  try {
+    const stored = localStorage.getItem(LIMITS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RegulatoryLimit[]) : DEFAULT_REGULATORY_LIMITS;
+  } catch (error) {
+    console.warn('Unable to read regulatory limits:', error);
+    return DEFAULT_REGULATORY_LIMITS;
+  }
+}
+
+export function saveRegulatoryLimits(limits: RegulatoryLimit[]) {
+  localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+}
+
+export function resetRegulatoryLimits(): RegulatoryLimit[] {
+  localStorage.removeItem(LIMITS_STORAGE_KEY);
+  return DEFAULT_REGULATORY_LIMITS;
+}
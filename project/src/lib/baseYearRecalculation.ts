@@ -0,0 +1,252 @@
+import * as XLSX from 'xlsx';
+import { BaseYearPolicy, StructuralChange } from '../services/esgRecords';
+import { ReportSource } from '../services/reportSources';
+import { fiscalYearStart } from './fiscalCalendar';
+import {
+  financialYearLabel,
+  inTargetScope,
+  recordMonth,
+  recordPlant,
+  recordYear,
+  ReductionTarget,
+  TargetMetric,
+  targetMetricsFor,
+} from './targets';
+
+export type StructuralChangeType = StructuralChange['type'];
+
+export const STRUCTURAL_CHANGE_TYPES: { id: StructuralChangeType; description: string }[] = [
+  { id: 'Acquisition', description: "Adds the plant's base-year figure to the baseline" },
+  { id: 'Divestment', description: "Removes the plant's base-year figure from the baseline" },
+  { id: 'Methodology Change', description: 'Changes the baseline by a stated percentage (new factors, boundaries or calculation methods)' },
+];
+
+// GHG Protocol practice: restate once structural changes move the base year by 5% or more
+export const DEFAULT_SIGNIFICANCE_THRESHOLD = 5;
+
+// The figure being restated: a target's baseline, or a module's base-year total
+export type RestatementSubject = Pick<ReductionTarget, 'moduleId' | 'metric' | 'scope' | 'baselineYear' | 'baselineValue'>;
+
+export interface RestatementAdjustment {
+  change: StructuralChange;
+  delta: number;
+  // How the delta was derived, shown in the audit trail
+  basis: string;
+}
+
+export type RestatementStatus = 'restated' | 'below-threshold' | 'unchanged';
+
+export interface BaselineRestatement {
+  original: number;
+  restated: number;
+  adjustments: RestatementAdjustment[];
+  // Sum of the absolute adjustments as a percentage of the original
+  significance: number;
+  threshold: number;
+  status: RestatementStatus;
+}
+
+export const RESTATEMENT_STATUS_LABELS: Record<RestatementStatus, string> = {
+  restated: 'Restated',
+  'below-threshold': 'Below threshold',
+  unchanged: 'No structural changes',
+};
+
+// Financial year (April–March) a YYYY-MM-DD date falls in
+export const financialYearOf = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return financialYearLabel(month >= 4 ? year : year - 1);
+};
+
+// Active changes for the subject's module that took effect after its base year began
+export const changeApplies = (change: StructuralChange, subject: RestatementSubject) => {
+  const base = fiscalYearStart(subject.baselineYear);
+  return (
+    !change.withdrawnAt &&
+    (!change.moduleId || change.moduleId === subject.moduleId) &&
+    base !== null &&
+    change.effectiveDate > `${base}-04-01`
+  );
+};
+
+const rowsForYear = (records: unknown[], start: number) => records.filter(r => fiscalYearStart(recordYear(r)) === start);
+
+// Summed metrics are scaled to twelve months when the plant only reported part of the year
+function annualised(metric: TargetMetric, rows: unknown[], financialYear: string) {
+  const value = metric.annual(rows, financialYear) ?? 0;
+  const months = new Set(rows.map(recordMonth).filter(Boolean)).size;
+  return metric.additive && months > 0 && months < 12 ? (value * 12) / months : value;
+}
+
+/**
+ * The plant's rows that stand in for its base year: its own base-year rows, or
+ * for an acquisition without them, the first financial year it reported from
+ * the acquisition on.
+ */
+function plantBaseRows(change: StructuralChange, plantRows: unknown[], base: number) {
+  const own = rowsForYear(plantRows, base);
+  if (own.length > 0 || change.type !== 'Acquisition') return { rows: own, estimatedFrom: null };
+
+  const from = fiscalYearStart(financialYearOf(change.effectiveDate)) ?? base;
+  const later = Array.from(new Set(plantRows.map(r => fiscalYearStart(recordYear(r)))))
+    .filter((y): y is number => y !== null && y >= from)
+    .sort((a, b) => a - b)[0];
+  return later === undefined ? { rows: [], estimatedFrom: null } : { rows: rowsForYear(plantRows, later), estimatedFrom: later };
+}
+
+/**
+ * Restates a baseline for the structural changes since its base year, in
+ * effective-date order. Acquisitions add and divestments remove the plant's
+ * base-year figure; methodology changes apply their percentage to the running
+ * value. The restatement only takes effect once the changes together reach the
+ * policy's significance threshold.
+ */
+export function restateBaseline(
+  subject: RestatementSubject,
+  source: ReportSource,
+  records: unknown[],
+  changes: StructuralChange[],
+  threshold: number
+): BaselineRestatement {
+  const original = subject.baselineValue;
+  const metric = targetMetricsFor(source).find(m => m.id === subject.metric);
+  const base = fiscalYearStart(subject.baselineYear);
+  const applicable = changes
+    .filter(c => changeApplies(c, subject))
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  if (!metric || base === null || applicable.length === 0) {
+    return { original, restated: original, adjustments: [], significance: 0, threshold, status: 'unchanged' };
+  }
+
+  const scoped = records.filter(r => inTargetScope(subject, r));
+  // Ratios are recomputed over the base-year rows, which start without the plants acquired later
+  const acquired = new Set(applicable.filter(c => c.type === 'Acquisition').map(c => c.plant));
+  let baseRows = rowsForYear(scoped, base).filter(r => !acquired.has(recordPlant(r)));
+  let running = original;
+
+  const adjustments = applicable.map<RestatementAdjustment>(change => {
+    if (change.type === 'Methodology Change') {
+      const delta = (running * change.adjustmentPercent) / 100;
+      running += delta;
+      return { change, delta, basis: `${change.adjustmentPercent > 0 ? '+' : ''}${change.adjustmentPercent}% of the running baseline` };
+    }
+
+    const plantRows = scoped.filter(r => recordPlant(r) === change.plant);
+    const { rows, estimatedFrom } = plantBaseRows(change, plantRows, base);
+    if (rows.length === 0) {
+      const basis = change.type === 'Acquisition'
+        ? `No data for ${change.plant} in this scope yet`
+        : `No ${subject.baselineYear} data for ${change.plant} in this scope`;
+      return { change, delta: 0, basis };
+    }
+
+    const sourceYear = estimatedFrom === null ? subject.baselineYear : financialYearLabel(estimatedFrom);
+    const sign = change.type === 'Acquisition' ? 1 : -1;
+    let delta: number;
+    if (metric.additive) {
+      delta = sign * annualised(metric, rows, sourceYear);
+    } else {
+      const before = metric.annual(baseRows, subject.baselineYear) ?? 0;
+      const others = baseRows.filter(r => recordPlant(r) !== change.plant);
+      baseRows = change.type === 'Acquisition' ? [...others, ...rows] : others;
+      delta = (metric.annual(baseRows, subject.baselineYear) ?? 0) - before;
+    }
+    running += delta;
+    const months = new Set(rows.map(recordMonth).filter(Boolean)).size;
+    const basis = estimatedFrom === null
+      ? `${change.plant} ${subject.baselineYear} data`
+      : `Estimated from ${change.plant} ${sourceYear} data${months > 0 && months < 12 ? ` (${months} months, annualised)` : ''}`;
+    return { change, delta, basis };
+  });
+
+  const moved = adjustments.reduce((sum, a) => sum + Math.abs(a.delta), 0);
+  const significance = original ? (moved / Math.abs(original)) * 100 : moved ? 100 : 0;
+  const status: RestatementStatus = moved === 0 ? 'unchanged' : significance >= threshold ? 'restated' : 'below-threshold';
+  return { original, restated: status === 'restated' ? running : original, adjustments, significance, threshold, status };
+}
+
+// The target measured against its restated baseline; a linear target keeps the same relative change
+export function restatedTarget(target: ReductionTarget, restatement: BaselineRestatement): ReductionTarget {
+  if (restatement.status !== 'restated') return target;
+  const scale = restatement.original ? restatement.restated / restatement.original : 1;
+  return {
+    ...target,
+    baselineValue: restatement.restated,
+    targetValue: target.trajectory === 'linear' ? target.targetValue * scale : target.targetValue,
+  };
+}
+
+export const significanceThreshold = (policy: BaseYearPolicy | null) =>
+  policy?.significanceThreshold ?? DEFAULT_SIGNIFICANCE_THRESHOLD;
+
+export interface RestatementAuditRow {
+  label: string;
+  moduleName: string;
+  metric: string;
+  scope: string;
+  baselineYear: string;
+  restatement: BaselineRestatement;
+}
+
+// Change register, restatements with their adjustments, and policy history as one workbook
+export function downloadRestatementWorkbook(rows: RestatementAuditRow[], changes: StructuralChange[], policy: BaseYearPolicy | null) {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(rows.map(r => ({
+      Baseline: r.label,
+      Module: r.moduleName,
+      Metric: r.metric,
+      Scope: r.scope,
+      'Base Year': r.baselineYear,
+      Original: r.restatement.original,
+      Restated: r.restatement.restated,
+      'Cumulative Change (%)': Number(r.restatement.significance.toFixed(2)),
+      'Threshold (%)': r.restatement.threshold,
+      Status: RESTATEMENT_STATUS_LABELS[r.restatement.status],
+    }))),
+    'Restatements'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(rows.flatMap(r => r.restatement.adjustments.map(a => ({
+      Baseline: r.label,
+      Change: a.change.type,
+      Plant: a.change.plant,
+      'Effective Date': a.change.effectiveDate,
+      Adjustment: a.delta,
+      Basis: a.basis,
+    })))),
+    'Adjustments'
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(changes.map(c => ({
+      Type: c.type,
+      Plant: c.plant,
+      Module: c.moduleId || 'All modules',
+      'Effective Date': c.effectiveDate,
+      'Adjustment (%)': c.type === 'Methodology Change' ? c.adjustmentPercent : '',
+      Description: c.description,
+      'Recorded By': c.recordedBy,
+      'Recorded At': c.recordedAt,
+      'Withdrawn By': c.withdrawnBy,
+      'Withdrawn At': c.withdrawnAt ?? '',
+    }))),
+    'Structural Changes'
+  );
+  if (policy) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet([policy, ...policy.revisions].map((p, i) => ({
+        Status: i === 0 ? 'Current' : 'Superseded',
+        'Base Year': p.baseYear,
+        'Significance Threshold (%)': p.significanceThreshold,
+        'Updated By': p.updatedBy,
+        'Updated At': p.updatedAt ?? '',
+      }))),
+      'Policy History'
+    );
+  }
+  XLSX.writeFile(workbook, 'Base_Year_Restatements.xlsx');
+}
@@ -0,0 +1,336 @@
+import { jsPDF } from 'jspdf';
+import { FilterOptions } from '../services/apiService';
+import { aggregateMetrics, describeFilters, ModuleReportData } from './reportWorkbook';
+import { compareFiscalMonths, fiscalMonthIndex, fiscalMonthName } from './fiscalCalendar';
+
+// PDF board pack: cover, report scope, contents, then KPI cards and charts per module.
+// Charts are drawn by Recharts off-screen and rasterised in the browser, so
+// nothing leaves the client.
+
+export interface BoardPackKpi {
+  label: string;
+  value: number;
+}
+
+export interface BoardPackChart {
+  id: string;
+  title: string;
+  kind: 'bar' | 'line';
+  data: { name: string; value: number }[];
+}
+
+export interface BoardPackModule {
+  id: string;
+  name: string;
+  recordCount: number;
+  error?: string;
+  kpis: BoardPackKpi[];
+  charts: BoardPackChart[];
+}
+
+export interface ChartImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Bars beyond this are folded into "Other" so labels stay readable
+const MAX_BARS = 12;
+
+function totalsBy<T>(records: T[], key: (record: T) => string | null | undefined, value: (record: T) => number) {
+  const totals = new Map<string, number>();
+  records.forEach(record => {
+    const name = key(record)?.trim() || 'Unassigned';
+    totals.set(name, (totals.get(name) || 0) + (value(record) || 0));
+  });
+  return Array.from(totals.entries()).map(([name, total]) => ({ name, value: Math.round(total * 100) / 100 }));
+}
+
+function topBars(data: { name: string; value: number }[]) {
+  const sorted = [...data].sort((a, b) => b.value - a.value);
+  if (sorted.length <= MAX_BARS) return sorted;
+  const other = sorted.slice(MAX_BARS - 1).reduce((sum, d) => sum + d.value, 0);
+  return [...sorted.slice(0, MAX_BARS - 1), { name: 'Other', value: Math.round(other * 100) / 100 }];
+}
+
+// KPI cards and chart series for one module, using its primary (first) metric for the charts
+export function summarizeModule({ source, records, error }: ModuleReportData): BoardPackModule {
+  const summary: BoardPackModule = { id: source.id, name: source.name, recordCount: records.length, error, kpis: [], charts: [] };
+  if (error || records.length === 0) return summary;
+
+  const totals = aggregateMetrics(source, records);
+  summary.kpis = [{ label: 'Records', value: records.length }, ...source.metrics.map((m, idx) => ({ label: m.label, value: totals[idx] }))];
+
+  const primary = source.metrics[0];
+  const value = (record: unknown) => primary.value(record);
+
+  if (source.category) {
+    const category = source.category;
+    summary.charts.push({
+      id: `${source.id}-category`,
+      title: `${primary.label} by ${category.label}`,
+      kind: 'bar',
+      data: topBars(totalsBy(records, r => category.value(r), value)),
+    });
+  }
+  summary.charts.push({
+    id: `${source.id}-group`,
+    title: `${primary.label} by ${source.groupLabel}`,
+    kind: 'bar',
+    data: topBars(totalsBy(records, r => source.groupBy(r), value)),
+  });
+  if (source.month) {
+    const month = source.month;
+    const monthly = totalsBy(records.filter(r => fiscalMonthIndex(month(r)) < 12), r => fiscalMonthName(month(r)), value)
+      .sort((a, b) => compareFiscalMonths(a.name, b.name))
+      .map(d => ({ ...d, name: d.name.slice(0, 3) }));
+    if (monthly.length > 0) {
+      summary.charts.push({ id: `${source.id}-monthly`, title: `Monthly ${primary.label} Trend`, kind: 'line', data: monthly });
+    }
+  }
+  return summary;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Unable to rasterise chart'));
+    image.src = url;
+  });
+}
+
+// Serialises a Recharts SVG and draws it onto a white canvas at print resolution
+export async function svgToPng(svg: SVGSVGElement, scale = 2): Promise<ChartImage> {
+  const width = Number(svg.getAttribute('width')) || svg.clientWidth;
+  const height = Number(svg.getAttribute('height')) || svg.clientHeight;
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  clone.style.fontFamily = 'Helvetica, Arial, sans-serif';
+
+  const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/png'), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Rasterises every chart under the container, keyed by its data-chart-id
+export async function captureCharts(container: HTMLElement): Promise<Record<string, ChartImage>> {
+  const images: Record<string, ChartImage> = {};
+  for (const element of Array.from(container.querySelectorAll<HTMLElement>('[data-chart-id]'))) {
+    const svg = element.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (svg) images[element.dataset.chartId as string] = await svgToPng(svg);
+  }
+  return images;
+}
+
+// A4 portrait, millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 20;
+
+const BRAND_GREEN: [number, number, number] = [22, 163, 74];
+const TEXT_GRAY: [number, number, number] = [107, 114, 128];
+const TEXT_DARK: [number, number, number] = [17, 24, 39];
+
+const KPI_COLUMNS = 4;
+const KPI_GAP = 4;
+const KPI_HEIGHT = 22;
+
+// en-IN keeps separators to ASCII, which the PDF standard fonts can draw
+const formatNumber = (value: number) => value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+
+function heading(doc: jsPDF, text: string, y: number) {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor(...TEXT_DARK);
+  doc.text(text, MARGIN, y);
+  doc.setDrawColor(...BRAND_GREEN);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, y + 3, PAGE_WIDTH - MARGIN, y + 3);
+}
+
+function tableRows(doc: jsPDF, rows: string[][], columnX: number[], startY: number, header?: string[]): number {
+  let y = startY;
+  const drawRow = (cells: string[], bold: boolean) => {
+    if (y > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, idx) => doc.text(cell, columnX[idx], y));
+    doc.setDrawColor(229, 231, 235);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, y + 2, PAGE_WIDTH - MARGIN, y + 2);
+    y += 7;
+  };
+  doc.setFontSize(10);
+  doc.setTextColor(...TEXT_DARK);
+  if (header) drawRow(header, true);
+  rows.forEach(row => drawRow(row, false));
+  return y;
+}
+
+function coverPage(doc: jsPDF, modules: BoardPackModule[], filters: FilterOptions, generatedAt: Date) {
+  doc.setFillColor(...BRAND_GREEN);
+  doc.rect(0, 0, PAGE_WIDTH, 110, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(32);
+  doc.text('ESG Board Pack', MARGIN, 70);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(14);
+  doc.text('Pristine IT Code - ESG Analytics Platform', MARGIN, 82);
+
+  doc.setTextColor(...TEXT_DARK);
+  doc.setFontSize(12);
+  const year = filters.year && filters.year !== 'All' ? filters.year : 'All financial years';
+  doc.text(`Financial Year: ${year}`, MARGIN, 135);
+  doc.text(`Modules: ${modules.map(m => m.name).join(', ')}`, MARGIN, 145, { maxWidth: CONTENT_WIDTH });
+  doc.setTextColor(...TEXT_GRAY);
+  doc.setFontSize(10);
+  doc.text(`Generated ${generatedAt.toLocaleString()}`, MARGIN, PAGE_HEIGHT - 30);
+}
+
+function scopePage(doc: jsPDF, modules: BoardPackModule[], filters: FilterOptions) {
+  heading(doc, 'Report Scope', MARGIN + 10);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Applied Filters', MARGIN, MARGIN + 25);
+  const y = tableRows(doc, describeFilters(filters), [MARGIN, MARGIN + 60], MARGIN + 33);
+
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Modules', MARGIN, y + 8);
+  tableRows(
+    doc,
+    modules.map(m => [m.name, formatNumber(m.recordCount), m.error ? 'Not included (unable to load)' : m.recordCount ? 'Included' : 'No records']),
+    [MARGIN, MARGIN + 70, MARGIN + 100],
+    y + 16,
+    ['Module', 'Records', 'Status']
+  );
+}
+
+function kpiCards(doc: jsPDF, kpis: BoardPackKpi[], startY: number): number {
+  const cardWidth = (CONTENT_WIDTH - KPI_GAP * (KPI_COLUMNS - 1)) / KPI_COLUMNS;
+  kpis.forEach((kpi, idx) => {
+    const x = MARGIN + (idx % KPI_COLUMNS) * (cardWidth + KPI_GAP);
+    const y = startY + Math.floor(idx / KPI_COLUMNS) * (KPI_HEIGHT + KPI_GAP);
+    doc.setFillColor(240, 253, 244);
+    doc.setDrawColor(187, 247, 208);
+    doc.roundedRect(x, y, cardWidth, KPI_HEIGHT, 2, 2, 'FD');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_GRAY);
+    doc.text(doc.splitTextToSize(kpi.label, cardWidth - 6).slice(0, 2), x + 3, y + 6);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(formatNumber(kpi.value), x + 3, y + KPI_HEIGHT - 4);
+  });
+  return startY + Math.ceil(kpis.length / KPI_COLUMNS) * (KPI_HEIGHT + KPI_GAP);
+}
+
+function moduleSection(doc: jsPDF, module: BoardPackModule, number: number, images: Record<string, ChartImage>) {
+  heading(doc, `${number}. ${module.name}`, MARGIN + 10);
+  let y = MARGIN + 22;
+
+  if (module.recordCount === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor(...TEXT_GRAY);
+    doc.text('No records for the selected filters.', MARGIN, y);
+    return;
+  }
+
+  y = kpiCards(doc, module.kpis, y) + 4;
+  module.charts.forEach(chart => {
+    const image = images[chart.id];
+    if (!image) return;
+    const height = (CONTENT_WIDTH * image.height) / image.width;
+    if (y + 8 + height > CONTENT_BOTTOM) {
+      doc.addPage();
+      y = MARGIN + 5;
+    }
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.setTextColor(...TEXT_DARK);
+    doc.text(chart.title, MARGIN, y + 4);
+    doc.addImage(image.dataUrl, 'PNG', MARGIN, y + 7, CONTENT_WIDTH, height);
+    y += 7 + height + 6;
+  });
+}
+
+// Filled in once the module pages exist, since it needs their page numbers
+function contentsPage(doc: jsPDF, tocPage: number, entries: { title: string; page: number }[]) {
+  doc.setPage(tocPage);
+  heading(doc, 'Contents', MARGIN + 10);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(...TEXT_DARK);
+  entries.forEach((entry, idx) => {
+    const y = MARGIN + 25 + idx * 9;
+    doc.text(entry.title, MARGIN, y);
+    doc.text(String(entry.page), PAGE_WIDTH - MARGIN, y, { align: 'right' });
+    doc.setDrawColor(229, 231, 235);
+    doc.setLineDashPattern([0.5, 1], 0);
+    doc.line(MARGIN + doc.getTextWidth(entry.title) + 2, y, PAGE_WIDTH - MARGIN - doc.getTextWidth(String(entry.page)) - 2, y);
+    doc.setLineDashPattern([], 0);
+    doc.link(MARGIN, y - 5, CONTENT_WIDTH, 7, { pageNumber: entry.page });
+  });
+}
+
+function pageFooters(doc: jsPDF, generatedAt: Date) {
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT_GRAY);
+    doc.text(`ESG Board Pack | Generated ${generatedAt.toLocaleDateString()}`, MARGIN, PAGE_HEIGHT - 10);
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: 'right' });
+  }
+}
+
+export function buildBoardPackPdf(
+  modules: BoardPackModule[],
+  images: Record<string, ChartImage>,
+  filters: FilterOptions = {},
+  generatedAt = new Date()
+): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  coverPage(doc, modules, filters, generatedAt);
+  doc.addPage();
+  scopePage(doc, modules, filters);
+  doc.addPage();
+  const tocPage = doc.getNumberOfPages();
+
+  const entries = [{ title: 'Report Scope', page: 2 }];
+  modules.filter(m => !m.error).forEach((module, idx) => {
+    doc.addPage();
+    entries.push({ title: `${idx + 1}. ${module.name}`, page: doc.getNumberOfPages() });
+    moduleSection(doc, module, idx + 1, images);
+  });
+
+  contentsPage(doc, tocPage, entries);
+  pageFooters(doc, generatedAt);
+  return doc;
+}
+
+export const boardPackFileName = (generatedAt = new Date()) =>
+  `ESG_Board_Pack_${generatedAt.toISOString().slice(0, 10)}.pdf`;
@@ -0,0 +1,544 @@
+import * as XLSX from 'xlsx';
+import {
+  AttributeRecord,
+  DiversityRecord,
+  FairnessRecord,
+  InclusionRecord,
+  OpennessRecord,
+  Scope3Record,
+} from '../services/esgRecords';
+import { FilterOptions } from '../services/apiService';
+import { classifyScope } from './ghgScopes';
+import { WithEmissionFactor } from './emissionFactors';
+import { classifyWaterFlow } from './waterBalance';
+import { isRenewableSource, loadEnergySourceRules } from './energyMix';
+import { isDisposed, isRecovered } from './wasteHierarchy';
+import { describeFilters } from './reportWorkbook';
+import { denominatorTotal, IntensityDenominator, loadDenominators } from './denominators';
+
+// SEBI BRSR Core (Annexure I): the nine attributes and their KPIs, computed from
+// AttributeDetail and the Excel uploads. Turnover, workforce and safety figures
+// are not in either source, so they are entered per financial year.
+
+export interface BrsrSourceData {
+  // tCO2e from the emission factor library, or the row's stored Value
+  ghg: WithEmissionFactor<AttributeRecord>[];
+  water: AttributeRecord[];
+  energy: AttributeRecord[];
+  waste: AttributeRecord[];
+  diversity: DiversityRecord[];
+  inclusion: InclusionRecord[];
+  fairness: FairnessRecord[];
+  openness: OpennessRecord[];
+  scope3: Scope3Record[];
+}
+
+export const EMPTY_BRSR_DATA: BrsrSourceData = {
+  ghg: [], water: [], energy: [], waste: [], diversity: [], inclusion: [], fairness: [], openness: [], scope3: [],
+};
+
+export type BrsrInputKey =
+  | 'revenue'
+  | 'revenuePPP'
+  | 'physicalOutput'
+  | 'totalPurchases'
+  | 'goodsProcuredCost'
+  | 'femaleEmployees'
+  | 'wellbeingSpend'
+  | 'ltifr'
+  | 'fatalities'
+  | 'permanentDisabilities';
+
+export const BRSR_INPUTS: { key: BrsrInputKey; label: string; unit: string }[] = [
+  { key: 'revenue', label: 'Revenue from operations', unit: '₹' },
+  { key: 'revenuePPP', label: 'Revenue adjusted for PPP', unit: 'USD (PPP)' },
+  { key: 'physicalOutput', label: 'Physical output', unit: 'tonnes' },
+  { key: 'totalPurchases', label: 'Total purchases (by value)', unit: '₹' },
+  { key: 'goodsProcuredCost', label: 'Cost of goods / services procured', unit: '₹' },
+  { key: 'femaleEmployees', label: 'Female employees and workers', unit: 'count' },
+  { key: 'wellbeingSpend', label: 'Spending on employee well-being', unit: '₹' },
+  { key: 'ltifr', label: 'LTIFR (per million person-hours)', unit: 'rate' },
+  { key: 'fatalities', label: 'Fatalities', unit: 'count' },
+  { key: 'permanentDisabilities', label: 'Permanent disabilities', unit: 'count' },
+];
+
+export interface BrsrInputs {
+  figures: Partial<Record<BrsrInputKey, number>>;
+  // Unit of the physical output figure, e.g. "MT of steel"
+  outputUnit: string;
+}
+
+export const EMPTY_BRSR_INPUTS: BrsrInputs = { figures: {}, outputUnit: '' };
+
+// Inputs read from the intensity denominators entered per business code in the
+// modules, summed for the year and scaled to the BRSR unit (₹ crore → ₹,
+// USD million → USD), so module intensities and BRSR ratios share one figure
+export const SHARED_BRSR_INPUTS: Partial<Record<BrsrInputKey, { denominator: IntensityDenominator; scale: number }>> = {
+  revenue: { denominator: 'revenue', scale: 1e7 },
+  revenuePPP: { denominator: 'pppRevenue', scale: 1e6 },
+  physicalOutput: { denominator: 'production', scale: 1 },
+};
+
+export type BrsrStatus = 'reported' | 'no-data' | 'input-required';
+
+export interface BrsrKpiResult {
+  code: string;
+  attribute: string;
+  parameter: string;
+  unit: string;
+  value: number | null;
+  status: BrsrStatus;
+  sourceRecords: number;
+  missingInputs: string[];
+  note?: string;
+}
+
+interface Measure {
+  value: number;
+  records: number;
+}
+
+interface KpiValue {
+  value: number | null;
+  records: number;
+  needs?: BrsrInputKey[];
+  // Entered figures only, with no source records behind them
+  inputOnly?: boolean;
+  unit?: string;
+  note?: string;
+}
+
+interface BrsrKpi {
+  code: string;
+  parameter: string;
+  unit: string;
+  compute(data: BrsrSourceData, inputs: BrsrInputs): KpiValue;
+}
+
+const describe = (r: AttributeRecord) => [r.parameter, r.subCategory, r.type].filter(Boolean).join(' ');
+
+const emissions = (r: WithEmissionFactor<AttributeRecord>) => r.co2Emissions;
+const energyGJ = (r: AttributeRecord) => r.value || (r.quantity || 0) * (r.convFactor || 0);
+
+function measure<T>(records: T[], value: (r: T) => number, include: (r: T) => boolean = () => true): Measure {
+  return records.reduce<Measure>(
+    (m, r) => (include(r) ? { value: m.value + (value(r) || 0), records: m.records + 1 } : m),
+    { value: 0, records: 0 }
+  );
+}
+
+function average<T>(records: T[], value: (r: T) => number): Measure {
+  const total = measure(records, value);
+  return { value: total.records ? total.value / total.records : 0, records: total.records };
+}
+
+function maximum<T>(records: T[], value: (r: T) => number): Measure {
+  return { value: records.reduce((max, r) => Math.max(max, value(r) || 0), 0), records: records.length };
+}
+
+const fromMeasure = (m: Measure, note?: string): KpiValue => ({ value: m.records ? m.value : null, records: m.records, note });
+
+// numerator / denominator × scale, where the denominator is another measure
+const share = (part: Measure, whole: Measure, scale = 100): KpiValue =>
+  ({ value: part.records && whole.value ? (part.value / whole.value) * scale : null, records: part.records });
+
+// numerator / entered figure × scale
+const perInput = (numerator: Measure, key: BrsrInputKey, inputs: BrsrInputs, scale = 1): KpiValue => {
+  const denominator = inputs.figures[key];
+  return {
+    value: numerator.records && denominator ? (numerator.value / denominator) * scale : null,
+    records: numerator.records,
+    needs: [key],
+  };
+};
+
+// --- Source classification, from Parameter / SubCategory / Type ---------------
+
+const scopeEmissions = (data: BrsrSourceData, scope: 'Scope 1' | 'Scope 2') =>
+  measure(data.ghg, emissions, r => classifyScope(r) === scope);
+
+// How many of the scope's rows were valued with a library factor rather than their stored figure
+const factorNote = (data: BrsrSourceData, scope: 'Scope 1' | 'Scope 2') => {
+  const rows = data.ghg.filter(r => classifyScope(r) === scope);
+  const library = rows.filter(r => r.emissionFactor.factorId !== null).length;
+  return rows.length ? `${library} of ${rows.length} rows at emission factor library values, the rest as stored` : undefined;
+};
+
+const isWithdrawal = (r: AttributeRecord) => classifyWaterFlow(r) === 'withdrawal';
+const isDischarge = (r: AttributeRecord) => classifyWaterFlow(r) === 'discharge';
+const isConsumption = (r: AttributeRecord) => classifyWaterFlow(r) === 'consumption';
+
+// Explicit consumption rows when present, otherwise withdrawal less discharge (the BRSR definition)
+function waterConsumption(data: BrsrSourceData): KpiValue {
+  const explicit = measure(data.water, r => r.quantity, isConsumption);
+  if (explicit.records) return fromMeasure(explicit);
+  const withdrawal = measure(data.water, r => r.quantity, isWithdrawal);
+  const discharge = measure(data.water, r => r.quantity, isDischarge);
+  if (withdrawal.records) {
+    return { value: withdrawal.value - discharge.value, records: withdrawal.records + discharge.records, note: 'Withdrawal less discharge' };
+  }
+  return fromMeasure(measure(data.water, r => r.quantity), 'No withdrawal/discharge split; total of all water rows');
+}
+
+const asMeasure = (v: KpiValue): Measure => ({ value: v.value ?? 0, records: v.value === null ? 0 : v.records });
+
+// Classified by the source rules set in the Energy module
+const renewableShare = (data: BrsrSourceData): KpiValue => {
+  const rules = loadEnergySourceRules();
+  return share(measure(data.energy, energyGJ, r => isRenewableSource(r, rules)), measure(data.energy, energyGJ));
+};
+
+export const WASTE_CATEGORIES: { label: string; pattern: RegExp }[] = [
+  { label: 'Plastic waste', pattern: /plastic/i },
+  { label: 'E-waste', pattern: /e[-\s]?waste|electronic/i },
+  { label: 'Bio-medical waste', pattern: /bio[-\s]?medical/i },
+  { label: 'Construction and demolition waste', pattern: /construction|demolition|c\s*&\s*d/i },
+  { label: 'Battery waste', pattern: /batter/i },
+  { label: 'Radioactive waste', pattern: /radioactive/i },
+  { label: 'Other non-hazardous waste', pattern: /non[-\s]?hazardous/i },
+  { label: 'Other hazardous waste', pattern: /hazardous/i },
+];
+
+// First matching category; anything unrecognised counts as other non-hazardous
+const wasteCategory = (r: AttributeRecord) =>
+  WASTE_CATEGORIES.find(c => c.pattern.test(describe(r)))?.label ?? 'Other non-hazardous waste';
+
+const wasteTotal = (data: BrsrSourceData) => measure(data.waste, r => r.quantity);
+
+// Intensity KPIs per rupee of turnover, per rupee adjusted for PPP and per unit of physical output
+const intensityKpis = (code: string, label: string, unit: string, numerator: (data: BrsrSourceData) => Measure): BrsrKpi[] => [
+  {
+    code: `${code}.i`, parameter: `${label} intensity per rupee of turnover`, unit: `${unit}/₹`,
+    compute: (data, inputs) => perInput(numerator(data), 'revenue', inputs),
+  },
+  {
+    code: `${code}.ii`, parameter: `${label} intensity per rupee of turnover adjusted for PPP`, unit: `${unit}/₹ (PPP)`,
+    compute: (data, inputs) => perInput(numerator(data), 'revenuePPP', inputs),
+  },
+  {
+    code: `${code}.iii`, parameter: `${label} intensity in terms of physical output`, unit: `${unit}/output unit`,
+    compute: (data, inputs) => ({ ...perInput(numerator(data), 'physicalOutput', inputs), unit: `${unit}/${inputs.outputUnit || 'output unit'}` }),
+  },
+];
+
+const scope12 = (data: BrsrSourceData): Measure => {
+  const s1 = scopeEmissions(data, 'Scope 1');
+  const s2 = scopeEmissions(data, 'Scope 2');
+  return { value: s1.value + s2.value, records: s1.records + s2.records };
+};
+
+const inputFigure = (key: BrsrInputKey) => (_data: BrsrSourceData, inputs: BrsrInputs): KpiValue => ({
+  value: inputs.figures[key] ?? null,
+  records: 0,
+  needs: [key],
+  inputOnly: true,
+});
+
+const locationWages = (data: BrsrSourceData) =>
+  measure(data.inclusion, r => r.rural + r.semiUrban + r.urban + r.metropolitan);
+
+const BRSR_ATTRIBUTES: { code: string; attribute: string; kpis: BrsrKpi[] }[] = [
+  {
+    code: '1', attribute: 'Green-house gas (GHG) footprint',
+    kpis: [
+      { code: '1.a', parameter: 'Total Scope 1 emissions', unit: 'tCO2e', compute: data => fromMeasure(scopeEmissions(data, 'Scope 1'), factorNote(data, 'Scope 1')) },
+      { code: '1.b', parameter: 'Total Scope 2 emissions', unit: 'tCO2e', compute: data => fromMeasure(scopeEmissions(data, 'Scope 2'), factorNote(data, 'Scope 2')) },
+      ...intensityKpis('1.c', 'GHG (Scope 1 + 2) emission', 'tCO2e', scope12),
+    ],
+  },
+  {
+    code: '2', attribute: 'Water footprint',
+    kpis: [
+      { code: '2.a', parameter: 'Total water consumption', unit: 'KL', compute: waterConsumption },
+      ...intensityKpis('2.b', 'Water consumption', 'KL', data => asMeasure(waterConsumption(data))),
+      { code: '2.c', parameter: 'Water discharge', unit: 'KL', compute: data => fromMeasure(measure(data.water, r => r.quantity, isDischarge)) },
+    ],
+  },
+  {
+    code: '3', attribute: 'Energy footprint',
+    kpis: [
+      { code: '3.a', parameter: 'Total energy consumed', unit: 'GJ', compute: data => fromMeasure(measure(data.energy, energyGJ)) },
+      {
+        code: '3.b', parameter: '% of energy consumed from renewable sources', unit: '%',
+        compute: renewableShare,
+      },
+      ...intensityKpis('3.c', 'Energy', 'GJ', data => measure(data.energy, energyGJ)),
+    ],
+  },
+  {
+    code: '4', attribute: 'Embracing circularity - details related to waste management',
+    kpis: [
+      ...WASTE_CATEGORIES.map((category, idx) => ({
+        code: `4.a.${idx + 1}`, parameter: category.label, unit: 'MT',
+        compute: (data: BrsrSourceData) => fromMeasure(measure(data.waste, r => r.quantity, r => wasteCategory(r) === category.label)),
+      })),
+      { code: '4.b', parameter: 'Total waste generated', unit: 'MT', compute: data => fromMeasure(wasteTotal(data)) },
+      ...intensityKpis('4.c', 'Waste', 'MT', wasteTotal),
+      {
+        code: '4.d', parameter: 'Waste recovered through recycling, re-using or other recovery operations', unit: 'MT',
+        compute: data => fromMeasure(measure(data.waste, r => r.quantity, isRecovered)),
+      },
+      {
+        code: '4.e', parameter: 'Waste disposed by incineration, landfilling or other disposal operations', unit: 'MT',
+        compute: data => fromMeasure(measure(data.waste, r => r.quantity, isDisposed)),
+      },
+    ],
+  },
+  {
+    code: '5', attribute: 'Enhancing employee wellbeing and safety',
+    kpis: [
+      {
+        code: '5.a', parameter: 'Spending on measures towards well-being of employees and workers as % of total revenue', unit: '%',
+        compute: (_data, inputs) => {
+          const { wellbeingSpend, revenue } = inputs.figures;
+          return {
+            value: wellbeingSpend !== undefined && revenue ? (wellbeingSpend / revenue) * 100 : null,
+            records: 0,
+            needs: ['wellbeingSpend', 'revenue'],
+            inputOnly: true,
+          };
+        },
+      },
+      { code: '5.b', parameter: 'Lost Time Injury Frequency Rate (LTIFR)', unit: 'per million person-hours', compute: inputFigure('ltifr') },
+      { code: '5.c', parameter: 'Number of fatalities', unit: 'count', compute: inputFigure('fatalities') },
+      { code: '5.d', parameter: 'Number of permanent disabilities', unit: 'count', compute: inputFigure('permanentDisabilities') },
+    ],
+  },
+  {
+    code: '6', attribute: 'Enabling gender diversity in business',
+    kpis: [
+      {
+        code: '6.a', parameter: 'Gross wages paid to females as % of total wages paid', unit: '%',
+        compute: data => share(measure(data.diversity, r => r.wagesFemales), measure(data.diversity, r => r.wagesFemales + r.wagesMales)),
+      },
+      {
+        code: '6.b', parameter: 'Total complaints reported under POSH', unit: 'count',
+        compute: data => fromMeasure(measure(data.diversity, r => r.totalComplaints)),
+      },
+      {
+        code: '6.c', parameter: 'Complaints on POSH as a % of female employees / workers', unit: '%',
+        compute: (data, inputs) => perInput(measure(data.diversity, r => r.totalComplaints), 'femaleEmployees', inputs, 100),
+      },
+      {
+        code: '6.d', parameter: 'Complaints on POSH upheld', unit: 'count',
+        compute: data => fromMeasure(measure(data.diversity, r => r.poshUpheld)),
+      },
+    ],
+  },
+  {
+    code: '7', attribute: 'Enabling inclusive development',
+    kpis: [
+      {
+        code: '7.a', parameter: 'Input material sourced from MSMEs / small producers as % of total purchases', unit: '%',
+        compute: (data, inputs) => perInput(measure(data.inclusion, r => r.msmePurchase), 'totalPurchases', inputs, 100),
+      },
+      {
+        code: '7.b', parameter: 'Input material sourced directly from within India as % of total purchases', unit: '%',
+        compute: (data, inputs) => perInput(measure(data.inclusion, r => r.directlyFromIndia), 'totalPurchases', inputs, 100),
+      },
+      ...([['rural', 'Rural'], ['semiUrban', 'Semi-urban'], ['urban', 'Urban'], ['metropolitan', 'Metropolitan']] as const).map(([key, label], idx) => ({
+        code: `7.c.${idx + 1}`, parameter: `Wages paid to persons employed in ${label} locations as % of total wage cost`, unit: '%',
+        compute: (data: BrsrSourceData) => share(measure(data.inclusion, r => r[key]), locationWages(data)),
+      })),
+    ],
+  },
+  {
+    code: '8', attribute: 'Fairness in engaging with customers and suppliers',
+    kpis: [
+      {
+        code: '8.a', parameter: 'Instances involving loss / breach of data of customers as % of total data breaches', unit: '%',
+        compute: data => fromMeasure(average(data.fairness, r => r.customerDataBreachPct), 'Average of reported values'),
+      },
+      {
+        code: '8.b', parameter: 'Number of days of accounts payable', unit: 'days',
+        compute: (data, inputs) => ({
+          ...perInput(measure(data.fairness, r => r.accountsPayable), 'goodsProcuredCost', inputs, 365),
+          note: 'Accounts payable × 365 ÷ cost of goods / services procured',
+        }),
+      },
+    ],
+  },
+  {
+    code: '9', attribute: 'Open-ness of business',
+    kpis: [
+      { code: '9.a.1', parameter: 'Purchases from trading houses as % of total purchases', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.percentTotalPurchases), 'Average of reported values') },
+      { code: '9.a.2', parameter: 'Number of trading houses where purchases are made from', unit: 'count', compute: data => fromMeasure(maximum(data.openness, r => r.noTradingHouses), 'Highest reported count') },
+      { code: '9.a.3', parameter: 'Purchases from top 10 trading houses as % of total purchases from trading houses', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.top10PercentTH), 'Average of reported values') },
+      { code: '9.b.1', parameter: 'Sales to dealers / distributors as % of total sales', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.percentTotalSalers), 'Average of reported values') },
+      { code: '9.b.2', parameter: 'Number of dealers / distributors to whom sales are made', unit: 'count', compute: data => fromMeasure(maximum(data.openness, r => r.noDealers), 'Highest reported count') },
+      { code: '9.b.3', parameter: 'Sales to top 10 dealers / distributors as % of total sales to dealers / distributors', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.top10PercentTHSales), 'Average of reported values') },
+      { code: '9.c.1', parameter: 'Share of RPTs in purchases', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.rptPurchases), 'Average of reported values') },
+      { code: '9.c.2', parameter: 'Share of RPTs in sales', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.rptSales), 'Average of reported values') },
+      { code: '9.c.3', parameter: 'Share of RPTs in loans & advances', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.rptLA), 'Average of reported values') },
+      { code: '9.c.4', parameter: 'Share of RPTs in investments', unit: '%', compute: data => fromMeasure(average(data.openness, r => r.rptInvestments), 'Average of reported values') },
+    ],
+  },
+];
+
+const INPUT_LABELS = Object.fromEntries(BRSR_INPUTS.map(i => [i.key, i.label])) as Record<BrsrInputKey, string>;
+
+/**
+ * Every BRSR Core KPI with its value and status. A KPI is "input-required" when
+ * an entered figure it depends on is missing, and "no-data" when no source
+ * record feeds it.
+ */
+export function computeBrsrCore(data: BrsrSourceData, inputs: BrsrInputs): BrsrKpiResult[] {
+  return BRSR_ATTRIBUTES.flatMap(({ attribute, kpis }) =>
+    kpis.map(kpi => {
+      const result = kpi.compute(data, inputs);
+      const missingInputs = (result.needs ?? []).filter(key => inputs.figures[key] === undefined).map(key => INPUT_LABELS[key]);
+      const status: BrsrStatus = result.value !== null
+        ? 'reported'
+        : missingInputs.length > 0 && (result.records > 0 || result.inputOnly) ? 'input-required' : 'no-data';
+      return {
+        code: kpi.code,
+        attribute,
+        parameter: kpi.parameter,
+        unit: result.unit ?? kpi.unit,
+        value: result.value,
+        status,
+        sourceRecords: result.records,
+        missingInputs,
+        note: result.note,
+      };
+    })
+  );
+}
+
+export interface BrsrScope3Line {
+  brsrId: string;
+  records: number;
+  totalQuantity: number;
+  totalValue: number;
+}
+
+// Scope 3 uploads carry their BRSR reference, so they roll up by it directly
+export function scope3ByBrsrId(records: Scope3Record[]): BrsrScope3Line[] {
+  const lines = new Map<string, BrsrScope3Line>();
+  records.forEach(r => {
+    const brsrId = r.brsrId?.trim() || 'Unassigned';
+    const line = lines.get(brsrId) ?? { brsrId, records: 0, totalQuantity: 0, totalValue: 0 };
+    line.records += 1;
+    line.totalQuantity += r.totalQuantity;
+    line.totalValue += r.totalValue;
+    lines.set(brsrId, line);
+  });
+  return Array.from(lines.values()).sort((a, b) => a.brsrId.localeCompare(b.brsrId, undefined, { numeric: true }));
+}
+
+// Small intensities per rupee stay readable with significant digits
+export const formatBrsrValue = (value: number | null) => {
+  if (value === null) return '';
+  if (value !== 0 && Math.abs(value) < 0.01) return value.toPrecision(3);
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+export const BRSR_STATUS_LABELS: Record<BrsrStatus, string> = {
+  reported: 'Reported',
+  'no-data': 'No source data',
+  'input-required': 'Input required',
+};
+
+const INPUTS_STORAGE_KEY = 'esg.brsrInputs';
+
+const readInputs = (): Record<string, BrsrInputs> => {
+  try {
+    const stored = localStorage.getItem(INPUTS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, BrsrInputs>) : {};
+  } catch (error) {
+    console.warn('Unable to read BRSR inputs:', error);
+    return {};
+  }
+};
+
+const withoutShared = (figures: BrsrInputs['figures']) =>
+  Object.fromEntries(Object.entries(figures).filter(([key]) => !(key in SHARED_BRSR_INPUTS))) as BrsrInputs['figures'];
+
+// Entered figures are kept per financial year ("All" when no year is selected)
+export function loadBrsrInputs(financialYear: string): BrsrInputs {
+  const stored = readInputs()[financialYear] ?? EMPTY_BRSR_INPUTS;
+  const entries = loadDenominators();
+  const figures = withoutShared(stored.figures);
+  Object.entries(SHARED_BRSR_INPUTS).forEach(([key, { denominator, scale }]) => {
+    const total = denominatorTotal(entries, denominator, financialYear);
+    if (total !== undefined) figures[key as BrsrInputKey] = total * scale;
+  });
+  return { ...stored, figures };
+}
+
+// Shared inputs are not stored here; they are edited as intensity denominators
+export function saveBrsrInputs(financialYear: string, inputs: BrsrInputs) {
+  const stored = { ...inputs, figures: withoutShared(inputs.figures) };
+  localStorage.setItem(INPUTS_STORAGE_KEY, JSON.stringify({ ...readInputs(), [financialYear]: stored }));
+}
+
+export interface BrsrReportPeriod {
+  label: string;
+  results: BrsrKpiResult[];
+}
+
+const periodHeader = (label: string) => (/^FY/i.test(label) ? label : `FY ${label}`);
+
+/**
+ * Writes the BRSR Core workbook: the Annexure I table (current and, when
+ * available, previous financial year), the missing indicators, the entered
+ * figures and Scope 3 totals by BRSR ID.
+ */
+export function downloadBrsrWorkbook(
+  current: BrsrReportPeriod,
+  previous: BrsrReportPeriod | null,
+  inputs: BrsrInputs,
+  scope3: Scope3Record[],
+  filters: FilterOptions = {}
+) {
+  const previousByCode = new Map(previous?.results.map(r => [r.code, r]) ?? []);
+  const header = ['S. No.', 'Attribute', 'Parameter', 'Unit', periodHeader(current.label)];
+  if (previous) header.push(periodHeader(previous.label));
+  header.push('Status', 'Remarks');
+
+  const rows: (string | number | null)[][] = [
+    ['BRSR Core - Annexure I'],
+    ['Generated', new Date().toLocaleString()],
+    ...describeFilters(filters).filter(([, value]) => value !== 'All'),
+    [],
+    header,
+  ];
+  let attribute = '';
+  BRSR_ATTRIBUTES.forEach(({ code, attribute: name }) => {
+    current.results.filter(r => r.attribute === name).forEach(result => {
+      if (attribute !== name) {
+        attribute = name;
+        rows.push([code, name]);
+      }
+      const remarks = [result.note, result.missingInputs.length ? `Missing: ${result.missingInputs.join(', ')}` : '']
+        .filter(Boolean).join('; ');
+      const row: (string | number | null)[] = [result.code, '', result.parameter, result.unit, result.value];
+      if (previous) row.push(previousByCode.get(result.code)?.value ?? null);
+      row.push(BRSR_STATUS_LABELS[result.status], remarks);
+      rows.push(row);
+    });
+  });
+
+  const missing = current.results
+    .filter(r => r.status !== 'reported')
+    .map(r => ({
+      'S. No.': r.code,
+      Attribute: r.attribute,
+      Parameter: r.parameter,
+      Status: BRSR_STATUS_LABELS[r.status],
+      'Missing Inputs': r.missingInputs.join(', '),
+    }));
+
+  const entered = BRSR_INPUTS.map(input => ({
+    Input: input.label,
+    Unit: input.key === 'physicalOutput' ? inputs.outputUnit || input.unit : input.unit,
+    Value: inputs.figures[input.key] ?? '',
+  }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), 'BRSR Core');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(missing), 'Missing Indicators');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(entered), 'Entered Figures');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(scope3ByBrsrId(scope3)), 'Scope 3 by BRSR ID');
+  XLSX.writeFile(wb, `BRSR_Core_${current.label.replace(/[^\w-]+/g, '_')}.xlsx`);
+}
@@ -0,0 +1,213 @@
+import {
+  ColumnMapping,
+  DEFAULT_HEADER_SEARCH_ROWS,
+  FieldSpec,
+  IngestionError,
+  IngestionResult,
+  IngestionSchema,
+  ingestRows,
+  isBlank,
+  normalizeHeader,
+  SheetRows,
+} from './excelIngestion';
+
+export type ProfileScopeType = 'plant' | 'businessCode';
+
+export interface MappingProfile {
+  id: string;
+  moduleId: string;
+  name: string;
+  scope: { type: ProfileScopeType; value: string };
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export interface MappingSuggestion {
+  header: string;
+  score: number;
+}
+
+const PROFILES_STORAGE_KEY = 'esg.columnMappingProfiles';
+
+// Suggestions below this similarity are left for the user to pick by hand
+const SUGGESTION_THRESHOLD = 0.55;
+
+const compact = (text: string) => normalizeHeader(text).replace(/[^a-z0-9%]+/g, '');
+const tokens = (text: string) => new Set(normalizeHeader(text).split(/[^a-z0-9%]+/).filter(Boolean));
+
+const levenshtein = (a: string, b: string) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/**
+ * 0–1 similarity between two header strings. Takes the better of an edit
+ * distance ratio (typos, "Salers" vs "Sales") and token overlap (reordered or
+ * extra words, "POSH Complaints Upheld" vs "Complaints on POSH upheld").
+ */
+export function headerSimilarity(a: string, b: string): number {
+  const ca = compact(a);
+  const cb = compact(b);
+  if (!ca || !cb) return 0;
+  if (ca === cb) return 1;
+
+  const editRatio = 1 - levenshtein(ca, cb) / Math.max(ca.length, cb.length);
+  const ta = tokens(a);
+  const tb = tokens(b);
+  const shared = Array.from(ta).filter(t => tb.has(t)).length;
+  const tokenRatio = shared / Math.max(ta.size, tb.size);
+  return Math.max(editRatio, tokenRatio);
+}
+
+const fieldSimilarity = <T>(field: FieldSpec<T>, header: string) =>
+  Math.max(...[field.header, ...(field.aliases || [])].map(name => headerSimilarity(name, header)));
+
+// Best one-to-one assignment of sheet headers to schema fields, highest scores first
+export function suggestMapping<T>(schema: IngestionSchema<T>, headers: string[]): Record<string, MappingSuggestion | null> {
+  const candidates: { key: string; header: string; score: number }[] = [];
+  schema.fields.forEach(field => {
+    headers.forEach(header => {
+      if (isBlank(header)) return;
+      const score = fieldSimilarity(field, header);
+      if (score >= SUGGESTION_THRESHOLD) candidates.push({ key: field.key, header, score });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const suggestions: Record<string, MappingSuggestion | null> = {};
+  schema.fields.forEach(field => { suggestions[field.key] = null; });
+  const usedHeaders = new Set<string>();
+  candidates.forEach(({ key, header, score }) => {
+    if (suggestions[key] || usedHeaders.has(header)) return;
+    suggestions[key] = { header, score };
+    usedHeaders.add(header);
+  });
+  return suggestions;
+}
+
+/**
+ * The row most likely to hold the column headers: the one most similar to the
+ * schema, falling back to the row with the most text cells.
+ */
+export function detectHeaderRow<T>(rows: unknown[][], schema: IngestionSchema<T>) {
+  const limit = Math.min(schema.headerSearchRows ?? DEFAULT_HEADER_SEARCH_ROWS, rows.length);
+  let best = { index: -1, score: 0, filled: 0 };
+
+  for (let i = 0; i < limit; i++) {
+    const row = rows[i];
+    if (!Array.isArray(row)) continue;
+    const texts = row.filter(cell => typeof cell === 'string' && !isBlank(cell)) as string[];
+    const suggestions = suggestMapping(schema, texts);
+    const score = Object.values(suggestions).reduce((sum, s) => sum + (s?.score || 0), 0);
+    if (score > best.score || (score === best.score && texts.length > best.filled)) {
+      best = { index: i, score, filled: texts.length };
+    }
+  }
+
+  const index = Math.max(best.index, 0);
+  const headers = (rows[index] || []).map(cell => (cell == null ? '' : String(cell).trim()));
+  return { index, headers };
+}
+
+// Distinct values of a column below the header row, used to pre-fill the profile scope
+export function distinctColumnValues(rows: unknown[][], headerIndex: number, header: string, limit = 20): string[] {
+  const columnIndex = (rows[headerIndex] || []).findIndex(cell => normalizeHeader(cell) === normalizeHeader(header));
+  if (columnIndex === -1) return [];
+  const values = new Set<string>();
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = Array.isArray(row) ? row[columnIndex] : null;
+    if (!isBlank(cell)) values.add(String(cell).trim());
+    if (values.size >= limit) break;
+  }
+  return Array.from(values);
+}
+
+const recordsInScope = <T>(records: T[], schema: IngestionSchema<T>, profile: MappingProfile) => {
+  const key = schema.scopeFields?.[profile.scope.type];
+  if (!key) return false;
+  const wanted = normalizeHeader(profile.scope.value);
+  return records.some(record => normalizeHeader(record[key]) === wanted);
+};
+
+/**
+ * Ingests with the schema's own headers first. When those are not found, tries
+ * each saved profile and prefers one whose plant / business code appears in the
+ * sheet, so a plant's profile is picked up without the user choosing it.
+ */
+export function ingestWithProfiles<T>(
+  sheet: SheetRows,
+  schema: IngestionSchema<T>,
+  profiles: MappingProfile[]
+): { result: IngestionResult<T>; profile: MappingProfile | null } {
+  try {
+    return { result: ingestRows(sheet.rows, schema, sheet.sheetName, sheet.firstRowNumber), profile: null };
+  } catch (error) {
+    if (!(error instanceof IngestionError)) throw error;
+
+    const matches: { result: IngestionResult<T>; profile: MappingProfile }[] = [];
+    profiles.forEach(profile => {
+      try {
+        matches.push({ profile, result: ingestRows(sheet.rows, schema, sheet.sheetName, sheet.firstRowNumber, profile.mapping) });
+      } catch {
+        // Profile was made for a different layout
+      }
+    });
+    const match = matches.find(m => recordsInScope(m.result.records, schema, m.profile)) ?? matches[0];
+    if (!match) throw error;
+    return match;
+  }
+}
+
+const readProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as MappingProfile[]) : [];
+  } catch (error) {
+    console.warn('Unable to read column mapping profiles:', error);
+    return [];
+  }
+};
+
+// False when this browser's storage is unavailable or full
+const writeProfiles = (profiles: MappingProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    return true;
+  } catch (error) {
+    console.warn('Unable to save column mapping profiles:', error);
+    return false;
+  }
+};
+
+export function loadMappingProfiles(moduleId: string): MappingProfile[] {
+  return readProfiles().filter(profile => profile.moduleId === moduleId);
+}
+
+// One profile per module and scope; saving again for the same plant replaces it.
+// Null when the profile could not be stored.
+export function saveMappingProfile(profile: Omit<MappingProfile, 'id' | 'updatedAt'>): MappingProfile | null {
+  const sameScope = (p: MappingProfile) =>
+    p.moduleId === profile.moduleId &&
+    p.scope.type === profile.scope.type &&
+    normalizeHeader(p.scope.value) === normalizeHeader(profile.scope.value);
+
+  const profiles = readProfiles();
+  const existing = profiles.find(sameScope);
+  const saved: MappingProfile = {
+    ...profile,
+    id: existing?.id ?? `${profile.moduleId}-${Date.now()}`,
+    updatedAt: new Date().toISOString(),
+  };
+  return writeProfiles([...profiles.filter(p => !sameScope(p)), saved]) ? saved : null;
+}
+
+export function deleteMappingProfile(id: string): boolean {
+  return writeProfiles(readProfiles().filter(p => p.id !== id));
+}
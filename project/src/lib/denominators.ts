@@ -0,0 +1,55 @@
+import { fiscalYearStart } from './fiscalCalendar';
+
+// Revenue, production and other denominators per business code and financial
+// year: the one store behind the modules' intensity views and the BRSR Core
+// intensity ratios, so both divide by the same figures.
+
+export type IntensityDenominator = 'revenue' | 'pppRevenue' | 'production' | 'headcount' | 'floorArea';
+
+export const INTENSITY_DENOMINATORS: { id: IntensityDenominator; label: string; unit: string; per: string }[] = [
+  { id: 'revenue', label: 'Revenue', unit: '₹ crore', per: 'per ₹ crore revenue' },
+  { id: 'pppRevenue', label: 'Revenue (PPP-adjusted)', unit: 'USD million PPP', per: 'per USD million revenue (PPP)' },
+  { id: 'production', label: 'Production', unit: 'tonnes', per: 'per tonne produced' },
+  { id: 'headcount', label: 'Headcount', unit: 'employees', per: 'per employee' },
+  { id: 'floorArea', label: 'Floor area', unit: 'm²', per: 'per m² floor area' },
+];
+
+// Denominator figures for one business code and financial year
+export interface DenominatorEntry {
+  businessCode: string;
+  financialYear: string;
+  figures: Partial<Record<IntensityDenominator, number>>;
+}
+
+/**
+ * Company total of a denominator for a financial year ("All" for every year),
+ * summed over business codes; undefined when no entry has the figure.
+ */
+export function denominatorTotal(
+  entries: DenominatorEntry[],
+  denominator: IntensityDenominator,
+  financialYear: string
+): number | undefined {
+  const fyStart = financialYear === 'All' ? null : fiscalYearStart(financialYear);
+  const values = entries
+    .filter(e => fyStart === null || fiscalYearStart(e.financialYear) === fyStart)
+    .map(e => e.figures[denominator])
+    .filter((value): value is number => value !== undefined && value > 0);
+  return values.length ? values.reduce((sum, v) => sum + v, 0) : undefined;
+}
+
+const DENOMINATORS_STORAGE_KEY = 'esg.intensityDenominators';
+
+export function loadDenominators(): DenominatorEntry[] {
+  try {
+    const stored = localStorage.getItem(DENOMINATORS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DenominatorEntry[]) : [];
+  } catch (error) {
+    console.warn('Unable to read intensity denominators:', error);
+    return [];
+  }
+}
+
+export function saveDenominators(entries: DenominatorEntry[]) {
+  localStorage.setItem(DENOMINATORS_STORAGE_KEY, JSON.stringify(entries));
+}
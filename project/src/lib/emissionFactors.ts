@@ -0,0 +1,230 @@
+import * as XLSX from 'xlsx';
+import { EmissionFactor } from '../services/esgRecords';
+import { fiscalPeriodStart } from './fiscalCalendar';
+import { convert, findUnit, Unit, unitInName } from './units';
+
+export type EmissionFactorStandard = EmissionFactor['standard'];
+
+export const EMISSION_FACTOR_STANDARDS: { id: EmissionFactorStandard; name: string }[] = [
+  { id: 'CEA', name: 'CEA CO2 Baseline Database (grid)' },
+  { id: 'IPCC', name: 'IPCC Guidelines' },
+  { id: 'DEFRA', name: 'UK DEFRA / DESNZ conversion factors' },
+  { id: 'Other', name: 'Other' },
+];
+
+// The fields of an activity row a factor is matched against
+export interface FactorActivity {
+  financialYear: string | null;
+  month: string | null;
+  businessCode: string | null;
+  plant: string | null;
+  parameter: string | null;
+  subCategory: string | null;
+  type: string | null;
+  quantity: number;
+  convFactor: number;
+  // Unit of Quantity from the units registry; a factor is taken as per this unit when absent
+  unit?: string | null;
+}
+
+export interface FactorProvenance {
+  // Library factor that produced the figure; null when the row's own ConvFactor was used
+  factorId: string | null;
+  label: string;
+  // tCO₂e per unit of the row's Quantity
+  factor: number;
+}
+
+export type WithEmissionFactor<T> = T & {
+  emissionFactor: FactorProvenance;
+  co2Emissions: number;
+  // The row's figure before recalculation from the library
+  storedEmissions: number;
+};
+
+const GHG_ATTRIBUTE = '1.GHG(tCO2e)';
+
+// tCO₂e as stored on a GHG row: Value, or Quantity × ConvFactor when Value is empty
+export const storedEmissions = (record: FactorActivity & { value: number }) =>
+  record.value || (record.quantity || 0) * (record.convFactor || 0);
+
+const atConvFactor = (record: FactorActivity) => (record.quantity || 0) * (record.convFactor || 0);
+
+const includes = (value: string | null, pattern: string) =>
+  (value ?? '').toLowerCase().includes(pattern.toLowerCase());
+
+const same = (a: string | null, b: string) => (a ?? '').trim().toLowerCase() === b.toLowerCase();
+
+/**
+ * How closely a factor's region fits a row: the row's plant (3), its business
+ * code (2), or any other region, taken as the country-wide default (1).
+ */
+const regionRank = (factor: EmissionFactor, activity: FactorActivity) => {
+  const region = factor.region.trim();
+  if (region && same(activity.plant, region)) return 3;
+  if (region && same(activity.businessCode, region)) return 2;
+  return 1;
+};
+
+/**
+ * A factor's unit read as "<emissions unit>/<activity unit>", e.g. "tCO2e/kWh"
+ * or "kgCO2e/L"; null when either side is not in the units registry.
+ */
+export function parseFactorUnit(unit: string): { emissions: Unit; activity: Unit } | null {
+  const [numerator, denominator, ...rest] = unit.split('/');
+  if (denominator === undefined || rest.length > 0) return null;
+  const emissions = findUnit(numerator);
+  const activity = findUnit(denominator);
+  return emissions?.dimension === 'emissions' && activity ? { emissions, activity } : null;
+}
+
+export const factorUnitError = (unit: string) =>
+  parseFactorUnit(unit) ? null : 'Unit must be an emissions unit per activity unit, e.g. tCO2e/kWh, kgCO2e/kWh or tCO2e/L';
+
+/**
+ * tCO₂e per unit of the row's Quantity: a kgCO₂/kWh factor is scaled to tonnes
+ * and a per-MWh factor to the row's kWh. Null when the factor's unit cannot be
+ * read or its activity unit measures something else than the row.
+ */
+export function factorForActivity(factor: EmissionFactor, activityUnit?: string | null): number | null {
+  const parsed = parseFactorUnit(factor.unit);
+  if (!parsed) return null;
+  const perActivity = factor.value * convert(1, parsed.emissions.id, 'tCO2e');
+  const rowUnit = findUnit(activityUnit);
+  if (!rowUnit) return perActivity;
+  return rowUnit.dimension === parsed.activity.dimension ? perActivity * convert(1, rowUnit.id, parsed.activity.id) : null;
+}
+
+// The row's unit, or the one named in its Parameter, Sub Category or Type, e.g. "Diesel (L)"
+const activityUnit = (activity: FactorActivity) =>
+  activity.unit !== undefined
+    ? activity.unit
+    : [activity.parameter, activity.subCategory, activity.type].map(unitInName).find(Boolean)?.id ?? null;
+
+const isEffective = (factor: EmissionFactor, date: string | null) =>
+  date === null || (factor.effectiveFrom <= date && (!factor.effectiveTo || date <= factor.effectiveTo));
+
+/**
+ * The library factor for an activity row: its fuel/source must appear in the
+ * row's Sub Category, Type or Parameter, its unit must fit the row's
+ * quantity and the row's month must fall within the factor's effective dates.
+ * Among those the most specific region wins, then the most recent effective date.
+ */
+export function resolveEmissionFactor(activity: FactorActivity, factors: EmissionFactor[]): EmissionFactor | null {
+  const date = fiscalPeriodStart(activity.financialYear, activity.month);
+  const candidates = factors.filter(f =>
+    f.source.trim() &&
+    [activity.subCategory, activity.type, activity.parameter].some(field => includes(field, f.source.trim())) &&
+    isEffective(f, date) &&
+    factorForActivity(f, activityUnit(activity)) !== null
+  );
+  if (candidates.length === 0) return null;
+  return candidates.sort((a, b) =>
+    regionRank(b, activity) - regionRank(a, activity) ||
+    b.effectiveFrom.localeCompare(a.effectiveFrom) ||
+    b.year - a.year
+  )[0];
+}
+
+export const describeEmissionFactor = (factor: EmissionFactor) =>
+  [factor.standard, factor.vintage || String(factor.year), factor.region || 'All regions', factor.source].join(' · ');
+
+export const RECORD_FACTOR_LABEL = 'As stored on the row (no library factor)';
+
+/**
+ * Emissions for each row from the library. Rows no factor fits keep their
+ * stored figure, Quantity × ConvFactor unless `stored` reads it otherwise.
+ */
+export function applyEmissionFactors<T extends FactorActivity>(
+  records: T[],
+  factors: EmissionFactor[],
+  stored: (record: T) => number = atConvFactor
+): WithEmissionFactor<T>[] {
+  return records.map(record => {
+    const factor = resolveEmissionFactor(record, factors);
+    const quantity = record.quantity || 0;
+    const storedFigure = stored(record);
+    if (!factor) {
+      const emissionFactor = { factorId: null, label: RECORD_FACTOR_LABEL, factor: quantity ? storedFigure / quantity : record.convFactor || 0 };
+      return { ...record, emissionFactor, co2Emissions: storedFigure, storedEmissions: storedFigure };
+    }
+    const perUnit = factorForActivity(factor, activityUnit(record))!;
+    const emissionFactor = { factorId: factor.id, label: describeEmissionFactor(factor), factor: perUnit };
+    return { ...record, emissionFactor, co2Emissions: quantity * perUnit, storedEmissions: storedFigure };
+  });
+}
+
+export type WithGhgEmissions<T> = T | WithEmissionFactor<T>;
+
+export const emissionsOf = <T extends FactorActivity & { value: number }>(record: WithGhgEmissions<T>) =>
+  'co2Emissions' in record ? record.co2Emissions : record.value;
+
+/**
+ * Applies the library to the GHG rows of a mixed extract; rows of other
+ * attributes come back unchanged, as their Value is not tCO₂e.
+ */
+export function applyGhgEmissionFactors<T extends FactorActivity & { attribute: string | null; value: number }>(
+  records: T[],
+  factors: EmissionFactor[]
+): WithGhgEmissions<T>[] {
+  return records.map(record =>
+    (record.attribute ?? '').trim() === GHG_ATTRIBUTE ? applyEmissionFactors([record], factors, storedEmissions)[0] : record
+  );
+}
+
+export interface FactorUsage {
+  factorId: string | null;
+  label: string;
+  factor: number;
+  records: number;
+  quantity: number;
+  emissions: number;
+  // The same rows as stored, i.e. before recalculation from the library
+  storedEmissions: number;
+}
+
+// Rows by the factor that produced their emissions; rows the library was not applied to are left out
+export function summarizeFactorUsage<T extends FactorActivity>(records: WithGhgEmissions<T>[]): FactorUsage[] {
+  const usage = new Map<string, FactorUsage>();
+  records.forEach(record => {
+    if (!('emissionFactor' in record)) return;
+    const { factorId, label, factor } = record.emissionFactor;
+    const key = factorId ?? '';
+    if (!usage.has(key)) {
+      usage.set(key, { factorId, label, factor, records: 0, quantity: 0, emissions: 0, storedEmissions: 0 });
+    }
+    const entry = usage.get(key)!;
+    entry.records++;
+    entry.quantity += record.quantity || 0;
+    entry.emissions += record.co2Emissions;
+    entry.storedEmissions += record.storedEmissions;
+  });
+  return Array.from(usage.values()).sort((a, b) => b.emissions - a.emissions);
+}
+
+// Current factors plus every earlier revision, so a vintage change can be traced
+export function downloadEmissionFactorWorkbook(factors: EmissionFactor[]) {
+  const row = (f: Omit<EmissionFactor, 'id' | 'revisions'>, id: string, status: string) => ({
+    'Factor ID': id,
+    Status: status,
+    'Fuel / Source': f.source,
+    Region: f.region,
+    Year: f.year,
+    Standard: f.standard,
+    Vintage: f.vintage,
+    Factor: f.value,
+    Unit: f.unit,
+    'Effective From': f.effectiveFrom,
+    'Effective To': f.effectiveTo ?? '',
+    'Updated At': f.updatedAt,
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(factors.map(f => row(f, f.id, f.retiredAt ? 'Retired' : 'Current'))), 'Factors');
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(factors.flatMap(f => f.revisions.map(r => row(r, f.id, 'Superseded')))),
+    'Revision History'
+  );
+  XLSX.writeFile(workbook, 'Emission_Factor_Library.xlsx');
+}
@@ -0,0 +1,244 @@
+import { AttributeRecord, NormalizedQuantity } from '../services/esgRecords';
+import { compareFiscalYears, fiscalMonthName, sortByFiscalPeriod } from './fiscalCalendar';
+import { BASE_UNITS, recordUnit } from './units';
+
+// Energy mix per GRI 302-1, ESRS E1-5 and BRSR Core Attribute 3: the Energy
+// sheet, grid / captive electricity and fossil fuels brought to one GJ total
+// and split renewable / non-renewable by a configurable source classification.
+
+export type EnergyStream = 'energy' | 'electricity' | 'fuel';
+
+export const ENERGY_STREAMS: { id: EnergyStream; label: string }[] = [
+  { id: 'energy', label: 'Energy sheet' },
+  { id: 'electricity', label: 'Electricity' },
+  { id: 'fuel', label: 'Fossil fuel' },
+];
+
+// Attribute each stream is read from. The electricity and fuel endpoints return
+// every attribute of their Sub Category, including the Energy sheet's own rows,
+// so those streams keep only the GHG sheet's activity rows (Quantity in kWh or
+// fuel units); a row is still counted once however many streams return it.
+export const STREAM_ATTRIBUTES: Record<EnergyStream, string> = {
+  energy: '3.Energy(GJ)',
+  electricity: '1.GHG(tCO2e)',
+  fuel: '1.GHG(tCO2e)',
+};
+
+export interface EnergySourceRule {
+  id: string;
+  // Case-insensitive text looked for in Type, Sub Category and Parameter
+  pattern: string;
+  source: string;
+  renewable: boolean;
+  // Net calorific value per unit of a fuel row's Quantity; 0 leaves fuel rows unconverted
+  gjPerUnit: number;
+}
+
+const rule = (id: string, pattern: string, source: string, renewable: boolean, gjPerUnit = 0): EnergySourceRule =>
+  ({ id, pattern, source, renewable, gjPerUnit });
+
+// Checked in order, so "non-renewable" comes before "renewable". Calorific values
+// are IPCC 2006 defaults per litre (liquids), kg (solids, LPG, CNG) or SCM (gas).
+export const DEFAULT_ENERGY_SOURCE_RULES: EnergySourceRule[] = [
+  rule('default-non-renewable', 'non-renewable', 'Other non-renewable', false),
+  rule('default-non-renewable-spaced', 'non renewable', 'Other non-renewable', false),
+  rule('default-solar', 'solar', 'Solar', true),
+  rule('default-wind', 'wind', 'Wind', true),
+  rule('default-hydro', 'hydro', 'Hydro', true),
+  rule('default-biomass', 'biomass', 'Biomass', true, 0.0156),
+  rule('default-biogas', 'biogas', 'Biogas', true, 0.0215),
+  rule('default-green', 'green', 'Green power', true),
+  rule('default-renewable', 'renewable', 'Other renewable', true),
+  rule('default-grid', 'grid', 'Grid electricity', false),
+  rule('default-diesel', 'diesel', 'Diesel', false, 0.0359),
+  rule('default-hsd', 'hsd', 'Diesel', false, 0.0359),
+  rule('default-petrol', 'petrol', 'Petrol', false, 0.033),
+  rule('default-lpg', 'lpg', 'LPG', false, 0.0473),
+  rule('default-cng', 'cng', 'CNG', false, 0.048),
+  rule('default-png', 'png', 'Natural gas', false, 0.0373),
+  rule('default-natural-gas', 'natural gas', 'Natural gas', false, 0.0373),
+  rule('default-furnace-oil', 'furnace oil', 'Furnace oil', false, 0.038),
+  rule('default-kerosene', 'kerosene', 'Kerosene', false, 0.035),
+  rule('default-pet-coke', 'pet coke', 'Petroleum coke', false, 0.0325),
+  rule('default-coal', 'coal', 'Coal', false, 0.0258),
+  rule('default-electricity', 'electricity', 'Grid electricity', false),
+];
+
+const fieldsOf = (record: AttributeRecord) => [record.type, record.subCategory, record.parameter];
+
+export const ruleMatchesEnergySource = (r: EnergySourceRule, record: AttributeRecord) =>
+  r.pattern.trim() !== '' && fieldsOf(record).some(field => (field ?? '').toLowerCase().includes(r.pattern.trim().toLowerCase()));
+
+export const classifyEnergySource = (record: AttributeRecord, rules: EnergySourceRule[]) =>
+  rules.find(r => ruleMatchesEnergySource(r, record)) ?? null;
+
+// Rows no rule matches count as non-renewable
+export const isRenewableSource = (record: AttributeRecord, rules: EnergySourceRule[]) =>
+  classifyEnergySource(record, rules)?.renewable ?? false;
+
+/**
+ * A row's energy in GJ: the Energy sheet's converted Value, electricity
+ * Quantity converted from its unit, and fuel Quantity × the matched rule's
+ * calorific value. Electricity rows not in an energy unit and fuel rows with no
+ * calorific value give null, since their Value is emissions, not energy.
+ */
+export function energyInGJ(
+  record: AttributeRecord & Partial<NormalizedQuantity>,
+  stream: EnergyStream,
+  rules: EnergySourceRule[]
+): number | null {
+  if (stream === 'energy') return record.value || (record.quantity || 0) * (record.convFactor || 0);
+  if (stream === 'electricity') {
+    // Rows from the API carry their quantity in the base unit already, and keep it when restated for display
+    if (record.normalizedUnit !== undefined) {
+      return record.normalizedUnit === BASE_UNITS.energy ? record.normalizedQuantity ?? null : null;
+    }
+    const unit = recordUnit(record, 'electricity');
+    return unit?.dimension === 'energy' ? (record.quantity || 0) * unit.toBase : null;
+  }
+  const gjPerUnit = classifyEnergySource(record, rules)?.gjPerUnit ?? 0;
+  return gjPerUnit ? (record.quantity || 0) * gjPerUnit : null;
+}
+
+export type EnergyStreams = Record<EnergyStream, (AttributeRecord & Partial<NormalizedQuantity>)[]>;
+
+export interface EnergySourceTotal {
+  source: string;
+  renewable: boolean;
+  gj: number;
+}
+
+export interface EnergyPeriodShare {
+  period: string;
+  renewable: number;
+  nonRenewable: number;
+  share: number | null;
+}
+
+export interface EnergyMix {
+  total: number;
+  renewable: number;
+  nonRenewable: number;
+  share: number | null;
+  byStream: Record<EnergyStream, number>;
+  bySource: EnergySourceTotal[];
+  byYear: EnergyPeriodShare[];
+  byMonth: EnergyPeriodShare[];
+  // Electricity rows not in an energy unit and fuel rows without a calorific value, per stream and type, left out of every total
+  unconverted: { stream: EnergyStream; type: string; records: number; quantity: number }[];
+  // Rows no rule matches, per type; counted as non-renewable, and fuels among them are unconverted
+  unmatched: { type: string; records: number; gj: number }[];
+  // Rows of another attribute, or already counted in an earlier stream, left out
+  overlapping: number;
+}
+
+const typeKey = (record: AttributeRecord) => (record.type ?? '').trim() || (record.parameter ?? '').trim() || 'Unknown';
+
+const shareOf = (renewable: number, total: number) => (total ? (renewable / total) * 100 : null);
+
+export function computeEnergyMix(streams: EnergyStreams, rules: EnergySourceRule[]): EnergyMix {
+  const byStream: Record<EnergyStream, number> = { energy: 0, electricity: 0, fuel: 0 };
+  const sources = new Map<string, EnergySourceTotal>();
+  const years = new Map<string, { year: string; renewable: number; nonRenewable: number }>();
+  const months = new Map<string, { year: string; month: string; renewable: number; nonRenewable: number }>();
+  const unconverted = new Map<string, { stream: EnergyStream; type: string; records: number; quantity: number }>();
+  const unmatched = new Map<string, { type: string; records: number; gj: number }>();
+  const counted = new Set<string>();
+  let overlapping = 0;
+  let renewable = 0;
+  let nonRenewable = 0;
+
+  ENERGY_STREAMS.forEach(({ id: stream }) => {
+    streams[stream].forEach(record => {
+      const key = record.attributeId === null || record.attributeId === undefined ? null : String(record.attributeId);
+      if ((record.attribute ?? '').trim() !== STREAM_ATTRIBUTES[stream] || (key !== null && counted.has(key))) {
+        overlapping++;
+        return;
+      }
+      if (key !== null) counted.add(key);
+      const matched = classifyEnergySource(record, rules);
+      const gj = energyInGJ(record, stream, rules);
+      if (!matched) {
+        const entry = unmatched.get(typeKey(record)) ?? { type: typeKey(record), records: 0, gj: 0 };
+        entry.records++;
+        entry.gj += gj ?? 0;
+        unmatched.set(entry.type, entry);
+      }
+      if (gj === null) {
+        const unconvertedKey = `${stream}|${typeKey(record)}`;
+        const entry = unconverted.get(unconvertedKey) ?? { stream, type: typeKey(record), records: 0, quantity: 0 };
+        entry.records++;
+        entry.quantity += record.quantity || 0;
+        unconverted.set(unconvertedKey, entry);
+        return;
+      }
+      const isRenewable = matched?.renewable ?? false;
+      byStream[stream] += gj;
+      if (isRenewable) renewable += gj;
+      else nonRenewable += gj;
+
+      const source = matched?.source ?? 'Unclassified';
+      const sourceEntry = sources.get(source) ?? { source, renewable: isRenewable, gj: 0 };
+      sourceEntry.gj += gj;
+      sources.set(source, sourceEntry);
+
+      const year = (record.financialYear ?? '').trim() || 'Unknown';
+      const month = record.month ?? '';
+      const yearEntry = years.get(year) ?? { year, renewable: 0, nonRenewable: 0 };
+      const monthEntry = months.get(`${year}|${fiscalMonthName(month)}`) ?? { year, month, renewable: 0, nonRenewable: 0 };
+      [yearEntry, monthEntry].forEach(entry => {
+        if (isRenewable) entry.renewable += gj;
+        else entry.nonRenewable += gj;
+      });
+      years.set(year, yearEntry);
+      months.set(`${year}|${fiscalMonthName(month)}`, monthEntry);
+    });
+  });
+
+  const total = renewable + nonRenewable;
+  const toShare = (period: string, entry: { renewable: number; nonRenewable: number }): EnergyPeriodShare => ({
+    period,
+    renewable: entry.renewable,
+    nonRenewable: entry.nonRenewable,
+    share: shareOf(entry.renewable, entry.renewable + entry.nonRenewable),
+  });
+
+  return {
+    total,
+    renewable,
+    nonRenewable,
+    share: shareOf(renewable, total),
+    byStream,
+    bySource: Array.from(sources.values()).sort((a, b) => b.gj - a.gj),
+    byYear: Array.from(years.values())
+      .sort((a, b) => compareFiscalYears(a.year, b.year))
+      .map(y => toShare(y.year, y)),
+    byMonth: sortByFiscalPeriod(Array.from(months.values()), m => m.year, m => m.month)
+      .map(m => toShare(`${fiscalMonthName(m.month).slice(0, 3)} ${m.year}`, m)),
+    unconverted: Array.from(unconverted.values()).sort((a, b) => b.records - a.records),
+    unmatched: Array.from(unmatched.values()).sort((a, b) => b.gj - a.gj),
+    overlapping,
+  };
+}
+
+const RULES_STORAGE_KEY = 'esg.energySourceRules';
+
+// Saved rules replace the defaults entirely, so deleted defaults stay deleted
+export function loadEnergySourceRules(): EnergySourceRule[] {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as EnergySourceRule[]) : DEFAULT_ENERGY_SOURCE_RULES;
+  } catch (error) {
+    console.warn('Unable to read energy source rules:', error);
+    return DEFAULT_ENERGY_SOURCE_RULES;
+  }
+}
+
+export function saveEnergySourceRules(rules: EnergySourceRule[]) {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function resetEnergySourceRules(): EnergySourceRule[] {
+  localStorage.removeItem(RULES_STORAGE_KEY);
+  return DEFAULT_ENERGY_SOURCE_RULES;
+}
@@ -0,0 +1,286 @@
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+
+export type FieldType = 'string' | 'number' | 'date';
+
+export interface FieldSpec<T> {
+  key: keyof T & string;
+  header: string;
+  aliases?: string[];
+  type?: FieldType;
+  required?: boolean;
+  // Flag repeated values, e.g. Sr.No.
+  unique?: boolean;
+  // Inclusive bounds for numeric fields such as percentages
+  range?: { min: number; max: number };
+}
+
+export interface IngestionSchema<T> {
+  // Also the module name under /uploads/:module
+  id: string;
+  name: string;
+  fields: FieldSpec<T>[];
+  // Validates records reloaded from the upload store
+  recordSchema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // How many leading rows to scan for the header row
+  headerSearchRows?: number;
+  // Columns that identify the plant / business code a sheet belongs to
+  scopeFields?: { plant?: keyof T & string; businessCode?: keyof T & string };
+}
+
+// Schema field key -> header text as it appears in the uploaded sheet
+export type ColumnMapping = Record<string, string>;
+
+export interface IngestionIssue {
+  // 1-based sheet row; null for file-level problems
+  row: number | null;
+  column: string | null;
+  field?: string;
+  value?: unknown;
+  reason: string;
+  severity: 'error' | 'warning';
+}
+
+export interface IngestionResult<T> {
+  records: T[];
+  // Sheet row number for each record, aligned by index
+  rowNumbers: number[];
+  sheetName: string;
+  headerRow: number;
+  headers: string[];
+  issues: IngestionIssue[];
+}
+
+export class IngestionError extends Error {
+  issues: IngestionIssue[];
+
+  constructor(message: string, issues: IngestionIssue[] = []) {
+    super(message);
+    this.name = 'IngestionError';
+    this.issues = issues;
+  }
+}
+
+export const DEFAULT_HEADER_SEARCH_ROWS = 20;
+
+// Case and whitespace insensitive; punctuation is kept because "Sr.No." and "Sr No" are different columns
+export const normalizeHeader = (header: unknown): string =>
+  header == null ? '' : String(header).replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const isBlank = (cell: unknown) => cell === null || cell === undefined || String(cell).trim() === '';
+
+export const parseNumeric = (val: unknown): number | null => {
+  if (isBlank(val)) return 0;
+  if (typeof val === 'number') return Number.isFinite(val) ? val : null;
+  const cleaned = String(val).replace(/[,₹$€£¥%]/g, '').trim();
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return parseFloat(cleaned);
+};
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Excel serial dates count days from 1899-12-30
+const fromExcelSerial = (serial: number) => new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+
+export const parseDateCell = (val: unknown): string | null => {
+  if (isBlank(val)) return '';
+  if (val instanceof Date) return isNaN(val.getTime()) ? null : toIsoDate(val);
+  if (typeof val === 'number') return val > 0 && val < 2958466 ? toIsoDate(fromExcelSerial(val)) : null;
+
+  const text = String(val).trim();
+  // dd-mm-yyyy / dd/mm/yyyy / dd.mm.yyyy, the format plants use
+  const dmy = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (dmy) {
+    const [, day, month, year] = dmy.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? toIsoDate(date) : null;
+  }
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : toIsoDate(new Date(parsed));
+};
+
+// Mapped fields match only their chosen header, and that header is taken away from any other field
+const buildHeaderLookup = <T>(schema: IngestionSchema<T>, mapping: ColumnMapping = {}) => {
+  const lookup = new Map<string, FieldSpec<T>>();
+  schema.fields.forEach(field => {
+    if (mapping[field.key]) lookup.set(normalizeHeader(mapping[field.key]), field);
+  });
+  schema.fields.forEach(field => {
+    if (mapping[field.key]) return;
+    [field.header, ...(field.aliases || [])].forEach(name => {
+      const normalized = normalizeHeader(name);
+      if (!lookup.has(normalized) || !mapping[lookup.get(normalized)!.key]) lookup.set(normalized, field);
+    });
+  });
+  return lookup;
+};
+
+const matchHeaderRow = <T>(row: unknown[], lookup: Map<string, FieldSpec<T>>) => {
+  const columns = new Map<keyof T & string, number>();
+  row.forEach((cell, idx) => {
+    const field = lookup.get(normalizeHeader(cell));
+    if (field && !columns.has(field.key)) columns.set(field.key, idx);
+  });
+  return columns;
+};
+
+/**
+ * Locates the header row, maps columns through the schema and coerces every
+ * cell to its declared type. Missing required columns abort the import;
+ * cell-level problems (bad numbers or dates, out-of-range values, duplicate
+ * keys) are reported as issues and the cell falls back to an empty value.
+ */
+export function ingestRows<T>(
+  rows: unknown[][],
+  schema: IngestionSchema<T>,
+  sheetName = '',
+  firstRowNumber = 1,
+  mapping?: ColumnMapping
+): IngestionResult<T> {
+  const lookup = buildHeaderLookup(schema, mapping);
+  const required = schema.fields.filter(f => f.required);
+  const searchLimit = Math.min(schema.headerSearchRows ?? DEFAULT_HEADER_SEARCH_ROWS, rows.length);
+
+  let headerIndex = -1;
+  let columns = new Map<keyof T & string, number>();
+  let best = { index: -1, columns: new Map<keyof T & string, number>() };
+
+  for (let i = 0; i < searchLimit; i++) {
+    const row = rows[i];
+    if (!Array.isArray(row)) continue;
+    const matched = matchHeaderRow(row, lookup);
+    if (matched.size > best.columns.size) best = { index: i, columns: matched };
+    if (matched.size > 0 && required.every(f => matched.has(f.key))) {
+      headerIndex = i;
+      columns = matched;
+      break;
+    }
+  }
+
+  if (headerIndex === -1) {
+    const missing = required.filter(f => !best.columns.has(f.key));
+    const issues: IngestionIssue[] = missing.map(f => ({
+      row: best.index >= 0 ? best.index + firstRowNumber : null,
+      column: mapping?.[f.key] || f.header,
+      field: f.key,
+      reason: 'Missing required column',
+      severity: 'error',
+    }));
+    throw new IngestionError(
+      best.index === -1
+        ? `No header row found in the first ${searchLimit} rows`
+        : `Missing required columns: ${missing.map(f => mapping?.[f.key] || f.header).join(', ')}`,
+      issues
+    );
+  }
+
+  const headerRow = rows[headerIndex] as unknown[];
+  const issues: IngestionIssue[] = [];
+  const records: T[] = [];
+  const rowNumbers: number[] = [];
+  // First row each unique value was seen on, per field
+  const seen = new Map<string, Map<string, number>>();
+  schema.fields.filter(f => f.unique).forEach(f => seen.set(f.key, new Map()));
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    if (!Array.isArray(row) || row.every(isBlank)) return;
+    const rowNumber = headerIndex + 1 + offset + firstRowNumber;
+    const record: Record<string, string | number> = {};
+
+    schema.fields.forEach(field => {
+      const type = field.type || 'string';
+      const idx = columns.get(field.key);
+      const raw = idx === undefined ? undefined : row[idx];
+      const column = idx === undefined ? mapping?.[field.key] || field.header : String(headerRow[idx]);
+
+      if (type === 'number') {
+        const parsed = parseNumeric(raw);
+        if (parsed === null) {
+          issues.push({ row: rowNumber, column, field: field.key, value: raw, reason: 'Non-numeric value in numeric field', severity: 'warning' });
+        }
+        record[field.key] = parsed ?? 0;
+        if (parsed !== null && field.range && (parsed < field.range.min || parsed > field.range.max)) {
+          issues.push({
+            row: rowNumber, column, field: field.key, value: raw,
+            reason: `Value out of range (${field.range.min}–${field.range.max})`,
+            severity: 'warning',
+          });
+        }
+      } else if (type === 'date') {
+        const parsed = parseDateCell(raw);
+        if (parsed === null) {
+          issues.push({ row: rowNumber, column, field: field.key, value: raw, reason: 'Unparseable date', severity: 'warning' });
+        }
+        record[field.key] = parsed ?? '';
+      } else {
+        record[field.key] = isBlank(raw) ? '' : String(raw).trim();
+      }
+
+      const firstSeen = seen.get(field.key);
+      if (firstSeen && !isBlank(raw)) {
+        const key = String(record[field.key]);
+        const previous = firstSeen.get(key);
+        if (previous !== undefined) {
+          issues.push({ row: rowNumber, column, field: field.key, value: raw, reason: `Duplicate ${field.header} (first seen on row ${previous})`, severity: 'warning' });
+        } else {
+          firstSeen.set(key, rowNumber);
+        }
+      }
+    });
+
+    records.push(record as T);
+    rowNumbers.push(rowNumber);
+  });
+
+  if (records.length === 0) {
+    throw new IngestionError('No data rows found below the header row');
+  }
+
+  return {
+    records,
+    rowNumbers,
+    sheetName,
+    headerRow: headerIndex + firstRowNumber,
+    headers: headerRow.map(h => (h == null ? '' : String(h))),
+    issues,
+  };
+}
+
+export interface SheetRows {
+  sheetName: string;
+  rows: unknown[][];
+  // Sheet row number of rows[0]
+  firstRowNumber: number;
+}
+
+// Raw rows of the first sheet
+export function readSheetRows(data: ArrayBuffer): SheetRows {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new IngestionError('Workbook contains no sheets');
+  const worksheet = workbook.Sheets[sheetName];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, blankrows: true, defval: null });
+  const firstRowNumber = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r + 1 : 1;
+  return { sheetName, rows, firstRowNumber };
+}
+
+export async function ingestFile<T>(file: File, schema: IngestionSchema<T>, mapping?: ColumnMapping): Promise<IngestionResult<T>> {
+  const { sheetName, rows, firstRowNumber } = readSheetRows(await file.arrayBuffer());
+  return ingestRows(rows, schema, sheetName, firstRowNumber, mapping);
+}
+
+// Issue list as a workbook so plants can fix their sheet offline
+export function downloadIssueReport(issues: IngestionIssue[], fileName: string) {
+  const rows = issues.map(issue => ({
+    Row: issue.row ?? '',
+    Column: issue.column ?? '',
+    Field: issue.field ?? '',
+    Value: issue.value == null ? '' : String(issue.value),
+    Reason: issue.reason,
+    Severity: issue.severity,
+  }));
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.json_to_sheet(rows, { header: ['Row', 'Column', 'Field', 'Value', 'Reason', 'Severity'] });
+  XLSX.utils.book_append_sheet(wb, ws, 'Upload Issues');
+  XLSX.writeFile(wb, fileName);
+}
@@ -0,0 +1,133 @@
+// Indian financial year (April–March), the basis for BRSR reporting.
+
+export type FiscalQuarter = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+export type FiscalHalf = 'H1' | 'H2';
+
+export const FISCAL_MONTHS = [
+  'April', 'May', 'June', 'July', 'August', 'September',
+  'October', 'November', 'December', 'January', 'February', 'March',
+];
+
+export const FISCAL_QUARTERS: Record<FiscalQuarter, string[]> = {
+  Q1: FISCAL_MONTHS.slice(0, 3),
+  Q2: FISCAL_MONTHS.slice(3, 6),
+  Q3: FISCAL_MONTHS.slice(6, 9),
+  Q4: FISCAL_MONTHS.slice(9, 12),
+};
+
+export const FISCAL_HALVES: Record<FiscalHalf, string[]> = {
+  H1: FISCAL_MONTHS.slice(0, 6),
+  H2: FISCAL_MONTHS.slice(6, 12),
+};
+
+const SHORT_MONTHS = FISCAL_MONTHS.map(m => m.slice(0, 3).toLowerCase());
+
+/**
+ * Position of a month within the financial year, April = 0 … March = 11.
+ * Accepts full or short names ("April", "Apr", "apr-23") and calendar
+ * numbers ("4", "04"). Unrecognised values sort last (12).
+ */
+export function fiscalMonthIndex(month: string | null | undefined): number {
+  const text = (month ?? '').trim().toLowerCase();
+  if (/^\d{1,2}$/.test(text)) {
+    const calendarMonth = Number(text);
+    return calendarMonth >= 1 && calendarMonth <= 12 ? (calendarMonth + 8) % 12 : 12;
+  }
+  const idx = SHORT_MONTHS.indexOf(text.slice(0, 3));
+  return idx === -1 ? 12 : idx;
+}
+
+// Canonical month name, or the input unchanged when it is not a month
+export const fiscalMonthName = (month: string | null | undefined): string => {
+  const idx = fiscalMonthIndex(month);
+  return idx < 12 ? FISCAL_MONTHS[idx] : (month ?? '').trim();
+};
+
+export const fiscalQuarter = (month: string | null | undefined): FiscalQuarter | null => {
+  const idx = fiscalMonthIndex(month);
+  return idx < 12 ? (`Q${Math.floor(idx / 3) + 1}` as FiscalQuarter) : null;
+};
+
+export const fiscalHalf = (month: string | null | undefined): FiscalHalf | null => {
+  const idx = fiscalMonthIndex(month);
+  return idx < 12 ? (idx < 6 ? 'H1' : 'H2') : null;
+};
+
+export const compareFiscalMonths = (a: string | null | undefined, b: string | null | undefined) =>
+  fiscalMonthIndex(a) - fiscalMonthIndex(b);
+
+/**
+ * Calendar year in which a financial year starts. Handles "2023-24",
+ * "2023-2024", "FY 2023-24" and "FY24"/"FY2024" (named by the year it ends,
+ * per Indian convention). A bare "2023" is taken as the starting year.
+ */
+export function fiscalYearStart(financialYear: string | null | undefined): number | null {
+  const text = (financialYear ?? '').trim().toUpperCase();
+  const range = text.match(/(\d{4})\s*[-/–]\s*(\d{2,4})/);
+  if (range) return Number(range[1]);
+  const fy = text.match(/^FY\s*'?(\d{2}|\d{4})$/);
+  if (fy) return (fy[1].length === 2 ? 2000 + Number(fy[1]) : Number(fy[1])) - 1;
+  const year = text.match(/^(\d{4})$/);
+  return year ? Number(year[1]) : null;
+}
+
+/**
+ * First day of a fiscal month as "YYYY-MM-DD" (Jan–Mar fall in the FY's second
+ * calendar year). Without a recognisable month the FY's 1 April is used.
+ */
+export function fiscalPeriodStart(financialYear: string | null | undefined, month: string | null | undefined): string | null {
+  const start = fiscalYearStart(financialYear);
+  if (start === null) return null;
+  const idx = fiscalMonthIndex(month) % 12;
+  const calendarMonth = ((idx + 3) % 12) + 1;
+  return `${idx < 9 ? start : start + 1}-${String(calendarMonth).padStart(2, '0')}-01`;
+}
+
+export const compareFiscalYears = (a: string | null | undefined, b: string | null | undefined) => {
+  const ya = fiscalYearStart(a);
+  const yb = fiscalYearStart(b);
+  if (ya === null || yb === null) return ya === null ? (yb === null ? String(a).localeCompare(String(b)) : 1) : -1;
+  return ya - yb;
+};
+
+// Earliest FY first, then April → March within each year
+export function sortByFiscalPeriod<T>(rows: T[], getYear: (row: T) => string | null | undefined, getMonth: (row: T) => string | null | undefined): T[] {
+  return [...rows].sort((a, b) => compareFiscalYears(getYear(a), getYear(b)) || compareFiscalMonths(getMonth(a), getMonth(b)));
+}
+
+export function sortByFiscalMonth<T>(rows: T[], getMonth: (row: T) => string | null | undefined): T[] {
+  return [...rows].sort((a, b) => compareFiscalMonths(getMonth(a), getMonth(b)));
+}
+
+export interface YearOverYearSeries {
+  // One row per fiscal month, April first; each FY's total is keyed by its label
+  rows: Array<{ month: string } & Record<string, number | string>>;
+  years: string[];
+}
+
+/**
+ * Lines up the same fiscal month across financial years, so April is compared
+ * with April of the previous FY rather than with the calendar year's January.
+ */
+export function alignYearOverYear<T>(
+  records: T[],
+  getYear: (row: T) => string | null | undefined,
+  getMonth: (row: T) => string | null | undefined,
+  getValue: (row: T) => number
+): YearOverYearSeries {
+  const years = Array.from(new Set(records.map(r => (getYear(r) ?? '').trim() || 'Unknown'))).sort(compareFiscalYears);
+  const rows = FISCAL_MONTHS.map(month => {
+    const row: { month: string } & Record<string, number | string> = { month: month.slice(0, 3) };
+    years.forEach(year => { row[year] = 0; });
+    return row;
+  });
+
+  records.forEach(record => {
+    const idx = fiscalMonthIndex(getMonth(record));
+    if (idx === 12) return;
+    const year = (getYear(record) ?? '').trim() || 'Unknown';
+    rows[idx][year] = (rows[idx][year] as number) + getValue(record);
+  });
+
+  return { rows, years };
+}
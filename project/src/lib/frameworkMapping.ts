@@ -0,0 +1,304 @@
+import * as XLSX from 'xlsx';
+import { AttributeRecord } from '../services/esgRecords';
+import { FilterOptions } from '../services/apiService';
+import { describeFilters } from './reportWorkbook';
+import { WithGhgEmissions } from './emissionFactors';
+import { isDisposed, isRecovered } from './wasteHierarchy';
+
+// Links AttributeDetail rows to disclosures in external reporting frameworks.
+// Rules match on Attribute / Parameter / SubCategory, and optionally on a waste
+// row's place in the waste hierarchy, so GRI 306-4/5 agree with BRSR Core 4.d/e.
+// They are editable per browser; the defaults cover the usual GRI, ESRS and CDP
+// environmental metrics.
+
+export type FrameworkId = 'GRI' | 'ESRS' | 'CDP';
+
+export const FRAMEWORKS: { id: FrameworkId; name: string }[] = [
+  { id: 'GRI', name: 'GRI Standards' },
+  { id: 'ESRS', name: 'EU ESRS' },
+  { id: 'CDP', name: 'CDP' },
+];
+
+// quantity: the Quantity column as recorded; converted: tCO2e from the emission factor library
+// on GHG rows, elsewhere Value, or Quantity × ConvFactor when Value is empty
+export type DisclosureBasis = 'quantity' | 'converted';
+
+export interface FrameworkDisclosure {
+  framework: FrameworkId;
+  code: string;
+  title: string;
+  unit: string;
+  basis: DisclosureBasis;
+}
+
+export const FRAMEWORK_DISCLOSURES: FrameworkDisclosure[] = [
+  { framework: 'GRI', code: '302-1', title: 'Energy consumption within the organization', unit: 'GJ', basis: 'converted' },
+  { framework: 'GRI', code: '303-3', title: 'Water withdrawal', unit: 'KL', basis: 'quantity' },
+  { framework: 'GRI', code: '303-4', title: 'Water discharge', unit: 'KL', basis: 'quantity' },
+  { framework: 'GRI', code: '303-5', title: 'Water consumption', unit: 'KL', basis: 'quantity' },
+  { framework: 'GRI', code: '305-1', title: 'Direct (Scope 1) GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'GRI', code: '305-2', title: 'Energy indirect (Scope 2) GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'GRI', code: '305-3', title: 'Other indirect (Scope 3) GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'GRI', code: '305-7', title: 'NOx, SOx and other significant air emissions', unit: 'as recorded', basis: 'quantity' },
+  { framework: 'GRI', code: '306-3', title: 'Waste generated', unit: 'MT', basis: 'quantity' },
+  { framework: 'GRI', code: '306-4', title: 'Waste diverted from disposal', unit: 'MT', basis: 'quantity' },
+  { framework: 'GRI', code: '306-5', title: 'Waste directed to disposal', unit: 'MT', basis: 'quantity' },
+  { framework: 'ESRS', code: 'E1-5', title: 'Energy consumption and mix', unit: 'GJ', basis: 'converted' },
+  { framework: 'ESRS', code: 'E1-6 (Scope 1)', title: 'Gross Scope 1 GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'ESRS', code: 'E1-6 (Scope 2)', title: 'Gross Scope 2 GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'ESRS', code: 'E1-6 (Scope 3)', title: 'Gross Scope 3 GHG emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'ESRS', code: 'E2-4', title: 'Pollution of air, water and soil', unit: 'as recorded', basis: 'quantity' },
+  { framework: 'ESRS', code: 'E3-4', title: 'Water consumption', unit: 'KL', basis: 'quantity' },
+  { framework: 'ESRS', code: 'E5-5', title: 'Resource outflows - waste', unit: 'MT', basis: 'quantity' },
+  { framework: 'CDP', code: 'C6.1', title: 'Gross global Scope 1 emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'CDP', code: 'C6.3', title: 'Gross global Scope 2 emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'CDP', code: 'C6.5', title: 'Gross global Scope 3 emissions', unit: 'tCO2e', basis: 'converted' },
+  { framework: 'CDP', code: 'C8.2a', title: 'Energy-related activities - consumption', unit: 'GJ', basis: 'converted' },
+  { framework: 'CDP', code: 'W1.2b', title: 'Total water withdrawals, discharges and consumption', unit: 'KL', basis: 'quantity' },
+];
+
+export const disclosureKey = (d: { framework: FrameworkId; code: string }) => `${d.framework}:${d.code}`;
+
+const DISCLOSURES_BY_KEY = new Map(FRAMEWORK_DISCLOSURES.map(d => [disclosureKey(d), d]));
+
+// Place on the waste hierarchy, as BRSR Core 4.d (recovered) and 4.e (disposed) read it
+export type WasteRoute = 'recovered' | 'disposed';
+
+export const WASTE_ROUTES: { id: WasteRoute; label: string }[] = [
+  { id: 'recovered', label: 'Recovered (reuse, recycling, other recovery)' },
+  { id: 'disposed', label: 'Disposed (incineration, landfill)' },
+];
+
+export interface FrameworkMappingRule {
+  id: string;
+  // Exact Attribute, or empty for any
+  attribute: string;
+  // Case-insensitive "contains" matches; empty matches anything
+  parameter: string;
+  subCategory: string;
+  // Absent matches any row
+  wasteRoute?: WasteRoute;
+  disclosures: string[];
+}
+
+const rule = (
+  id: string,
+  attribute: string,
+  parameter: string,
+  subCategory: string,
+  disclosures: string[],
+  wasteRoute?: WasteRoute
+): FrameworkMappingRule => ({ id, attribute, parameter, subCategory, ...(wasteRoute && { wasteRoute }), disclosures });
+
+const GHG = '1.GHG(tCO2e)';
+const WATER = '2.Water(KL)';
+const ENERGY = '3.Energy(GJ)';
+const WASTE = '4.Waste(MT)';
+const SCOPE_1 = ['GRI:305-1', 'ESRS:E1-6 (Scope 1)', 'CDP:C6.1'];
+const SCOPE_2 = ['GRI:305-2', 'ESRS:E1-6 (Scope 2)', 'CDP:C6.3'];
+const SCOPE_3 = ['GRI:305-3', 'ESRS:E1-6 (Scope 3)', 'CDP:C6.5'];
+
+export const DEFAULT_MAPPING_RULES: FrameworkMappingRule[] = [
+  rule('default-scope1', GHG, 'Scope 1', '', SCOPE_1),
+  rule('default-scope1-sub', GHG, '', 'Scope 1', SCOPE_1),
+  rule('default-scope1-fuel', GHG, '', 'Fossil Fuel', SCOPE_1),
+  rule('default-scope1-fugitive', GHG, '', 'Fugitive', SCOPE_1),
+  rule('default-scope2', GHG, 'Scope 2', '', SCOPE_2),
+  rule('default-scope2-sub', GHG, '', 'Scope 2', SCOPE_2),
+  rule('default-scope2-electricity', GHG, '', 'Electricity', SCOPE_2),
+  rule('default-scope3', GHG, 'Scope 3', '', SCOPE_3),
+  rule('default-scope3-sub', GHG, '', 'Scope 3', SCOPE_3),
+  rule('default-energy', ENERGY, '', '', ['GRI:302-1', 'ESRS:E1-5', 'CDP:C8.2a']),
+  rule('default-water-withdrawal', WATER, 'Withdrawal', '', ['GRI:303-3', 'CDP:W1.2b']),
+  rule('default-water-withdrawal-sub', WATER, '', 'Withdrawal', ['GRI:303-3', 'CDP:W1.2b']),
+  rule('default-water-discharge', WATER, 'Discharge', '', ['GRI:303-4']),
+  rule('default-water-consumption', WATER, 'Consumption', '', ['GRI:303-5', 'ESRS:E3-4']),
+  rule('default-waste', WASTE, '', '', ['GRI:306-3', 'ESRS:E5-5']),
+  rule('default-waste-recovered', WASTE, '', '', ['GRI:306-4'], 'recovered'),
+  rule('default-waste-disposed', WASTE, '', '', ['GRI:306-5'], 'disposed'),
+  rule('default-non-ghg', '1.Non GHG', '', '', ['GRI:305-7', 'ESRS:E2-4']),
+];
+
+const contains = (value: string | null, pattern: string) =>
+  !pattern.trim() || (value ?? '').toLowerCase().includes(pattern.trim().toLowerCase());
+
+const WASTE_ROUTE_TESTS: Record<WasteRoute, (record: AttributeRecord) => boolean> = {
+  recovered: isRecovered,
+  disposed: isDisposed,
+};
+
+export const ruleMatches = (r: FrameworkMappingRule, record: AttributeRecord) =>
+  (!r.attribute.trim() || (record.attribute ?? '').trim() === r.attribute.trim()) &&
+  contains(record.parameter, r.parameter) &&
+  contains(record.subCategory, r.subCategory) &&
+  (!r.wasteRoute || WASTE_ROUTE_TESTS[r.wasteRoute](record));
+
+// AttributeDetail rows, the GHG ones with the library factor applied
+export type FrameworkRecord = WithGhgEmissions<AttributeRecord>;
+
+export const basisValue = (record: FrameworkRecord, basis: DisclosureBasis) => {
+  if (basis === 'quantity') return record.quantity || 0;
+  return 'co2Emissions' in record ? record.co2Emissions : record.value || (record.quantity || 0) * (record.convFactor || 0);
+};
+
+export const emissionFactorLabel = (record: FrameworkRecord) => ('emissionFactor' in record ? record.emissionFactor.label : '');
+
+export type CoverageStatus = 'covered' | 'partial' | 'no-data' | 'not-mapped';
+
+export const COVERAGE_LABELS: Record<CoverageStatus, string> = {
+  covered: 'Covered',
+  partial: 'Partial',
+  'no-data': 'No data',
+  'not-mapped': 'Not mapped',
+};
+
+export interface DisclosureResult extends FrameworkDisclosure {
+  value: number;
+  coverage: CoverageStatus;
+  // Plants with at least one source record, out of all plants in the data
+  plantsReporting: number;
+  plantsTotal: number;
+  ruleCount: number;
+  records: FrameworkRecord[];
+}
+
+export interface UnmappedCombination {
+  attribute: string;
+  parameter: string;
+  subCategory: string;
+  records: number;
+}
+
+const plantOf = (r: AttributeRecord) => r.plant?.trim() || 'Unassigned';
+
+/**
+ * Values every disclosure of a framework from the rows its rules match. A row
+ * counts once per disclosure even when several rules link it there. Coverage is
+ * partial when some plants in the data have no rows for the disclosure.
+ */
+export function evaluateFramework(framework: FrameworkId, records: FrameworkRecord[], rules: FrameworkMappingRule[]): DisclosureResult[] {
+  const plantsTotal = new Set(records.map(plantOf)).size;
+
+  return FRAMEWORK_DISCLOSURES.filter(d => d.framework === framework).map(disclosure => {
+    const key = disclosureKey(disclosure);
+    const linked = rules.filter(r => r.disclosures.includes(key));
+    const matched = linked.length ? records.filter(record => linked.some(r => ruleMatches(r, record))) : [];
+    const plantsReporting = new Set(matched.map(plantOf)).size;
+    const coverage: CoverageStatus = linked.length === 0
+      ? 'not-mapped'
+      : matched.length === 0 ? 'no-data' : plantsReporting < plantsTotal ? 'partial' : 'covered';
+
+    return {
+      ...disclosure,
+      value: matched.reduce((sum, r) => sum + basisValue(r, disclosure.basis), 0),
+      coverage,
+      plantsReporting,
+      plantsTotal,
+      ruleCount: linked.length,
+      records: matched,
+    };
+  });
+}
+
+// Attribute / Parameter / SubCategory combinations that no rule links to any disclosure
+export function findUnmapped(records: AttributeRecord[], rules: FrameworkMappingRule[]): UnmappedCombination[] {
+  const active = rules.filter(r => r.disclosures.length > 0);
+  const combos = new Map<string, UnmappedCombination>();
+  records.forEach(record => {
+    if (active.some(r => ruleMatches(r, record))) return;
+    const combo = {
+      attribute: record.attribute?.trim() || '',
+      parameter: record.parameter?.trim() || '',
+      subCategory: record.subCategory?.trim() || '',
+    };
+    const key = `${combo.attribute}|${combo.parameter}|${combo.subCategory}`;
+    const existing = combos.get(key);
+    if (existing) existing.records++;
+    else combos.set(key, { ...combo, records: 1 });
+  });
+  return Array.from(combos.values()).sort((a, b) => b.records - a.records);
+}
+
+export const describeDisclosure = (key: string) => {
+  const d = DISCLOSURES_BY_KEY.get(key);
+  return d ? `${d.framework} ${d.code} - ${d.title}` : key;
+};
+
+const RULES_STORAGE_KEY = 'esg.frameworkMappingRules';
+
+// Earlier defaults matched disposal methods on Parameter; saved copies give way to the waste-route rules
+const SUPERSEDED_DEFAULTS: Record<string, string> = {
+  'default-waste-recycled': 'default-waste-recovered',
+  'default-waste-landfill': 'default-waste-disposed',
+  'default-waste-incineration': 'default-waste-disposed',
+};
+
+const upgradeRules = (rules: FrameworkMappingRule[]) =>
+  rules
+    .map(r => DEFAULT_MAPPING_RULES.find(d => d.id === SUPERSEDED_DEFAULTS[r.id]) ?? r)
+    .filter((r, idx, all) => all.findIndex(other => other.id === r.id) === idx);
+
+// Saved rules replace the defaults entirely, so removed defaults stay removed
+export function loadMappingRules(): FrameworkMappingRule[] {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? upgradeRules(JSON.parse(stored) as FrameworkMappingRule[]) : DEFAULT_MAPPING_RULES;
+  } catch (error) {
+    console.warn('Unable to read framework mapping rules:', error);
+    return DEFAULT_MAPPING_RULES;
+  }
+}
+
+export function saveMappingRules(rules: FrameworkMappingRule[]) {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function resetMappingRules(): FrameworkMappingRule[] {
+  localStorage.removeItem(RULES_STORAGE_KEY);
+  return DEFAULT_MAPPING_RULES;
+}
+
+// One workbook per framework: the disclosures, then every source row tagged with its disclosure
+export function downloadFrameworkWorkbook(framework: FrameworkId, results: DisclosureResult[], filters: FilterOptions = {}) {
+  const name = FRAMEWORKS.find(f => f.id === framework)?.name ?? framework;
+  const summary: (string | number)[][] = [
+    [`${name} - Disclosure Values`],
+    ['Generated', new Date().toLocaleString()],
+    ...describeFilters(filters).filter(([, value]) => value !== 'All'),
+    [],
+    ['Disclosure', 'Title', 'Value', 'Unit', 'Coverage', 'Plants Reporting', 'Source Records'],
+    ...results.map(r => [
+      r.code,
+      r.title,
+      Math.round(r.value * 100) / 100,
+      r.unit,
+      COVERAGE_LABELS[r.coverage],
+      r.plantsTotal ? `${r.plantsReporting} of ${r.plantsTotal}` : '',
+      r.records.length,
+    ]),
+  ];
+
+  const sourceRows = results.flatMap(r =>
+    r.records.map(record => ({
+      Disclosure: r.code,
+      'Financial Year': record.financialYear,
+      Month: record.month,
+      'Business Code': record.businessCode,
+      Plant: record.plant,
+      Department: record.department,
+      Attribute: record.attribute,
+      Parameter: record.parameter,
+      'Sub Category': record.subCategory,
+      Quantity: record.quantity,
+      'Conv Factor': record.convFactor,
+      Value: record.value,
+      'Counted As': Math.round(basisValue(record, r.basis) * 100) / 100,
+      'Emission Factor': emissionFactorLabel(record),
+    }))
+  );
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), 'Disclosures');
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sourceRows), 'Source Records');
+  XLSX.writeFile(wb, `${framework}_Disclosures.xlsx`);
+}
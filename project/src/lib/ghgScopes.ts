@@ -0,0 +1,31 @@
+export type GHGScope = 'Scope 1' | 'Scope 2' | 'Scope 3' | 'Unclassified';
+
+export const GHG_SCOPES: GHGScope[] = ['Scope 1', 'Scope 2', 'Scope 3'];
+
+// Sub categories that imply a scope when the row does not name one explicitly
+const SCOPE_KEYWORDS: { scope: GHGScope; pattern: RegExp }[] = [
+  { scope: 'Scope 1', pattern: /fossil fuel|fugitive|stationary|mobile combustion|process emission|refrigerant/i },
+  { scope: 'Scope 2', pattern: /electricity|purchased (heat|steam|cooling)|grid/i },
+  { scope: 'Scope 3', pattern: /business travel|commut|purchased goods|transport|capital goods|waste generated|upstream|downstream/i },
+];
+
+/**
+ * Resolves the GHG Protocol scope of an AttributeDetail row.
+ * An explicit "Scope N" in Parameter, SubCategory or Type wins; otherwise the
+ * sub category is matched against known emission sources.
+ */
+export const classifyScope = (record: { parameter?: string | null; subCategory?: string | null; type?: string | null }): GHGScope => {
+  const fields = [record.parameter, record.subCategory, record.type].filter(Boolean) as string[];
+
+  for (const field of fields) {
+    const match = field.match(/scope\s*-?\s*([123])/i);
+    if (match) return `Scope ${match[1]}` as GHGScope;
+  }
+
+  for (const field of fields) {
+    const keyword = SCOPE_KEYWORDS.find(k => k.pattern.test(field));
+    if (keyword) return keyword.scope;
+  }
+
+  return 'Unclassified';
+};
@@ -0,0 +1,182 @@
+import { IngestionSchema } from './excelIngestion';
+import {
+  FugitiveRecord,
+  Scope3Record,
+  DiversityRecord,
+  InclusionRecord,
+  FairnessRecord,
+  OpennessRecord,
+  fugitiveRecordSchema,
+  scope3RecordSchema,
+  diversityRecordSchema,
+  inclusionRecordSchema,
+  fairnessRecordSchema,
+  opennessRecordSchema,
+} from '../services/esgRecords';
+
+// Upload layouts for the Excel-driven modules. Header strings are the ones the
+// ESG portal exports; aliases cover the variations plants send in.
+
+const PERCENT = { min: 0, max: 100 };
+
+export const SCOPE3_SCHEMA: IngestionSchema<Scope3Record> = {
+  id: 'scope3',
+  name: 'Scope 3',
+  recordSchema: scope3RecordSchema,
+  scopeFields: { plant: 'plant', businessCode: 'businessCode' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['Sr No', 'S.No.', 'Sl No'], required: true, unique: true },
+    { key: 'brsrId', header: 'BRSR ID', aliases: ['BRSR Id'] },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'businessCode', header: 'Business Code', aliases: ['Dim1'] },
+    { key: 'plant', header: 'Plant', aliases: ['Dim2'] },
+    { key: 'department', header: 'Department', aliases: ['Dim3'] },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'parameter', header: 'Parameter' },
+    { key: 'subCategory', header: 'Sub Category', aliases: ['SubCategory', 'Sub-Category'], required: true },
+    { key: 'totalQuantity', header: 'Total Quantity', type: 'number', required: true },
+    { key: 'totalEFFuel', header: 'Total EFFuel', aliases: ['Total EF Fuel'], type: 'number', required: true },
+    { key: 'totalValue', header: 'Total Value', type: 'number', required: true },
+    { key: 'docStatus', header: 'Doc Status' },
+    { key: 'pendingWith', header: 'Pending With' },
+  ],
+};
+
+export const FUGITIVE_SCHEMA: IngestionSchema<FugitiveRecord> = {
+  id: 'fugitive',
+  name: 'Fugitive',
+  recordSchema: fugitiveRecordSchema,
+  scopeFields: { plant: 'plant', businessCode: 'businessCode' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['S.No.'], required: true, unique: true },
+    { key: 'attributeId', header: 'Attribute Id', aliases: ['AttributeId'] },
+    { key: 'srNoAlt', header: 'Sr No' },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'month', header: 'Month', required: true },
+    { key: 'businessCode', header: 'Business Code', aliases: ['Dim1'] },
+    { key: 'plant', header: 'Plant', aliases: ['Dim2'], required: true },
+    { key: 'department', header: 'Department', aliases: ['Dim3'] },
+    { key: 'objectiveCode', header: 'Objective Code' },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'parameter', header: 'Parameter', required: true },
+    { key: 'subCategory', header: 'Sub Category', aliases: ['SubCategory', 'Sub-Category'] },
+    { key: 'type', header: 'Type' },
+    { key: 'quantity', header: 'Quantity', type: 'number', required: true },
+    { key: 'convFactor', header: 'Conv Factor', aliases: ['Conversion Factor', 'ConvFactor'], type: 'number' },
+    { key: 'value', header: 'Value', type: 'number', required: true },
+    { key: 'cfStd', header: 'CF Std', type: 'number' },
+    { key: 'rIntensity', header: 'RIntensity', aliases: ['R Intensity', 'Revenue Intensity'], type: 'number' },
+    { key: 'pppIntensity', header: 'PPPIntensity', aliases: ['PPP Intensity'], type: 'number' },
+    { key: 'convStandards', header: 'Conv Standards', aliases: ['Conversion Standards'] },
+    { key: 'docStatus', header: 'Doc Status' },
+    { key: 'pendingWith', header: 'Pending With' },
+  ],
+};
+
+export const DIVERSITY_SCHEMA: IngestionSchema<DiversityRecord> = {
+  id: 'diversity',
+  name: 'Diversity',
+  recordSchema: diversityRecordSchema,
+  scopeFields: { plant: 'dim2', businessCode: 'dim1' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['S.No.'], required: true, unique: true },
+    { key: 'srNoAlt', header: 'Sr No' },
+    { key: 'objectiveCode', header: 'Objective Code' },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'month', header: 'Month', required: true },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'dim1', header: 'Dim1', aliases: ['Business Code'] },
+    { key: 'dim2', header: 'Dim2', aliases: ['Plant'] },
+    { key: 'emissionSource', header: 'Emission Source' },
+    { key: 'startDate', header: 'Start Date', type: 'date' },
+    { key: 'endDate', header: 'End Date', type: 'date' },
+    { key: 'wagesFemales', header: 'Wages Paid To Females', aliases: ['Wages Paid To Female'], type: 'number', required: true },
+    { key: 'wagesMales', header: 'Wages Paid To Male', aliases: ['Wages Paid To Males'], type: 'number', required: true },
+    { key: 'totalComplaints', header: 'Total Complaints', type: 'number', required: true },
+    { key: 'complaintsByFemale', header: 'Complaints By Female Employee', aliases: ['Complaints By Female Employees'], type: 'number', required: true },
+    { key: 'poshUpheld', header: 'Complaints on POSH upheld', aliases: ['POSH Complaints Upheld'], type: 'number', required: true },
+    { key: 'complianceInd', header: 'Actual Compliance Ind', aliases: ['Compliance Ind'] },
+  ],
+};
+
+export const INCLUSION_SCHEMA: IngestionSchema<InclusionRecord> = {
+  id: 'inclusion',
+  name: 'Inclusion',
+  recordSchema: inclusionRecordSchema,
+  scopeFields: { plant: 'dim2', businessCode: 'dim1' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['S.No.', 'Sr No'], required: true, unique: true },
+    { key: 'assetComplianceId', header: 'Asset Compliance Id' },
+    { key: 'remarkSerialNo', header: 'Remark Serial No' },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'objectiveCode', header: 'Objective Code' },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'month', header: 'Month', required: true },
+    { key: 'dim1', header: 'Dim1', aliases: ['Business Code'] },
+    { key: 'dim2', header: 'Dim2', aliases: ['Plant'] },
+    { key: 'dim3', header: 'Dim3', aliases: ['Department'] },
+    { key: 'actualDate', header: 'Actual Date', type: 'date' },
+    { key: 'dueDate', header: 'Due Date', type: 'date' },
+    { key: 'rural', header: 'Rural', type: 'number', required: true },
+    { key: 'semiUrban', header: 'Semi Urban', aliases: ['Semi-Urban'], type: 'number', required: true },
+    { key: 'urban', header: 'Urban', type: 'number', required: true },
+    { key: 'metropolitan', header: 'Metropolitan', type: 'number', required: true },
+    { key: 'msmePurchase', header: 'MSMEPurchase', aliases: ['MSME Purchase'], type: 'number', required: true },
+    { key: 'directlyFromIndia', header: 'Directlyfrom India', aliases: ['Directly from India'], type: 'number', required: true },
+    { key: 'docStatus', header: 'Doc Status' },
+    { key: 'pendingWith', header: 'Pending With' },
+  ],
+};
+
+export const FAIRNESS_SCHEMA: IngestionSchema<FairnessRecord> = {
+  id: 'fairness',
+  name: 'Fairness',
+  recordSchema: fairnessRecordSchema,
+  scopeFields: { plant: 'dim2', businessCode: 'dim1' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['S.No.'], required: true, unique: true },
+    { key: 'srNoAlt', header: 'Sr No' },
+    { key: 'objectiveCode', header: 'Objective Code' },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'month', header: 'Month', required: true },
+    { key: 'dim1', header: 'Dim1', aliases: ['Business Code'] },
+    { key: 'dim2', header: 'Dim2', aliases: ['Plant'] },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'startDate', header: 'Start Date', type: 'date' },
+    { key: 'endDate', header: 'End Date', type: 'date' },
+    { key: 'accountsPayable', header: 'Accounts Payable', type: 'number', required: true },
+    { key: 'customerDataBreachPct', header: 'Customer Data Breach%', aliases: ['Customer Data Breach %'], type: 'number', required: true, range: PERCENT },
+    { key: 'complianceInd', header: 'Actual Compliance Ind', aliases: ['Compliance Ind'] },
+  ],
+};
+
+export const OPENNESS_SCHEMA: IngestionSchema<OpennessRecord> = {
+  id: 'openness',
+  name: 'Openness',
+  recordSchema: opennessRecordSchema,
+  scopeFields: { plant: 'dim2', businessCode: 'dim1' },
+  fields: [
+    { key: 'srNo', header: 'Sr.No.', aliases: ['S.No.'], required: true, unique: true },
+    { key: 'srNoAlt', header: 'Sr No' },
+    { key: 'objectiveCode', header: 'Objective Code' },
+    { key: 'financialYear', header: 'Financial Year', aliases: ['FY'], required: true },
+    { key: 'month', header: 'Month', required: true },
+    { key: 'dim1', header: 'Dim1', aliases: ['Business Code'] },
+    { key: 'dim2', header: 'Dim2', aliases: ['Plant'] },
+    { key: 'attribute', header: 'Attribute' },
+    { key: 'emissionSource', header: 'Emission Source' },
+    { key: 'startDate', header: 'Start Date', type: 'date' },
+    { key: 'endDate', header: 'End Date', type: 'date' },
+    { key: 'noTradingHouses', header: 'No of Trading Houses', type: 'number', required: true },
+    { key: 'percentTotalPurchases', header: '% of Total Purchases', type: 'number', required: true, range: PERCENT },
+    { key: 'top10PercentTH', header: 'Top 10 % to TH', type: 'number', required: true, range: PERCENT },
+    { key: 'noDealers', header: 'No of Dealers', type: 'number', required: true },
+    { key: 'percentTotalSalers', header: '% of Total Salers', aliases: ['% of Total Sales'], type: 'number', required: true, range: PERCENT },
+    { key: 'top10PercentTHSales', header: 'Top 10 % to TH Sales', type: 'number', required: true, range: PERCENT },
+    { key: 'rptPurchases', header: 'RPT Purchases', type: 'number', required: true },
+    { key: 'rptSales', header: 'RPT Sales', type: 'number', required: true },
+    { key: 'rptLA', header: 'RPT L & A', aliases: ['RPT L&A'], type: 'number', required: true },
+    { key: 'rptInvestments', header: 'RPT Investments', type: 'number', required: true },
+    { key: 'actualCompliance', header: 'Actual Compliance Ind', aliases: ['Compliance Ind'] },
+  ],
+};
@@ -0,0 +1,90 @@
+import { fiscalMonthIndex, fiscalYearStart, YearOverYearSeries } from './fiscalCalendar';
+import { DenominatorEntry, IntensityDenominator } from './denominators';
+import { recordBusinessCode, recordMonth, recordYear } from './targets';
+
+// What the environmental modules chart: absolute figures, or figures per unit of a denominator
+export type IntensityBasis = 'absolute' | IntensityDenominator;
+
+const slotKey = (businessCode: string, fyStart: number | null) => `${businessCode}|${fyStart}`;
+
+// Business code and financial year → the chosen figure, for entries that have one
+export function denominatorLookup(entries: DenominatorEntry[], denominator: IntensityDenominator): Map<string, number> {
+  const lookup = new Map<string, number>();
+  entries.forEach(e => {
+    const value = e.figures[denominator];
+    if (value && value > 0) lookup.set(slotKey(e.businessCode, fiscalYearStart(e.financialYear)), value);
+  });
+  return lookup;
+}
+
+const recordSlot = (record: unknown) => slotKey(recordBusinessCode(record), fiscalYearStart(recordYear(record)));
+
+export const hasDenominator = (record: unknown, lookup: Map<string, number>) => lookup.has(recordSlot(record));
+
+/**
+ * The denominator behind a set of records: the figure of each business code
+ * and financial year they cover, a twelfth of it for each month present (rows
+ * without a month, like Scope 3, take the whole year).
+ */
+export function denominatorOf(records: unknown[], lookup: Map<string, number>): number {
+  const periods = new Map<string, number>();
+  records.forEach(r => {
+    const slot = recordSlot(r);
+    const value = lookup.get(slot);
+    if (value === undefined) return;
+    const month = recordMonth(r);
+    periods.set(`${slot}|${month}`, month ? value / 12 : value);
+  });
+  return Array.from(periods.values()).reduce((sum, v) => sum + v, 0);
+}
+
+/**
+ * Chart rows divided by the denominator of the records behind each row.
+ * `recordKey` must group records the way the rows were aggregated.
+ */
+export function divideRows<R, T>(
+  rows: R[],
+  records: T[],
+  rowKey: (row: R) => string,
+  recordKey: (record: T) => string,
+  fields: (keyof R)[],
+  lookup: Map<string, number>
+): R[] {
+  const groups = new Map<string, T[]>();
+  records.forEach(r => {
+    const key = recordKey(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+  return rows.map(row => {
+    const denominator = denominatorOf(groups.get(rowKey(row)) ?? [], lookup);
+    const divided = { ...row };
+    fields.forEach(field => {
+      divided[field] = (denominator ? Number(row[field] || 0) / denominator : 0) as R[keyof R];
+    });
+    return divided;
+  });
+}
+
+// Year-over-year series divided cell by cell: each financial year's month by that month's denominator
+export function divideYearOverYear<T>(
+  series: YearOverYearSeries,
+  records: T[],
+  getYear: (record: T) => string | null | undefined,
+  getMonth: (record: T) => string | null | undefined,
+  lookup: Map<string, number>
+): YearOverYearSeries {
+  const cells = new Map<string, T[]>();
+  records.forEach(r => {
+    const key = `${(getYear(r) ?? '').trim() || 'Unknown'}|${fiscalMonthIndex(getMonth(r))}`;
+    cells.set(key, [...(cells.get(key) ?? []), r]);
+  });
+  const rows = series.rows.map((row, idx) => {
+    const divided = { ...row };
+    series.years.forEach(year => {
+      const denominator = denominatorOf(cells.get(`${year}|${idx}`) ?? [], lookup);
+      divided[year] = denominator ? Number(row[year] || 0) / denominator : 0;
+    });
+    return divided;
+  });
+  return { rows, years: series.years };
+}
@@ -0,0 +1,139 @@
+import { ContractualInstrument, EmissionFactor } from '../services/esgRecords';
+import { describeEmissionFactor, FactorActivity, factorForActivity, resolveEmissionFactor } from './emissionFactors';
+import { fiscalPeriodStart } from './fiscalCalendar';
+
+export type InstrumentType = ContractualInstrument['type'];
+
+export const INSTRUMENT_TYPES: { id: InstrumentType; name: string }[] = [
+  { id: 'REC', name: 'Renewable Energy Certificate' },
+  { id: 'PPA', name: 'Power Purchase Agreement' },
+  { id: 'Green Tariff', name: 'Green Tariff' },
+];
+
+// Library source name for the residual mix applied to electricity not covered by an instrument
+export const RESIDUAL_MIX_SOURCE = 'Residual Mix';
+
+export interface InstrumentAllocation {
+  instrument: ContractualInstrument;
+  plant: string;
+  // "YYYY-MM"
+  period: string;
+  kWh: number;
+  emissions: number;
+}
+
+export interface PlantPeriodScope2 {
+  plant: string;
+  period: string | null;
+  consumption: number;
+  location: number;
+  covered: number;
+  market: number;
+  residualFactor: number;
+  residualSource: string;
+}
+
+export interface MarketBasedResult<T> {
+  records: (T & { marketEmissions: number })[];
+  periods: PlantPeriodScope2[];
+  allocations: InstrumentAllocation[];
+}
+
+const normalize = (value: string | null) => (value ?? '').trim().toLowerCase();
+
+const monthsCovered = (instrument: ContractualInstrument) => {
+  const [fromYear, fromMonth] = instrument.periodFrom.split('-').map(Number);
+  const [toYear, toMonth] = instrument.periodTo.split('-').map(Number);
+  return Math.max(1, (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1);
+};
+
+const rowPeriod = (row: FactorActivity) => fiscalPeriodStart(row.financialYear, row.month)?.slice(0, 7) ?? null;
+
+/**
+ * Market-based Scope 2 per the GHG Protocol Scope 2 Guidance. Each instrument's
+ * kWh is spread evenly over the months it covers, so the result does not depend
+ * on which months are filtered in. Within a plant-month the instruments cover
+ * consumption up to the amount used; any unused volume lapses rather than
+ * carrying over. Uncovered consumption takes the residual mix factor from the
+ * library, or the location-based factor when no residual mix is recorded.
+ */
+export function computeMarketBased<T extends FactorActivity & { co2Emissions: number }>(
+  records: T[],
+  instruments: ContractualInstrument[],
+  factors: EmissionFactor[]
+): MarketBasedResult<T> {
+  const groups = new Map<string, { plant: string; period: string | null; rows: T[] }>();
+  records.forEach(row => {
+    const period = rowPeriod(row);
+    const key = `${normalize(row.plant)}|${period ?? ''}`;
+    if (!groups.has(key)) groups.set(key, { plant: (row.plant ?? '').trim() || 'Unknown', period, rows: [] });
+    groups.get(key)!.rows.push(row);
+  });
+
+  const periods: PlantPeriodScope2[] = [];
+  const allocations: InstrumentAllocation[] = [];
+  const marketByRow = new Map<T, number>();
+
+  groups.forEach(({ plant, period, rows }) => {
+    const consumption = rows.reduce((sum, r) => sum + (r.quantity || 0), 0);
+    const location = rows.reduce((sum, r) => sum + r.co2Emissions, 0);
+
+    let remaining = consumption;
+    let instrumentEmissions = 0;
+    if (period) {
+      instruments
+        .filter(i => normalize(i.plant) === normalize(plant) && i.periodFrom <= period && period <= i.periodTo)
+        .forEach(instrument => {
+          const kWh = Math.min(remaining, instrument.quantity / monthsCovered(instrument));
+          if (kWh <= 0) return;
+          remaining -= kWh;
+          instrumentEmissions += kWh * instrument.emissionFactor;
+          allocations.push({ instrument, plant, period, kWh, emissions: kWh * instrument.emissionFactor });
+        });
+    }
+
+    const residual = resolveEmissionFactor(
+      { ...rows[0], subCategory: RESIDUAL_MIX_SOURCE, type: null, parameter: null },
+      factors
+    );
+    const residualFactor = residual ? factorForActivity(residual, rows[0].unit)! : consumption ? location / consumption : 0;
+    const market = instrumentEmissions + remaining * residualFactor;
+
+    periods.push({
+      plant,
+      period,
+      consumption,
+      location,
+      covered: consumption - remaining,
+      market,
+      residualFactor,
+      residualSource: residual ? describeEmissionFactor(residual) : 'Location-based factor (no residual mix)',
+    });
+    // Rows share their plant-month's market-based total in proportion to consumption
+    rows.forEach(r => marketByRow.set(r, consumption ? (market * (r.quantity || 0)) / consumption : 0));
+  });
+
+  return {
+    records: records.map(r => ({ ...r, marketEmissions: marketByRow.get(r) ?? 0 })),
+    periods: periods.sort((a, b) => (a.period ?? '').localeCompare(b.period ?? '') || a.plant.localeCompare(b.plant)),
+    allocations,
+  };
+}
+
+export interface InstrumentUsage {
+  instrument: ContractualInstrument;
+  kWh: number;
+  emissions: number;
+}
+
+// Volume of each instrument applied under the current filters
+export function summarizeInstrumentUsage(allocations: InstrumentAllocation[]): InstrumentUsage[] {
+  const usage = new Map<string, InstrumentUsage>();
+  allocations.forEach(({ instrument, kWh, emissions }) => {
+    const entry = usage.get(instrument.id) ?? { instrument, kWh: 0, emissions: 0 };
+    entry.kWh += kWh;
+    entry.emissions += emissions;
+    usage.set(instrument.id, entry);
+  });
+  return Array.from(usage.values());
+}
@@ -0,0 +1,84 @@
+import { DiversityRecord } from '../services/esgRecords';
+import { compareFiscalYears, fiscalMonthName, sortByFiscalPeriod } from './fiscalCalendar';
+
+// Gender pay equity per BRSR Principle 5 (Essential Indicator 3): the female-to-
+// male wage ratio, the unadjusted gap and the female share of gross wages, read
+// from the Diversity sheet's "Wages Paid To Females / Males" columns. The gap
+// compares the columns as entered, so rows should carry comparable figures
+// (e.g. median remuneration per Dim1/Dim2 group) for it to reflect pay rather
+// than headcount.
+
+export interface PayEquity {
+  wagesFemales: number;
+  wagesMales: number;
+  // Female wages per unit of male wages
+  ratio: number | null;
+  // (male − female) / male, in %; positive when women are paid less
+  gap: number | null;
+  // Female wages as % of total wages
+  femaleShare: number | null;
+  records: number;
+}
+
+export function summarizePayEquity(records: DiversityRecord[]): PayEquity {
+  const wagesFemales = records.reduce((sum, r) => sum + (r.wagesFemales || 0), 0);
+  const wagesMales = records.reduce((sum, r) => sum + (r.wagesMales || 0), 0);
+  const total = wagesFemales + wagesMales;
+  return {
+    wagesFemales,
+    wagesMales,
+    ratio: wagesMales ? wagesFemales / wagesMales : null,
+    gap: wagesMales ? ((wagesMales - wagesFemales) / wagesMales) * 100 : null,
+    femaleShare: total ? (wagesFemales / total) * 100 : null,
+    records: records.length,
+  };
+}
+
+export type PayEquityRow = PayEquity & { key: string };
+
+export function payEquityBy(records: DiversityRecord[], keyOf: (record: DiversityRecord) => string): PayEquityRow[] {
+  const groups = new Map<string, DiversityRecord[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+  return Array.from(groups.entries()).map(([key, rows]) => ({ key, ...summarizePayEquity(rows) }));
+}
+
+export type PayEquityView = 'dim1' | 'dim2' | 'year' | 'month';
+
+export const PAY_EQUITY_VIEWS: { id: PayEquityView; label: string }[] = [
+  { id: 'dim1', label: 'Dim1' },
+  { id: 'dim2', label: 'Dim2' },
+  { id: 'year', label: 'Financial year' },
+  { id: 'month', label: 'Fiscal month' },
+];
+
+const yearKey = (r: DiversityRecord) => (r.financialYear ?? '').trim() || 'Unknown';
+const monthKey = (r: DiversityRecord) => `${fiscalMonthName(r.month).slice(0, 3) || 'Unknown'} ${yearKey(r)}`;
+
+// Groups with no male wages (no gap) last
+const widestGapFirst = (a: PayEquityRow, b: PayEquityRow) => (b.gap ?? -Infinity) - (a.gap ?? -Infinity) || 0;
+
+// Groups for a view; fiscal periods run earliest first, dimensions widest gap first
+export function payEquityFor(records: DiversityRecord[], view: PayEquityView): PayEquityRow[] {
+  switch (view) {
+    case 'dim1':
+      return payEquityBy(records, r => (r.dim1 ?? '').trim() || 'Unknown').sort(widestGapFirst);
+    case 'dim2':
+      return payEquityBy(records, r => (r.dim2 ?? '').trim() || 'Unknown').sort(widestGapFirst);
+    case 'year':
+      return payEquityBy(records, yearKey).sort((a, b) => compareFiscalYears(a.key, b.key));
+    case 'month': {
+      const periods = sortByFiscalPeriod(records, yearKey, r => r.month);
+      const order = Array.from(new Set(periods.map(monthKey)));
+      return payEquityBy(records, monthKey).sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+    }
+  }
+}
+
+// Financial year of a fiscal-period group, e.g. "Apr 2023-24" → "2023-24"
+export const periodFinancialYear = (key: string, view: 'year' | 'month') => (view === 'year' ? key : key.slice(key.indexOf(' ') + 1));
+
+// Target metric id for the unadjusted gap, set in the Diversity module's Targets panel
+export const PAY_GAP_METRIC = 'gender-pay-gap';
@@ -0,0 +1,198 @@
+import { DiversityRecord } from '../services/esgRecords';
+import { compareFiscalYears, fiscalMonthName, fiscalQuarter, sortByFiscalPeriod } from './fiscalCalendar';
+
+// POSH (Prevention of Sexual Harassment) complaints per BRSR Principle 5: each
+// Diversity row with complaints is a case batch opened on its Start Date and
+// resolved on its End Date. Cases are referred to by a sequence number only;
+// Sr. No., Attribute and Emission Source can identify a complainant in the HR
+// register and are never carried into the case list.
+
+// The POSH Act allows 90 days to complete an inquiry
+export const POSH_INQUIRY_DAYS = 90;
+
+export type PoshCaseStatus = 'open' | 'resolved' | 'future' | 'undated';
+
+export interface PoshCase {
+  // "Case 1", "Case 2", … in Start Date order; not derived from the row
+  ref: string;
+  dim1: string;
+  financialYear: string;
+  month: string;
+  complaints: number;
+  upheld: number;
+  status: PoshCaseStatus;
+  // Start to End Date for resolved cases, start to `asOf` for open ones
+  days: number | null;
+}
+
+const DAY_MS = 86400000;
+
+const isoDay = (value: string | null | undefined) => {
+  const parsed = Date.parse((value ?? '').trim());
+  return isNaN(parsed) ? null : Math.floor(parsed / DAY_MS);
+};
+
+export const today = () => new Date().toISOString().slice(0, 10);
+
+const yearKey = (r: DiversityRecord) => (r.financialYear ?? '').trim() || 'Unknown';
+
+const hasComplaints = (r: DiversityRecord) => (r.totalComplaints || 0) > 0 || (r.poshUpheld || 0) > 0;
+
+/**
+ * Masked case list. A case is open until its End Date has passed, future when
+ * its Start Date is after `asOf` (most likely a mistyped date), and undated
+ * when it has no Start Date or ends before it starts.
+ */
+export function poshCases(records: DiversityRecord[], asOf = today()): PoshCase[] {
+  const now = isoDay(asOf) ?? Math.floor(Date.now() / DAY_MS);
+  const byStart = (r: DiversityRecord) => isoDay(r.startDate) ?? Infinity;
+  return records
+    .filter(hasComplaints)
+    .sort((a, b) => byStart(a) - byStart(b))
+    .map((r, i) => {
+      const start = isoDay(r.startDate);
+      const end = isoDay(r.endDate);
+      let status: PoshCaseStatus = 'undated';
+      let days: number | null = null;
+      if (start !== null && (end === null || end >= start)) {
+        if (start > now) {
+          status = 'future';
+        } else {
+          status = end !== null && end <= now ? 'resolved' : 'open';
+          days = (status === 'resolved' ? end! : now) - start;
+        }
+      }
+      return {
+        ref: `Case ${i + 1}`,
+        dim1: (r.dim1 ?? '').trim() || 'Unknown',
+        financialYear: yearKey(r),
+        month: fiscalMonthName(r.month) || 'Unknown',
+        complaints: r.totalComplaints || 0,
+        upheld: r.poshUpheld || 0,
+        status,
+        days,
+      };
+    });
+}
+
+export interface PoshSummary {
+  complaints: number;
+  byFemale: number;
+  upheld: number;
+  // Upheld as % of complaints received
+  upheldRate: number | null;
+  // Complaint counts by case status
+  open: number;
+  resolved: number;
+  future: number;
+  undated: number;
+  medianResolutionDays: number | null;
+  // Complaints open, or resolved, beyond the inquiry period
+  overdue: number;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function summarizePosh(records: DiversityRecord[], asOf = today()): PoshSummary {
+  const cases = poshCases(records, asOf);
+  const complaints = records.reduce((sum, r) => sum + (r.totalComplaints || 0), 0);
+  const upheld = records.reduce((sum, r) => sum + (r.poshUpheld || 0), 0);
+  const countOf = (status: PoshCaseStatus) => cases.filter(c => c.status === status).reduce((sum, c) => sum + c.complaints, 0);
+  return {
+    complaints,
+    byFemale: records.reduce((sum, r) => sum + (r.complaintsByFemale || 0), 0),
+    upheld,
+    upheldRate: complaints ? (upheld / complaints) * 100 : null,
+    open: countOf('open'),
+    resolved: countOf('resolved'),
+    future: countOf('future'),
+    undated: countOf('undated'),
+    medianResolutionDays: median(cases.filter(c => c.status === 'resolved').map(c => c.days!)),
+    overdue: cases.filter(c => c.days !== null && c.days > POSH_INQUIRY_DAYS).reduce((sum, c) => sum + c.complaints, 0),
+  };
+}
+
+// Complaints per 100 female employees and workers, given the year's headcount
+export const perHundredWomen = (complaints: number, femaleHeadcount: number | undefined) =>
+  femaleHeadcount ? (complaints / femaleHeadcount) * 100 : null;
+
+export const RESOLUTION_BUCKETS: { label: string; maxDays: number }[] = [
+  { label: '≤ 30 days', maxDays: 30 },
+  { label: '31–60 days', maxDays: 60 },
+  { label: '61–90 days', maxDays: POSH_INQUIRY_DAYS },
+  { label: '> 90 days', maxDays: Infinity },
+];
+
+// Resolved complaints by days taken to close
+export function resolutionDistribution(cases: PoshCase[]): { label: string; complaints: number }[] {
+  const rows = RESOLUTION_BUCKETS.map(b => ({ label: b.label, complaints: 0 }));
+  cases.filter(c => c.status === 'resolved').forEach(c => {
+    const idx = RESOLUTION_BUCKETS.findIndex(b => c.days! <= b.maxDays);
+    rows[idx].complaints += c.complaints;
+  });
+  return rows;
+}
+
+export type PoshPeriodView = 'year' | 'quarter' | 'month';
+
+export const POSH_PERIOD_VIEWS: { id: PoshPeriodView; label: string }[] = [
+  { id: 'year', label: 'Financial year' },
+  { id: 'quarter', label: 'Fiscal quarter' },
+  { id: 'month', label: 'Fiscal month' },
+];
+
+export interface PoshPeriodRow {
+  key: string;
+  financialYear: string;
+  complaints: number;
+  upheld: number;
+  upheldRate: number | null;
+  // % change in complaints and upheld against the period before; null for the first period or from zero
+  complaintsChange: number | null;
+  upheldChange: number | null;
+}
+
+const periodKey = (r: DiversityRecord, view: PoshPeriodView) => {
+  switch (view) {
+    case 'year':
+      return yearKey(r);
+    case 'quarter':
+      return `${fiscalQuarter(r.month) ?? 'Unknown'} ${yearKey(r)}`;
+    case 'month':
+      return `${fiscalMonthName(r.month).slice(0, 3) || 'Unknown'} ${yearKey(r)}`;
+  }
+};
+
+const change = (current: number, previous: number | undefined) =>
+  previous ? ((current - previous) / previous) * 100 : null;
+
+// Complaints and upheld per fiscal period, earliest first, with the change on the period before
+export function poshByPeriod(records: DiversityRecord[], view: PoshPeriodView): PoshPeriodRow[] {
+  const ordered = view === 'year'
+    ? [...records].sort((a, b) => compareFiscalYears(a.financialYear, b.financialYear))
+    : sortByFiscalPeriod(records, yearKey, r => r.month);
+  const groups = new Map<string, { financialYear: string; complaints: number; upheld: number }>();
+  ordered.forEach(r => {
+    const key = periodKey(r, view);
+    const group = groups.get(key) ?? { financialYear: yearKey(r), complaints: 0, upheld: 0 };
+    group.complaints += r.totalComplaints || 0;
+    group.upheld += r.poshUpheld || 0;
+    groups.set(key, group);
+  });
+  const rows = Array.from(groups.entries());
+  return rows.map(([key, g], i) => ({
+    key,
+    ...g,
+    upheldRate: g.complaints ? (g.upheld / g.complaints) * 100 : null,
+    complaintsChange: i > 0 ? change(g.complaints, rows[i - 1][1].complaints) : null,
+    upheldChange: i > 0 ? change(g.upheld, rows[i - 1][1].upheld) : null,
+  }));
+}
+
+// Target metric id for the upheld rate, set in the Diversity module's Targets panel
+export const POSH_UPHELD_RATE_METRIC = 'posh-upheld-rate';
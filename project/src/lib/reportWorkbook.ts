@@ -0,0 +1,129 @@
+import * as XLSX from 'xlsx';
+import { FilterOptions } from '../services/apiService';
+import { ReportSource } from '../services/reportSources';
+import { FISCAL_HALVES, FISCAL_QUARTERS, FiscalHalf, FiscalQuarter } from './fiscalCalendar';
+
+// Consolidated Export Report: a cover sheet, then a summary and raw-data sheets per module.
+
+export interface ModuleReportData {
+  source: ReportSource;
+  records: unknown[];
+  // Set when the module could not be loaded; it is listed on the cover but gets no sheets
+  error?: string;
+}
+
+const MAX_SHEET_NAME = 31;
+// Excel's row limit, less the header row
+const MAX_DATA_ROWS = 1_048_575;
+
+const FILTER_LABELS: { key: keyof FilterOptions; label: string }[] = [
+  { key: 'year', label: 'Financial Year' },
+  { key: 'quarter', label: 'Quarter' },
+  { key: 'half', label: 'Half' },
+  { key: 'month', label: 'Month' },
+  { key: 'businessCode', label: 'Business Code' },
+  { key: 'plant', label: 'Plant' },
+  { key: 'department', label: 'Department' },
+];
+
+const periodMonths = (key: keyof FilterOptions, value: string): string[] | undefined => {
+  if (key === 'quarter') return FISCAL_QUARTERS[value as FiscalQuarter];
+  if (key === 'half') return FISCAL_HALVES[value as FiscalHalf];
+  return undefined;
+};
+
+// Label/value pairs for every filter, "All" where none is applied
+export function describeFilters(filters: FilterOptions = {}): [string, string][] {
+  return FILTER_LABELS.map(({ key, label }) => {
+    const value = filters[key];
+    if (!value || value === 'All') return [label, 'All'];
+    const months = periodMonths(key, value);
+    return [label, months ? `${value} (${months[0]} to ${months[months.length - 1]})` : value];
+  });
+}
+
+// Sheet names are unique, at most 31 characters and free of []:*?/\
+function uniqueSheetName(workbook: XLSX.WorkBook, name: string): string {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').slice(0, MAX_SHEET_NAME).trim();
+  let candidate = base;
+  for (let n = 2; workbook.SheetNames.includes(candidate); n++) {
+    const suffix = ` (${n})`;
+    candidate = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+  }
+  return candidate;
+}
+
+const appendSheet = (workbook: XLSX.WorkBook, sheet: XLSX.WorkSheet, name: string) =>
+  XLSX.utils.book_append_sheet(workbook, sheet, uniqueSheetName(workbook, name));
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Each metric summed, or averaged where flagged, rounded to two decimals
+export function aggregateMetrics<T>(source: ReportSource<T>, records: T[]): number[] {
+  return source.metrics.map(metric => {
+    const total = records.reduce((sum, record) => sum + (metric.value(record) || 0), 0);
+    return round(metric.average ? (records.length ? total / records.length : 0) : total);
+  });
+}
+
+function summaryRows({ source, records }: ModuleReportData): (string | number)[][] {
+  const groups = new Map<string, unknown[]>();
+  records.forEach(record => {
+    const key = source.groupBy(record)?.trim() || 'Unassigned';
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  });
+  const totals = aggregateMetrics(source, records);
+
+  return [
+    [`${source.name} Summary`],
+    ['Records', records.length],
+    [],
+    ['Metric', 'Value'],
+    ...source.metrics.map((metric, idx) => [metric.label, totals[idx]]),
+    [],
+    [`By ${source.groupLabel}`],
+    [source.groupLabel, 'Records', ...source.metrics.map(m => m.label)],
+    ...Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([group, groupRecords]) => [group, groupRecords.length, ...aggregateMetrics(source, groupRecords)]),
+  ];
+}
+
+function coverRows(modules: ModuleReportData[], filters: FilterOptions, generatedAt: Date): (string | number)[][] {
+  return [
+    ['ESG Analytics Report'],
+    ['Generated', generatedAt.toLocaleString()],
+    [],
+    ['Applied Filters'],
+    ...describeFilters(filters),
+    [],
+    ['Module', 'Records', 'Status'],
+    ...modules.map(m => [m.source.name, m.error ? 0 : m.records.length, m.error ? `Not included: ${m.error}` : 'Included']),
+  ];
+}
+
+export function buildReportWorkbook(modules: ModuleReportData[], filters: FilterOptions = {}, generatedAt = new Date()): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+  appendSheet(wb, XLSX.utils.aoa_to_sheet(coverRows(modules, filters, generatedAt)), 'Cover');
+
+  modules.filter(m => !m.error).forEach(module => {
+    const { source, records } = module;
+    appendSheet(wb, XLSX.utils.aoa_to_sheet(summaryRows(module)), `${source.sheetPrefix} Summary`);
+
+    if (records.length === 0) {
+      appendSheet(wb, XLSX.utils.aoa_to_sheet([['No records for the selected filters']]), `${source.sheetPrefix} Data`);
+      return;
+    }
+    for (let start = 0, part = 1; start < records.length; start += MAX_DATA_ROWS, part++) {
+      const chunk = records.slice(start, start + MAX_DATA_ROWS) as object[];
+      appendSheet(wb, XLSX.utils.json_to_sheet(chunk), `${source.sheetPrefix} Data${part > 1 ? ` ${part}` : ''}`);
+    }
+  });
+
+  return wb;
+}
+
+export const reportFileName = (generatedAt = new Date()) =>
+  `ESG_Report_${generatedAt.toISOString().slice(0, 10)}.xlsx`;
@@ -0,0 +1,207 @@
+import { Scope3Record } from '../services/esgRecords';
+
+export type Scope3Stream = 'upstream' | 'downstream';
+
+export interface Scope3Category {
+  id: number;
+  name: string;
+  stream: Scope3Stream;
+}
+
+// GHG Protocol Corporate Value Chain (Scope 3) Standard, categories 1–15
+export const SCOPE3_CATEGORIES: Scope3Category[] = [
+  { id: 1, name: 'Purchased goods and services', stream: 'upstream' },
+  { id: 2, name: 'Capital goods', stream: 'upstream' },
+  { id: 3, name: 'Fuel- and energy-related activities', stream: 'upstream' },
+  { id: 4, name: 'Upstream transportation and distribution', stream: 'upstream' },
+  { id: 5, name: 'Waste generated in operations', stream: 'upstream' },
+  { id: 6, name: 'Business travel', stream: 'upstream' },
+  { id: 7, name: 'Employee commuting', stream: 'upstream' },
+  { id: 8, name: 'Upstream leased assets', stream: 'upstream' },
+  { id: 9, name: 'Downstream transportation and distribution', stream: 'downstream' },
+  { id: 10, name: 'Processing of sold products', stream: 'downstream' },
+  { id: 11, name: 'Use of sold products', stream: 'downstream' },
+  { id: 12, name: 'End-of-life treatment of sold products', stream: 'downstream' },
+  { id: 13, name: 'Downstream leased assets', stream: 'downstream' },
+  { id: 14, name: 'Franchises', stream: 'downstream' },
+  { id: 15, name: 'Investments', stream: 'downstream' },
+];
+
+export const scope3CategoryLabel = (id: number) => {
+  const category = SCOPE3_CATEGORIES.find(c => c.id === id);
+  return category ? `${category.id}. ${category.name}` : 'Unclassified';
+};
+
+// Calculation methods, best data quality first
+export type Scope3Method = 'supplier-specific' | 'average-data' | 'spend-based';
+
+export const SCOPE3_METHODS: { id: Scope3Method; name: string; tier: number; description: string }[] = [
+  { id: 'supplier-specific', name: 'Supplier-specific', tier: 1, description: 'Factor from the supplier or a product EPD' },
+  { id: 'average-data', name: 'Average-data', tier: 2, description: 'Physical activity data with a secondary (database) factor' },
+  { id: 'spend-based', name: 'Spend-based', tier: 3, description: 'Spend multiplied by an environmentally extended input-output factor' },
+];
+
+export interface Scope3CategoryRule {
+  id: string;
+  // Case-insensitive text looked for in Sub Category, then Parameter, then Attribute
+  pattern: string;
+  category: number;
+  // Overrides the method read from the row; empty to detect it
+  method: Scope3Method | '';
+}
+
+const rule = (id: string, pattern: string, category: number): Scope3CategoryRule => ({ id, pattern, category, method: '' });
+
+// Checked in order, so the specific phrases come before the generic ones
+export const DEFAULT_SCOPE3_RULES: Scope3CategoryRule[] = [
+  rule('default-upstream-leased', 'upstream leased', 8),
+  rule('default-downstream-leased', 'downstream leased', 13),
+  rule('default-downstream-transport', 'downstream transport', 9),
+  rule('default-outbound', 'outbound', 9),
+  rule('default-upstream-transport', 'upstream transport', 4),
+  rule('default-inbound', 'inbound', 4),
+  rule('default-capital-goods', 'capital goods', 2),
+  rule('default-purchased-goods', 'purchased goods', 1),
+  rule('default-purchased-services', 'purchased services', 1),
+  rule('default-raw-material', 'raw material', 1),
+  rule('default-fuel-energy', 'fuel- and energy', 3),
+  rule('default-td-losses', 't&d loss', 3),
+  rule('default-well-to-tank', 'well-to-tank', 3),
+  rule('default-processing', 'processing of sold', 10),
+  rule('default-use-of-sold', 'use of sold', 11),
+  rule('default-end-of-life', 'end-of-life', 12),
+  rule('default-end-of-life-spaced', 'end of life', 12),
+  rule('default-waste', 'waste', 5),
+  rule('default-business-travel', 'business travel', 6),
+  rule('default-air-travel', 'air travel', 6),
+  rule('default-hotel', 'hotel', 6),
+  rule('default-commuting', 'commut', 7),
+  rule('default-franchise', 'franchise', 14),
+  rule('default-investment', 'investment', 15),
+  rule('default-transport', 'transport', 4),
+  rule('default-travel', 'travel', 6),
+];
+
+const fieldsOf = (record: Scope3Record) => [record.subCategory, record.parameter, record.attribute];
+
+const fieldMatches = (r: Scope3CategoryRule, field: string | null) =>
+  r.pattern.trim() !== '' && (field ?? '').toLowerCase().includes(r.pattern.trim().toLowerCase());
+
+const SUPPLIER_SPECIFIC = /supplier|vendor|primary data|\bepd\b|product[- ]specific/i;
+const SPEND_BASED = /spend|expenditure|\binr\b|₹|\brs\.?\b|\bcost\b|eeio|lakh|crore/i;
+
+/**
+ * How the row's Total EFFuel was derived, read from the activity it is stated
+ * against: a factor per rupee of spend is spend-based, one supplied by a vendor
+ * or EPD is supplier-specific, and anything else is a physical activity with a
+ * database factor (average-data).
+ */
+export function detectScope3Method(record: Scope3Record): Scope3Method {
+  const text = fieldsOf(record).filter(Boolean).join(' ');
+  if (SUPPLIER_SPECIFIC.test(text)) return 'supplier-specific';
+  if (SPEND_BASED.test(text)) return 'spend-based';
+  return 'average-data';
+}
+
+export interface Scope3Classification {
+  category: Scope3Category | null;
+  method: Scope3Method;
+  rule: Scope3CategoryRule | null;
+}
+
+// Sub Category decides before Parameter, and Parameter before Attribute; within a field the first matching rule wins
+export function classifyScope3(record: Scope3Record, rules: Scope3CategoryRule[]): Scope3Classification {
+  const matched = fieldsOf(record).reduce<Scope3CategoryRule | null>(
+    (found, field) => found ?? rules.find(r => fieldMatches(r, field)) ?? null,
+    null
+  );
+  return {
+    category: matched ? SCOPE3_CATEGORIES.find(c => c.id === matched.category) ?? null : null,
+    method: matched?.method || detectScope3Method(record),
+    rule: matched,
+  };
+}
+
+export interface Scope3CategoryTotal extends Scope3Category {
+  totalValue: number;
+  records: number;
+  byMethod: Record<Scope3Method, number>;
+}
+
+export interface Scope3Breakdown {
+  categories: Scope3CategoryTotal[];
+  byStream: { stream: Scope3Stream; totalValue: number }[];
+  byMethod: { method: Scope3Method; name: string; tier: number; totalValue: number; records: number }[];
+  unclassified: { subCategory: string; records: number; totalValue: number }[];
+  unclassifiedValue: number;
+}
+
+const emptyMethods = (): Record<Scope3Method, number> => ({ 'supplier-specific': 0, 'average-data': 0, 'spend-based': 0 });
+
+// Emissions (Total Value) per category, value-chain direction and data-quality tier
+export function breakdownScope3(records: Scope3Record[], rules: Scope3CategoryRule[]): Scope3Breakdown {
+  const categories = new Map<number, Scope3CategoryTotal>(
+    SCOPE3_CATEGORIES.map(c => [c.id, { ...c, totalValue: 0, records: 0, byMethod: emptyMethods() }])
+  );
+  const methods = new Map(SCOPE3_METHODS.map(m => [m.id, { method: m.id, name: m.name, tier: m.tier, totalValue: 0, records: 0 }]));
+  const unclassified = new Map<string, { subCategory: string; records: number; totalValue: number }>();
+
+  records.forEach(record => {
+    const value = record.totalValue || 0;
+    const { category, method } = classifyScope3(record, rules);
+    const tier = methods.get(method)!;
+    tier.totalValue += value;
+    tier.records++;
+
+    if (!category) {
+      const key = (record.subCategory ?? '').trim() || 'Unknown';
+      const entry = unclassified.get(key) ?? { subCategory: key, records: 0, totalValue: 0 };
+      entry.records++;
+      entry.totalValue += value;
+      unclassified.set(key, entry);
+      return;
+    }
+    const total = categories.get(category.id)!;
+    total.totalValue += value;
+    total.records++;
+    total.byMethod[method] += value;
+  });
+
+  const categoryTotals = Array.from(categories.values());
+  const streamTotal = (stream: Scope3Stream) =>
+    categoryTotals.filter(c => c.stream === stream).reduce((sum, c) => sum + c.totalValue, 0);
+  const unclassifiedRows = Array.from(unclassified.values()).sort((a, b) => b.totalValue - a.totalValue);
+
+  return {
+    categories: categoryTotals,
+    byStream: [
+      { stream: 'upstream', totalValue: streamTotal('upstream') },
+      { stream: 'downstream', totalValue: streamTotal('downstream') },
+    ],
+    byMethod: Array.from(methods.values()),
+    unclassified: unclassifiedRows,
+    unclassifiedValue: unclassifiedRows.reduce((sum, u) => sum + u.totalValue, 0),
+  };
+}
+
+const RULES_STORAGE_KEY = 'esg.scope3CategoryRules';
+
+// Saved rules replace the defaults entirely, so deleted defaults stay deleted
+export function loadScope3Rules(): Scope3CategoryRule[] {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Scope3CategoryRule[]) : DEFAULT_SCOPE3_RULES;
+  } catch (error) {
+    console.warn('Unable to read Scope 3 category rules:', error);
+    return DEFAULT_SCOPE3_RULES;
+  }
+}
+
+export function saveScope3Rules(rules: Scope3CategoryRule[]) {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function resetScope3Rules(): Scope3CategoryRule[] {
+  localStorage.removeItem(RULES_STORAGE_KEY);
+  return DEFAULT_SCOPE3_RULES;
+}
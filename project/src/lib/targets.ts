@@ -0,0 +1,236 @@
+import { AttributeRecord, DiversityRecord } from '../services/esgRecords';
+import { ReportSource } from '../services/reportSources';
+import { loadBrsrInputs } from './brsrCore';
+import { compareFiscalYears, fiscalYearStart } from './fiscalCalendar';
+import { summarizeWasteHierarchy } from './wasteHierarchy';
+import { computeEnergyMix, loadEnergySourceRules } from './energyMix';
+import { PAY_GAP_METRIC, summarizePayEquity } from './payEquity';
+import { perHundredWomen, POSH_UPHELD_RATE_METRIC, summarizePosh } from './poshCases';
+
+export type TargetScopeType = 'company' | 'businessCode' | 'plant';
+export type TargetTrajectory = 'linear' | 'sbti-1.5';
+export type TargetDirection = 'decrease' | 'increase';
+
+export const TARGET_TRAJECTORIES: { id: TargetTrajectory; name: string }[] = [
+  { id: 'linear', name: 'Linear to target value' },
+  { id: 'sbti-1.5', name: 'SBTi 1.5°C (4.2% of baseline per year)' },
+];
+
+// SBTi absolute contraction approach: minimum annual linear reduction for a 1.5°C-aligned target
+export const SBTI_ANNUAL_REDUCTION = 0.042;
+
+export interface ReductionTarget {
+  id: string;
+  name: string;
+  moduleId: string;
+  metric: string;
+  scope: { type: TargetScopeType; value: string };
+  baselineYear: string;
+  baselineValue: number;
+  targetYear: string;
+  // Ignored for SBTi trajectories, which derive it from the baseline
+  targetValue: number;
+  trajectory: TargetTrajectory;
+  direction: TargetDirection;
+}
+
+/**
+ * A figure a target can be set against. Additive metrics are summed over the
+ * year and pro-rated when only some months are in; the rest are computed from
+ * the whole year's records.
+ */
+export interface TargetMetric<T = unknown> {
+  id: string;
+  label: string;
+  unit: string;
+  additive: boolean;
+  annual(records: T[], financialYear: string): number | null;
+}
+
+const metric = <T>(definition: TargetMetric<T>) => definition;
+
+// Targets beyond the module's report metrics: ratios and intensities
+const EXTRA_TARGET_METRICS: Record<string, TargetMetric[]> = {
+  waste: [
+    metric<AttributeRecord>({
+      id: 'diversion-rate', label: 'Waste diversion from landfill', unit: '%', additive: false,
+      annual: records => summarizeWasteHierarchy(records).diversionRate,
+    }),
+    metric<AttributeRecord>({
+      id: 'recovery-rate', label: 'Waste recovered (reuse, recycling, other recovery)', unit: '%', additive: false,
+      annual: records => summarizeWasteHierarchy(records).recoveryRate,
+    }),
+  ],
+  energy: [
+    metric<AttributeRecord>({
+      id: 'renewable-share', label: 'Renewable share of energy (Energy sheet)', unit: '%', additive: false,
+      annual: records => computeEnergyMix({ energy: records, electricity: [], fuel: [] }, loadEnergySourceRules()).share,
+    }),
+  ],
+  diversity: [
+    metric<DiversityRecord>({
+      id: PAY_GAP_METRIC, label: 'Unadjusted gender pay gap', unit: '%', additive: false,
+      annual: records => summarizePayEquity(records).gap,
+    }),
+    metric<DiversityRecord>({
+      id: 'female-male-wage-ratio', label: 'Female-to-male wage ratio', unit: 'ratio', additive: false,
+      annual: records => summarizePayEquity(records).ratio,
+    }),
+    metric<DiversityRecord>({
+      id: POSH_UPHELD_RATE_METRIC, label: 'POSH complaints upheld rate', unit: '%', additive: false,
+      annual: records => summarizePosh(records).upheldRate,
+    }),
+    metric<DiversityRecord>({
+      id: 'posh-per-100-women', label: 'POSH complaints per 100 female employees (BRSR input)', unit: 'per 100', additive: false,
+      annual: (records, financialYear) =>
+        perHundredWomen(summarizePosh(records).complaints, loadBrsrInputs(financialYear).figures.femaleEmployees),
+    }),
+  ],
+  water: [
+    metric<AttributeRecord>({
+      id: 'water-per-output', label: 'Water per unit of output (BRSR physical output)', unit: 'KL/unit', additive: false,
+      annual: (records, financialYear) => {
+        const output = loadBrsrInputs(financialYear).figures.physicalOutput;
+        return output ? records.reduce((sum, r) => sum + (r.quantity || 0), 0) / output : null;
+      },
+    }),
+  ],
+};
+
+const unitOf = (label: string) => label.match(/\(([^)]+)\)/)?.[1] ?? '';
+
+// Every report metric of the module (summed, or averaged for percentages) plus its extra metrics
+export function targetMetricsFor(source: ReportSource): TargetMetric[] {
+  const fromReport = source.metrics.map<TargetMetric>(m => ({
+    id: m.label,
+    label: m.label,
+    unit: unitOf(m.label),
+    additive: !m.average,
+    annual: records => {
+      if (records.length === 0) return null;
+      const total = records.reduce<number>((sum, r) => sum + (m.value(r) || 0), 0);
+      return m.average ? total / records.length : total;
+    },
+  }));
+  return [...fromReport, ...(EXTRA_TARGET_METRICS[source.id] ?? [])];
+}
+
+// DB modules name the dimensions, Excel uploads keep them as Dim1/Dim2
+const recordField = (record: unknown, ...keys: string[]) => {
+  const row = record as Record<string, unknown>;
+  const key = keys.find(k => row[k] !== undefined && row[k] !== null && row[k] !== '');
+  return key ? String(row[key]).trim() : '';
+};
+
+export const recordYear = (record: unknown) => recordField(record, 'financialYear');
+export const recordMonth = (record: unknown) => recordField(record, 'month', 'month1');
+export const recordPlant = (record: unknown) => recordField(record, 'plant', 'dim2');
+export const recordBusinessCode = (record: unknown) => recordField(record, 'businessCode', 'dim1');
+
+export const inTargetScope = (target: Pick<ReductionTarget, 'scope'>, record: unknown) =>
+  target.scope.type === 'company' ||
+  (target.scope.type === 'plant'
+    ? recordPlant(record) === target.scope.value
+    : recordBusinessCode(record) === target.scope.value);
+
+export const financialYearLabel = (start: number) => `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+
+// Value the trajectory sets for a financial year; held at the target after the target year
+export function trajectoryValue(target: ReductionTarget, financialYear: string): number | null {
+  const base = fiscalYearStart(target.baselineYear);
+  const end = fiscalYearStart(target.targetYear);
+  const year = fiscalYearStart(financialYear);
+  if (base === null || end === null || year === null || year < base) return null;
+  const elapsed = Math.min(year, end) - base;
+
+  if (target.trajectory === 'sbti-1.5') {
+    return target.baselineValue * Math.max(0, 1 - SBTI_ANNUAL_REDUCTION * elapsed);
+  }
+  return end === base
+    ? target.targetValue
+    : target.baselineValue + ((target.targetValue - target.baselineValue) * elapsed) / (end - base);
+}
+
+export const effectiveTargetValue = (target: ReductionTarget) => trajectoryValue(target, target.targetYear) ?? target.targetValue;
+
+export type TargetStatus = 'on-track' | 'off-track' | 'no-data';
+
+export interface TargetYearPoint {
+  financialYear: string;
+  actual: number | null;
+  // Actual scaled to twelve months for additive metrics with a partial year
+  projected: number | null;
+  months: number;
+  target: number | null;
+}
+
+export interface TargetProgress {
+  target: ReductionTarget;
+  metric: TargetMetric | null;
+  points: TargetYearPoint[];
+  status: TargetStatus;
+  latest: TargetYearPoint | null;
+}
+
+/**
+ * Actuals per financial year for the target's scope against its trajectory.
+ * Status compares the latest year with data from the baseline year on; a part
+ * year of an additive metric is pro-rated to twelve months first.
+ */
+export function evaluateTarget(target: ReductionTarget, source: ReportSource, records: unknown[]): TargetProgress {
+  const metricDef = targetMetricsFor(source).find(m => m.id === target.metric) ?? null;
+  const scoped = records.filter(r => inTargetScope(target, r));
+  const byYear = new Map<string, unknown[]>();
+  scoped.forEach(r => {
+    const year = recordYear(r);
+    if (year) byYear.set(year, [...(byYear.get(year) ?? []), r]);
+  });
+
+  const years = new Set(byYear.keys());
+  const base = fiscalYearStart(target.baselineYear);
+  const end = fiscalYearStart(target.targetYear);
+  if (base !== null && end !== null) {
+    for (let y = base; y <= end; y++) {
+      if (![...years].some(label => fiscalYearStart(label) === y)) years.add(financialYearLabel(y));
+    }
+  }
+
+  const points = [...years].sort(compareFiscalYears).map<TargetYearPoint>(financialYear => {
+    const rows = byYear.get(financialYear) ?? [];
+    const actual = metricDef && rows.length ? metricDef.annual(rows, financialYear) : null;
+    const months = new Set(rows.map(recordMonth).filter(Boolean)).size;
+    const projected = actual !== null && metricDef?.additive && months > 0 && months < 12 ? (actual * 12) / months : actual;
+    return { financialYear, actual, projected, months, target: trajectoryValue(target, financialYear) };
+  });
+
+  const latest = [...points].reverse().find(p => p.projected !== null && p.target !== null) ?? null;
+  const status: TargetStatus = !latest
+    ? 'no-data'
+    : (target.direction === 'decrease' ? latest.projected! <= latest.target! : latest.projected! >= latest.target!)
+      ? 'on-track'
+      : 'off-track';
+
+  return { target, metric: metricDef, points, status, latest };
+}
+
+export const TARGET_STATUS_LABELS: Record<TargetStatus, string> = {
+  'on-track': 'On track',
+  'off-track': 'Off track',
+  'no-data': 'No data',
+};
+
+const TARGETS_STORAGE_KEY = 'esg.reductionTargets';
+
+export function loadTargets(): ReductionTarget[] {
+  try {
+    const stored = localStorage.getItem(TARGETS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as ReductionTarget[]) : [];
+  } catch (error) {
+    console.warn('Unable to read reduction targets:', error);
+    return [];
+  }
+}
+
+export function saveTargets(targets: ReductionTarget[]) {
+  localStorage.setItem(TARGETS_STORAGE_KEY, JSON.stringify(targets));
+}
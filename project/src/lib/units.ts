@@ -0,0 +1,202 @@
+import { AttributeRecord, NormalizedQuantity } from '../services/esgRecords';
+
+// Units of measure with their physical dimension. Conversions go through the
+// dimension's base unit and are refused between dimensions: litres of diesel
+// are not kilograms without a density.
+
+export type Dimension = 'volume' | 'mass' | 'energy' | 'emissions' | 'concentration';
+
+export interface Unit {
+  id: string;
+  label: string;
+  dimension: Dimension;
+  // Size of one of this unit in the dimension's base unit
+  toBase: number;
+  aliases: string[];
+}
+
+export const BASE_UNITS: Record<Dimension, string> = {
+  volume: 'm3',
+  mass: 'kg',
+  energy: 'GJ',
+  emissions: 'tCO2e',
+  concentration: 'mg/Nm3',
+};
+
+// The server checks emission factor units against a copy of these (server/factorUnits.js)
+export const UNITS: Unit[] = [
+  { id: 'm3', label: 'm³', dimension: 'volume', toBase: 1, aliases: ['m3', 'm³', 'cum', 'cubic metre', 'cubic meter', 'cubic metres', 'cubic meters'] },
+  { id: 'KL', label: 'KL', dimension: 'volume', toBase: 1, aliases: ['kl', 'kilolitre', 'kiloliter', 'kilolitres', 'kiloliters'] },
+  { id: 'L', label: 'L', dimension: 'volume', toBase: 0.001, aliases: ['l', 'ltr', 'ltrs', 'litre', 'liter', 'litres', 'liters'] },
+  { id: 'ML', label: 'ML', dimension: 'volume', toBase: 1000, aliases: ['megalitre', 'megaliter', 'megalitres', 'megaliters'] },
+  // Gas at standard conditions, measured as volume
+  { id: 'SCM', label: 'SCM', dimension: 'volume', toBase: 1, aliases: ['scm', 'sm3', 'standard cubic metre', 'standard cubic meter'] },
+  { id: 'kg', label: 'kg', dimension: 'mass', toBase: 1, aliases: ['kg', 'kgs', 'kilogram', 'kilograms'] },
+  { id: 'g', label: 'g', dimension: 'mass', toBase: 0.001, aliases: ['g', 'gm', 'gram', 'grams'] },
+  { id: 'quintal', label: 'quintal', dimension: 'mass', toBase: 100, aliases: ['quintal', 'quintals', 'qtl'] },
+  { id: 'MT', label: 'MT', dimension: 'mass', toBase: 1000, aliases: ['mt', 't', 'tonne', 'tonnes', 'ton', 'tons', 'metric tonne', 'metric ton'] },
+  { id: 'GJ', label: 'GJ', dimension: 'energy', toBase: 1, aliases: ['gj', 'gigajoule', 'gigajoules'] },
+  { id: 'MJ', label: 'MJ', dimension: 'energy', toBase: 0.001, aliases: ['mj', 'megajoule', 'megajoules'] },
+  { id: 'TJ', label: 'TJ', dimension: 'energy', toBase: 1000, aliases: ['tj', 'terajoule', 'terajoules'] },
+  { id: 'kWh', label: 'kWh', dimension: 'energy', toBase: 0.0036, aliases: ['kwh', 'kilowatt hour', 'kilowatt hours'] },
+  { id: 'MWh', label: 'MWh', dimension: 'energy', toBase: 3.6, aliases: ['mwh', 'megawatt hour', 'megawatt hours'] },
+  { id: 'GWh', label: 'GWh', dimension: 'energy', toBase: 3600, aliases: ['gwh', 'gigawatt hour', 'gigawatt hours'] },
+  { id: 'kcal', label: 'kcal', dimension: 'energy', toBase: 4.184e-6, aliases: ['kcal', 'kilocalorie', 'kilocalories'] },
+  { id: 'MMBtu', label: 'MMBtu', dimension: 'energy', toBase: 1.055056, aliases: ['mmbtu'] },
+  { id: 'toe', label: 'toe', dimension: 'energy', toBase: 41.868, aliases: ['toe', 'tonne of oil equivalent', 'tonnes of oil equivalent'] },
+  { id: 'tCO2e', label: 'tCO₂e', dimension: 'emissions', toBase: 1, aliases: ['tco2e', 'tco2', 'tco₂e', 'tonnes co2e'] },
+  { id: 'kgCO2e', label: 'kgCO₂e', dimension: 'emissions', toBase: 0.001, aliases: ['kgco2e', 'kgco2', 'kgco₂e', 'kg co2e'] },
+  // Stack gas concentrations at normal conditions, as CPCB limits are stated
+  { id: 'mg/Nm3', label: 'mg/Nm³', dimension: 'concentration', toBase: 1, aliases: ['mg/nm3', 'mg/nm³', 'mg/nm^3'] },
+  { id: 'g/Nm3', label: 'g/Nm³', dimension: 'concentration', toBase: 1000, aliases: ['g/nm3', 'g/nm³', 'g/nm^3'] },
+  { id: 'µg/Nm3', label: 'µg/Nm³', dimension: 'concentration', toBase: 0.001, aliases: ['µg/nm3', 'µg/nm³', 'ug/nm3', 'mcg/nm3'] },
+];
+
+export class UnitDimensionError extends Error {
+  from: Unit;
+  to: Unit;
+
+  constructor(from: Unit, to: Unit) {
+    super(`Cannot convert ${from.label} (${from.dimension}) to ${to.label} (${to.dimension})`);
+    this.name = 'UnitDimensionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+const normalizeUnitText = (text: string) => text.replace(/\s+/g, ' ').replace(/\.$/, '').trim();
+
+/**
+ * Registry entry for a unit id or any of its spellings, e.g. "Litres", "KL",
+ * "m³". Ids match case-sensitively so "ML" (megalitre) is not read as millilitres.
+ */
+export function findUnit(text: string | null | undefined): Unit | null {
+  const key = normalizeUnitText(text ?? '');
+  if (!key) return null;
+  return UNITS.find(u => u.id === key) ?? UNITS.find(u => u.aliases.includes(key.toLowerCase())) ?? null;
+}
+
+export const unitsOf = (dimension: Dimension) => UNITS.filter(u => u.dimension === dimension);
+
+export const unitLabel = (id: string) => findUnit(id)?.label ?? id;
+
+/**
+ * `value` in `from` expressed in `to`. Throws UnitDimensionError when the two
+ * measure different things, and an Error when either unit is not in the registry.
+ */
+export function convert(value: number, from: string, to: string): number {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target) throw new Error(`Unknown unit: ${!source ? from : to}`);
+  if (source.dimension !== target.dimension) throw new UnitDimensionError(source, target);
+  return (value * source.toBase) / target.toBase;
+}
+
+// Unit in brackets at the end of a name: "2.Water(KL)", "Diesel (Litres)"
+export function unitInName(name: string | null | undefined): Unit | null {
+  const match = (name ?? '').match(/\(([^()]+)\)\s*$/);
+  return match ? findUnit(match[1]) : null;
+}
+
+// --- Per-module units ---------------------------------------------------------
+
+export interface ModuleUnit {
+  // Field holding the measured figure: Quantity, or Value where ConvFactor converts it (energy)
+  field: 'quantity' | 'value';
+  // Unit assumed when neither the row nor its attribute names one
+  defaultUnit: string | null;
+}
+
+export const MODULE_UNITS: Record<string, ModuleUnit> = {
+  water: { field: 'quantity', defaultUnit: 'KL' },
+  waste: { field: 'quantity', defaultUnit: 'MT' },
+  energy: { field: 'value', defaultUnit: 'GJ' },
+  electricity: { field: 'quantity', defaultUnit: 'kWh' },
+  fossilfuel: { field: 'quantity', defaultUnit: null },
+  // Readings are only compared with a limit when they name their unit
+  nonghg: { field: 'quantity', defaultUnit: null },
+};
+
+/**
+ * Unit of a row's measured figure. A quantity's unit is read from Parameter,
+ * Sub Category or Type ("Diesel (Litres)"), then the module default; a
+ * converted value's only from the attribute name ("3.Energy(GJ)"). The attribute
+ * name never gives a quantity's unit: "1.GHG(tCO2e)" is the unit of Value.
+ */
+export function recordUnit(record: AttributeRecord, moduleId: string): Unit | null {
+  const config = MODULE_UNITS[moduleId];
+  if (!config) return null;
+  const names = config.field === 'quantity'
+    ? [record.parameter, record.subCategory, record.type]
+    : [record.attribute];
+  for (const name of names) {
+    const unit = unitInName(name);
+    if (unit) return unit;
+  }
+  return findUnit(config.defaultUnit);
+}
+
+// The row's measured figure in the base unit of its dimension (m³, kg, GJ, tCO₂e)
+export function normalizeRecord<T extends AttributeRecord>(record: T, moduleId: string): T & NormalizedQuantity {
+  const unit = recordUnit(record, moduleId);
+  const measured = MODULE_UNITS[moduleId]?.field === 'value'
+    ? record.value || (record.quantity || 0) * (record.convFactor || 0)
+    : record.quantity || 0;
+  return {
+    ...record,
+    unit: unit?.id ?? null,
+    normalizedQuantity: unit ? measured * unit.toBase : null,
+    normalizedUnit: unit ? BASE_UNITS[unit.dimension] : null,
+  };
+}
+
+/**
+ * A normalized row in `displayUnit`, or null when it cannot be shown in it:
+ * its unit is unknown or measures a different dimension.
+ */
+export function displayQuantity(record: NormalizedQuantity, displayUnit: string): number | null {
+  if (record.normalizedQuantity === null || !record.normalizedUnit) return null;
+  try {
+    return convert(record.normalizedQuantity, record.normalizedUnit, displayUnit);
+  } catch (error) {
+    if (error instanceof UnitDimensionError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Rows with their measured field, and its unit, restated in `unit`. Rows that
+ * cannot be restated are dropped and counted per unit, so totals never mix dimensions.
+ */
+export function restateRecords<T extends NormalizedQuantity>(records: T[], field: ModuleUnit['field'], unit: string) {
+  const restated: T[] = [];
+  const refused = new Map<string, number>();
+  records.forEach(r => {
+    const quantity = displayQuantity(r, unit);
+    if (quantity === null) {
+      const key = r.unit ?? 'no unit';
+      refused.set(key, (refused.get(key) ?? 0) + 1);
+      return;
+    }
+    restated.push({ ...r, [field]: quantity, unit: findUnit(unit)?.id ?? unit });
+  });
+  return { records: restated, refused: Array.from(refused.entries()).map(([from, count]) => ({ unit: from, records: count })) };
+}
+
+// --- Display units ------------------------------------------------------------
+
+const DISPLAY_UNITS_STORAGE_KEY = 'esg.displayUnits';
+
+export function loadDisplayUnits(): Record<string, string> {
+  try {
+    const stored = localStorage.getItem(DISPLAY_UNITS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as Record<string, string>) : {};
+  } catch (error) {
+    console.warn('Unable to read display units:', error);
+    return {};
+  }
+}
+
+export function saveDisplayUnit(moduleId: string, unit: string) {
+  localStorage.setItem(DISPLAY_UNITS_STORAGE_KEY, JSON.stringify({ ...loadDisplayUnits(), [moduleId]: unit }));
+}
@@ -0,0 +1,123 @@
+import { fiscalMonthName } from './fiscalCalendar';
+
+// Waste hierarchy per GRI 306-4/5 and BRSR Core Attribute 4: each disposal
+// method is placed on the hierarchy, from reuse down to landfill, and waste is
+// split hazardous / non-hazardous.
+
+export type WasteTier = 'reuse' | 'recycle' | 'recover' | 'incinerate' | 'landfill' | 'unclassified';
+export type WasteHazard = 'hazardous' | 'nonHazardous';
+
+// Most preferred first
+export const WASTE_TIERS: { id: WasteTier; label: string; color: string }[] = [
+  { id: 'reuse', label: 'Reuse', color: '#10B981' },
+  { id: 'recycle', label: 'Recycle', color: '#3B82F6' },
+  { id: 'recover', label: 'Other recovery', color: '#8B5CF6' },
+  { id: 'incinerate', label: 'Incineration', color: '#F59E0B' },
+  { id: 'landfill', label: 'Landfill', color: '#EF4444' },
+  { id: 'unclassified', label: 'Unclassified', color: '#94A3B8' },
+];
+
+export const WASTE_HAZARDS: { id: WasteHazard; label: string }[] = [
+  { id: 'hazardous', label: 'Hazardous' },
+  { id: 'nonHazardous', label: 'Non-hazardous' },
+];
+
+interface WasteRow {
+  parameter?: string | null;
+  subCategory?: string | null;
+  type?: string | null;
+  plant?: string | null;
+  financialYear?: string | null;
+  month?: string | null;
+  quantity?: number | null;
+}
+
+const describe = (r: WasteRow) => [r.parameter, r.subCategory, r.type].filter(Boolean).join(' ');
+
+// First match wins: incineration with energy recovery is still incineration (a disposal route under GRI 306-5)
+const TIER_KEYWORDS: { tier: WasteTier; pattern: RegExp }[] = [
+  { tier: 'incinerate', pattern: /incinerat|burn/i },
+  { tier: 'reuse', pattern: /re-?us/i },
+  { tier: 'recycle', pattern: /recycl/i },
+  { tier: 'recover', pattern: /recover|co-?process|compost|biogas|anaerobic|pyroly|waste to energy/i },
+  { tier: 'landfill', pattern: /landfill|dump|dispos/i },
+];
+
+export const wasteTier = (record: WasteRow): WasteTier =>
+  TIER_KEYWORDS.find(k => k.pattern.test(describe(record)))?.tier ?? 'unclassified';
+
+const DIVERTED_TIERS: WasteTier[] = ['reuse', 'recycle', 'recover'];
+
+// Recovered through reuse, recycling or other recovery (BRSR Core 4.d, GRI 306-4)
+export const isRecovered = (record: WasteRow) => DIVERTED_TIERS.includes(wasteTier(record));
+
+// Incinerated or landfilled (BRSR Core 4.e, GRI 306-5)
+export const isDisposed = (record: WasteRow) => ['incinerate', 'landfill'].includes(wasteTier(record));
+
+// Hazardous when the row says so, or for bio-medical and radioactive streams
+export const wasteHazard = (record: WasteRow): WasteHazard => {
+  const text = describe(record);
+  if (/non[-\s]?hazardous/i.test(text)) return 'nonHazardous';
+  return /hazardous|bio[-\s]?medical|radioactive/i.test(text) ? 'hazardous' : 'nonHazardous';
+};
+
+export interface WasteHierarchySummary {
+  total: number;
+  byTier: Record<WasteTier, number>;
+  byHazard: Record<WasteHazard, Record<WasteTier, number>>;
+  // Share of waste not sent to landfill; unclassified waste counts as not diverted
+  diversionRate: number | null;
+  // Share recovered through reuse, recycling or other recovery
+  recoveryRate: number | null;
+}
+
+const tierZeros = () => Object.fromEntries(WASTE_TIERS.map(t => [t.id, 0])) as Record<WasteTier, number>;
+
+export function summarizeWasteHierarchy(records: WasteRow[]): WasteHierarchySummary {
+  const byTier = tierZeros();
+  const byHazard = { hazardous: tierZeros(), nonHazardous: tierZeros() };
+  records.forEach(r => {
+    const tier = wasteTier(r);
+    byTier[tier] += r.quantity || 0;
+    byHazard[wasteHazard(r)][tier] += r.quantity || 0;
+  });
+  const total = WASTE_TIERS.reduce((sum, t) => sum + byTier[t.id], 0);
+  const diverted = total - byTier.landfill - byTier.unclassified;
+  const recovered = DIVERTED_TIERS.reduce((sum, tier) => sum + byTier[tier], 0);
+  return {
+    total,
+    byTier,
+    byHazard,
+    diversionRate: total ? (diverted / total) * 100 : null,
+    recoveryRate: total ? (recovered / total) * 100 : null,
+  };
+}
+
+export type WasteHierarchyRow = { key: string; total: number; hazardous: number; nonHazardous: number; diversionRate: number | null } &
+  Record<WasteTier, number>;
+
+// Hierarchy per plant or per fiscal month, flattened for stacked charts
+export function wasteHierarchyBy<T extends WasteRow>(records: T[], keyOf: (record: T) => string): WasteHierarchyRow[] {
+  const groups = new Map<string, T[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+  return Array.from(groups.entries()).map(([key, rows]) => {
+    const summary = summarizeWasteHierarchy(rows);
+    const sumTiers = (tiers: Record<WasteTier, number>) => WASTE_TIERS.reduce((sum, t) => sum + tiers[t.id], 0);
+    return {
+      key,
+      ...summary.byTier,
+      total: summary.total,
+      hazardous: sumTiers(summary.byHazard.hazardous),
+      nonHazardous: sumTiers(summary.byHazard.nonHazardous),
+      diversionRate: summary.diversionRate,
+    };
+  });
+}
+
+export const wastePlantKey = (record: WasteRow) => (record.plant ?? '').trim() || 'Unknown';
+// Fiscal month within its financial year, e.g. "Apr 2023-24", so April of two years is not added together
+export const wasteMonthKey = (record: WasteRow) =>
+  `${fiscalMonthName(record.month).slice(0, 3) || 'Unknown'} ${(record.financialYear ?? '').trim() || 'Unknown'}`;
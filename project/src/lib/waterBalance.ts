@@ -0,0 +1,226 @@
+import { fiscalMonthName } from './fiscalCalendar';
+
+// Water balance per GRI 303-3/4/5 and BRSR Principle 6: withdrawal by source,
+// discharge by destination and treatment, consumption as withdrawal less
+// discharge, and recycled / reused water kept outside the balance.
+
+export type WaterFlow = 'withdrawal' | 'discharge' | 'consumption' | 'recycled' | 'unclassified';
+export type WithdrawalSource = 'surface' | 'ground' | 'thirdParty' | 'seawater' | 'other';
+export type DischargeDestination = 'surface' | 'ground' | 'seawater' | 'thirdParty' | 'other';
+export type TreatmentLevel = 'none' | 'primary' | 'secondary' | 'tertiary' | 'unspecified';
+
+export const WITHDRAWAL_SOURCES: { id: WithdrawalSource; label: string }[] = [
+  { id: 'surface', label: 'Surface water' },
+  { id: 'ground', label: 'Groundwater' },
+  { id: 'thirdParty', label: 'Third-party water' },
+  { id: 'seawater', label: 'Seawater / desalinated water' },
+  { id: 'other', label: 'Other / unspecified' },
+];
+
+export const DISCHARGE_DESTINATIONS: { id: DischargeDestination; label: string }[] = [
+  { id: 'surface', label: 'Surface water' },
+  { id: 'ground', label: 'Groundwater' },
+  { id: 'seawater', label: 'Seawater' },
+  { id: 'thirdParty', label: 'Third parties' },
+  { id: 'other', label: 'Other / unspecified' },
+];
+
+export const TREATMENT_LEVELS: { id: TreatmentLevel; label: string }[] = [
+  { id: 'none', label: 'No treatment' },
+  { id: 'primary', label: 'Primary' },
+  { id: 'secondary', label: 'Secondary' },
+  { id: 'tertiary', label: 'Tertiary' },
+  { id: 'unspecified', label: 'Not specified' },
+];
+
+interface WaterRow {
+  parameter?: string | null;
+  subCategory?: string | null;
+  type?: string | null;
+  plant?: string | null;
+  financialYear?: string | null;
+  month?: string | null;
+  quantity?: number | null;
+}
+
+const describe = (r: WaterRow) => [r.parameter, r.subCategory, r.type].filter(Boolean).join(' ');
+
+// First match wins, so recycled rows are not read as withdrawals or consumption
+const FLOW_KEYWORDS: { flow: WaterFlow; pattern: RegExp }[] = [
+  { flow: 'recycled', pattern: /recycl|re-?us|recirculat/i },
+  { flow: 'discharge', pattern: /discharg|effluent|waste ?water|outfall/i },
+  { flow: 'consumption', pattern: /consum/i },
+  { flow: 'withdrawal', pattern: /withdraw|abstract|intake/i },
+];
+
+const SOURCE_KEYWORDS: { id: WithdrawalSource; pattern: RegExp }[] = [
+  { id: 'seawater', pattern: /sea ?water|desalin|ocean|marine/i },
+  { id: 'thirdParty', pattern: /third[- ]?party|municipal|corporation|tanker|purchased|utility|supplied/i },
+  { id: 'ground', pattern: /ground ?water|bore ?well|tube ?well|aquifer/i },
+  { id: 'surface', pattern: /surface|river|lake|pond|canal|reservoir|dam\b|rain ?water/i },
+];
+
+const DESTINATION_KEYWORDS: { id: DischargeDestination; pattern: RegExp }[] = [
+  { id: 'seawater', pattern: /\bsea|ocean|marine/i },
+  { id: 'thirdParty', pattern: /third[- ]?party|municipal|sewer|cetp|common effluent/i },
+  { id: 'ground', pattern: /ground ?water|soak ?pit|percolat|recharge/i },
+  { id: 'surface', pattern: /surface|river|lake|stream|creek|canal|nala|drain/i },
+];
+
+const TREATMENT_KEYWORDS: { id: TreatmentLevel; pattern: RegExp }[] = [
+  { id: 'none', pattern: /untreated|no treatment|without treatment/i },
+  { id: 'tertiary', pattern: /tertiary|advanced|reverse osmosis|\bro\b|zld|zero liquid/i },
+  { id: 'secondary', pattern: /secondary|biological|activated sludge|\betp\b|\bstp\b/i },
+  { id: 'primary', pattern: /primary|sedimentation|screening|settling/i },
+];
+
+/**
+ * Where a water row sits in the balance, from Parameter, SubCategory and Type.
+ * Rows that only name a source ("Borewell", "Municipal supply") are withdrawals.
+ */
+export function classifyWaterFlow(record: WaterRow): WaterFlow {
+  const text = describe(record);
+  const keyword = FLOW_KEYWORDS.find(k => k.pattern.test(text));
+  if (keyword) return keyword.flow;
+  return SOURCE_KEYWORDS.some(k => k.pattern.test(text)) ? 'withdrawal' : 'unclassified';
+}
+
+export const withdrawalSource = (record: WaterRow): WithdrawalSource =>
+  SOURCE_KEYWORDS.find(k => k.pattern.test(describe(record)))?.id ?? 'other';
+
+export const dischargeDestination = (record: WaterRow): DischargeDestination =>
+  DESTINATION_KEYWORDS.find(k => k.pattern.test(describe(record)))?.id ?? 'other';
+
+export const treatmentLevel = (record: WaterRow): TreatmentLevel =>
+  TREATMENT_KEYWORDS.find(k => k.pattern.test(describe(record)))?.id ?? 'unspecified';
+
+export interface WaterBalance {
+  withdrawal: number;
+  bySource: Record<WithdrawalSource, number>;
+  discharge: number;
+  byDestination: Record<DischargeDestination, Record<TreatmentLevel, number>>;
+  // Withdrawal less discharge
+  consumption: number;
+  // Consumption rows recorded as such, shown beside the computed figure
+  reportedConsumption: number;
+  recycled: number;
+  unclassified: number;
+  records: number;
+}
+
+const zeros = <K extends string>(ids: { id: K }[]) =>
+  Object.fromEntries(ids.map(i => [i.id, 0])) as Record<K, number>;
+
+export function computeWaterBalance(records: WaterRow[]): WaterBalance {
+  const balance: WaterBalance = {
+    withdrawal: 0,
+    bySource: zeros(WITHDRAWAL_SOURCES),
+    discharge: 0,
+    byDestination: Object.fromEntries(DISCHARGE_DESTINATIONS.map(d => [d.id, zeros(TREATMENT_LEVELS)])) as WaterBalance['byDestination'],
+    consumption: 0,
+    reportedConsumption: 0,
+    recycled: 0,
+    unclassified: 0,
+    records: records.length,
+  };
+  records.forEach(r => {
+    const quantity = r.quantity || 0;
+    switch (classifyWaterFlow(r)) {
+      case 'withdrawal':
+        balance.withdrawal += quantity;
+        balance.bySource[withdrawalSource(r)] += quantity;
+        break;
+      case 'discharge':
+        balance.discharge += quantity;
+        balance.byDestination[dischargeDestination(r)][treatmentLevel(r)] += quantity;
+        break;
+      case 'consumption':
+        balance.reportedConsumption += quantity;
+        break;
+      case 'recycled':
+        balance.recycled += quantity;
+        break;
+      default:
+        balance.unclassified += quantity;
+    }
+  });
+  balance.consumption = balance.withdrawal - balance.discharge;
+  return balance;
+}
+
+const scaleRecord = <K extends string>(values: Record<K, number>, scale: (value: number) => number) =>
+  Object.fromEntries(Object.entries<number>(values).map(([k, v]) => [k, scale(v)])) as Record<K, number>;
+
+// Every volume in the balance passed through `scale`, e.g. to express it as an intensity
+export function scaleWaterBalance(balance: WaterBalance, scale: (value: number) => number): WaterBalance {
+  return {
+    ...balance,
+    withdrawal: scale(balance.withdrawal),
+    bySource: scaleRecord(balance.bySource, scale),
+    discharge: scale(balance.discharge),
+    byDestination: Object.fromEntries(
+      Object.entries(balance.byDestination).map(([d, levels]) => [d, scaleRecord(levels, scale)])
+    ) as WaterBalance['byDestination'],
+    consumption: scale(balance.consumption),
+    reportedConsumption: scale(balance.reportedConsumption),
+    recycled: scale(balance.recycled),
+    unclassified: scale(balance.unclassified),
+  };
+}
+
+// Signed contribution of a row to consumption, for summing per plant, month or report group
+export function consumptionContribution(record: WaterRow): number {
+  const flow = classifyWaterFlow(record);
+  if (flow === 'withdrawal') return record.quantity || 0;
+  if (flow === 'discharge') return -(record.quantity || 0);
+  return 0;
+}
+
+export interface WaterBalanceRow {
+  key: string;
+  withdrawal: number;
+  discharge: number;
+  consumption: number;
+  recycled: number;
+}
+
+// Balance per plant or per fiscal month
+export function waterBalanceBy<T extends WaterRow>(records: T[], keyOf: (record: T) => string): WaterBalanceRow[] {
+  const groups = new Map<string, T[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+  return Array.from(groups.entries()).map(([key, rows]) => {
+    const { withdrawal, discharge, consumption, recycled } = computeWaterBalance(rows);
+    return { key, withdrawal, discharge, consumption, recycled };
+  });
+}
+
+export const waterPlantKey = (record: WaterRow) => (record.plant ?? '').trim() || 'Unknown';
+// Fiscal month within its financial year, e.g. "Apr 2023-24", so April of two years is not added together
+export const waterMonthKey = (record: WaterRow) =>
+  `${fiscalMonthName(record.month).slice(0, 3) || 'Unknown'} ${(record.financialYear ?? '').trim() || 'Unknown'}`;
+
+// --- Plants in water-stressed areas ------------------------------------------
+
+const STRESSED_PLANTS_STORAGE_KEY = 'esg.waterStressedPlants';
+
+const normalizePlant = (plant: string) => plant.trim().toLowerCase();
+
+export function loadWaterStressedPlants(): string[] {
+  try {
+    const stored = localStorage.getItem(STRESSED_PLANTS_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch (error) {
+    console.warn('Unable to read water-stressed plants:', error);
+    return [];
+  }
+}
+
+export function saveWaterStressedPlants(plants: string[]) {
+  localStorage.setItem(STRESSED_PLANTS_STORAGE_KEY, JSON.stringify(plants));
+}
+
+export const isInStressedArea = (record: WaterRow, stressedPlants: string[]) =>
+  stressedPlants.some(p => normalizePlant(p) === normalizePlant(waterPlantKey(record)));
@@ -1,34 +1,81 @@
+import { z } from 'zod';
+import {
+    attributeRecordSchema,
+    attributeDetailRecordSchema,
+    fugitiveRecordSchema,
+    scope3RecordSchema,
+    diversityRecordSchema,
+    inclusionRecordSchema,
+    fairnessRecordSchema,
+    uploadedDatasetSchema,
+    emissionFactorSchema,
+    contractualInstrumentSchema,
+    structuralChangeSchema,
+    baseYearPolicySchema,
+    availableFiltersSchema,
+    AttributeRecord,
+    AttributeDetailRecord,
+    WaterRecord,
+    WasteRecord,
+    EnergyRecord,
+    ElectricityRecord,
+    FossilFuelRecord,
+    GHGRecord,
+    NonGHGRecord,
+    FugitiveRecord,
+    Scope3Record,
+    DiversityRecord,
+    InclusionRecord,
+    FairnessRecord,
+    UploadedDataset,
+    EmissionFactor,
+    EmissionFactorInput,
+    ContractualInstrument,
+    ContractualInstrumentInput,
+    StructuralChange,
+    StructuralChangeInput,
+    BaseYearPolicy,
+    BaseYearPolicyInput,
+    AvailableFilters,
+} from './esgRecords';
+import { validateRecords } from './recordValidation';
+import { normalizeRecord } from '../lib/units';
+
 export interface FilterOptions {
     year?: string;
     month?: string;
     businessCode?: string;
     plant?: string;
     department?: string;
+    // Indian financial-year periods: Q1 = Apr–Jun … Q4 = Jan–Mar, H1 = Apr–Sep, H2 = Oct–Mar
+    quarter?: string;
+    half?: string;
 }
 
 // Base API URL - adjust if backend is on different port
 const API_BASE_URL = 'http://localhost:3001/api';
 
-// Generic API call function
-async function apiCall<T>(endpoint: string, filters?: FilterOptions): Promise<T[]> {
+const buildUrl = (endpoint: string, filters?: FilterOptions) => {
+    const url = new URL(`${API_BASE_URL}${endpoint}`);
+    if (filters) {
+        Object.entries(filters).forEach(([key, value]) => {
+            if (value && value !== 'All') {
+                url.searchParams.append(key, value);
+            }
+        });
+    }
+    return url.toString();
+};
+
+// Generic API call function; every response is validated against its record schema
+async function apiCall<T>(endpoint: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, filters?: FilterOptions): Promise<T[]> {
     try {
-        const url = new URL(`${API_BASE_URL}${endpoint}`);
-        
-        // Add filters as query parameters
-        if (filters) {
-            Object.entries(filters).forEach(([key, value]) => {
-                if (value && value !== 'All') {
-                    url.searchParams.append(key, value);
-                }
-            });
-        }
-        
-        const response = await fetch(url.toString());
+        const response = await fetch(buildUrl(endpoint, filters));
         if (!response.ok) {
             throw new Error(`API call failed: ${response.statusText}`);
         }
         
-        return await response.json();
+        return validateRecords(endpoint, schema, await response.json());
     } catch (error) {
         console.error(`API call error for ${endpoint}:`, error);
         throw error;
@@ -36,78 +83,230 @@ async function apiCall<T>(endpoint: string, filters?: FilterOptions): Promise<T[
 }
 
 // Attribute Details Data Service
-export const getAttributeDetailsData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/attribute-details', filters);
+export const getAttributeDetailsData = async (filters?: FilterOptions): Promise<AttributeDetailRecord[]> => {
+    return apiCall('/attribute-details', attributeDetailRecordSchema, filters);
 };
 
 // Electricity Data Service
-export const getElectricityData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/electricity', filters);
+export const getElectricityData = async (filters?: FilterOptions): Promise<ElectricityRecord[]> => {
+    const records = await apiCall('/electricity', attributeRecordSchema, filters);
+    return records.map(r => normalizeRecord(r, 'electricity'));
 };
 
 // Water Data Service
-export const getWaterData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/water', filters);
+export const getWaterData = async (filters?: FilterOptions): Promise<WaterRecord[]> => {
+    const records = await apiCall('/water', attributeRecordSchema, filters);
+    return records.map(r => normalizeRecord(r, 'water'));
 };
 
 // Waste Data Service
-export const getWasteData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/waste', filters);
+export const getWasteData = async (filters?: FilterOptions): Promise<WasteRecord[]> => {
+    const records = await apiCall('/waste', attributeRecordSchema, filters);
+    return records.map(r => normalizeRecord(r, 'waste'));
 };
 
 // Energy Data Service
-export const getEnergyData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/energy', filters);
+export const getEnergyData = async (filters?: FilterOptions): Promise<EnergyRecord[]> => {
+    const records = await apiCall('/energy', attributeRecordSchema, filters);
+    return records.map(r => normalizeRecord(r, 'energy'));
 };
 
 // Fossil Fuel Data Service
-export const getFossilFuelData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/fossil-fuel', filters);
+export const getFossilFuelData = async (filters?: FilterOptions): Promise<FossilFuelRecord[]> => {
+    const records = await apiCall('/fossil-fuel', attributeRecordSchema, filters);
+    return records.map(r => normalizeRecord(r, 'fossilfuel'));
 };
 
 // Fugitive Data Service
-export const getFugitiveData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/fugitive', filters);
+export const getFugitiveData = async (filters?: FilterOptions): Promise<FugitiveRecord[]> => {
+    return apiCall('/fugitive', fugitiveRecordSchema, filters);
 };
 
 // Scope3 Data Service
-export const getScope3Data = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/scope3', filters);
+export const getScope3Data = async (filters?: FilterOptions): Promise<Scope3Record[]> => {
+    return getUploadedRecords('scope3', scope3RecordSchema, filters);
 };
 
 // Diversity Data Service
-export const getDiversityData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/diversity', filters);
+export const getDiversityData = async (filters?: FilterOptions): Promise<DiversityRecord[]> => {
+    return getUploadedRecords('diversity', diversityRecordSchema, filters);
 };
 
 // Inclusion Data Service
-export const getInclusionData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/inclusion', filters);
+export const getInclusionData = async (filters?: FilterOptions): Promise<InclusionRecord[]> => {
+    return getUploadedRecords('inclusion', inclusionRecordSchema, filters);
 };
 
 // Fairness Data Service
-export const getFairnessData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/fairness', filters);
+export const getFairnessData = async (filters?: FilterOptions): Promise<FairnessRecord[]> => {
+    return getUploadedRecords('fairness', fairnessRecordSchema, filters);
 };
 
 // Openness Data Service
-export const getOpennessData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/openness', filters);
+export const getOpennessData = async (filters?: FilterOptions): Promise<AttributeRecord[]> => {
+    return apiCall('/openness', attributeRecordSchema, filters);
 };
 
 // GHG Data Service  
-export const getGHGData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/ghg', filters);
+export const getGHGData = async (filters?: FilterOptions): Promise<GHGRecord[]> => {
+    return apiCall('/ghg', attributeRecordSchema, filters);
 };
 
 // Non-GHG Data Service
-export const getNonGHGData = async (filters?: FilterOptions): Promise<any[]> => {
-    return apiCall('/non-ghg', filters);
+export const getNonGHGData = async (filters?: FilterOptions): Promise<NonGHGRecord[]> => {
+    return apiCall('/non-ghg', attributeRecordSchema, filters);
 };
 
 // Generic ESG Data Service (for any data type)
-export const getGenericESGData = async (dataType: string, filters?: FilterOptions): Promise<any[]> => {
-    return apiCall(`/esg-data/${dataType}`, filters);
+// The generic endpoint returns raw recordset columns, so rows are only checked to be objects
+export const getGenericESGData = async (dataType: string, filters?: FilterOptions): Promise<Record<string, unknown>[]> => {
+    return apiCall(`/esg-data/${dataType}`, z.record(z.unknown()), filters);
+};
+
+// Distinct filter values with record counts, each list narrowed by the other selected filters
+export const getFilterOptions = async (filters?: FilterOptions): Promise<AvailableFilters> => {
+    const response = await fetch(buildUrl('/filter-options', filters));
+    if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+    }
+    return availableFiltersSchema.parse(await response.json());
+};
+
+// Uploaded Excel datasets. Records come back merged across uploads, newest upload
+// winning for each period and plant, and filtered like the database endpoints.
+export const getUploadedRecords = async <T>(module: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, filters?: FilterOptions): Promise<T[]> => {
+    return apiCall(`/uploads/${module}/records`, schema, filters);
+};
+
+export const getUploadedDatasets = async (module: string): Promise<UploadedDataset[]> => {
+    return apiCall(`/uploads/${module}/datasets`, uploadedDatasetSchema);
+};
+
+export const saveUploadedDataset = async <T>(
+    module: string,
+    dataset: { fileName: string; uploadedBy: string; records: T[] }
+): Promise<UploadedDataset> => {
+    const response = await fetch(`${API_BASE_URL}/uploads/${module}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(dataset),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Upload failed: ${response.statusText}`);
+    }
+    return uploadedDatasetSchema.parse(await response.json());
+};
+
+export const deleteUploadedDataset = async (module: string, id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/uploads/${module}/datasets/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+        throw new Error(`Delete failed: ${response.statusText}`);
+    }
+};
+
+// Emission factor library. Saving an existing factor keeps its previous values as a revision.
+export const getEmissionFactors = async (): Promise<EmissionFactor[]> => {
+    return apiCall('/emission-factors', emissionFactorSchema);
+};
+
+export const saveEmissionFactor = async (factor: EmissionFactorInput, id?: string): Promise<EmissionFactor> => {
+    const response = await fetch(`${API_BASE_URL}/emission-factors${id ? `/${id}` : ''}`, {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(factor),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Save failed: ${response.statusText}`);
+    }
+    return emissionFactorSchema.parse(await response.json());
+};
+
+// Retired factors stay in the library for the periods they covered
+export const retireEmissionFactor = async (id: string): Promise<EmissionFactor> => {
+    const response = await fetch(`${API_BASE_URL}/emission-factors/${id}/retire`, { method: 'POST' });
+    if (!response.ok) {
+        throw new Error(`Retire failed: ${response.statusText}`);
+    }
+    return emissionFactorSchema.parse(await response.json());
+};
+
+// Contractual instruments (RECs, PPAs, green tariffs); the plant filter narrows the list
+export const getContractualInstruments = async (filters?: FilterOptions): Promise<ContractualInstrument[]> => {
+    return apiCall('/contractual-instruments', contractualInstrumentSchema, filters?.plant ? { plant: filters.plant } : undefined);
+};
+
+export const saveContractualInstrument = async (instrument: ContractualInstrumentInput): Promise<ContractualInstrument> => {
+    const response = await fetch(`${API_BASE_URL}/contractual-instruments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(instrument),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Save failed: ${response.statusText}`);
+    }
+    return contractualInstrumentSchema.parse(await response.json());
+};
+
+export const deleteContractualInstrument = async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/contractual-instruments/${id}`, { method: 'DELETE' });
+    if (!response.ok) {
+        throw new Error(`Delete failed: ${response.statusText}`);
+    }
+};
+
+// Structural changes and the base-year recalculation policy
+export const getStructuralChanges = async (): Promise<StructuralChange[]> => {
+    return apiCall('/structural-changes', structuralChangeSchema);
+};
+
+export const saveStructuralChange = async (change: StructuralChangeInput): Promise<StructuralChange> => {
+    const response = await fetch(`${API_BASE_URL}/structural-changes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Save failed: ${response.statusText}`);
+    }
+    return structuralChangeSchema.parse(await response.json());
+};
+
+export const withdrawStructuralChange = async (id: string, withdrawnBy: string): Promise<StructuralChange> => {
+    const response = await fetch(`${API_BASE_URL}/structural-changes/${id}/withdraw`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ withdrawnBy }),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Withdraw failed: ${response.statusText}`);
+    }
+    return structuralChangeSchema.parse(await response.json());
+};
+
+export const getBaseYearPolicy = async (): Promise<BaseYearPolicy> => {
+    const response = await fetch(`${API_BASE_URL}/base-year-policy`);
+    if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+    }
+    return baseYearPolicySchema.parse(await response.json());
+};
+
+export const saveBaseYearPolicy = async (policy: BaseYearPolicyInput): Promise<BaseYearPolicy> => {
+    const response = await fetch(`${API_BASE_URL}/base-year-policy`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(policy),
+    });
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || `Save failed: ${response.statusText}`);
+    }
+    return baseYearPolicySchema.parse(await response.json());
 };
 
 // Health check
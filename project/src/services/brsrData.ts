@@ -0,0 +1,70 @@
+import {
+    FilterOptions,
+    getDiversityData,
+    getEnergyData,
+    getFairnessData,
+    getEmissionFactors,
+    getFilterOptions,
+    getGHGData,
+    getInclusionData,
+    getScope3Data,
+    getUploadedRecords,
+    getWasteData,
+    getWaterData,
+} from './apiService';
+import { BrsrSourceData } from '../lib/brsrCore';
+import { applyEmissionFactors, storedEmissions } from '../lib/emissionFactors';
+import { OPENNESS_SCHEMA } from '../lib/ingestionSchemas';
+import { fiscalYearStart } from '../lib/fiscalCalendar';
+
+// Without the factor library, rows keep their stored emissions
+const loadGHG = async (filters?: FilterOptions) => {
+    const [records, factors] = await Promise.all([getGHGData(filters), getEmissionFactors().catch(() => [])]);
+    return applyEmissionFactors(records, factors, storedEmissions);
+};
+
+const BRSR_LOADERS: { [K in keyof BrsrSourceData]: { name: string; load: (filters?: FilterOptions) => Promise<BrsrSourceData[K]> } } = {
+    ghg: { name: 'GHG Emissions', load: loadGHG },
+    water: { name: 'Water', load: getWaterData },
+    energy: { name: 'Energy', load: getEnergyData },
+    waste: { name: 'Waste', load: getWasteData },
+    diversity: { name: 'Diversity', load: getDiversityData },
+    inclusion: { name: 'Inclusion', load: getInclusionData },
+    fairness: { name: 'Fairness', load: getFairnessData },
+    openness: { name: 'Openness', load: filters => getUploadedRecords(OPENNESS_SCHEMA.id, OPENNESS_SCHEMA.recordSchema, filters) },
+    scope3: { name: 'Scope 3', load: getScope3Data },
+};
+
+export interface BrsrDataResult {
+    data: BrsrSourceData;
+    // Sources that failed to load; their KPIs show as having no data
+    failed: string[];
+}
+
+// Every BRSR Core source under the given filters. One failing source does not block the rest.
+export const loadBrsrData = async (filters?: FilterOptions): Promise<BrsrDataResult> => {
+    const keys = Object.keys(BRSR_LOADERS) as (keyof BrsrSourceData)[];
+    const settled = await Promise.allSettled(keys.map(key => BRSR_LOADERS[key].load(filters)));
+
+    const data = {} as Record<keyof BrsrSourceData, unknown[]>;
+    const failed: string[] = [];
+    settled.forEach((outcome, idx) => {
+        const key = keys[idx];
+        if (outcome.status === 'fulfilled') {
+            data[key] = outcome.value;
+        } else {
+            console.error(`BRSR ${BRSR_LOADERS[key].name} API error:`, outcome.reason);
+            data[key] = [];
+            failed.push(BRSR_LOADERS[key].name);
+        }
+    });
+    return { data: data as BrsrSourceData, failed };
+};
+
+// The financial year before the selected one, as labelled in the data (e.g. "2022-23" for "2023-24")
+export const findPreviousFinancialYear = async (financialYear: string, filters?: FilterOptions): Promise<string | null> => {
+    const start = fiscalYearStart(financialYear);
+    if (start === null) return null;
+    const options = await getFilterOptions({ ...filters, year: 'All' });
+    return options.years.find(option => fiscalYearStart(option.value) === start - 1)?.value ?? null;
+};
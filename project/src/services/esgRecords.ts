@@ -0,0 +1,272 @@
+import { z } from 'zod';
+
+// Column helpers. SQL Server returns BIGINT (ROW_NUMBER) as string, Excel sheets
+// return whatever the cell holds, so identifiers accept both and text columns
+// read a number (e.g. a numeric business code) as its string.
+const id = z.union([z.number(), z.string()]);
+const text = z.union([z.string(), z.number()]).transform(String).nullable();
+const amount = z.number().finite();
+
+// Columns projected by the ESG module endpoints (/water, /waste, /ghg, ...)
+export const attributeRecordSchema = z.object({
+    srNo: id,
+    attributeId: id,
+    financialYear: text,
+    month: text,
+    businessCode: text,
+    plant: text,
+    department: text,
+    attribute: text,
+    parameter: text,
+    subCategory: text,
+    type: text,
+    quantity: amount,
+    convFactor: amount,
+    value: amount,
+    cfStd: amount,
+});
+
+// /attribute-details additionally returns the source serial and objective code
+export const attributeDetailRecordSchema = attributeRecordSchema.extend({
+    srNoAlt: id.nullable(),
+    objectiveCode: text,
+});
+
+// Fugitive sheets carry intensity columns on top of the AttributeDetail layout
+export const fugitiveRecordSchema = attributeRecordSchema.extend({
+    srNoAlt: id.nullable().optional(),
+    objectiveCode: text.optional(),
+    rIntensity: amount.optional(),
+    pppIntensity: amount.optional(),
+    convStandards: text.optional(),
+    docStatus: text.optional(),
+    pendingWith: text.optional(),
+});
+
+export const scope3RecordSchema = z.object({
+    srNo: id,
+    brsrId: text,
+    financialYear: text,
+    businessCode: text,
+    plant: text,
+    department: text,
+    attribute: text,
+    parameter: text,
+    subCategory: text,
+    totalQuantity: amount,
+    totalEFFuel: amount,
+    totalValue: amount,
+    docStatus: text,
+    pendingWith: text,
+});
+
+export const diversityRecordSchema = z.object({
+    srNo: id,
+    srNoAlt: id.nullable(),
+    objectiveCode: text,
+    financialYear: text,
+    month: text,
+    attribute: text,
+    dim1: text,
+    dim2: text,
+    emissionSource: text,
+    startDate: text,
+    endDate: text,
+    wagesFemales: amount,
+    wagesMales: amount,
+    totalComplaints: amount,
+    complaintsByFemale: amount,
+    poshUpheld: amount,
+    complianceInd: text,
+});
+
+export const inclusionRecordSchema = z.object({
+    srNo: id,
+    assetComplianceId: id.nullable(),
+    remarkSerialNo: id.nullable(),
+    attribute: text,
+    objectiveCode: text,
+    financialYear: text,
+    month: text,
+    dim1: text,
+    dim2: text,
+    dim3: text,
+    actualDate: text,
+    dueDate: text,
+    rural: amount,
+    semiUrban: amount,
+    urban: amount,
+    metropolitan: amount,
+    msmePurchase: amount,
+    directlyFromIndia: amount,
+    docStatus: text,
+    pendingWith: text,
+});
+
+export const fairnessRecordSchema = z.object({
+    srNo: id,
+    srNoAlt: id.nullable(),
+    objectiveCode: text,
+    financialYear: text,
+    month: text,
+    dim1: text,
+    dim2: text,
+    attribute: text,
+    startDate: text,
+    endDate: text,
+    accountsPayable: amount,
+    customerDataBreachPct: amount,
+    complianceInd: text,
+});
+
+export const opennessRecordSchema = z.object({
+    srNo: id,
+    srNoAlt: id.nullable(),
+    objectiveCode: text,
+    financialYear: text,
+    month: text,
+    dim1: text,
+    dim2: text,
+    attribute: text,
+    emissionSource: text,
+    startDate: text,
+    endDate: text,
+    noTradingHouses: amount,
+    percentTotalPurchases: amount,
+    top10PercentTH: amount,
+    noDealers: amount,
+    percentTotalSalers: amount,
+    top10PercentTHSales: amount,
+    rptPurchases: amount,
+    rptSales: amount,
+    rptLA: amount,
+    rptInvestments: amount,
+    actualCompliance: text,
+});
+
+// Metadata kept for each Excel dataset saved through /uploads/:module
+export const uploadedDatasetSchema = z.object({
+    id: z.string(),
+    module: z.string(),
+    fileName: z.string(),
+    uploadedBy: z.string(),
+    uploadedAt: z.string(),
+    recordCount: z.number(),
+});
+
+// /emission-factors: a library factor with the earlier values it replaced, newest first
+const emissionFactorFields = {
+    source: z.string(),
+    region: z.string(),
+    year: z.number(),
+    standard: z.enum(['CEA', 'IPCC', 'DEFRA', 'Other']),
+    vintage: z.string(),
+    value: amount,
+    unit: z.string(),
+    effectiveFrom: z.string(),
+    effectiveTo: z.string().nullable(),
+    updatedAt: z.string(),
+};
+
+export const emissionFactorSchema = z.object({
+    id: z.string(),
+    ...emissionFactorFields,
+    // Set when the factor was retired; its effective dates end that day
+    retiredAt: z.string().nullable().optional(),
+    revisions: z.array(z.object(emissionFactorFields)),
+});
+
+// /contractual-instruments: energy attribute certificates and contracts for market-based Scope 2
+export const contractualInstrumentSchema = z.object({
+    id: z.string(),
+    type: z.enum(['REC', 'PPA', 'Green Tariff']),
+    plant: z.string(),
+    // Inclusive "YYYY-MM" months the instrument covers
+    periodFrom: z.string(),
+    periodTo: z.string(),
+    // kWh covered over the whole period
+    quantity: amount,
+    // tCO2e per kWh of the contracted supply; 0 for renewable sources
+    emissionFactor: amount,
+    supplier: z.string(),
+    reference: z.string(),
+    createdAt: z.string(),
+});
+
+export const structuralChangeSchema = z.object({
+    id: z.string(),
+    type: z.enum(['Acquisition', 'Divestment', 'Methodology Change']),
+    // Plant (Dim2) acquired or divested; empty for methodology changes
+    plant: z.string(),
+    // Module id the change applies to; empty for all modules
+    moduleId: z.string(),
+    effectiveDate: z.string(),
+    // Methodology changes: percentage change in the base-year value
+    adjustmentPercent: amount,
+    description: z.string(),
+    recordedBy: z.string(),
+    recordedAt: z.string(),
+    withdrawnAt: z.string().nullable(),
+    withdrawnBy: z.string(),
+});
+
+const baseYearPolicyFields = z.object({
+    baseYear: z.string(),
+    // Cumulative change, as % of the base-year value, at which baselines are restated
+    significanceThreshold: amount,
+    updatedAt: z.string().nullable(),
+    updatedBy: z.string(),
+});
+
+export const baseYearPolicySchema = baseYearPolicyFields.extend({
+    revisions: z.array(baseYearPolicyFields),
+});
+
+// /filter-options: distinct values per filter with the number of matching records
+const filterOptionCount = z.object({
+    value: z.string(),
+    count: z.number(),
+});
+
+export const availableFiltersSchema = z.object({
+    years: z.array(filterOptionCount),
+    months: z.array(filterOptionCount),
+    businessCodes: z.array(filterOptionCount),
+    plants: z.array(filterOptionCount),
+    departments: z.array(filterOptionCount),
+});
+
+export type AttributeRecord = z.infer<typeof attributeRecordSchema>;
+export type AttributeDetailRecord = z.infer<typeof attributeDetailRecordSchema>;
+// Set by apiService from the unit in the row or attribute name; null when no unit is known
+export interface NormalizedQuantity {
+    unit: string | null;
+    // Quantity (Value for energy) in the base unit of its dimension: m³, kg or GJ
+    normalizedQuantity: number | null;
+    normalizedUnit: string | null;
+}
+
+export type WaterRecord = AttributeRecord & NormalizedQuantity;
+export type WasteRecord = AttributeRecord & NormalizedQuantity;
+export type EnergyRecord = AttributeRecord & NormalizedQuantity;
+export type ElectricityRecord = AttributeRecord & NormalizedQuantity;
+export type FossilFuelRecord = AttributeRecord & NormalizedQuantity;
+export type GHGRecord = AttributeRecord;
+export type NonGHGRecord = AttributeRecord;
+export type FugitiveRecord = z.infer<typeof fugitiveRecordSchema>;
+export type Scope3Record = z.infer<typeof scope3RecordSchema>;
+export type DiversityRecord = z.infer<typeof diversityRecordSchema>;
+export type InclusionRecord = z.infer<typeof inclusionRecordSchema>;
+export type FairnessRecord = z.infer<typeof fairnessRecordSchema>;
+export type OpennessRecord = z.infer<typeof opennessRecordSchema>;
+export type UploadedDataset = z.infer<typeof uploadedDatasetSchema>;
+export type EmissionFactor = z.infer<typeof emissionFactorSchema>;
+export type EmissionFactorInput = Omit<EmissionFactor, 'id' | 'updatedAt' | 'retiredAt' | 'revisions'>;
+export type ContractualInstrument = z.infer<typeof contractualInstrumentSchema>;
+export type ContractualInstrumentInput = Omit<ContractualInstrument, 'id' | 'createdAt'>;
+export type StructuralChange = z.infer<typeof structuralChangeSchema>;
+export type StructuralChangeInput = Omit<StructuralChange, 'id' | 'recordedAt' | 'withdrawnAt' | 'withdrawnBy'>;
+export type BaseYearPolicy = z.infer<typeof baseYearPolicySchema>;
+export type BaseYearPolicyInput = Omit<BaseYearPolicy, 'updatedAt' | 'revisions'>;
+export type FilterOptionCount = z.infer<typeof filterOptionCount>;
+export type AvailableFilters = z.infer<typeof availableFiltersSchema>;
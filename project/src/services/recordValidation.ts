@@ -0,0 +1,84 @@
+import { z } from 'zod';
+
+export interface RowIssue {
+    path: string;
+    message: string;
+}
+
+export interface MalformedRow {
+    index: number;
+    issues: RowIssue[];
+}
+
+export interface ValidationReport {
+    endpoint: string;
+    totalRows: number;
+    validRows: number;
+    malformedRows: MalformedRow[];
+    checkedAt: string;
+}
+
+type ValidationListener = (reports: ValidationReport[]) => void;
+
+// Latest report per endpoint, so the dashboard can surface schema drift
+const reports = new Map<string, ValidationReport>();
+const listeners = new Set<ValidationListener>();
+
+const notify = () => {
+    const snapshot = getValidationReports();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+export const getValidationReports = (): ValidationReport[] => Array.from(reports.values());
+
+export const subscribeToValidationReports = (listener: ValidationListener): (() => void) => {
+    listeners.add(listener);
+    listener(getValidationReports());
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Checks every row of an API response against its record schema.
+ * Rows that fail are dropped from the result and listed in the endpoint's
+ * report instead of flowing into the charts as zeros.
+ */
+export function validateRecords<T>(endpoint: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, payload: unknown): T[] {
+    if (!Array.isArray(payload)) {
+        throw new Error(`Unexpected response for ${endpoint}: expected an array of records`);
+    }
+
+    const records: T[] = [];
+    const malformedRows: MalformedRow[] = [];
+
+    payload.forEach((row, index) => {
+        const result = schema.safeParse(row);
+        if (result.success) {
+            records.push(result.data);
+        } else {
+            malformedRows.push({
+                index,
+                issues: result.error.issues.map(issue => ({
+                    path: issue.path.join('.') || '(row)',
+                    message: issue.message,
+                })),
+            });
+        }
+    });
+
+    if (malformedRows.length > 0) {
+        console.warn(`${malformedRows.length} of ${payload.length} rows from ${endpoint} failed validation`, malformedRows.slice(0, 10));
+    }
+
+    reports.set(endpoint, {
+        endpoint,
+        totalRows: payload.length,
+        validRows: records.length,
+        malformedRows,
+        checkedAt: new Date().toISOString(),
+    });
+    notify();
+
+    return records;
+}
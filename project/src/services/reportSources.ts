@@ -0,0 +1,269 @@
+import {
+    FilterOptions,
+    getAttributeDetailsData,
+    getElectricityData,
+    getEmissionFactors,
+    getContractualInstruments,
+    getEnergyData,
+    getFossilFuelData,
+    getGHGData,
+    getNonGHGData,
+    getUploadedRecords,
+    getWasteData,
+    getWaterData,
+} from './apiService';
+import {
+    AttributeDetailRecord,
+    AttributeRecord,
+    DiversityRecord,
+    FairnessRecord,
+    FugitiveRecord,
+    InclusionRecord,
+    OpennessRecord,
+    Scope3Record,
+} from './esgRecords';
+import {
+    DIVERSITY_SCHEMA,
+    FAIRNESS_SCHEMA,
+    FUGITIVE_SCHEMA,
+    INCLUSION_SCHEMA,
+    OPENNESS_SCHEMA,
+    SCOPE3_SCHEMA,
+} from '../lib/ingestionSchemas';
+import { IngestionSchema } from '../lib/excelIngestion';
+import { applyEmissionFactors, applyGhgEmissionFactors, storedEmissions, WithEmissionFactor } from '../lib/emissionFactors';
+import { computeMarketBased } from '../lib/marketBasedScope2';
+import { classifyWaterFlow, consumptionContribution, isInStressedArea, loadWaterStressedPlants } from '../lib/waterBalance';
+import { isRecovered, wasteHazard, wasteTier } from '../lib/wasteHierarchy';
+import { energyInGJ, isRenewableSource, loadEnergySourceRules } from '../lib/energyMix';
+
+export interface ReportMetric<T> {
+    label: string;
+    value(record: T): number;
+    // Percentages and ratios are averaged instead of summed
+    average?: boolean;
+}
+
+/**
+ * How a dashboard module contributes to the exported report: where its records
+ * come from under the current filters and which figures go on its summary sheet.
+ * Ids match the module ids in ESGDashboard.
+ */
+export interface ReportSource<T = unknown> {
+    id: string;
+    name: string;
+    // Short prefix for sheet names (Excel caps them at 31 characters)
+    sheetPrefix: string;
+    groupLabel: string;
+    load(filters?: FilterOptions): Promise<T[]>;
+    groupBy(record: T): string | null;
+    metrics: ReportMetric<T>[];
+    // Drive the board pack's monthly trend and overview charts; Scope 3 sheets have no month
+    month?(record: T): string | null;
+    category?: { label: string; value(record: T): string | null };
+}
+
+const source = <T>(definition: ReportSource<T>) => definition;
+
+const attributeMetrics = (quantityLabel: string): ReportMetric<AttributeRecord>[] => [
+    { label: quantityLabel, value: r => r.quantity || 0 },
+    { label: 'Value', value: r => r.value || 0 },
+];
+
+const byPlant = (r: { plant: string | null }) => r.plant;
+const byDim2 = (r: { dim2: string | null }) => r.dim2;
+const byMonth = (r: { month: string | null }) => r.month;
+const byAttribute = { label: 'Attribute', value: (r: { attribute: string | null }) => r.attribute };
+
+// Excel-upload modules read from the upload store, like the modules themselves
+const uploaded = <T>(schema: IngestionSchema<T>) => (filters?: FilterOptions) =>
+    getUploadedRecords(schema.id, schema.recordSchema, filters);
+
+// Rows with the library factor that produced their CO2, flattened for the data sheet
+type EmissionReportRecord<T> = T & {
+    co2Emissions: number;
+    storedEmissions: number;
+    emissionFactor: number;
+    emissionFactorSource: string;
+};
+
+const flattenEmissionFactor = <T extends object>({ emissionFactor, ...record }: WithEmissionFactor<T>) => ({
+    ...record,
+    emissionFactor: emissionFactor.factor,
+    emissionFactorSource: emissionFactor.label,
+}) as EmissionReportRecord<T>;
+
+// Without the factor library, rows keep their stored emissions
+const loadEmissionFactors = () => getEmissionFactors().catch(() => []);
+
+// Electricity rows also carry their market-based share
+type ElectricityReportRecord = EmissionReportRecord<AttributeRecord & { marketEmissions: number }>;
+
+const loadElectricity = async (filters?: FilterOptions): Promise<ElectricityReportRecord[]> => {
+    const [records, factors, instruments] = await Promise.all([
+        getElectricityData(filters),
+        loadEmissionFactors(),
+        getContractualInstruments(filters).catch(() => []),
+    ]);
+    const marketBased = computeMarketBased(applyEmissionFactors(records, factors), instruments, factors);
+    return marketBased.records.map(flattenEmissionFactor);
+};
+
+const loadGHG = async (filters?: FilterOptions): Promise<EmissionReportRecord<AttributeRecord>[]> => {
+    const [records, factors] = await Promise.all([getGHGData(filters), loadEmissionFactors()]);
+    return applyEmissionFactors(records, factors, storedEmissions).map(flattenEmissionFactor);
+};
+
+// The Fossil Fuel extract mixes GHG rows with energy rows; only the GHG rows carry emissions
+const loadFossilFuel = async (filters?: FilterOptions): Promise<(AttributeRecord & Partial<EmissionReportRecord<object>>)[]> => {
+    const [records, factors] = await Promise.all([getFossilFuelData(filters), loadEmissionFactors()]);
+    return applyGhgEmissionFactors(records, factors).map(r => ('emissionFactor' in r ? flattenEmissionFactor(r) : r));
+};
+
+const loadFugitive = async (filters?: FilterOptions): Promise<EmissionReportRecord<FugitiveRecord>[]> => {
+    const [records, factors] = await Promise.all([uploaded(FUGITIVE_SCHEMA)(filters), loadEmissionFactors()]);
+    return applyEmissionFactors(records, factors, storedEmissions).map(flattenEmissionFactor);
+};
+
+export const REPORT_SOURCES: ReportSource[] = [
+    source<AttributeDetailRecord>({
+        id: 'attribute', name: 'Attribute Details', sheetPrefix: 'Attribute', groupLabel: 'Plant',
+        load: getAttributeDetailsData, groupBy: byPlant,
+        month: byMonth, category: byAttribute, metrics: attributeMetrics('Quantity'),
+    }),
+    source<EmissionReportRecord<AttributeRecord>>({
+        id: 'ghg', name: 'GHG Emissions', sheetPrefix: 'GHG', groupLabel: 'Plant',
+        load: loadGHG, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [{ label: 'Emissions (tCO2e)', value: r => r.co2Emissions }],
+    }),
+    source<AttributeRecord>({
+        id: 'nonghg', name: 'Non-GHG Emissions', sheetPrefix: 'Non-GHG', groupLabel: 'Plant',
+        load: getNonGHGData, groupBy: byPlant,
+        month: byMonth, category: byAttribute, metrics: attributeMetrics('Quantity'),
+    }),
+    source<ElectricityReportRecord>({
+        id: 'electricity', name: 'Electricity Data', sheetPrefix: 'Electricity', groupLabel: 'Plant',
+        load: loadElectricity, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Consumption (kWh)', value: r => r.quantity || 0 },
+            { label: 'Energy (GJ)', value: r => energyInGJ(r, 'electricity', []) ?? 0 },
+            { label: 'CO2 location-based (tCO2e)', value: r => r.co2Emissions },
+            { label: 'CO2 market-based (tCO2e)', value: r => r.marketEmissions },
+        ],
+    }),
+    source<AttributeRecord>({
+        id: 'water', name: 'Water', sheetPrefix: 'Water', groupLabel: 'Plant',
+        load: getWaterData, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            ...attributeMetrics('Quantity (KL)'),
+            { label: 'Withdrawal (KL)', value: r => (classifyWaterFlow(r) === 'withdrawal' ? r.quantity || 0 : 0) },
+            { label: 'Discharge (KL)', value: r => (classifyWaterFlow(r) === 'discharge' ? r.quantity || 0 : 0) },
+            { label: 'Consumption (KL)', value: consumptionContribution },
+            { label: 'Recycled / reused (KL)', value: r => (classifyWaterFlow(r) === 'recycled' ? r.quantity || 0 : 0) },
+            {
+                label: 'Withdrawal in water-stressed areas (KL)',
+                value: r => (classifyWaterFlow(r) === 'withdrawal' && isInStressedArea(r, loadWaterStressedPlants()) ? r.quantity || 0 : 0),
+            },
+        ],
+    }),
+    source<AttributeRecord>({
+        id: 'waste', name: 'Waste', sheetPrefix: 'Waste', groupLabel: 'Plant',
+        load: getWasteData, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            ...attributeMetrics('Quantity (MT)'),
+            { label: 'Recovered (MT)', value: r => (isRecovered(r) ? r.quantity || 0 : 0) },
+            { label: 'Landfilled (MT)', value: r => (wasteTier(r) === 'landfill' ? r.quantity || 0 : 0) },
+            { label: 'Hazardous (MT)', value: r => (wasteHazard(r) === 'hazardous' ? r.quantity || 0 : 0) },
+        ],
+    }),
+    source<AttributeRecord>({
+        id: 'energy', name: 'Energy', sheetPrefix: 'Energy', groupLabel: 'Plant',
+        load: getEnergyData, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Energy (GJ)', value: r => energyInGJ(r, 'energy', []) ?? 0 },
+            {
+                label: 'Renewable energy (GJ)',
+                value: r => (isRenewableSource(r, loadEnergySourceRules()) ? energyInGJ(r, 'energy', []) ?? 0 : 0),
+            },
+        ],
+    }),
+    source<AttributeRecord & Partial<EmissionReportRecord<object>>>({
+        id: 'fossilfuel', name: 'Fossil Fuel', sheetPrefix: 'Fossil Fuel', groupLabel: 'Plant',
+        load: loadFossilFuel, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Quantity', value: r => r.quantity || 0 },
+            // tCO2e from the library on GHG rows, the stored Value on the rest
+            { label: 'Value', value: r => r.co2Emissions ?? (r.value || 0) },
+            { label: 'Energy (GJ)', value: r => energyInGJ(r, 'fuel', loadEnergySourceRules()) ?? 0 },
+        ],
+    }),
+    source<EmissionReportRecord<FugitiveRecord>>({
+        id: 'fugitive', name: 'Fugitive', sheetPrefix: 'Fugitive', groupLabel: 'Plant',
+        load: loadFugitive, groupBy: byPlant,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Quantity', value: r => r.quantity || 0 },
+            { label: 'Value', value: r => r.co2Emissions },
+        ],
+    }),
+    source<Scope3Record>({
+        id: 'scope3', name: 'Scope 3', sheetPrefix: 'Scope 3', groupLabel: 'Plant',
+        load: uploaded(SCOPE3_SCHEMA), groupBy: byPlant,
+        category: { label: 'Sub Category', value: r => r.subCategory },
+        metrics: [
+            { label: 'Total Quantity', value: r => r.totalQuantity },
+            { label: 'Total Value', value: r => r.totalValue },
+        ],
+    }),
+    source<DiversityRecord>({
+        id: 'diversity', name: 'Diversity', sheetPrefix: 'Diversity', groupLabel: 'Dim2',
+        load: uploaded(DIVERSITY_SCHEMA), groupBy: byDim2,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Wages Paid To Females', value: r => r.wagesFemales },
+            { label: 'Wages Paid To Males', value: r => r.wagesMales },
+            { label: 'Total Complaints', value: r => r.totalComplaints },
+            { label: 'POSH Complaints Upheld', value: r => r.poshUpheld },
+        ],
+    }),
+    source<InclusionRecord>({
+        id: 'inclusion', name: 'Inclusion', sheetPrefix: 'Inclusion', groupLabel: 'Dim2',
+        load: uploaded(INCLUSION_SCHEMA), groupBy: byDim2,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Rural', value: r => r.rural },
+            { label: 'Semi Urban', value: r => r.semiUrban },
+            { label: 'Urban', value: r => r.urban },
+            { label: 'Metropolitan', value: r => r.metropolitan },
+            { label: 'MSME Purchase', value: r => r.msmePurchase },
+            { label: 'Directly from India', value: r => r.directlyFromIndia },
+        ],
+    }),
+    source<FairnessRecord>({
+        id: 'fairness', name: 'Fairness', sheetPrefix: 'Fairness', groupLabel: 'Dim2',
+        load: uploaded(FAIRNESS_SCHEMA), groupBy: byDim2,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'Accounts Payable', value: r => r.accountsPayable },
+            { label: 'Customer Data Breach % (avg)', value: r => r.customerDataBreachPct, average: true },
+        ],
+    }),
+    source<OpennessRecord>({
+        id: 'openness', name: 'Openness', sheetPrefix: 'Openness', groupLabel: 'Dim2',
+        load: uploaded(OPENNESS_SCHEMA), groupBy: byDim2,
+        month: byMonth, category: byAttribute,
+        metrics: [
+            { label: 'RPT Purchases', value: r => r.rptPurchases },
+            { label: 'RPT Sales', value: r => r.rptSales },
+            { label: 'RPT L & A', value: r => r.rptLA },
+            { label: 'RPT Investments', value: r => r.rptInvestments },
+            { label: '% of Total Purchases (avg)', value: r => r.percentTotalPurchases, average: true },
+        ],
+    }),
+];